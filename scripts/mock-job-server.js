@@ -0,0 +1,399 @@
+/**
+ * Mock job server for exercising job update transports locally.
+ *
+ * Serves the subset of the bin2nlp API used for job tracking, with simulated progress:
+ *   POST   /api/v1/decompile             submit a job
+ *   POST   /api/v1/decompile/:id/translate  re-translate a completed job's decompilation
+ *   GET    /api/v1/decompile/:id         job status (polling)
+ *   DELETE /api/v1/decompile/:id         cancel a job
+ *   GET    /api/v1/decompile/events      Server-Sent Events (?job_ids=a,b)
+ *   WS     /api/v1/decompile/ws          WebSocket (subscribe/unsubscribe messages)
+ *
+ * Usage: npm run mock:server -- [--port 8001] [--no-sse] [--no-ws]
+ * Then start the UI with VITE_API_BASE_URL=http://localhost:8001
+ * Disable a transport with --no-sse / --no-ws to watch the UI fall back to the next one.
+ */
+
+import { createServer } from 'node:http';
+import { createHash, randomUUID } from 'node:crypto';
+
+const args = process.argv.slice(2);
+const portIndex = args.indexOf('--port');
+const PORT = Number(portIndex >= 0 ? args[portIndex + 1] : process.env.PORT || 8001);
+const SSE_ENABLED = !args.includes('--no-sse');
+const WS_ENABLED = !args.includes('--no-ws');
+const TICK_MS = 1000;
+const BASE = '/api/v1/decompile';
+
+const jobs = new Map();
+const sseClients = new Set();
+const wsClients = new Set();
+
+// ---------------------------------------------------------------------------
+// Simulated jobs
+// ---------------------------------------------------------------------------
+
+const createJob = jobId => {
+  const job = {
+    job_id: jobId,
+    status: 'queued',
+    progress_percentage: 0,
+    current_stage: 'queued',
+    worker_id: 'mock-worker-1',
+    updated_at: new Date().toISOString(),
+    message: 'Job queued',
+  };
+  jobs.set(jobId, job);
+  return job;
+};
+
+// Unknown IDs are adopted so jobs submitted to another backend can be watched too
+const getJob = jobId => jobs.get(jobId) || createJob(jobId);
+
+const advance = job => {
+  if (!['queued', 'processing'].includes(job.status)) return false;
+
+  const progress = Math.min(100, job.progress_percentage + 5 + Math.round(Math.random() * 10));
+  job.progress_percentage = progress;
+  job.updated_at = new Date().toISOString();
+
+  if (progress >= 100) {
+    job.status = 'completed';
+    job.current_stage = 'completed';
+    job.message = 'Analysis complete';
+    job.results = {
+      success: true,
+      function_count: 42,
+      import_count: 17,
+      string_count: 128,
+      duration_seconds: 20,
+      decompilation_id: `decomp_${job.parent_job_id || job.job_id}`,
+      functions: [
+        {
+          name: 'main',
+          address: '0x401000',
+          size: 212,
+          complexity: 6,
+          function_type: 'user',
+          calls_to: ['parse_args', 'connect_server', 'IsDebuggerPresent'],
+          decompiled_code:
+            'int main(int argc, char **argv) {\n  if (IsDebuggerPresent()) return 1;\n' +
+            '  parse_args(argc, argv);\n  return connect_server();\n}',
+        },
+        { name: 'parse_args', address: '0x4010e0', size: 96, function_type: 'user', calls_to: [] },
+        {
+          name: 'connect_server',
+          address: '0x401140',
+          size: 148,
+          function_type: 'user',
+          calls_to: ['socket', 'connect', 'send'],
+          assembly_code: 'lea rdi, "http://updates.example.com/check"\ncall connect',
+        },
+      ],
+      imports: ['IsDebuggerPresent', 'socket', 'connect', 'send', 'printf'],
+      strings: ['usage: %s <config>', 'http://updates.example.com/check'],
+      llm_translations: {
+        provider: job.llm_provider || 'mock',
+        translation_time: '2s',
+        functions: [
+          {
+            function_name: 'main',
+            description: job.parent_job_id
+              ? 'Entry point of the program; validates its arguments and dispatches subcommands.'
+              : 'Program entry point; parses arguments and dispatches commands.',
+            confidence: 0.9,
+            parameters: ['argc', 'argv'],
+          },
+        ],
+      },
+    };
+  } else {
+    job.status = 'processing';
+    job.current_stage = progress < 60 ? 'decompiling' : 'llm_translation';
+    job.message = progress < 60 ? 'Decompiling binary' : 'Translating functions';
+  }
+  return true;
+};
+
+setInterval(() => {
+  jobs.forEach(job => {
+    if (advance(job)) broadcast(job);
+  });
+}, TICK_MS);
+
+// ---------------------------------------------------------------------------
+// Push transports
+// ---------------------------------------------------------------------------
+
+const broadcast = job => {
+  sseClients.forEach(client => {
+    if (client.jobIds.has(job.job_id)) {
+      client.res.write(`event: job_status\ndata: ${JSON.stringify(job)}\n\n`);
+    }
+  });
+  wsClients.forEach(client => {
+    if (client.jobIds.has(job.job_id)) {
+      sendFrame(client.socket, JSON.stringify({ type: 'job_status', data: job }));
+    }
+  });
+};
+
+const handleSse = (req, res, url) => {
+  const jobIds = new Set((url.searchParams.get('job_ids') || '').split(',').filter(Boolean));
+  res.writeHead(200, {
+    ...corsHeaders,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write('retry: 5000\n\n');
+
+  const client = { res, jobIds };
+  sseClients.add(client);
+  jobIds.forEach(jobId =>
+    res.write(`event: job_status\ndata: ${JSON.stringify(getJob(jobId))}\n\n`)
+  );
+
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    sseClients.delete(client);
+  });
+  log(`SSE client connected (${jobIds.size} jobs)`);
+};
+
+// Minimal RFC 6455 framing: unfragmented text frames, close and ping
+const sendFrame = (socket, text, opcode = 0x1) => {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  socket.write(Buffer.concat([header, payload]));
+};
+
+const readFrames = (buffer, onFrame) => {
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    if (masked) cursor += 4;
+    if (buffer.length < cursor + length) break;
+
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) payload.forEach((byte, i) => (payload[i] = byte ^ mask[i % 4]));
+    onFrame(opcode, payload);
+    offset = cursor + length;
+  }
+  return buffer.subarray(offset);
+};
+
+const handleUpgrade = (req, socket) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  if (!WS_ENABLED || url.pathname !== `${BASE}/ws`) {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1')
+    .update(`${req.headers['sec-websocket-key']}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+    .digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const client = { socket, jobIds: new Set() };
+  wsClients.add(client);
+  log('WebSocket client connected');
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', chunk => {
+    pending = readFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+      if (opcode === 0x8) {
+        socket.end();
+      } else if (opcode === 0x9) {
+        sendFrame(socket, payload.toString(), 0xa);
+      } else if (opcode === 0x1) {
+        handleWsMessage(client, payload.toString());
+      }
+    });
+  });
+  socket.on('close', () => wsClients.delete(client));
+  socket.on('error', () => wsClients.delete(client));
+};
+
+const handleWsMessage = (client, text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+  const jobIds = Array.isArray(message.job_ids) ? message.job_ids : [];
+
+  if (message.type === 'subscribe') {
+    jobIds.forEach(jobId => {
+      client.jobIds.add(jobId);
+      sendFrame(client.socket, JSON.stringify({ type: 'job_status', data: getJob(jobId) }));
+    });
+  } else if (message.type === 'unsubscribe') {
+    jobIds.forEach(jobId => client.jobIds.delete(jobId));
+  }
+};
+
+// ---------------------------------------------------------------------------
+// REST endpoints
+// ---------------------------------------------------------------------------
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const log = message => console.info(`[mock-job-server] ${message}`);
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+
+  if (url.pathname === `${BASE}/events` && req.method === 'GET') {
+    if (!SSE_ENABLED) {
+      sendJson(res, 404, { detail: 'SSE disabled' });
+      return;
+    }
+    handleSse(req, res, url);
+    return;
+  }
+
+  if (url.pathname === BASE && req.method === 'POST') {
+    // The multipart body is not needed for the simulation; drain it and create a job
+    let size = 0;
+    req.on('data', chunk => (size += chunk.length));
+    req.on('end', () => {
+      const job = createJob(randomUUID());
+      log(`Job ${job.job_id} submitted (${size} bytes)`);
+      sendJson(res, 200, {
+        success: true,
+        job_id: job.job_id,
+        status: job.status,
+        message: 'Job submitted',
+        file_info: {
+          filename: 'binary',
+          size_bytes: size,
+          content_type: 'multipart/form-data',
+        },
+        config: { analysis_depth: 'standard', llm_provider: null, translation_detail: 'standard' },
+        estimated_completion: new Date(Date.now() + 20000).toISOString(),
+        check_status_url: `${BASE}/${job.job_id}`,
+      });
+    });
+    return;
+  }
+
+  const translateMatch = url.pathname.match(new RegExp(`^${BASE}/([\\w-]+)/translate$`));
+  if (translateMatch && req.method === 'POST') {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      let options = {};
+      try {
+        options = JSON.parse(body || '{}');
+      } catch {
+        sendJson(res, 400, { message: 'Invalid JSON body' });
+        return;
+      }
+
+      // Translation-only jobs skip decompilation and start at the LLM stage
+      const job = createJob(randomUUID());
+      Object.assign(job, {
+        status: 'processing',
+        progress_percentage: 60,
+        current_stage: 'llm_translation',
+        message: 'Translating functions',
+        parent_job_id: translateMatch[1],
+        llm_provider: options.llm_provider,
+      });
+      log(`Job ${job.job_id} re-translating ${translateMatch[1]} (${options.llm_provider})`);
+      sendJson(res, 200, {
+        success: true,
+        job_id: job.job_id,
+        status: job.status,
+        message: 'Re-translation submitted',
+        file_info: { filename: 'binary', size_bytes: 0, content_type: 'application/octet-stream' },
+        config: {
+          analysis_depth: 'standard',
+          llm_provider: options.llm_provider || null,
+          translation_detail: options.translation_detail || 'standard',
+        },
+        estimated_completion: new Date(Date.now() + 8000).toISOString(),
+        check_status_url: `${BASE}/${job.job_id}`,
+      });
+    });
+    return;
+  }
+
+  const match = url.pathname.match(new RegExp(`^${BASE}/([\\w-]+)$`));
+  if (match) {
+    const job = getJob(match[1]);
+    if (req.method === 'DELETE') {
+      job.status = 'cancelled';
+      job.current_stage = 'cancelled';
+      job.message = 'Job cancelled';
+      job.updated_at = new Date().toISOString();
+      broadcast(job);
+      sendJson(res, 200, { message: 'Job cancelled' });
+      return;
+    }
+    sendJson(res, 200, job);
+    return;
+  }
+
+  sendJson(res, 404, { detail: 'Not found' });
+});
+
+server.on('upgrade', handleUpgrade);
+server.listen(PORT, () => {
+  log(
+    `Listening on http://localhost:${PORT} (SSE ${SSE_ENABLED ? 'on' : 'off'}, WebSocket ${
+      WS_ENABLED ? 'on' : 'off'
+    })`
+  );
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import {
   Card,
   CardContent,
@@ -25,10 +25,26 @@ import {
 } from '@mui/icons-material';
 import { useGetLLMProvidersQuery, useGetUserLLMProvidersQuery } from '../../services/api/analysisApi';
 import type { JobSubmissionRequest } from '../../services/api/analysisApi';
+import {
+  estimateJobCosts,
+  formatCost,
+  getPricePer1kTokens,
+  resolvePresetProvider,
+} from '../../utils/analysis';
+import type { AnalysisPreset, AnalysisPresetConfig, JobCostEstimate } from '../../utils/analysis';
+import { PresetSelector } from './PresetSelector';
+
+// Decompiler options come from presets; the form has no fields for them
+export type JobFormConfig = Partial<JobSubmissionRequest> & {
+  decompilerOptions?: Record<string, unknown>;
+};
 
 interface JobConfigurationFormProps {
-  onConfigChange: (config: Partial<JobSubmissionRequest>) => void;
+  onConfigChange: (config: JobFormConfig) => void;
   disabled?: boolean;
+  // Sizes of the selected files for the cost estimate; keep the array stable between renders
+  fileSizes?: number[];
+  onEstimateChange?: (estimate: JobCostEstimate | null) => void;
 }
 
 const ANALYSIS_DEPTH_OPTIONS = [
@@ -76,6 +92,8 @@ const TRANSLATION_DETAIL_OPTIONS = [
 export const JobConfigurationForm: React.FC<JobConfigurationFormProps> = ({
   onConfigChange,
   disabled = false,
+  fileSizes = [],
+  onEstimateChange,
 }) => {
   const [analysisDepth, setAnalysisDepth] = useState<'basic' | 'standard' | 'comprehensive'>(
     'standard'
@@ -89,6 +107,9 @@ export const JobConfigurationForm: React.FC<JobConfigurationFormProps> = ({
   const [apiKey, setApiKey] = useState('');
   const [customEndpoint, setCustomEndpoint] = useState('');
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [decompilerOptions, setDecompilerOptions] = useState<Record<string, unknown>>({});
+  // Preset whose provider is still to be matched once the user's providers have loaded
+  const [pendingPreset, setPendingPreset] = useState<AnalysisPreset | null>(null);
 
   // Fetch user LLM providers
   const {
@@ -98,11 +119,7 @@ export const JobConfigurationForm: React.FC<JobConfigurationFormProps> = ({
   } = useGetUserLLMProvidersQuery({});
 
   // Also fetch system providers as fallback/reference
-  const {
-    data: systemProvidersData,
-    isLoading: systemProvidersLoading,
-    error: systemProvidersError,
-  } = useGetLLMProvidersQuery();
+  const { data: systemProvidersData } = useGetLLMProvidersQuery();
 
   // Use user providers primarily, with fallback to system if needed
   const providersData = userProvidersData;
@@ -121,11 +138,80 @@ export const JobConfigurationForm: React.FC<JobConfigurationFormProps> = ({
     p => p.id === selectedProvider
   );
 
+  useEffect(() => {
+    if (!pendingPreset || !providersData) return;
+    const provider = pendingPreset.llm
+      ? resolvePresetProvider(pendingPreset.llm, providersData.providers)
+      : undefined;
+    setSelectedProvider(provider?.id ?? '');
+    setPendingPreset(null);
+  }, [pendingPreset, providersData]);
+
+  const applyPreset = useCallback((preset: AnalysisPreset) => {
+    setAnalysisDepth(preset.analysisDepth);
+    setTranslationDetail(preset.translationDetail);
+    setDecompilerOptions(preset.decompilerOptions);
+    setUseLLM(Boolean(preset.llm));
+    setSelectedModel(preset.llm?.model ?? '');
+    setSelectedProvider('');
+    setPendingPreset(preset);
+  }, []);
+
+  const presetConfig = useMemo<AnalysisPresetConfig>(
+    () => ({
+      analysisDepth,
+      translationDetail,
+      decompilerOptions,
+      ...(useLLM &&
+        selectedProviderData && {
+          llm: {
+            providerType: selectedProviderData.provider_type,
+            providerId: selectedProviderData.id,
+            providerName: selectedProviderData.name,
+            ...(selectedModel && { model: selectedModel }),
+          },
+        }),
+    }),
+    [
+      analysisDepth,
+      translationDetail,
+      decompilerOptions,
+      useLLM,
+      selectedProviderData,
+      selectedModel,
+    ]
+  );
+
+  // Only LLM translation costs money, so there is nothing to estimate without a provider
+  const costEstimate = useMemo(() => {
+    if (!useLLM || !selectedProviderData || fileSizes.length === 0) return null;
+    return estimateJobCosts(fileSizes, {
+      analysisDepth,
+      translationDetail,
+      pricePer1kTokens: getPricePer1kTokens(
+        selectedProviderData.provider_type,
+        systemProvidersData?.providers
+      ),
+    });
+  }, [
+    useLLM,
+    selectedProviderData,
+    fileSizes,
+    analysisDepth,
+    translationDetail,
+    systemProvidersData,
+  ]);
+
+  useEffect(() => {
+    onEstimateChange?.(costEstimate);
+  }, [costEstimate, onEstimateChange]);
+
   // Update parent component when config changes
   useEffect(() => {
-    const config: Partial<JobSubmissionRequest> = {
+    const config: JobFormConfig = {
       analysis_depth: analysisDepth,
       translation_detail: translationDetail,
+      decompilerOptions,
     };
 
     if (useLLM && selectedProvider) {
@@ -143,6 +229,7 @@ export const JobConfigurationForm: React.FC<JobConfigurationFormProps> = ({
   }, [
     analysisDepth,
     translationDetail,
+    decompilerOptions,
     useLLM,
     selectedProvider,
     selectedModel,
@@ -158,6 +245,8 @@ export const JobConfigurationForm: React.FC<JobConfigurationFormProps> = ({
       />
       <CardContent>
         <Stack spacing={3}>
+          <PresetSelector current={presetConfig} onApply={applyPreset} disabled={disabled} />
+
           {/* Analysis Depth */}
           <FormControl fullWidth>
             <InputLabel>Analysis Depth</InputLabel>
@@ -318,6 +407,19 @@ export const JobConfigurationForm: React.FC<JobConfigurationFormProps> = ({
                 </Alert>
               )}
 
+              {costEstimate && (
+                <Alert severity='info'>
+                  <Typography variant='body2'>
+                    <strong>Estimated cost:</strong> {formatCost(costEstimate.totalCost)}
+                    {' '}(~{costEstimate.totalTokens.toLocaleString()} tokens
+                    {costEstimate.jobs.length > 1 && ` across ${costEstimate.jobs.length} files`})
+                    <br />
+                    <strong>Pricing:</strong> ${costEstimate.pricePer1kTokens} per 1K tokens
+                    {' '}for {selectedProviderData?.provider_type}. Actual usage may differ.
+                  </Typography>
+                </Alert>
+              )}
+
               {!selectedProvider && (
                 <Alert severity='warning'>
                   <Typography variant='body2'>
@@ -0,0 +1,284 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  Snackbar,
+  Stack,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import {
+  Save as SaveIcon,
+  Star as DefaultIcon,
+  StarBorder as NotDefaultIcon,
+  Delete as DeleteIcon,
+  FileDownload as ExportIcon,
+  FileUpload as ImportIcon,
+} from '@mui/icons-material';
+import {
+  buildPresetsFile,
+  createPresetId,
+  matchesPreset,
+  mergePresets,
+  parsePresetsFile,
+} from '../../utils/analysis';
+import type { AnalysisPreset, AnalysisPresetConfig, PresetCollection } from '../../utils/analysis';
+import { downloadJson } from '../../utils/download';
+import { presetStorage } from '../../utils/storage';
+
+interface PresetSelectorProps {
+  // The form's current configuration, saved when a preset is created
+  current: AnalysisPresetConfig;
+  onApply: (preset: AnalysisPreset) => void;
+  disabled?: boolean;
+}
+
+export const PresetSelector: React.FC<PresetSelectorProps> = ({
+  current,
+  onApply,
+  disabled = false,
+}) => {
+  const [collection, setCollection] = useState<PresetCollection>(() => presetStorage.get());
+  const [selectedId, setSelectedId] = useState('');
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const appliedDefault = useRef(false);
+
+  const { presets, defaultPresetId } = collection;
+  const selected = presets.find(preset => preset.id === selectedId);
+  const isModified = selected ? !matchesPreset(selected, current) : false;
+
+  // The default preset is applied once, when the form first opens
+  useEffect(() => {
+    if (appliedDefault.current) return;
+    appliedDefault.current = true;
+    const preset = collection.presets.find(candidate => candidate.id === defaultPresetId);
+    if (preset) {
+      setSelectedId(preset.id);
+      onApply(preset);
+    }
+  }, [collection, defaultPresetId, onApply]);
+
+  const updateCollection = (next: PresetCollection) => {
+    presetStorage.set(next);
+    setCollection(next);
+  };
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    const preset = presets.find(candidate => candidate.id === id);
+    if (preset) onApply(preset);
+  };
+
+  const openSaveDialog = () => {
+    setPresetName(selected?.name ?? '');
+    setSaveDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    // Saving under an existing name updates that preset
+    const existing = presets.find(preset => preset.name.toLowerCase() === name.toLowerCase());
+    const preset: AnalysisPreset = { ...current, id: existing?.id ?? createPresetId(), name };
+    updateCollection({
+      ...collection,
+      presets: existing
+        ? presets.map(candidate => (candidate.id === existing.id ? preset : candidate))
+        : [...presets, preset],
+    });
+    setSelectedId(preset.id);
+    setSaveDialogOpen(false);
+    setMessage({ text: `Saved preset "${name}"` });
+  };
+
+  const handleToggleDefault = () => {
+    if (!selected) return;
+    const isDefault = defaultPresetId === selected.id;
+    updateCollection({
+      presets,
+      ...(!isDefault && { defaultPresetId: selected.id }),
+    });
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    updateCollection({
+      presets: presets.filter(preset => preset.id !== selected.id),
+      ...(defaultPresetId && defaultPresetId !== selected.id && { defaultPresetId }),
+    });
+    setSelectedId('');
+    setMessage({ text: `Deleted preset "${selected.name}"` });
+  };
+
+  const handleExport = () => {
+    downloadJson(buildPresetsFile(presets), 'bin2nlp-presets.json');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parsePresetsFile(await file.text());
+      updateCollection({ ...collection, presets: mergePresets(presets, imported) });
+      setMessage({
+        text: `Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}`,
+      });
+    } catch (err) {
+      setMessage({
+        text: `Could not import ${file.name}: ${err instanceof Error ? err.message : err}`,
+        error: true,
+      });
+    }
+  };
+
+  return (
+    <Box>
+      <Stack direction='row' spacing={1} alignItems='flex-start'>
+        <TextField
+          select
+          fullWidth
+          size='small'
+          label='Preset'
+          value={selectedId}
+          onChange={e => handleSelect(e.target.value)}
+          disabled={disabled}
+          helperText={
+            isModified
+              ? 'Changed since the preset was applied'
+              : 'Apply saved settings, or save the current ones'
+          }
+        >
+          <MenuItem value=''>
+            <em>Custom</em>
+          </MenuItem>
+          {presets.map(preset => (
+            <MenuItem key={preset.id} value={preset.id}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: '100%' }}>
+                {preset.name}
+                {preset.id === defaultPresetId && (
+                  <Chip size='small' label='Default' variant='outlined' sx={{ ml: 'auto' }} />
+                )}
+              </Box>
+            </MenuItem>
+          ))}
+        </TextField>
+
+        <Tooltip title='Save current settings as a preset'>
+          <span>
+            <IconButton onClick={openSaveDialog} disabled={disabled}>
+              <SaveIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip
+          title={
+            selected && defaultPresetId === selected.id
+              ? 'Stop using as the default'
+              : 'Use as the default for new jobs'
+          }
+        >
+          <span>
+            <IconButton onClick={handleToggleDefault} disabled={disabled || !selected}>
+              {selected && defaultPresetId === selected.id ? <DefaultIcon /> : <NotDefaultIcon />}
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title='Delete preset'>
+          <span>
+            <IconButton onClick={handleDelete} disabled={disabled || !selected}>
+              <DeleteIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title='Export presets as JSON'>
+          <span>
+            <IconButton onClick={handleExport} disabled={presets.length === 0}>
+              <ExportIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title='Import presets from JSON'>
+          <span>
+            <IconButton onClick={() => fileInputRef.current?.click()} disabled={disabled}>
+              <ImportIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <input
+          ref={fileInputRef}
+          type='file'
+          accept='application/json,.json'
+          hidden
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) void handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </Stack>
+
+      {selected && Object.keys(selected.decompilerOptions).length > 0 && (
+        <Stack direction='row' spacing={1} flexWrap='wrap' useFlexGap sx={{ mt: 1 }}>
+          {Object.entries(selected.decompilerOptions).map(([option, value]) => (
+            <Chip
+              key={option}
+              size='small'
+              variant='outlined'
+              label={`${option}: ${typeof value === 'string' ? value : JSON.stringify(value)}`}
+            />
+          ))}
+        </Stack>
+      )}
+
+      <Dialog
+        open={saveDialogOpen}
+        onClose={() => setSaveDialogOpen(false)}
+        maxWidth='xs'
+        fullWidth
+      >
+        <DialogTitle>Save Preset</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin='dense'
+            label='Preset name'
+            value={presetName}
+            onChange={e => setPresetName(e.target.value)}
+            placeholder='e.g. Quick triage'
+            helperText={
+              presets.some(preset => preset.name.toLowerCase() === presetName.trim().toLowerCase())
+                ? 'Replaces the existing preset with this name'
+                : 'Saves depth, translation detail, provider, model and decompiler options'
+            }
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveDialogOpen(false)}>Cancel</Button>
+          <Button variant='contained' onClick={handleSave} disabled={!presetName.trim()}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar
+        open={!!message}
+        autoHideDuration={message?.error ? 8000 : 4000}
+        onClose={() => setMessage(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity={message?.error ? 'error' : 'success'} onClose={() => setMessage(null)}>
+          {message?.text}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  Typography,
+  LinearProgress,
+  Chip,
+  Box,
+  Stack,
+  IconButton,
+  Alert,
+  Collapse,
+  Tooltip,
+} from '@mui/material';
+import {
+  ExpandMore as ExpandIcon,
+  ExpandLess as CollapseIcon,
+  Delete as DeleteIcon,
+  Inventory2 as CampaignIcon,
+} from '@mui/icons-material';
+import { useAppDispatch, useAppSelector } from '../../store/hooks';
+import { removeCampaign } from '../../store/slices/analysisSlice';
+import { selectCampaignProgress } from '../../store/selectors/analysisSelectors';
+import { useJobUpdates } from '../../hooks/analysis';
+import type { AnalysisCampaign } from '../../types/analysis.types';
+import { JobStatusCard } from './JobStatusCard';
+
+interface CampaignCardProps {
+  campaign: AnalysisCampaign;
+  onViewResults?: (jobId: string) => void;
+  onViewDetails?: (jobId: string) => void;
+}
+
+export const CampaignCard: React.FC<CampaignCardProps> = ({
+  campaign,
+  onViewResults,
+  onViewDetails,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const dispatch = useAppDispatch();
+  const selectProgress = useMemo(() => selectCampaignProgress(campaign.id), [campaign.id]);
+  const { counts, progress, submitted, failedSubmissions, isFinished } =
+    useAppSelector(selectProgress);
+
+  // Keep the summary live while the job cards are collapsed
+  useJobUpdates(isFinished ? [] : campaign.jobIds);
+
+  return (
+    <Card>
+      <CardHeader
+        avatar={<CampaignIcon color={isFinished ? 'success' : 'primary'} />}
+        title={
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography variant='h6' component='span'>
+              {campaign.name}
+            </Typography>
+            <Chip
+              size='small'
+              label={isFinished ? 'FINISHED' : 'RUNNING'}
+              color={isFinished ? 'success' : 'primary'}
+            />
+          </Box>
+        }
+        subheader={`Created: ${new Date(campaign.createdAt).toLocaleString()} • ${
+          campaign.totalFiles
+        } files • ${campaign.config.analysisDepth} analysis`}
+        action={
+          <Box>
+            <Tooltip title='Remove campaign grouping'>
+              <IconButton onClick={() => dispatch(removeCampaign(campaign.id))}>
+                <DeleteIcon />
+              </IconButton>
+            </Tooltip>
+            <IconButton onClick={() => setExpanded(!expanded)}>
+              {expanded ? <CollapseIcon /> : <ExpandIcon />}
+            </IconButton>
+          </Box>
+        }
+      />
+      <CardContent>
+        <Stack spacing={2}>
+          <Box>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+              <Typography variant='body2' color='text.secondary'>
+                Overall Progress ({submitted} of {campaign.totalFiles} submitted)
+              </Typography>
+              <Typography variant='body2' color='text.secondary'>
+                {progress}%
+              </Typography>
+            </Box>
+            <LinearProgress variant='determinate' value={progress} />
+          </Box>
+
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+            <Chip size='small' color='info' label={`Queued: ${counts.queued}`} />
+            <Chip size='small' color='primary' label={`Processing: ${counts.processing}`} />
+            <Chip size='small' color='success' label={`Completed: ${counts.completed}`} />
+            <Chip size='small' color='error' label={`Failed: ${counts.failed}`} />
+            {counts.cancelled > 0 && (
+              <Chip size='small' color='warning' label={`Cancelled: ${counts.cancelled}`} />
+            )}
+          </Box>
+
+          {failedSubmissions > 0 && (
+            <Alert severity='error'>
+              {failedSubmissions} file{failedSubmissions === 1 ? '' : 's'} could not be submitted:{' '}
+              {campaign.failedFiles.map(failure => failure.fileName).join(', ')}
+            </Alert>
+          )}
+
+          <Collapse in={expanded} unmountOnExit>
+            <Stack spacing={2}>
+              {campaign.jobIds.map(jobId => (
+                <JobStatusCard
+                  key={jobId}
+                  jobId={jobId}
+                  {...(onViewResults && { onViewResults })}
+                  {...(onViewDetails && { onViewDetails })}
+                />
+              ))}
+            </Stack>
+          </Collapse>
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+};
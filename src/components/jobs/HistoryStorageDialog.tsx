@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  InputAdornment,
+  LinearProgress,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useHistoryStorage } from '../../hooks/analysis';
+import { historyRetentionService } from '../../services/history';
+import {
+  MAX_RETAINED_JOBS,
+  MAX_RETAINED_STORAGE_MB,
+  MAX_RETENTION_DAYS,
+  formatBytes,
+  normalizeHistoryRetention,
+} from '../../utils/analysis';
+import type { HistoryRetentionSettings } from '../../utils/analysis';
+
+interface HistoryStorageDialogProps {
+  open: boolean;
+  settings: HistoryRetentionSettings;
+  onSave: (settings: HistoryRetentionSettings) => void;
+  onClose: () => void;
+}
+
+const isWithin = (value: string, max: number): boolean => {
+  const number = Number(value);
+  return value.trim() !== '' && Number.isInteger(number) && number >= 0 && number <= max;
+};
+
+export const HistoryStorageDialog: React.FC<HistoryStorageDialogProps> = ({
+  open,
+  settings,
+  onSave,
+  onClose,
+}) => {
+  const storage = useHistoryStorage();
+  const [enabled, setEnabled] = useState(false);
+  const [maxAgeDays, setMaxAgeDays] = useState('');
+  const [maxJobs, setMaxJobs] = useState('');
+  const [maxStorageMB, setMaxStorageMB] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setEnabled(settings.enabled);
+      setMaxAgeDays(String(settings.maxAgeDays));
+      setMaxJobs(String(settings.maxJobs));
+      setMaxStorageMB(String(settings.maxStorageMB));
+      void historyRetentionService.refresh();
+    }
+  }, [open, settings]);
+
+  const ageValid = isWithin(maxAgeDays, MAX_RETENTION_DAYS);
+  const jobsValid = isWithin(maxJobs, MAX_RETAINED_JOBS);
+  const sizeValid = isWithin(maxStorageMB, MAX_RETAINED_STORAGE_MB);
+
+  const usedPercent =
+    storage.usage !== undefined && storage.quota
+      ? (storage.usage / storage.quota) * 100
+      : undefined;
+
+  const handleSave = () => {
+    onSave(
+      normalizeHistoryRetention({
+        enabled,
+        maxAgeDays: Number(maxAgeDays),
+        maxJobs: Number(maxJobs),
+        maxStorageMB: Number(maxStorageMB),
+      })
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth='xs' fullWidth>
+      <DialogTitle>History Storage</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <Box>
+            <Stack direction='row' justifyContent='space-between' alignItems='center'>
+              <Typography variant='subtitle2'>Browser storage</Typography>
+              <Chip
+                size='small'
+                label={storage.persisted ? 'Persistent' : 'May be cleared by the browser'}
+                color={storage.persisted ? 'success' : 'default'}
+              />
+            </Stack>
+            {usedPercent !== undefined ? (
+              <>
+                <LinearProgress
+                  variant='determinate'
+                  value={Math.min(usedPercent, 100)}
+                  color={storage.nearQuota ? 'warning' : 'primary'}
+                  sx={{ my: 1 }}
+                />
+                <Typography variant='body2' color='text.secondary'>
+                  {formatBytes(storage.usage ?? 0)} of {formatBytes(storage.quota ?? 0)} used (
+                  {usedPercent.toFixed(1)}%)
+                </Typography>
+              </>
+            ) : (
+              <Typography variant='body2' color='text.secondary'>
+                This browser does not report its storage quota
+              </Typography>
+            )}
+            <Typography variant='body2' color='text.secondary'>
+              Full results of {storage.resultsCount} jobs take {formatBytes(storage.resultsBytes)}
+            </Typography>
+            {!storage.persisted && (
+              <Button
+                size='small'
+                sx={{ mt: 1 }}
+                onClick={() => void historyRetentionService.requestPersistence()}
+              >
+                Keep storage persistent
+              </Button>
+            )}
+          </Box>
+
+          {storage.nearQuota && (
+            <Alert severity='warning'>
+              Storage is almost full. {enabled ? 'Lower' : 'Turn on and lower'} the limits below to
+              make room for new results.
+            </Alert>
+          )}
+
+          <Typography variant='subtitle2'>Retention</Typography>
+          <FormControlLabel
+            control={<Switch checked={enabled} onChange={e => setEnabled(e.target.checked)} />}
+            label='Remove old jobs automatically'
+          />
+          <Typography variant='caption' color='text.secondary'>
+            Jobs outside these limits are removed with their results, oldest first, and cannot be
+            recovered. 0 means no limit. While this is off every job is kept.
+          </Typography>
+
+          <TextField
+            label='Remove jobs older than'
+            type='number'
+            value={maxAgeDays}
+            onChange={e => setMaxAgeDays(e.target.value)}
+            disabled={!enabled}
+            error={!ageValid}
+            {...(!ageValid && { helperText: `Enter 0 to ${MAX_RETENTION_DAYS} days` })}
+            slotProps={{
+              input: { endAdornment: <InputAdornment position='end'>days</InputAdornment> },
+            }}
+          />
+          <TextField
+            label='Keep at most'
+            type='number'
+            value={maxJobs}
+            onChange={e => setMaxJobs(e.target.value)}
+            disabled={!enabled}
+            error={!jobsValid}
+            {...(!jobsValid && { helperText: `Enter 0 to ${MAX_RETAINED_JOBS} jobs` })}
+            slotProps={{
+              input: { endAdornment: <InputAdornment position='end'>jobs</InputAdornment> },
+            }}
+          />
+          <TextField
+            label='Limit stored results to'
+            type='number'
+            value={maxStorageMB}
+            onChange={e => setMaxStorageMB(e.target.value)}
+            disabled={!enabled}
+            error={!sizeValid}
+            {...(!sizeValid && { helperText: `Enter 0 to ${MAX_RETAINED_STORAGE_MB} MB` })}
+            slotProps={{
+              input: { endAdornment: <InputAdornment position='end'>MB</InputAdornment> },
+            }}
+          />
+
+          {storage.lastPrunedAt && (
+            <Typography variant='caption' color='text.secondary'>
+              Last applied {new Date(storage.lastPrunedAt).toLocaleString()}, removing{' '}
+              {storage.lastPrunedCount} jobs
+            </Typography>
+          )}
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant='contained'
+          onClick={handleSave}
+          disabled={!ageValid || !jobsValid || !sizeValid}
+        >
+          Save and Apply
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,281 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Chip, Stack, Tooltip, Typography } from '@mui/material';
+import {
+  DataGrid,
+  GridActionsCellItem,
+  type GridColDef,
+  type GridColumnVisibilityModel,
+  type GridFilterModel,
+  type GridPaginationModel,
+  type GridSortModel,
+} from '@mui/x-data-grid';
+import {
+  Visibility as ViewIcon,
+  Info as DetailsIcon,
+  Replay as RetryIcon,
+  Tune as RetryWithChangesIcon,
+  TimerOff as CancelRetryIcon,
+} from '@mui/icons-material';
+import { useScheduledRetries } from '../../hooks/analysis';
+import { jobRetryService } from '../../services/retry';
+import { useAppDispatch, useAppSelector } from '../../store/hooks';
+import {
+  selectFilteredJobHistoryRows,
+  selectFilters,
+  selectJobHistory,
+} from '../../store/selectors/analysisSelectors';
+import { setFilters } from '../../store/slices/analysisSlice';
+import { queryJobHistoryPage } from '../../utils/analysis';
+import type { JobHistoryRow, JobHistorySortField } from '../../utils/analysis';
+import type { JobStatusType } from '../../types/analysis.types';
+
+interface JobHistoryTableProps {
+  onViewResults?: (jobId: string) => void;
+  onViewDetails?: (jobId: string) => void;
+  onRetry?: (jobId: string, withChanges: boolean) => void;
+}
+
+const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
+const STATUS_COLORS: Record<JobStatusType, 'info' | 'primary' | 'success' | 'error' | 'warning'> = {
+  queued: 'info',
+  processing: 'primary',
+  completed: 'success',
+  failed: 'error',
+  cancelled: 'warning',
+};
+
+const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = seconds % 60;
+  return `${minutes}m ${remainingSeconds.toFixed(0)}s`;
+};
+
+export const JobHistoryTable: React.FC<JobHistoryTableProps> = ({
+  onViewResults,
+  onViewDetails,
+  onRetry,
+}) => {
+  const dispatch = useAppDispatch();
+  const scheduledRetries = useScheduledRetries();
+  const filters = useAppSelector(selectFilters);
+  const totalJobs = useAppSelector(selectJobHistory).length;
+  const rows = useAppSelector(selectFilteredJobHistoryRows);
+
+  const [paginationModel, setPaginationModel] = useState<GridPaginationModel>({
+    page: 0,
+    pageSize: 25,
+  });
+  const [sortModel, setSortModel] = useState<GridSortModel>([
+    { field: 'submittedAt', sort: 'desc' },
+  ]);
+  const [columnVisibilityModel, setColumnVisibilityModel] = useState<GridColumnVisibilityModel>({});
+
+  // Sorting and paging run outside the grid, so only the visible page is handed to it
+  const page = useMemo(() => {
+    const [sort] = sortModel;
+    return queryJobHistoryPage(rows, {
+      page: paginationModel.page,
+      pageSize: paginationModel.pageSize,
+      ...(sort?.sort && {
+        sortField: sort.field as JobHistorySortField,
+        sortDirection: sort.sort,
+      }),
+    });
+  }, [rows, sortModel, paginationModel]);
+
+  const filterModel = useMemo<GridFilterModel>(
+    () => ({ items: [], quickFilterValues: filters.search?.split(/\s+/).filter(Boolean) ?? [] }),
+    [filters.search]
+  );
+
+  const handleFilterModelChange = (model: GridFilterModel) => {
+    const search = (model.quickFilterValues ?? []).join(' ');
+    if (search === (filters.search ?? '')) return;
+    dispatch(setFilters({ search }));
+    setPaginationModel(current => ({ ...current, page: 0 }));
+  };
+
+  const columns = useMemo<GridColDef<JobHistoryRow>[]>(
+    () => [
+      {
+        field: 'fileName',
+        headerName: 'File',
+        flex: 1,
+        minWidth: 180,
+      },
+      {
+        field: 'sha256',
+        headerName: 'SHA-256',
+        width: 140,
+        renderCell: ({ value }) =>
+          value ? (
+            <Tooltip title={value}>
+              <Typography variant='body2' sx={{ fontFamily: 'monospace' }} component='span'>
+                {`${String(value).slice(0, 12)}…`}
+              </Typography>
+            </Tooltip>
+          ) : (
+            '—'
+          ),
+      },
+      {
+        field: 'status',
+        headerName: 'Status',
+        width: 120,
+        renderCell: ({ row }) => {
+          const scheduled = scheduledRetries[row.id];
+          return (
+            <Stack direction='row' spacing={0.5} alignItems='center' sx={{ height: '100%' }}>
+              <Tooltip title={row.error ?? ''}>
+                <Chip
+                  size='small'
+                  label={row.status.toUpperCase()}
+                  color={STATUS_COLORS[row.status]}
+                />
+              </Tooltip>
+              {scheduled && (
+                <Tooltip
+                  title={`Automatic retry ${scheduled.attempt} at ${new Date(
+                    scheduled.retryAt
+                  ).toLocaleTimeString()}`}
+                >
+                  <RetryIcon fontSize='small' color='action' />
+                </Tooltip>
+              )}
+            </Stack>
+          );
+        },
+      },
+      {
+        field: 'analysisDepth',
+        headerName: 'Depth',
+        width: 130,
+      },
+      {
+        field: 'llmProvider',
+        headerName: 'Provider',
+        width: 130,
+        valueFormatter: (value?: string) => value ?? '—',
+      },
+      {
+        field: 'submittedAt',
+        headerName: 'Submitted',
+        width: 180,
+        valueFormatter: (value: string) => new Date(value).toLocaleString(),
+      },
+      {
+        field: 'durationSeconds',
+        headerName: 'Duration',
+        type: 'number',
+        width: 110,
+        valueFormatter: (value?: number) => (value === undefined ? '—' : formatDuration(value)),
+      },
+      {
+        field: 'cost',
+        headerName: 'Cost',
+        type: 'number',
+        width: 100,
+        valueFormatter: (value?: number) => (value === undefined ? '—' : `$${value.toFixed(4)}`),
+      },
+      {
+        field: 'functionCount',
+        headerName: 'Functions',
+        type: 'number',
+        width: 110,
+        valueFormatter: (value?: number) => (value === undefined ? '—' : String(value)),
+      },
+      {
+        field: 'actions',
+        type: 'actions',
+        width: 120,
+        getActions: ({ row }) => [
+          ...(onViewDetails
+            ? [
+                <GridActionsCellItem
+                  key='details'
+                  icon={<DetailsIcon />}
+                  label='Job details'
+                  onClick={() => onViewDetails(row.id)}
+                />,
+              ]
+            : []),
+          ...(onViewResults && row.status === 'completed'
+            ? [
+                <GridActionsCellItem
+                  key='results'
+                  icon={<ViewIcon />}
+                  label='View results'
+                  onClick={() => onViewResults(row.id)}
+                />,
+              ]
+            : []),
+          ...(onRetry && row.retryable
+            ? [
+                <GridActionsCellItem
+                  key='retry'
+                  icon={<RetryIcon />}
+                  label='Retry'
+                  onClick={() => onRetry(row.id, false)}
+                />,
+                <GridActionsCellItem
+                  key='retry-with-changes'
+                  icon={<RetryWithChangesIcon />}
+                  label='Retry with changes'
+                  onClick={() => onRetry(row.id, true)}
+                  showInMenu
+                />,
+              ]
+            : []),
+          ...(scheduledRetries[row.id]
+            ? [
+                <GridActionsCellItem
+                  key='cancel-retry'
+                  icon={<CancelRetryIcon />}
+                  label='Cancel automatic retry'
+                  onClick={() => jobRetryService.cancelScheduledRetry(row.id)}
+                  showInMenu
+                />,
+              ]
+            : []),
+        ],
+      },
+    ],
+    [onViewDetails, onViewResults, onRetry, scheduledRetries]
+  );
+
+  return (
+    <Box>
+      {filters.search && (
+        <Typography variant='body2' color='text.secondary' sx={{ mb: 1 }}>
+          {page.total} of {totalJobs} jobs match “{filters.search}” in file names, hashes, function
+          names or summaries
+        </Typography>
+      )}
+      <DataGrid
+        rows={page.rows}
+        columns={columns}
+        rowCount={page.total}
+        paginationMode='server'
+        sortingMode='server'
+        filterMode='server'
+        paginationModel={paginationModel}
+        onPaginationModelChange={setPaginationModel}
+        pageSizeOptions={PAGE_SIZE_OPTIONS}
+        sortModel={sortModel}
+        onSortModelChange={setSortModel}
+        filterModel={filterModel}
+        onFilterModelChange={handleFilterModelChange}
+        columnVisibilityModel={columnVisibilityModel}
+        onColumnVisibilityModelChange={setColumnVisibilityModel}
+        disableColumnFilter
+        disableRowSelectionOnClick
+        showToolbar
+        density='compact'
+        autoHeight
+        localeText={{ noRowsLabel: 'No past jobs yet', noResultsOverlayLabel: 'No matching jobs' }}
+      />
+    </Box>
+  );
+};
@@ -1,298 +1,92 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { Typography, Box, Stack, Alert, Chip, Button } from '@mui/material';
 import {
-  Card,
-  CardContent,
-  CardHeader,
-  Typography,
-  LinearProgress,
-  Chip,
-  Box,
-  Stack,
-  IconButton,
-  Alert,
-  Divider,
-} from '@mui/material';
-import { GridLegacy as Grid } from '@mui/material';
-import {
-  Refresh as RefreshIcon,
-  Cancel as CancelIcon,
-  CheckCircle as CompleteIcon,
-  Error as ErrorIcon,
-  Schedule as QueuedIcon,
-  PlayArrow as ProcessingIcon,
-  GetApp as DownloadIcon,
+  Notifications as NotificationsIcon,
+  Settings as SettingsIcon,
+  Storage as StorageIcon,
 } from '@mui/icons-material';
 import { useSelector } from 'react-redux';
-import { useGetJobStatusQuery, useCancelJobMutation } from '../../services/api/analysisApi';
 import { 
   selectActiveJobs, 
-  selectActiveJobsCount, 
   selectJobHistory,
-  selectHasJobHistory 
+  selectHasJobHistory,
+  selectCampaignsArray,
+  selectCampaignJobIds,
 } from '../../store/selectors/analysisSelectors';
+import { JobStatusCard } from './JobStatusCard';
+import { CampaignCard } from './CampaignCard';
+import { JobHistoryTable } from './JobHistoryTable';
+import { RetryJobDialog } from './RetryJobDialog';
+import { RetrySettingsDialog } from './RetrySettingsDialog';
+import { HistoryStorageDialog } from './HistoryStorageDialog';
+import { NotificationSettingsDialog } from './NotificationSettingsDialog';
+import { ImportResultsButton } from '../results/ImportResultsButton';
+import { useJobUpdateConnection } from '../../hooks/analysis';
+import { historyRetentionService } from '../../services/history';
+import { jobNotificationService } from '../../services/notifications';
+import { historyRetentionStorage, retrySettingsStorage } from '../../utils/storage';
+import type {
+  HistoryRetentionSettings,
+  NotificationSettings,
+  RetrySettings,
+} from '../../utils/analysis';
 
-interface JobStatusCardProps {
-  jobId: string;
-  onCancel?: (jobId: string) => void;
+interface JobStatusDashboardProps {
   onViewResults?: (jobId: string) => void;
+  onViewDetails?: (jobId: string) => void;
 }
 
-const JobStatusCard: React.FC<JobStatusCardProps> = ({ jobId, onCancel, onViewResults }) => {
-  const {
-    data: jobStatus,
-    error,
-    isLoading,
-    refetch,
-  } = useGetJobStatusQuery(jobId, {
-    pollingInterval: 2000, // Poll every 2 seconds - will be managed by component logic
-    skipPollingIfUnfocused: true,
-  });
-
-  // Skip polling for completed jobs by conditionally refetching
-  React.useEffect(() => {
-    if (jobStatus?.status === 'completed' || jobStatus?.status === 'failed' || jobStatus?.status === 'cancelled') {
-      // Stop polling for completed jobs - RTK Query will handle this automatically
-      return;
-    }
-  }, [jobStatus?.status]);
-
-  const [cancelJob, { isLoading: isCancelling }] = useCancelJobMutation();
-
-  const handleCancel = async () => {
-    if (!jobStatus?.isActive) return;
+export const JobStatusDashboard: React.FC<JobStatusDashboardProps> = ({
+  onViewResults,
+  onViewDetails,
+}) => {
+  const activeJobs = useSelector(selectActiveJobs);
+  const jobHistory = useSelector(selectJobHistory);
+  const hasJobHistory = useSelector(selectHasJobHistory);
+  const campaigns = useSelector(selectCampaignsArray);
+  const campaignJobIds = useSelector(selectCampaignJobIds);
+  const connection = useJobUpdateConnection();
+  const [retryTarget, setRetryTarget] = useState<{ jobId: string; withChanges: boolean } | null>(
+    null
+  );
+  const [retrySettings, setRetrySettings] = useState<RetrySettings>(() =>
+    retrySettingsStorage.get()
+  );
+  const [retrySettingsOpen, setRetrySettingsOpen] = useState(false);
+  const [retention, setRetention] = useState<HistoryRetentionSettings>(() =>
+    historyRetentionStorage.get()
+  );
+  const [storageOpen, setStorageOpen] = useState(false);
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>(() =>
+    jobNotificationService.getSettings()
+  );
+  const [notificationsOpen, setNotificationsOpen] = useState(false);
 
-    try {
-      await cancelJob(jobId).unwrap();
-      onCancel?.(jobId);
-    } catch (error) {
-      console.error('Failed to cancel job:', error);
-    }
-  };
+  // Jobs that belong to a campaign are shown grouped under it instead of individually
+  const standaloneActiveJobIds = Object.keys(activeJobs).filter(id => !campaignJobIds.has(id));
+  const activeJobCount = standaloneActiveJobIds.length;
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'queued':
-        return <QueuedIcon color='info' />;
-      case 'processing':
-        return <ProcessingIcon color='primary' />;
-      case 'completed':
-        return <CompleteIcon color='success' />;
-      case 'failed':
-        return <ErrorIcon color='error' />;
-      case 'cancelled':
-        return <CancelIcon color='warning' />;
-      default:
-        return <QueuedIcon />;
-    }
+  const handleCancelJob = (jobId: string) => {
+    console.info(`Job ${jobId} cancelled`);
+    // Job status will update automatically through the job update stream
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'queued':
-        return 'info';
-      case 'processing':
-        return 'primary';
-      case 'completed':
-        return 'success';
-      case 'failed':
-        return 'error';
-      case 'cancelled':
-        return 'warning';
-      default:
-        return 'default';
-    }
+  const handleSaveRetrySettings = (settings: RetrySettings) => {
+    retrySettingsStorage.set(settings);
+    setRetrySettings(settings);
+    setRetrySettingsOpen(false);
   };
 
-  const formatDuration = (seconds: number): string => {
-    if (seconds < 60) return `${seconds.toFixed(1)}s`;
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes}m ${remainingSeconds.toFixed(0)}s`;
+  const handleSaveRetention = (settings: HistoryRetentionSettings) => {
+    setRetention(settings);
+    setStorageOpen(false);
+    void historyRetentionService.updateSettings(settings);
   };
 
-  if (error) {
-    return (
-      <Card>
-        <CardContent>
-          <Alert severity='error'>
-            Failed to load job status: {(error as { message?: string })?.message || 'Unknown error'}
-          </Alert>
-        </CardContent>
-      </Card>
-    );
-  }
-
-  if (isLoading && !jobStatus) {
-    return (
-      <Card>
-        <CardContent>
-          <LinearProgress />
-          <Typography variant='body2' sx={{ mt: 1 }}>
-            Loading job status...
-          </Typography>
-        </CardContent>
-      </Card>
-    );
-  }
-
-  if (!jobStatus) {
-    return (
-      <Card>
-        <CardContent>
-          <Alert severity='warning'>Job not found or has been removed.</Alert>
-        </CardContent>
-      </Card>
-    );
-  }
-
-  return (
-    <Card>
-      <CardHeader
-        avatar={getStatusIcon(jobStatus.status)}
-        title={
-          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-            <Typography variant='h6' component='span'>
-              Job {jobId.slice(0, 8)}...
-            </Typography>
-            <Chip
-              size='small'
-              label={jobStatus.status.toUpperCase()}
-              color={
-                getStatusColor(jobStatus.status) as
-                  | 'primary'
-                  | 'secondary'
-                  | 'error'
-                  | 'info'
-                  | 'success'
-                  | 'warning'
-              }
-            />
-          </Box>
-        }
-        subheader={`Updated: ${new Date(jobStatus.updated_at).toLocaleString()}`}
-        action={
-          <Box>
-            <IconButton onClick={() => refetch()} disabled={isLoading}>
-              <RefreshIcon />
-            </IconButton>
-            {jobStatus.isActive && jobStatus.status !== 'completed' && jobStatus.status !== 'failed' && jobStatus.status !== 'cancelled' && (
-              <IconButton onClick={handleCancel} disabled={isCancelling} color='error'>
-                <CancelIcon />
-              </IconButton>
-            )}
-            {jobStatus.status === 'completed' && onViewResults && (
-              <IconButton onClick={() => onViewResults(jobId)} color='primary'>
-                <DownloadIcon />
-              </IconButton>
-            )}
-          </Box>
-        }
-      />
-      <CardContent>
-        <Stack spacing={2}>
-          {/* Progress */}
-          <Box>
-            <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
-              <Typography variant='body2' color='text.secondary'>
-                Progress
-              </Typography>
-              <Typography variant='body2' color='text.secondary'>
-                {jobStatus.progress_percentage.toFixed(1)}%
-              </Typography>
-            </Box>
-            <LinearProgress
-              variant='determinate'
-              value={jobStatus.progress_percentage}
-              color={
-                getStatusColor(jobStatus.status) as
-                  | 'primary'
-                  | 'secondary'
-                  | 'error'
-                  | 'info'
-                  | 'success'
-                  | 'warning'
-              }
-            />
-          </Box>
-
-          {/* Current Stage */}
-          <Box>
-            <Typography variant='body2' color='text.secondary' gutterBottom>
-              Current Stage
-            </Typography>
-            <Typography variant='body1'>
-              {jobStatus.current_stage || 'Waiting to start...'}
-            </Typography>
-          </Box>
-
-          {/* Worker Info */}
-          <Box>
-            <Typography variant='body2' color='text.secondary' gutterBottom>
-              Worker
-            </Typography>
-            <Typography variant='body1'>{jobStatus.worker_id}</Typography>
-          </Box>
-
-          {/* Results Summary (if completed) */}
-          {jobStatus.results && (
-            <>
-              <Divider />
-              <Box>
-                <Typography variant='body2' color='text.secondary' gutterBottom>
-                  Results Summary
-                </Typography>
-                <Grid container spacing={2}>
-                  <Grid item xs={6}>
-                    <Typography variant='body2'>
-                      Functions: <strong>{jobStatus.results.function_count}</strong>
-                    </Typography>
-                  </Grid>
-                  <Grid item xs={6}>
-                    <Typography variant='body2'>
-                      Imports: <strong>{jobStatus.results.import_count}</strong>
-                    </Typography>
-                  </Grid>
-                  <Grid item xs={6}>
-                    <Typography variant='body2'>
-                      Strings: <strong>{jobStatus.results.string_count}</strong>
-                    </Typography>
-                  </Grid>
-                  <Grid item xs={6}>
-                    <Typography variant='body2'>
-                      Duration:{' '}
-                      <strong>{formatDuration(jobStatus.results.duration_seconds)}</strong>
-                    </Typography>
-                  </Grid>
-                </Grid>
-              </Box>
-            </>
-          )}
-
-          {/* Message */}
-          {jobStatus.message && (
-            <Alert severity={jobStatus.status === 'failed' ? 'error' : 'info'}>
-              {jobStatus.message}
-            </Alert>
-          )}
-        </Stack>
-      </CardContent>
-    </Card>
-  );
-};
-
-interface JobStatusDashboardProps {
-  onViewResults?: (jobId: string) => void;
-}
-
-export const JobStatusDashboard: React.FC<JobStatusDashboardProps> = ({ onViewResults }) => {
-  const activeJobs = useSelector(selectActiveJobs);
-  const activeJobCount = useSelector(selectActiveJobsCount);
-  const jobHistory = useSelector(selectJobHistory);
-  const hasJobHistory = useSelector(selectHasJobHistory);
-
-  const handleCancelJob = (jobId: string) => {
-    console.info(`Job ${jobId} cancelled`);
-    // Job status will update automatically through polling
+  const handleSaveNotifications = (settings: NotificationSettings) => {
+    jobNotificationService.updateSettings(settings);
+    setNotificationSettings(settings);
+    setNotificationsOpen(false);
   };
 
   const handleViewResults = (jobId: string) => {
@@ -302,27 +96,72 @@ export const JobStatusDashboard: React.FC<JobStatusDashboardProps> = ({ onViewRe
 
   return (
     <Box>
-      <Typography variant='h4' gutterBottom>
-        Job Status Dashboard
-      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+        <Typography variant='h4' gutterBottom>
+          Job Status Dashboard
+        </Typography>
+        {connection.status !== 'idle' && (
+          <Chip
+            size='small'
+            variant='outlined'
+            color={connection.status === 'live' ? 'success' : 'default'}
+            label={
+              connection.status === 'live'
+                ? `Live (${connection.transport === 'sse' ? 'SSE' : 'WebSocket'})`
+                : connection.status === 'connecting'
+                  ? 'Connecting...'
+                  : 'Polling'
+            }
+            {...(connection.error && { title: connection.error })}
+          />
+        )}
+        {/* Shared results files open as read-only jobs in the history */}
+        <Stack direction='row' spacing={1} sx={{ ml: 'auto' }}>
+          <Button
+            size='small'
+            startIcon={<NotificationsIcon />}
+            onClick={() => setNotificationsOpen(true)}
+          >
+            Notifications
+          </Button>
+          <ImportResultsButton {...(onViewResults && { onImported: handleViewResults })} />
+        </Stack>
+      </Box>
 
       <Typography variant='body1' color='text.secondary' paragraph>
-        Monitor your analysis jobs in real-time. Active jobs update automatically every 2 seconds.
+        Monitor your analysis jobs in real-time. Active jobs update automatically, streamed from the
+        server when available and polled otherwise.
       </Typography>
 
       <Stack spacing={3}>
+        {/* Campaigns Section */}
+        {campaigns.length > 0 && (
+          <Stack spacing={2}>
+            <Typography variant='h6'>Campaigns ({campaigns.length})</Typography>
+            {campaigns.map(campaign => (
+              <CampaignCard
+                key={campaign.id}
+                campaign={campaign}
+                {...(onViewResults && { onViewResults: handleViewResults })}
+                {...(onViewDetails && { onViewDetails })}
+              />
+            ))}
+          </Stack>
+        )}
+
         {/* Active Jobs Section */}
         {activeJobCount === 0 ? (
           <Alert severity='info'>No active jobs. Upload a binary file to start analysis.</Alert>
         ) : (
           <Stack spacing={2}>
             <Typography variant='h6'>Active Jobs ({activeJobCount})</Typography>
-            {Object.entries(activeJobs).map(([jobId]) => (
+            {standaloneActiveJobIds.map(jobId => (
               <JobStatusCard
                 key={jobId}
                 jobId={jobId}
                 onCancel={handleCancelJob}
                 {...(onViewResults && { onViewResults: handleViewResults })}
+                {...(onViewDetails && { onViewDetails })}
               />
             ))}
           </Stack>
@@ -331,18 +170,61 @@ export const JobStatusDashboard: React.FC<JobStatusDashboardProps> = ({ onViewRe
         {/* Job History Section */}
         {hasJobHistory && (
           <Stack spacing={2}>
-            <Typography variant='h6'>Job History ({jobHistory.length})</Typography>
-            {jobHistory.map((job) => (
-              <JobStatusCard
-                key={job.id}
-                jobId={job.id}
-                onCancel={handleCancelJob}
-                {...(onViewResults && { onViewResults: handleViewResults })}
-              />
-            ))}
+            <Box sx={{ display: 'flex', alignItems: 'center' }}>
+              <Typography variant='h6'>Job History ({jobHistory.length})</Typography>
+              <Button
+                size='small'
+                startIcon={<StorageIcon />}
+                onClick={() => setStorageOpen(true)}
+                sx={{ ml: 'auto' }}
+              >
+                Storage
+              </Button>
+              <Button
+                size='small'
+                startIcon={<SettingsIcon />}
+                onClick={() => setRetrySettingsOpen(true)}
+              >
+                Retry Settings
+              </Button>
+            </Box>
+            <JobHistoryTable
+              {...(onViewResults && { onViewResults: handleViewResults })}
+              {...(onViewDetails && { onViewDetails })}
+              onRetry={(jobId, withChanges) => setRetryTarget({ jobId, withChanges })}
+            />
           </Stack>
         )}
       </Stack>
+
+      <RetryJobDialog
+        open={!!retryTarget}
+        job={jobHistory.find(job => job.id === retryTarget?.jobId)}
+        withChanges={retryTarget?.withChanges ?? false}
+        onClose={() => setRetryTarget(null)}
+        {...(onViewDetails && { onSubmitted: onViewDetails })}
+      />
+
+      <RetrySettingsDialog
+        open={retrySettingsOpen}
+        settings={retrySettings}
+        onSave={handleSaveRetrySettings}
+        onClose={() => setRetrySettingsOpen(false)}
+      />
+
+      <HistoryStorageDialog
+        open={storageOpen}
+        settings={retention}
+        onSave={handleSaveRetention}
+        onClose={() => setStorageOpen(false)}
+      />
+
+      <NotificationSettingsDialog
+        open={notificationsOpen}
+        settings={notificationSettings}
+        onSave={handleSaveNotifications}
+        onClose={() => setNotificationsOpen(false)}
+      />
     </Box>
   );
 };
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  FormGroup,
+  InputAdornment,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { jobNotificationService } from '../../services/notifications';
+import type { NotificationPermissionState } from '../../services/notifications';
+import {
+  MAX_BACKGROUND_INTERVAL_SECONDS,
+  MIN_BACKGROUND_INTERVAL_SECONDS,
+  normalizeNotificationSettings,
+} from '../../utils/analysis';
+import type { JobNotificationEvent, NotificationSettings } from '../../utils/analysis';
+
+interface NotificationSettingsDialogProps {
+  open: boolean;
+  settings: NotificationSettings;
+  onSave: (settings: NotificationSettings) => void;
+  onClose: () => void;
+}
+
+const EVENT_LABELS: Array<{ event: JobNotificationEvent; label: string }> = [
+  { event: 'completed', label: 'Completed' },
+  { event: 'failed', label: 'Failed' },
+  { event: 'cancelled', label: 'Cancelled' },
+];
+
+export const NotificationSettingsDialog: React.FC<NotificationSettingsDialogProps> = ({
+  open,
+  settings,
+  onSave,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<NotificationSettings>(settings);
+  const [backgroundInterval, setBackgroundInterval] = useState('');
+  const [permission, setPermission] = useState<NotificationPermissionState>('default');
+
+  useEffect(() => {
+    if (open) {
+      setDraft(settings);
+      setBackgroundInterval(String(settings.backgroundIntervalSeconds));
+      setPermission(jobNotificationService.getPermission());
+    }
+  }, [open, settings]);
+
+  const intervalNumber = Number(backgroundInterval);
+  const intervalValid =
+    backgroundInterval.trim() !== '' &&
+    Number.isFinite(intervalNumber) &&
+    intervalNumber >= MIN_BACKGROUND_INTERVAL_SECONDS &&
+    intervalNumber <= MAX_BACKGROUND_INTERVAL_SECONDS;
+
+  const handleToggleEnabled = async (enabled: boolean) => {
+    setDraft(current => ({ ...current, enabled }));
+    // The browser only shows its permission prompt in response to a user action like this one
+    if (enabled) setPermission(await jobNotificationService.requestPermission());
+  };
+
+  const handleSave = () => {
+    onSave(normalizeNotificationSettings({ ...draft, backgroundIntervalSeconds: intervalNumber }));
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth='xs' fullWidth>
+      <DialogTitle>Notifications</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={draft.enabled}
+                onChange={e => void handleToggleEnabled(e.target.checked)}
+                disabled={permission === 'unsupported'}
+              />
+            }
+            label='Notify me when a job finishes in the background'
+          />
+          {permission === 'unsupported' && (
+            <Alert severity='info'>This browser does not support desktop notifications.</Alert>
+          )}
+          {draft.enabled && permission === 'denied' && (
+            <Alert severity='warning'>
+              Notifications are blocked for this site. Allow them in the browser&apos;s site
+              settings; the sound below still plays.
+            </Alert>
+          )}
+
+          <FormGroup row>
+            {EVENT_LABELS.map(({ event, label }) => (
+              <FormControlLabel
+                key={event}
+                control={
+                  <Checkbox
+                    checked={draft.events[event]}
+                    onChange={e =>
+                      setDraft(current => ({
+                        ...current,
+                        events: { ...current.events, [event]: e.target.checked },
+                      }))
+                    }
+                    disabled={!draft.enabled}
+                  />
+                }
+                label={label}
+              />
+            ))}
+          </FormGroup>
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={draft.sound}
+                onChange={e => setDraft(current => ({ ...current, sound: e.target.checked }))}
+                disabled={!draft.enabled}
+              />
+            }
+            label='Play a sound'
+          />
+
+          <Typography variant='subtitle2'>Background updates</Typography>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={draft.backgroundPolling}
+                onChange={e =>
+                  setDraft(current => ({ ...current, backgroundPolling: e.target.checked }))
+                }
+              />
+            }
+            label='Keep checking on jobs while this tab is hidden'
+          />
+          <TextField
+            label='Check every'
+            type='number'
+            value={backgroundInterval}
+            onChange={e => setBackgroundInterval(e.target.value)}
+            disabled={!draft.backgroundPolling}
+            error={!intervalValid}
+            helperText={
+              intervalValid
+                ? 'Only applies when job status is polled; live updates arrive immediately'
+                : `Enter ${MIN_BACKGROUND_INTERVAL_SECONDS} to ${MAX_BACKGROUND_INTERVAL_SECONDS} seconds`
+            }
+            slotProps={{
+              input: { endAdornment: <InputAdornment position='end'>seconds</InputAdornment> },
+            }}
+          />
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button
+          onClick={() => jobNotificationService.sendTest()}
+          disabled={!draft.enabled || permission !== 'granted'}
+          sx={{ mr: 'auto' }}
+        >
+          Send Test
+        </Button>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant='contained' onClick={handleSave} disabled={!intervalValid}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
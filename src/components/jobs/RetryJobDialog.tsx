@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useGetUserLLMProvidersQuery } from '../../services/api/analysisApi';
+import type { JobSubmissionRequest } from '../../services/api/analysisApi';
+import { llmProviderManager } from '../../services/llm';
+import { jobRetryService } from '../../services/retry';
+import { fileCacheService } from '../../services/upload';
+import { credentialVault } from '../../services/vault';
+import { VaultUnlockDialog } from '../providers/VaultUnlockDialog';
+import type { AnalysisDepthType, AnalysisJob, JobConfig } from '../../types/analysis.types';
+
+type AnalysisDepth = NonNullable<JobSubmissionRequest['analysis_depth']>;
+type TranslationDetail = NonNullable<JobConfig['translationDetail']>;
+
+interface RetryJobDialogProps {
+  open: boolean;
+  job: AnalysisJob | undefined;
+  // Let the user edit the configuration before resubmitting
+  withChanges: boolean;
+  onClose: () => void;
+  onSubmitted?: (newJobId: string) => void;
+}
+
+const DEPTH_OPTIONS: Array<{ value: AnalysisDepth; label: string }> = [
+  { value: 'basic', label: 'Basic' },
+  { value: 'standard', label: 'Standard' },
+  { value: 'comprehensive', label: 'Comprehensive' },
+];
+
+const TRANSLATION_DETAIL_OPTIONS: Array<{ value: TranslationDetail; label: string }> = [
+  { value: 'basic', label: 'Basic' },
+  { value: 'standard', label: 'Standard' },
+  { value: 'detailed', label: 'Detailed' },
+];
+
+export const RetryJobDialog: React.FC<RetryJobDialogProps> = ({
+  open,
+  job,
+  withChanges,
+  onClose,
+  onSubmitted,
+}) => {
+  const [fileCached, setFileCached] = useState<boolean | null>(null);
+  const [analysisDepth, setAnalysisDepth] = useState<AnalysisDepth>('standard');
+  const [providerId, setProviderId] = useState('');
+  const [model, setModel] = useState('');
+  const [translationDetail, setTranslationDetail] = useState<TranslationDetail>('standard');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [vaultDialogOpen, setVaultDialogOpen] = useState(false);
+
+  const { data: providersData, isLoading: providersLoading } = useGetUserLLMProvidersQuery(
+    { active_only: true },
+    { skip: !open || !withChanges }
+  );
+  const providers = providersData?.providers.filter(provider => provider.is_active) ?? [];
+
+  useEffect(() => {
+    if (!open || !job) return;
+
+    setError(null);
+    setAnalysisDepth(job.config.analysisDepth as AnalysisDepth);
+    setProviderId(job.config.llmProvider ?? '');
+    setModel(job.config.llmModel ?? '');
+    setTranslationDetail(job.config.translationDetail ?? 'standard');
+
+    setFileCached(null);
+    let cancelled = false;
+    fileCacheService.has(job.id).then(cached => {
+      if (!cancelled) setFileCached(cached);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, job]);
+
+  const buildConfig = (): JobConfig | undefined => {
+    if (!job || !withChanges) return undefined;
+    const config: JobConfig = {
+      ...job.config,
+      analysisDepth: analysisDepth as AnalysisDepthType,
+    };
+    delete config.llmProvider;
+    delete config.llmModel;
+    delete config.translationDetail;
+    if (providerId) {
+      config.llmProvider = providerId;
+      config.translationDetail = translationDetail;
+      if (model.trim()) config.llmModel = model.trim();
+    }
+    return config;
+  };
+
+  const handleSubmit = async () => {
+    if (!job) return;
+
+    const config = buildConfig();
+    const provider = config ? config.llmProvider : job.config.llmProvider;
+    if (
+      provider &&
+      llmProviderManager.hasStoredCredentials(provider) &&
+      !credentialVault.isUnlocked()
+    ) {
+      setVaultDialogOpen(true);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const newJobId = await jobRetryService.retryJob(job.id, config);
+      onSubmitted?.(newJobId);
+      onClose();
+    } catch (err) {
+      setError((err as { message?: string })?.message || 'The job could not be resubmitted');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const unknownProvider =
+    !!providerId && !providersLoading && !providers.some(provider => provider.id === providerId);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth='sm' fullWidth>
+      <DialogTitle>{withChanges ? 'Retry with Changes' : 'Retry Job'}</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <Typography variant='body2' color='text.secondary'>
+            Resubmit <strong>{job?.fileName}</strong> as a new job
+            {withChanges ? ' with the settings below' : ' with the settings it was submitted with'}.
+            The new job is linked to this one.
+          </Typography>
+
+          {job?.error && <Alert severity='error'>Failed with: {job.error}</Alert>}
+
+          {fileCached === null && (
+            <Stack direction='row' spacing={1} alignItems='center'>
+              <CircularProgress size={16} />
+              <Typography variant='body2'>Looking for the cached file...</Typography>
+            </Stack>
+          )}
+          {fileCached === false && (
+            <Alert severity='warning'>
+              The file is no longer cached in this browser. Upload it again from the Upload page to
+              analyze it.
+            </Alert>
+          )}
+
+          {withChanges && (
+            <>
+              <FormControl fullWidth>
+                <InputLabel>Analysis Depth</InputLabel>
+                <Select
+                  value={analysisDepth}
+                  label='Analysis Depth'
+                  onChange={e => setAnalysisDepth(e.target.value as AnalysisDepth)}
+                  disabled={isSubmitting}
+                >
+                  {DEPTH_OPTIONS.map(option => (
+                    <MenuItem key={option.value} value={option.value}>
+                      {option.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+
+              <FormControl fullWidth>
+                <InputLabel>LLM Provider</InputLabel>
+                <Select
+                  value={providerId}
+                  label='LLM Provider'
+                  onChange={e => setProviderId(e.target.value)}
+                  disabled={providersLoading || isSubmitting}
+                >
+                  <MenuItem value=''>
+                    <em>None (decompile only)</em>
+                  </MenuItem>
+                  {unknownProvider && <MenuItem value={providerId}>{providerId}</MenuItem>}
+                  {providers.map(provider => (
+                    <MenuItem key={provider.id} value={provider.id}>
+                      {provider.name} ({provider.provider_type})
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+
+              {providerId && (
+                <>
+                  <TextField
+                    label='Model'
+                    value={model}
+                    onChange={e => setModel(e.target.value)}
+                    disabled={isSubmitting}
+                    helperText="Leave empty to use the provider's default model"
+                    fullWidth
+                  />
+                  <FormControl fullWidth>
+                    <InputLabel>Translation Detail Level</InputLabel>
+                    <Select
+                      value={translationDetail}
+                      label='Translation Detail Level'
+                      onChange={e => setTranslationDetail(e.target.value as TranslationDetail)}
+                      disabled={isSubmitting}
+                    >
+                      {TRANSLATION_DETAIL_OPTIONS.map(option => (
+                        <MenuItem key={option.value} value={option.value}>
+                          {option.label}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </>
+              )}
+            </>
+          )}
+
+          {error && <Alert severity='error'>{error}</Alert>}
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button
+          variant='contained'
+          onClick={handleSubmit}
+          disabled={!job || !fileCached || isSubmitting}
+        >
+          {isSubmitting ? 'Submitting...' : 'Retry'}
+        </Button>
+      </DialogActions>
+
+      <VaultUnlockDialog
+        open={vaultDialogOpen}
+        reason='The API key for this provider is stored in the credential vault.'
+        onUnlocked={() => {
+          setVaultDialogOpen(false);
+          void handleSubmit();
+        }}
+        onClose={() => setVaultDialogOpen(false)}
+      />
+    </Dialog>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  InputAdornment,
+  MenuItem,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  MAX_AUTO_RETRY_ATTEMPTS,
+  MAX_FILE_CACHE_HOURS,
+  normalizeRetrySettings,
+} from '../../utils/analysis';
+import type { RetrySettings } from '../../utils/analysis';
+
+interface RetrySettingsDialogProps {
+  open: boolean;
+  settings: RetrySettings;
+  onSave: (settings: RetrySettings) => void;
+  onClose: () => void;
+}
+
+const isWithin = (value: string, max: number): boolean => {
+  const number = Number.parseFloat(value);
+  return value.trim() !== '' && Number.isFinite(number) && number >= 0 && number <= max;
+};
+
+export const RetrySettingsDialog: React.FC<RetrySettingsDialogProps> = ({
+  open,
+  settings,
+  onSave,
+  onClose,
+}) => {
+  const [fileCacheHours, setFileCacheHours] = useState('');
+  const [autoRetryEnabled, setAutoRetryEnabled] = useState(false);
+  const [maxAttempts, setMaxAttempts] = useState(1);
+  const [initialDelaySeconds, setInitialDelaySeconds] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setFileCacheHours(String(settings.fileCacheHours));
+      setAutoRetryEnabled(settings.autoRetry.enabled);
+      setMaxAttempts(settings.autoRetry.maxAttempts);
+      setInitialDelaySeconds(String(settings.autoRetry.initialDelaySeconds));
+    }
+  }, [open, settings]);
+
+  const cacheValid = isWithin(fileCacheHours, MAX_FILE_CACHE_HOURS);
+  const delayValid = isWithin(initialDelaySeconds, 60 * 60);
+
+  const handleSave = () => {
+    onSave(
+      normalizeRetrySettings({
+        fileCacheHours: Number.parseFloat(fileCacheHours),
+        autoRetry: {
+          enabled: autoRetryEnabled,
+          maxAttempts,
+          initialDelaySeconds: Number.parseFloat(initialDelaySeconds),
+        },
+      })
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth='xs' fullWidth>
+      <DialogTitle>Retry Settings</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <TextField
+            label='Keep uploaded files for'
+            type='number'
+            value={fileCacheHours}
+            onChange={e => setFileCacheHours(e.target.value)}
+            error={!cacheValid}
+            helperText={
+              cacheValid
+                ? 'Files are kept in this browser so failed jobs can be resubmitted. 0 keeps none.'
+                : `Enter 0 to ${MAX_FILE_CACHE_HOURS} hours`
+            }
+            slotProps={{
+              input: { endAdornment: <InputAdornment position='end'>hours</InputAdornment> },
+            }}
+          />
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={autoRetryEnabled}
+                onChange={e => setAutoRetryEnabled(e.target.checked)}
+              />
+            }
+            label='Retry automatically after transient failures'
+          />
+          <Typography variant='caption' color='text.secondary'>
+            Network errors, timeouts and an overloaded or unavailable server count as transient.
+            Other failures are left for you to retry. Retries cost the same as new jobs and are
+            skipped when they would go over or near a budget cap.
+          </Typography>
+
+          <TextField
+            select
+            label='Attempts per job'
+            value={maxAttempts}
+            onChange={e => setMaxAttempts(Number(e.target.value))}
+            disabled={!autoRetryEnabled}
+          >
+            {Array.from({ length: MAX_AUTO_RETRY_ATTEMPTS }, (_, index) => index + 1).map(
+              attempts => (
+                <MenuItem key={attempts} value={attempts}>
+                  {attempts}
+                </MenuItem>
+              )
+            )}
+          </TextField>
+
+          <TextField
+            label='First retry after'
+            type='number'
+            value={initialDelaySeconds}
+            onChange={e => setInitialDelaySeconds(e.target.value)}
+            disabled={!autoRetryEnabled}
+            error={!delayValid}
+            helperText={
+              delayValid ? 'The wait doubles after every attempt' : 'Enter 0 to 3600 seconds'
+            }
+            slotProps={{
+              input: { endAdornment: <InputAdornment position='end'>seconds</InputAdornment> },
+            }}
+          />
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant='contained' onClick={handleSave} disabled={!cacheValid || !delayValid}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -1,7 +1,10 @@
 import React, { useState } from 'react';
+import { useLocation, useNavigate } from 'react-router';
 import {
+  Alert,
   AppBar,
   Box,
+  Button,
   CssBaseline,
   Drawer,
   IconButton,
@@ -23,13 +26,16 @@ import {
   Settings as SettingsIcon,
   MonitorHeart as HealthIcon,
   Home as HomeIcon,
+  CompareArrows as CompareIcon,
+  Insights as AnalyticsIcon,
 } from '@mui/icons-material';
+import { useHistoryStorage } from '../../hooks/analysis';
+import { NotificationBell, NotificationCenter } from '../notifications/NotificationCenter';
 
 const DRAWER_WIDTH = 240;
 
 interface AppLayoutProps {
   children: React.ReactNode;
-  onNavigate?: (path: string) => void;
 }
 
 interface NavigationItem {
@@ -64,6 +70,18 @@ const navigationItems: NavigationItem[] = [
     icon: <ResultsIcon />,
     path: '/results',
   },
+  {
+    id: 'compare',
+    label: 'Compare',
+    icon: <CompareIcon />,
+    path: '/compare',
+  },
+  {
+    id: 'analytics',
+    label: 'Usage & Spend',
+    icon: <AnalyticsIcon />,
+    path: '/analytics',
+  },
   {
     id: 'providers',
     label: 'LLM Providers',
@@ -78,10 +96,19 @@ const navigationItems: NavigationItem[] = [
   },
 ];
 
-export const AppLayout: React.FC<AppLayoutProps> = ({ children, onNavigate }) => {
+// Nested routes (e.g. /results/:jobId/:tab) keep their section highlighted
+const isActivePath = (itemPath: string, pathname: string): boolean =>
+  itemPath === '/'
+    ? pathname === '/'
+    : pathname === itemPath || pathname.startsWith(`${itemPath}/`);
+
+export const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
   const [mobileOpen, setMobileOpen] = useState(false);
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+  const historyStorage = useHistoryStorage();
 
   const handleDrawerToggle = () => {
     setMobileOpen(!mobileOpen);
@@ -98,8 +125,9 @@ export const AppLayout: React.FC<AppLayoutProps> = ({ children, onNavigate }) =>
         {navigationItems.map(item => (
           <ListItem key={item.id} disablePadding>
             <ListItemButton
+              selected={isActivePath(item.path, pathname)}
               onClick={() => {
-                onNavigate?.(item.path);
+                navigate(item.path);
                 if (isMobile) {
                   setMobileOpen(false);
                 }
@@ -138,7 +166,8 @@ export const AppLayout: React.FC<AppLayoutProps> = ({ children, onNavigate }) =>
           <Typography variant='h6' noWrap component='div' sx={{ flexGrow: 1 }}>
             Binary Analysis Platform
           </Typography>
-          <Typography variant='body2' sx={{ opacity: 0.8 }}>
+          <NotificationBell />
+          <Typography variant='body2' sx={{ opacity: 0.8, ml: 1 }}>
             v1.0.0
           </Typography>
         </Toolbar>
@@ -189,8 +218,24 @@ export const AppLayout: React.FC<AppLayoutProps> = ({ children, onNavigate }) =>
         }}
       >
         <Toolbar /> {/* Spacer for AppBar */}
+        {historyStorage.nearQuota && (
+          <Alert
+            severity='warning'
+            sx={{ mb: 2 }}
+            action={
+              <Button color='inherit' size='small' onClick={() => navigate('/jobs')}>
+                Manage
+              </Button>
+            }
+          >
+            Browser storage is almost full. Lower the job history limits under Jobs → Storage so new
+            results can be saved.
+          </Alert>
+        )}
         {children}
       </Box>
+
+      <NotificationCenter />
     </Box>
   );
 };
@@ -0,0 +1,243 @@
+import React from 'react';
+import { useNavigate } from 'react-router';
+import {
+  Alert,
+  AlertTitle,
+  Badge,
+  Box,
+  Button,
+  Chip,
+  Divider,
+  Drawer,
+  IconButton,
+  Snackbar,
+  Stack,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Notifications as NotificationsIcon,
+  NotificationsNone as NoNotificationsIcon,
+} from '@mui/icons-material';
+import { ROUTES } from '../../constants/routes';
+import { analysisApi } from '../../services/api/analysisApi';
+import type { AppDispatch } from '../../store';
+import { useAppDispatch, useAppSelector } from '../../store/hooks';
+import {
+  selectNotificationCenterOpen,
+  selectNotifications,
+  selectToastNotification,
+  selectUnreadNotificationCount,
+} from '../../store/selectors';
+import {
+  clearNotifications,
+  dismissToast,
+  removeNotification,
+  setNotificationCenterOpen,
+} from '../../store/slices/notificationsSlice';
+import type { AppNotification, NotificationAction } from '../../store/slices/notificationsSlice';
+
+const TOAST_DURATION_MS = 8000;
+
+const REFETCH = { subscribe: false, forceRefetch: true } as const;
+
+// Queries that can be run again from a notification, by endpoint name. The arguments are the
+// ones recorded from the failed request to the same endpoint.
+const RETRYABLE_QUERIES: Partial<Record<string, (dispatch: AppDispatch, args: unknown) => void>> = {
+  getJobStatus: (dispatch, args) =>
+    void dispatch(analysisApi.endpoints.getJobStatus.initiate(args as string, REFETCH)),
+  getLLMProviders: dispatch =>
+    void dispatch(analysisApi.endpoints.getLLMProviders.initiate(undefined, REFETCH)),
+  getProviderTypes: dispatch =>
+    void dispatch(analysisApi.endpoints.getProviderTypes.initiate(undefined, REFETCH)),
+  getUserLLMProviders: (dispatch, args) =>
+    void dispatch(
+      analysisApi.endpoints.getUserLLMProviders.initiate(
+        args as Parameters<typeof analysisApi.endpoints.getUserLLMProviders.initiate>[0],
+        REFETCH
+      )
+    ),
+  getUserLLMProvider: (dispatch, args) =>
+    void dispatch(analysisApi.endpoints.getUserLLMProvider.initiate(args as string, REFETCH)),
+  getSystemHealth: dispatch =>
+    void dispatch(analysisApi.endpoints.getSystemHealth.initiate(undefined, REFETCH)),
+};
+
+/**
+ * Carry out a notification's suggested action, then take it off screen
+ */
+const useNotificationAction = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+
+  return (notification: AppNotification, { action }: NotificationAction) => {
+    switch (action) {
+      case 'retry':
+        if (notification.retry) {
+          RETRYABLE_QUERIES[notification.retry.endpointName]?.(dispatch, notification.retry.args);
+        }
+        break;
+      case 'open-provider-settings':
+        navigate(ROUTES.PROVIDERS);
+        dispatch(setNotificationCenterOpen(false));
+        break;
+      case 'check-connection':
+        navigate(ROUTES.HEALTH);
+        dispatch(setNotificationCenterOpen(false));
+        break;
+      case 'refresh':
+        window.location.reload();
+        break;
+    }
+    dispatch(dismissToast(notification.id));
+  };
+};
+
+const NotificationActions: React.FC<{
+  notification: AppNotification;
+  onAction: (notification: AppNotification, action: NotificationAction) => void;
+}> = ({ notification, onAction }) => (
+  <>
+    {notification.actions
+      .filter(action => action.action !== 'dismiss')
+      .map(action => (
+        <Button
+          key={action.action}
+          color='inherit'
+          size='small'
+          variant={action.primary ? 'outlined' : 'text'}
+          onClick={() => onAction(notification, action)}
+        >
+          {action.label}
+        </Button>
+      ))}
+  </>
+);
+
+/**
+ * App bar button that opens the notification center, showing the unread count
+ */
+export const NotificationBell: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const unreadCount = useAppSelector(selectUnreadNotificationCount);
+
+  return (
+    <Tooltip title='Notifications'>
+      <IconButton color='inherit' onClick={() => dispatch(setNotificationCenterOpen(true))}>
+        <Badge badgeContent={unreadCount} color='error'>
+          <NotificationsIcon />
+        </Badge>
+      </IconButton>
+    </Tooltip>
+  );
+};
+
+/**
+ * Shows new notifications as toasts and keeps the session's notifications in a drawer
+ */
+export const NotificationCenter: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const notifications = useAppSelector(selectNotifications);
+  const toast = useAppSelector(selectToastNotification);
+  const open = useAppSelector(selectNotificationCenterOpen);
+  const handleAction = useNotificationAction();
+
+  return (
+    <>
+      {toast && (
+        <Snackbar
+          key={toast.id}
+          open
+          autoHideDuration={TOAST_DURATION_MS}
+          onClose={(_event, reason) => {
+            if (reason !== 'clickaway') dispatch(dismissToast(toast.id));
+          }}
+          anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        >
+          <Alert
+            severity={toast.severity}
+            variant='filled'
+            action={
+              <>
+                <NotificationActions notification={toast} onAction={handleAction} />
+                <IconButton
+                  size='small'
+                  color='inherit'
+                  aria-label='Dismiss'
+                  onClick={() => dispatch(dismissToast(toast.id))}
+                >
+                  <CloseIcon fontSize='small' />
+                </IconButton>
+              </>
+            }
+            sx={{ maxWidth: 560 }}
+          >
+            {toast.message}
+            {toast.count > 1 && ` (${toast.count} times)`}
+          </Alert>
+        </Snackbar>
+      )}
+
+      <Drawer anchor='right' open={open} onClose={() => dispatch(setNotificationCenterOpen(false))}>
+        <Box sx={{ width: { xs: '100vw', sm: 400 }, p: 2 }}>
+          <Stack direction='row' alignItems='center' spacing={1} sx={{ mb: 2 }}>
+            <Typography variant='h6' sx={{ flexGrow: 1 }}>
+              Notifications
+            </Typography>
+            <Button
+              size='small'
+              onClick={() => dispatch(clearNotifications())}
+              disabled={notifications.length === 0}
+            >
+              Clear all
+            </Button>
+            <IconButton
+              aria-label='Close notifications'
+              onClick={() => dispatch(setNotificationCenterOpen(false))}
+            >
+              <CloseIcon />
+            </IconButton>
+          </Stack>
+          <Divider sx={{ mb: 2 }} />
+
+          {notifications.length === 0 ? (
+            <Stack alignItems='center' spacing={1} sx={{ py: 6, color: 'text.secondary' }}>
+              <NoNotificationsIcon fontSize='large' />
+              <Typography variant='body2'>Nothing to report</Typography>
+            </Stack>
+          ) : (
+            <Stack spacing={1.5}>
+              {notifications.map(notification => (
+                <Alert
+                  key={notification.id}
+                  severity={notification.severity}
+                  onClose={() => dispatch(removeNotification(notification.id))}
+                >
+                  <AlertTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    {new Date(notification.lastAt).toLocaleTimeString()}
+                    {notification.count > 1 && (
+                      <Chip size='small' label={`${notification.count} times`} />
+                    )}
+                  </AlertTitle>
+                  <Typography variant='body2'>{notification.message}</Typography>
+                  {notification.detail && notification.detail !== notification.message && (
+                    <Typography variant='caption' component='div' color='text.secondary'>
+                      {notification.detail}
+                      {notification.source && ` (${notification.source})`}
+                    </Typography>
+                  )}
+                  {notification.actions.some(action => action.action !== 'dismiss') && (
+                    <Stack direction='row' spacing={1} sx={{ mt: 1 }}>
+                      <NotificationActions notification={notification} onAction={handleAction} />
+                    </Stack>
+                  )}
+                </Alert>
+              ))}
+            </Stack>
+          )}
+        </Box>
+      </Drawer>
+    </>
+  );
+};
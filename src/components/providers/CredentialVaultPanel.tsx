@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  Lock as LockIcon,
+  LockOpen as UnlockIcon,
+  Key as KeyIcon,
+  RestartAlt as ResetIcon,
+} from '@mui/icons-material';
+import { llmProviderManager } from '../../services/llm';
+import { AUTO_LOCK_OPTIONS, credentialVault, MIN_PASSPHRASE_LENGTH } from '../../services/vault';
+import { useCredentialVault } from '../../hooks';
+import { VaultUnlockDialog } from './VaultUnlockDialog';
+
+const STATUS_CHIPS = {
+  uninitialized: { label: 'Not set up', color: 'default' },
+  locked: { label: 'Locked', color: 'warning' },
+  unlocked: { label: 'Unlocked', color: 'success' },
+} as const;
+
+/**
+ * Status and settings for the passphrase-protected store of API keys
+ */
+export const CredentialVaultPanel: React.FC = () => {
+  const { status, autoLockMinutes, secretIds } = useCredentialVault();
+  const [unlockDialogOpen, setUnlockDialogOpen] = useState(false);
+  const [changeDialogOpen, setChangeDialogOpen] = useState(false);
+  const [resetDialogOpen, setResetDialogOpen] = useState(false);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [changeError, setChangeError] = useState<string | null>(null);
+  const [isChanging, setIsChanging] = useState(false);
+
+  const chip = STATUS_CHIPS[status];
+  // Re-read on every render; the panel re-renders whenever the vault changes state
+  const pendingKeyCount = status === 'unlocked' ? 0 : llmProviderManager.getPendingLegacyKeyCount();
+
+  const openChangeDialog = () => {
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setChangeError(null);
+    setChangeDialogOpen(true);
+  };
+
+  const handleChangePassphrase = async () => {
+    setIsChanging(true);
+    setChangeError(null);
+    try {
+      await credentialVault.changePassphrase(currentPassphrase, newPassphrase);
+      setChangeDialogOpen(false);
+    } catch (err) {
+      setChangeError(err instanceof Error ? err.message : 'Could not change the passphrase');
+    } finally {
+      setIsChanging(false);
+    }
+  };
+
+  const handleReset = () => {
+    credentialVault.reset();
+    setResetDialogOpen(false);
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Stack direction='row' spacing={1} alignItems='center' sx={{ mb: 1 }}>
+          <KeyIcon color='action' />
+          <Typography variant='h6'>Credential Vault</Typography>
+          <Chip size='small' label={chip.label} color={chip.color} />
+          {status !== 'uninitialized' && (
+            <Typography variant='caption' color='text.secondary'>
+              {secretIds.length} stored key{secretIds.length === 1 ? '' : 's'}
+            </Typography>
+          )}
+        </Stack>
+        <Typography variant='body2' color='text.secondary' paragraph>
+          API keys saved in this browser are encrypted with your passphrase (AES-GCM, PBKDF2). The
+          vault locks itself after {autoLockMinutes} minutes without activity, and jobs that send an
+          API key can only be submitted while it is unlocked.
+        </Typography>
+        {pendingKeyCount > 0 && (
+          <Alert severity='warning' sx={{ mb: 2 }}>
+            {pendingKeyCount} API key{pendingKeyCount === 1 ? ' is' : 's are'} still saved
+            unencrypted by an earlier version of the app.{' '}
+            {status === 'uninitialized' ? 'Set up' : 'Unlock'} the vault to move{' '}
+            {pendingKeyCount === 1 ? 'it' : 'them'} in.
+          </Alert>
+        )}
+
+        <Stack direction='row' spacing={1} alignItems='center' flexWrap='wrap' useFlexGap>
+          {status === 'unlocked' ? (
+            <Button
+              variant='outlined'
+              startIcon={<LockIcon />}
+              onClick={() => credentialVault.lock()}
+            >
+              Lock Now
+            </Button>
+          ) : (
+            <Button
+              variant='contained'
+              startIcon={<UnlockIcon />}
+              onClick={() => setUnlockDialogOpen(true)}
+            >
+              {status === 'uninitialized' ? 'Set Up Vault' : 'Unlock'}
+            </Button>
+          )}
+          {status !== 'uninitialized' && (
+            <>
+              <TextField
+                select
+                size='small'
+                label='Auto-lock after'
+                value={autoLockMinutes}
+                onChange={e => credentialVault.setAutoLockMinutes(Number(e.target.value))}
+                sx={{ minWidth: 160 }}
+              >
+                {AUTO_LOCK_OPTIONS.map(minutes => (
+                  <MenuItem key={minutes} value={minutes}>
+                    {minutes} minutes
+                  </MenuItem>
+                ))}
+              </TextField>
+              <Button onClick={openChangeDialog}>Change Passphrase</Button>
+              <Button
+                color='error'
+                startIcon={<ResetIcon />}
+                onClick={() => setResetDialogOpen(true)}
+              >
+                Reset
+              </Button>
+            </>
+          )}
+        </Stack>
+      </CardContent>
+
+      <VaultUnlockDialog
+        open={unlockDialogOpen}
+        onUnlocked={() => setUnlockDialogOpen(false)}
+        onClose={() => setUnlockDialogOpen(false)}
+      />
+
+      <Dialog
+        open={changeDialogOpen}
+        onClose={() => setChangeDialogOpen(false)}
+        maxWidth='xs'
+        fullWidth
+      >
+        <DialogTitle>Change Passphrase</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <TextField
+              autoFocus
+              fullWidth
+              type='password'
+              label='Current passphrase'
+              autoComplete='current-password'
+              value={currentPassphrase}
+              onChange={e => setCurrentPassphrase(e.target.value)}
+            />
+            <TextField
+              fullWidth
+              type='password'
+              label='New passphrase'
+              autoComplete='new-password'
+              value={newPassphrase}
+              onChange={e => setNewPassphrase(e.target.value)}
+              helperText={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+            />
+            {changeError && <Alert severity='error'>{changeError}</Alert>}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setChangeDialogOpen(false)} disabled={isChanging}>
+            Cancel
+          </Button>
+          <Button
+            variant='contained'
+            onClick={handleChangePassphrase}
+            disabled={
+              isChanging || !currentPassphrase || newPassphrase.length < MIN_PASSPHRASE_LENGTH
+            }
+          >
+            {isChanging ? 'Re-encrypting...' : 'Change'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={resetDialogOpen} onClose={() => setResetDialogOpen(false)} maxWidth='xs'>
+        <DialogTitle>Reset Credential Vault?</DialogTitle>
+        <DialogContent>
+          <Typography variant='body2'>
+            Every API key stored in the vault is deleted and cannot be recovered. Use this if you
+            have forgotten the passphrase.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setResetDialogOpen(false)}>Cancel</Button>
+          <Button color='error' variant='contained' onClick={handleReset}>
+            Delete Vault
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
@@ -15,6 +15,8 @@ import {
   DialogActions,
   TextField,
   Stack,
+  Checkbox,
+  FormControlLabel,
   LinearProgress,
   Tabs,
   Tab,
@@ -32,7 +34,10 @@ import {
   useTestLLMProviderMutation,
 } from '../../services/api/analysisApi';
 import type { LLMProvider } from '../../services/api/analysisApi';
+import { llmProviderManager } from '../../services/llm';
+import { useCredentialVault } from '../../hooks';
 import { UserProviderManagementPanel } from './UserProviderManagementPanel';
+import { CredentialVaultPanel } from './CredentialVaultPanel';
 
 interface ProviderCardProps {
   provider: LLMProvider;
@@ -313,6 +318,8 @@ export const LLMProviderDashboard: React.FC = () => {
   const [showTestDialog, setShowTestDialog] = useState(false);
   const [testDialogProvider, setTestDialogProvider] = useState<LLMProvider | null>(null);
   const [testApiKey, setTestApiKey] = useState('');
+  const [rememberApiKey, setRememberApiKey] = useState(false);
+  const { status: vaultStatus } = useCredentialVault();
 
   const { data: providersData, isLoading, error, refetch } = useGetLLMProvidersQuery();
 
@@ -337,6 +344,10 @@ export const LLMProviderDashboard: React.FC = () => {
     setShowTestDialog(false);
 
     try {
+      if (rememberApiKey && testApiKey.trim()) {
+        await llmProviderManager.setProviderCredentials(testDialogProvider.provider_id, testApiKey);
+      }
+
       const result = await testProvider({
         providerId: testDialogProvider.provider_id,
       }).unwrap();
@@ -362,6 +373,7 @@ export const LLMProviderDashboard: React.FC = () => {
     setShowTestDialog(false);
     setTestDialogProvider(null);
     setTestApiKey('');
+    setRememberApiKey(false);
   };
 
   if (isLoading) {
@@ -423,6 +435,8 @@ export const LLMProviderDashboard: React.FC = () => {
         or monitor system-configured ones.
       </Typography>
 
+      <CredentialVaultPanel />
+
       <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 3 }}>
         <Tabs value={activeTab} onChange={handleTabChange}>
           <Tab label="Your Providers" />
@@ -457,9 +471,23 @@ export const LLMProviderDashboard: React.FC = () => {
               type='password'
               value={testApiKey}
               onChange={e => setTestApiKey(e.target.value)}
-              helperText='Provide API key for authenticated testing (not stored)'
+              helperText='Provide API key for authenticated testing'
               sx={{ mt: 2 }}
             />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={rememberApiKey}
+                  onChange={e => setRememberApiKey(e.target.checked)}
+                  disabled={vaultStatus !== 'unlocked' || !testApiKey.trim()}
+                />
+              }
+              label={
+                vaultStatus === 'unlocked'
+                  ? 'Save this key in the credential vault for job submissions'
+                  : 'Unlock the credential vault to save this key'
+              }
+            />
           </DialogContent>
           <DialogActions>
             <Button onClick={handleCloseTestDialog}>Cancel</Button>
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { credentialVault, MIN_PASSPHRASE_LENGTH } from '../../services/vault';
+import { useCredentialVault } from '../../hooks';
+
+interface VaultUnlockDialogProps {
+  open: boolean;
+  // Why the vault is needed right now, e.g. before submitting a job
+  reason?: string;
+  onUnlocked?: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Unlocks the credential vault, or sets one up when none exists yet
+ */
+export const VaultUnlockDialog: React.FC<VaultUnlockDialogProps> = ({
+  open,
+  reason,
+  onUnlocked,
+  onClose,
+}) => {
+  const { status } = useCredentialVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const isCreating = status === 'uninitialized';
+
+  useEffect(() => {
+    if (open) {
+      setPassphrase('');
+      setConfirmation('');
+      setError(null);
+    }
+  }, [open]);
+
+  const mismatch = isCreating && !!confirmation && confirmation !== passphrase;
+  const canSubmit = isCreating
+    ? passphrase.length >= MIN_PASSPHRASE_LENGTH && confirmation === passphrase
+    : !!passphrase;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSubmit || isWorking) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (isCreating) {
+        await credentialVault.create(passphrase);
+      } else {
+        await credentialVault.unlock(passphrase);
+      }
+      setPassphrase('');
+      setConfirmation('');
+      onUnlocked?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not unlock the vault');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth='xs' fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>
+          {isCreating ? 'Set Up Credential Vault' : 'Unlock Credential Vault'}
+        </DialogTitle>
+        <DialogContent>
+          <Stack spacing={2}>
+            {reason && <Alert severity='info'>{reason}</Alert>}
+            <Typography variant='body2' color='text.secondary'>
+              {isCreating
+                ? 'API keys are encrypted with this passphrase before they are stored. It cannot be recovered, so keep it somewhere safe.'
+                : 'Enter your passphrase to use the API keys stored in this browser.'}
+            </Typography>
+            <TextField
+              autoFocus
+              fullWidth
+              type='password'
+              label='Passphrase'
+              autoComplete={isCreating ? 'new-password' : 'current-password'}
+              value={passphrase}
+              onChange={e => setPassphrase(e.target.value)}
+              disabled={isWorking}
+              {...(isCreating && {
+                helperText: `At least ${MIN_PASSPHRASE_LENGTH} characters`,
+              })}
+            />
+            {isCreating && (
+              <TextField
+                fullWidth
+                type='password'
+                label='Confirm passphrase'
+                autoComplete='new-password'
+                value={confirmation}
+                onChange={e => setConfirmation(e.target.value)}
+                disabled={isWorking}
+                error={mismatch}
+                {...(mismatch && { helperText: 'Passphrases do not match' })}
+              />
+            )}
+            {isWorking && <LinearProgress />}
+            {error && <Alert severity='error'>{error}</Alert>}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} disabled={isWorking}>
+            Cancel
+          </Button>
+          <Button type='submit' variant='contained' disabled={!canSubmit || isWorking}>
+            {isCreating ? 'Create Vault' : 'Unlock'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
@@ -0,0 +1,435 @@
+import React, { useCallback, useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  InputAdornment,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+  useTheme,
+} from '@mui/material';
+import {
+  ChevronRight as CollapsedIcon,
+  ExpandMore as ExpandedIcon,
+  KeyboardArrowDown as NextIcon,
+  KeyboardArrowUp as PreviousIcon,
+  Search as SearchIcon,
+  UnfoldLess as CollapseAllIcon,
+  UnfoldMore as ExpandAllIcon,
+} from '@mui/icons-material';
+import {
+  MAX_CODE_MATCHES,
+  findAddressLine,
+  findSymbolReferences,
+  getVisibleLines,
+  parseAddress,
+  parseDecompiledCode,
+  searchCodeLines,
+  tokenizeLine,
+} from '../../utils/analysis';
+import type { CodeTokenType } from '../../utils/analysis';
+
+interface DecompiledCodeViewerProps {
+  code: string;
+  // Decompiler function list, used to map function names to addresses
+  functions?: Array<{ name: string; address: string }> | undefined;
+  // Scroll to this function's definition when it changes
+  focusedFunction?: string | null;
+  // Open a function's details when its symbol is selected
+  onOpenFunction?: (functionName: string) => void;
+  height?: number;
+}
+
+const LINE_HEIGHT = 20;
+// Extra rows rendered above and below the viewport to avoid flicker while scrolling
+const OVERSCAN = 20;
+
+type LineTarget = { line: number; nonce: number };
+
+// Cycle through results; -1 means none has been visited yet
+const stepIndex = (index: number, direction: 1 | -1, length: number): number => {
+  if (index < 0) return direction === 1 ? 0 : length - 1;
+  return (index + direction + length) % length;
+};
+
+export const DecompiledCodeViewer: React.FC<DecompiledCodeViewerProps> = ({
+  code,
+  functions,
+  focusedFunction,
+  onOpenFunction,
+  height = 600,
+}) => {
+  const theme = useTheme();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // The focus request last acted on
+  const handledFocusRef = useRef<{
+    name: string | null | undefined;
+    functions: typeof functionsByName;
+  } | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [collapsed, setCollapsed] = useState<ReadonlySet<number>>(new Set());
+  const [target, setTarget] = useState<LineTarget | null>(null);
+  const [query, setQuery] = useState('');
+  const [matchIndex, setMatchIndex] = useState(-1);
+  const [addressInput, setAddressInput] = useState('');
+  const [addressError, setAddressError] = useState<string | null>(null);
+  const [symbol, setSymbol] = useState<string | null>(null);
+  const [referenceIndex, setReferenceIndex] = useState(-1);
+
+  // Indexing is a single linear pass, so even multi-megabyte listings parse quickly
+  const listing = useMemo(() => parseDecompiledCode(code, functions), [code, functions]);
+  const functionsByStart = useMemo(
+    () => new Map(listing.functions.map(fn => [fn.startLine, fn])),
+    [listing]
+  );
+  const functionsByName = useMemo(
+    () => new Map(listing.functions.map(fn => [fn.name, fn])),
+    [listing]
+  );
+  const visibleLines = useMemo(() => getVisibleLines(listing, collapsed), [listing, collapsed]);
+
+  const deferredQuery = useDeferredValue(query);
+  const matches = useMemo(
+    () => searchCodeLines(listing.lines, deferredQuery),
+    [listing, deferredQuery]
+  );
+  const matchSet = useMemo(() => new Set(matches), [matches]);
+  const references = useMemo(
+    () => (symbol ? findSymbolReferences(listing.lines, symbol) : []),
+    [listing, symbol]
+  );
+
+  const tokenColors: Record<CodeTokenType, string> = useMemo(
+    () => ({
+      keyword: theme.palette.primary.main,
+      type: theme.palette.secondary.main,
+      number: theme.palette.success.dark,
+      string: theme.palette.warning.dark,
+      comment: theme.palette.text.secondary,
+      function: theme.palette.info.dark,
+      identifier: theme.palette.text.primary,
+      plain: theme.palette.text.primary,
+    }),
+    [theme]
+  );
+
+  useEffect(() => {
+    setCollapsed(new Set());
+    setTarget(null);
+    setSymbol(null);
+  }, [listing]);
+
+  // Jumping to a line expands the function hiding it, then scrolls once the rows exist
+  const goToLine = useCallback(
+    (line: number) => {
+      const hiding = listing.functions.find(
+        fn => collapsed.has(fn.startLine) && line > fn.startLine && line <= fn.endLine
+      );
+      if (hiding) {
+        setCollapsed(current => {
+          const next = new Set(current);
+          next.delete(hiding.startLine);
+          return next;
+        });
+      }
+      setTarget(current => ({ line, nonce: (current?.nonce ?? 0) + 1 }));
+    },
+    [listing, collapsed]
+  );
+
+  useEffect(() => {
+    if (!target || !scrollRef.current) return;
+    // Visible lines are sorted, so the row index can be found by binary search
+    let low = 0;
+    let high = visibleLines.length - 1;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if ((visibleLines[middle] ?? 0) < target.line) low = middle + 1;
+      else high = middle;
+    }
+    scrollRef.current.scrollTop = Math.max(0, low * LINE_HEIGHT - height / 3);
+  }, [target, visibleLines, height]);
+
+  // Only react to a new focus request, not to collapsing or expanding
+  useEffect(() => {
+    const handled = handledFocusRef.current;
+    if (handled && handled.name === focusedFunction && handled.functions === functionsByName) {
+      return;
+    }
+    handledFocusRef.current = { name: focusedFunction, functions: functionsByName };
+
+    const fn = focusedFunction ? functionsByName.get(focusedFunction) : undefined;
+    if (fn) goToLine(fn.startLine);
+  }, [focusedFunction, functionsByName, goToLine]);
+
+  const toggleFunction = (startLine: number) => {
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (next.has(startLine)) next.delete(startLine);
+      else next.add(startLine);
+      return next;
+    });
+  };
+
+  const stepMatch = (direction: 1 | -1) => {
+    if (matches.length === 0) return;
+    const next = stepIndex(matchIndex, direction, matches.length);
+    setMatchIndex(next);
+    goToLine(matches[next] ?? 0);
+  };
+
+  const stepReference = (direction: 1 | -1) => {
+    if (references.length === 0) return;
+    const next = stepIndex(referenceIndex, direction, references.length);
+    setReferenceIndex(next);
+    goToLine(references[next] ?? 0);
+  };
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setMatchIndex(-1);
+  };
+
+  const handleGoToAddress = () => {
+    const address = parseAddress(addressInput);
+    if (address === null) {
+      setAddressError('Enter a hex address such as 0x401000');
+      return;
+    }
+    const line = findAddressLine(listing, address);
+    if (line === null) {
+      setAddressError('No known address at or below this one');
+      return;
+    }
+    setAddressError(null);
+    goToLine(line);
+  };
+
+  const handleSelectSymbol = (name: string) => {
+    setSymbol(name);
+    setReferenceIndex(-1);
+  };
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / LINE_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(
+    visibleLines.length,
+    Math.ceil((scrollTop + height) / LINE_HEIGHT) + OVERSCAN
+  );
+  const gutterWidth = `${String(listing.lines.length).length + 3}ch`;
+  const symbolDefinition = symbol ? functionsByName.get(symbol) : undefined;
+  const currentMatchLine = matchIndex >= 0 ? matches[matchIndex] : undefined;
+
+  const renderRow = (row: number) => {
+    const line = visibleLines[row] ?? 0;
+    const fn = functionsByStart.get(line);
+    const isCollapsed = fn !== undefined && collapsed.has(line);
+    const { tokens } = tokenizeLine(
+      listing.lines[line] ?? '',
+      listing.blockCommentLines[line] === 1
+    );
+
+    const isCurrent = line === target?.line || line === currentMatchLine;
+    const background = isCurrent
+      ? theme.palette.action.selected
+      : matchSet.has(line)
+        ? theme.palette.action.hover
+        : undefined;
+
+    return (
+      <Box
+        key={line}
+        sx={{ display: 'flex', height: LINE_HEIGHT, lineHeight: `${LINE_HEIGHT}px`, background }}
+      >
+        <Box
+          component='span'
+          sx={{
+            width: gutterWidth,
+            flexShrink: 0,
+            pr: 1,
+            textAlign: 'right',
+            color: 'text.disabled',
+            userSelect: 'none',
+            position: 'sticky',
+            left: 0,
+            bgcolor: 'grey.100',
+          }}
+        >
+          {line + 1}
+        </Box>
+        <Box component='span' sx={{ width: 20, flexShrink: 0, userSelect: 'none' }}>
+          {fn && (
+            <IconButton
+              size='small'
+              sx={{ p: 0 }}
+              onClick={() => toggleFunction(line)}
+              aria-label={`${isCollapsed ? 'Expand' : 'Collapse'} ${fn.name}`}
+            >
+              {isCollapsed ? <CollapsedIcon fontSize='small' /> : <ExpandedIcon fontSize='small' />}
+            </IconButton>
+          )}
+        </Box>
+        <Box component='span' sx={{ whiteSpace: 'pre' }}>
+          {tokens.map((token, index) => {
+            const isSymbol = token.type === 'function' || token.type === 'identifier';
+            return (
+              <span
+                key={index}
+                style={{
+                  color: tokenColors[token.type],
+                  ...(token.type === 'comment' && { fontStyle: 'italic' }),
+                  ...(isSymbol && { cursor: 'pointer' }),
+                  ...(isSymbol &&
+                    token.text === symbol && { backgroundColor: theme.palette.warning.light }),
+                }}
+                {...(isSymbol && { onClick: () => handleSelectSymbol(token.text) })}
+              >
+                {token.text}
+              </span>
+            );
+          })}
+          {isCollapsed && (
+            <Typography component='span' variant='caption' color='text.secondary' sx={{ ml: 1 }}>
+              … {fn.endLine - fn.startLine} lines
+            </Typography>
+          )}
+        </Box>
+      </Box>
+    );
+  };
+
+  return (
+    <Stack spacing={1}>
+      {/* Toolbar */}
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={1} alignItems='flex-start'>
+        <TextField
+          size='small'
+          placeholder='Search code'
+          value={query}
+          onChange={e => handleQueryChange(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') stepMatch(e.shiftKey ? -1 : 1);
+          }}
+          helperText={
+            deferredQuery
+              ? `${matches.length >= MAX_CODE_MATCHES ? `${MAX_CODE_MATCHES}+` : matches.length} matching lines`
+              : ' '
+          }
+          slotProps={{
+            input: {
+              startAdornment: (
+                <InputAdornment position='start'>
+                  <SearchIcon fontSize='small' />
+                </InputAdornment>
+              ),
+              endAdornment: (
+                <InputAdornment position='end'>
+                  <IconButton
+                    size='small'
+                    onClick={() => stepMatch(-1)}
+                    aria-label='Previous match'
+                  >
+                    <PreviousIcon fontSize='small' />
+                  </IconButton>
+                  <IconButton size='small' onClick={() => stepMatch(1)} aria-label='Next match'>
+                    <NextIcon fontSize='small' />
+                  </IconButton>
+                </InputAdornment>
+              ),
+            },
+          }}
+        />
+        <TextField
+          size='small'
+          placeholder='Go to address'
+          value={addressInput}
+          onChange={e => setAddressInput(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') handleGoToAddress();
+          }}
+          error={addressError !== null}
+          helperText={addressError ?? `${listing.addresses.length} known addresses`}
+        />
+        <Box sx={{ flexGrow: 1 }} />
+        <Tooltip title='Collapse all functions'>
+          <IconButton
+            onClick={() => setCollapsed(new Set(listing.functions.map(fn => fn.startLine)))}
+          >
+            <CollapseAllIcon />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title='Expand all functions'>
+          <IconButton onClick={() => setCollapsed(new Set())}>
+            <ExpandAllIcon />
+          </IconButton>
+        </Tooltip>
+      </Stack>
+
+      {/* Cross-reference for the clicked symbol */}
+      {symbol && (
+        <Stack direction='row' spacing={1} alignItems='center' flexWrap='wrap'>
+          <Chip label={symbol} onDelete={() => setSymbol(null)} sx={{ fontFamily: 'monospace' }} />
+          <Typography variant='body2' color='text.secondary'>
+            {references.length >= MAX_CODE_MATCHES ? `${MAX_CODE_MATCHES}+` : references.length}{' '}
+            referencing lines
+          </Typography>
+          <IconButton
+            size='small'
+            onClick={() => stepReference(-1)}
+            aria-label='Previous reference'
+          >
+            <PreviousIcon fontSize='small' />
+          </IconButton>
+          <IconButton size='small' onClick={() => stepReference(1)} aria-label='Next reference'>
+            <NextIcon fontSize='small' />
+          </IconButton>
+          {symbolDefinition && (
+            <Button size='small' onClick={() => goToLine(symbolDefinition.startLine)}>
+              Go to definition
+            </Button>
+          )}
+          {symbolDefinition && onOpenFunction && (
+            <Button size='small' onClick={() => onOpenFunction(symbolDefinition.name)}>
+              Function details
+            </Button>
+          )}
+        </Stack>
+      )}
+
+      {/* Only the rows in view are rendered, so listing size does not affect scrolling */}
+      <Box
+        ref={scrollRef}
+        onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+        sx={{
+          height,
+          overflow: 'auto',
+          bgcolor: 'grey.100',
+          borderRadius: 1,
+          fontFamily: 'monospace',
+          fontSize: '0.875rem',
+        }}
+      >
+        <Box
+          sx={{
+            height: visibleLines.length * LINE_HEIGHT,
+            position: 'relative',
+            minWidth: 'max-content',
+          }}
+        >
+          <Box sx={{ position: 'absolute', top: firstRow * LINE_HEIGHT, left: 0, right: 0 }}>
+            {Array.from({ length: Math.max(0, lastRow - firstRow) }, (_, i) =>
+              renderRow(firstRow + i)
+            )}
+          </Box>
+        </Box>
+      </Box>
+
+      <Typography variant='caption' color='text.secondary'>
+        {listing.lines.length.toLocaleString()} lines • {listing.functions.length} functions. Click
+        a symbol to find its references.
+      </Typography>
+    </Stack>
+  );
+};
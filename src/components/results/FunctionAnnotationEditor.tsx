@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Box, Button, Chip, Stack, TextField, Typography } from '@mui/material';
+import { SUGGESTED_TAGS } from '../../utils/analysis';
+import type { FunctionDetail } from '../../utils/analysis';
+import type { FunctionAnnotation } from '../../types/analysis.types';
+
+interface FunctionAnnotationEditorProps {
+  detail: FunctionDetail;
+  annotation?: FunctionAnnotation | undefined;
+  onSave: (annotation: FunctionAnnotation) => void;
+}
+
+export const FunctionAnnotationEditor: React.FC<FunctionAnnotationEditorProps> = ({
+  detail,
+  annotation,
+  onSave,
+}) => {
+  const [displayName, setDisplayName] = useState(annotation?.displayName ?? '');
+  const [comment, setComment] = useState(annotation?.comment ?? '');
+  const [tags, setTags] = useState<string[]>(annotation?.tags ?? []);
+  const [tagInput, setTagInput] = useState('');
+
+  const isDirty =
+    displayName.trim() !== (annotation?.displayName ?? '') ||
+    comment.trim() !== (annotation?.comment ?? '') ||
+    tags.join('\n') !== (annotation?.tags ?? []).join('\n');
+
+  const addTag = (tag: string) => {
+    const trimmed = tag.trim();
+    if (trimmed && !tags.includes(trimmed)) setTags([...tags, trimmed]);
+    setTagInput('');
+  };
+
+  const save = (changes: { displayName: string; comment: string; tags: string[] }) => {
+    onSave({
+      originalName: detail.id,
+      tags: changes.tags,
+      updatedAt: new Date().toISOString(),
+      ...(detail.address && { address: detail.address }),
+      ...(detail.size !== undefined && { size: detail.size }),
+      ...(changes.displayName.trim() && { displayName: changes.displayName.trim() }),
+      ...(changes.comment.trim() && { comment: changes.comment.trim() }),
+    });
+  };
+
+  const handleClear = () => {
+    setDisplayName('');
+    setComment('');
+    setTags([]);
+    save({ displayName: '', comment: '', tags: [] });
+  };
+
+  return (
+    <Stack spacing={1.5}>
+      <Typography variant='subtitle2'>Analyst Notes</Typography>
+      <TextField
+        size='small'
+        label='Rename'
+        placeholder={detail.id}
+        value={displayName}
+        onChange={e => setDisplayName(e.target.value)}
+        fullWidth
+      />
+      <TextField
+        size='small'
+        label='Comment'
+        value={comment}
+        onChange={e => setComment(e.target.value)}
+        multiline
+        minRows={2}
+        fullWidth
+      />
+
+      <Box>
+        <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mb: 1 }}>
+          {tags.map(tag => (
+            <Chip
+              key={tag}
+              size='small'
+              color='primary'
+              label={tag}
+              onDelete={() => setTags(tags.filter(t => t !== tag))}
+            />
+          ))}
+          {SUGGESTED_TAGS.filter(tag => !tags.includes(tag)).map(tag => (
+            <Chip
+              key={tag}
+              size='small'
+              variant='outlined'
+              label={`+ ${tag}`}
+              onClick={() => addTag(tag)}
+            />
+          ))}
+        </Box>
+        <TextField
+          size='small'
+          label='Add tag'
+          value={tagInput}
+          onChange={e => setTagInput(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addTag(tagInput);
+            }
+          }}
+          helperText='Press Enter to add'
+          fullWidth
+        />
+      </Box>
+
+      <Stack direction='row' spacing={1} justifyContent='flex-end'>
+        {annotation && (
+          <Button size='small' color='error' onClick={handleClear}>
+            Clear notes
+          </Button>
+        )}
+        <Button
+          size='small'
+          variant='contained'
+          disabled={!isDirty}
+          onClick={() => save({ displayName, comment, tags })}
+        >
+          Save notes
+        </Button>
+      </Stack>
+    </Stack>
+  );
+};
@@ -0,0 +1,207 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  Divider,
+  IconButton,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import type { FunctionDetail } from '../../utils/analysis';
+import type { FunctionAnnotation } from '../../types/analysis.types';
+import { FunctionAnnotationEditor } from './FunctionAnnotationEditor';
+
+interface FunctionDetailPaneProps {
+  detail: FunctionDetail;
+  annotation?: FunctionAnnotation | undefined;
+  // Whether a caller or callee has its own row and can be opened
+  hasFunction: (name: string) => boolean;
+  onSelectFunction: (name: string) => void;
+  onShowInDecompilation?: (name: string) => void;
+  onSaveAnnotation?: (annotation: FunctionAnnotation) => void;
+  onClose: () => void;
+}
+
+const confidenceColor = (confidence: number): 'success' | 'warning' | 'error' =>
+  confidence > 0.8 ? 'success' : confidence > 0.6 ? 'warning' : 'error';
+
+const FunctionLinks: React.FC<{
+  title: string;
+  names: string[];
+  hasFunction: (name: string) => boolean;
+  onSelectFunction: (name: string) => void;
+}> = ({ title, names, hasFunction, onSelectFunction }) => (
+  <Box>
+    <Typography variant='subtitle2' gutterBottom>
+      {title} ({names.length})
+    </Typography>
+    {names.length === 0 ? (
+      <Typography variant='body2' color='text.secondary'>
+        None known
+      </Typography>
+    ) : (
+      <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+        {names.map(name => (
+          <Chip
+            key={name}
+            size='small'
+            label={name}
+            variant='outlined'
+            sx={{ fontFamily: 'monospace' }}
+            // Calls into imports have no row of their own
+            color={hasFunction(name) ? 'primary' : 'default'}
+            {...(hasFunction(name) && { onClick: () => onSelectFunction(name) })}
+          />
+        ))}
+      </Box>
+    )}
+  </Box>
+);
+
+export const FunctionDetailPane: React.FC<FunctionDetailPaneProps> = ({
+  detail,
+  annotation,
+  hasFunction,
+  onSelectFunction,
+  onShowInDecompilation,
+  onSaveAnnotation,
+  onClose,
+}) => (
+  <Card variant='outlined'>
+    <CardHeader
+      title={
+        <Typography variant='h6' sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+          {annotation?.displayName ?? detail.id}
+        </Typography>
+      }
+      subheader={[
+        annotation?.displayName && `originally ${detail.id}`,
+        detail.functionType,
+        detail.address,
+        detail.size !== undefined && `${detail.size} bytes`,
+        detail.complexity !== undefined && `complexity ${detail.complexity}`,
+      ]
+        .filter(Boolean)
+        .join(' • ')}
+      action={
+        <IconButton onClick={onClose} aria-label='Close function details'>
+          <CloseIcon />
+        </IconButton>
+      }
+    />
+    <CardContent>
+      <Stack spacing={2}>
+        {onSaveAnnotation && (
+          <>
+            <FunctionAnnotationEditor
+              // Remount on a new function or saved change so the form starts from stored notes
+              key={`${detail.id}-${annotation?.updatedAt ?? ''}`}
+              detail={detail}
+              annotation={annotation}
+              onSave={onSaveAnnotation}
+            />
+            <Divider />
+          </>
+        )}
+
+        {/* LLM explanation */}
+        <Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <Typography variant='subtitle2'>Description</Typography>
+            {detail.confidence !== undefined && (
+              <Chip
+                size='small'
+                label={`${Math.round(detail.confidence * 100)}% confidence`}
+                color={confidenceColor(detail.confidence)}
+              />
+            )}
+          </Box>
+          <Typography
+            variant='body2'
+            color={detail.description ? 'text.primary' : 'text.secondary'}
+          >
+            {detail.description ?? 'The LLM translation did not describe this function.'}
+          </Typography>
+        </Box>
+
+        <Box>
+          <Typography variant='subtitle2' gutterBottom>
+            Parameters
+          </Typography>
+          {detail.parameters.length === 0 ? (
+            <Typography variant='body2' color='text.secondary'>
+              None identified
+            </Typography>
+          ) : (
+            <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+              {detail.parameters.map(parameter => (
+                <Chip
+                  key={parameter}
+                  size='small'
+                  label={parameter}
+                  sx={{ fontFamily: 'monospace' }}
+                />
+              ))}
+            </Box>
+          )}
+        </Box>
+
+        <Divider />
+
+        <FunctionLinks
+          title='Called by'
+          names={detail.callers}
+          hasFunction={hasFunction}
+          onSelectFunction={onSelectFunction}
+        />
+        <FunctionLinks
+          title='Calls'
+          names={detail.callees}
+          hasFunction={hasFunction}
+          onSelectFunction={onSelectFunction}
+        />
+
+        <Divider />
+
+        {/* Decompiler output */}
+        <Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <Typography variant='subtitle2'>
+              {detail.codeKind === 'assembly' ? 'Assembly Code' : 'Decompiled Code'}
+            </Typography>
+            {onShowInDecompilation && detail.address && (
+              <Button size='small' onClick={() => onShowInDecompilation(detail.id)}>
+                Show in decompilation
+              </Button>
+            )}
+          </Box>
+          {detail.code ? (
+            <Box
+              sx={{
+                bgcolor: 'grey.100',
+                p: 2,
+                mt: 1,
+                borderRadius: 1,
+                fontFamily: 'monospace',
+                fontSize: '0.875rem',
+                overflow: 'auto',
+                maxHeight: '400px',
+              }}
+            >
+              <pre style={{ margin: 0, whiteSpace: 'pre-wrap' }}>{detail.code}</pre>
+            </Box>
+          ) : (
+            <Typography variant='body2' color='text.secondary'>
+              The decompiler output does not include code for this function.
+            </Typography>
+          )}
+        </Box>
+      </Stack>
+    </CardContent>
+  </Card>
+);
@@ -0,0 +1,182 @@
+import React, { useMemo } from 'react';
+import { Alert, Box, Chip, Typography } from '@mui/material';
+import { GridLegacy as Grid } from '@mui/material';
+import { DataGrid, type GridColDef, type GridRowSelectionModel } from '@mui/x-data-grid';
+import type { JobStatusResponse } from '../../services/api/analysisApi';
+import { buildFunctionDetails, getAnnotatedName } from '../../utils/analysis';
+import type { FunctionDetail } from '../../utils/analysis';
+import type { FunctionAnnotation } from '../../types/analysis.types';
+import { FunctionDetailPane } from './FunctionDetailPane';
+
+interface FunctionDetailsPanelProps {
+  results: NonNullable<JobStatusResponse['results']>;
+  selectedFunction: string | null;
+  onSelectFunction: (functionName: string | null) => void;
+  onShowInDecompilation?: (functionName: string) => void;
+  // Analyst notes by function name; editing is enabled when a save handler is given
+  annotations?: Record<string, FunctionAnnotation> | undefined;
+  onSaveAnnotation?: (annotation: FunctionAnnotation) => void;
+}
+
+const formatOptional = (value?: number): string => (value === undefined ? '—' : String(value));
+
+export const FunctionDetailsPanel: React.FC<FunctionDetailsPanelProps> = ({
+  results,
+  selectedFunction,
+  onSelectFunction,
+  onShowInDecompilation,
+  annotations,
+  onSaveAnnotation,
+}) => {
+  const rows = useMemo(() => buildFunctionDetails(results), [results]);
+  const rowsById = useMemo(() => new Map(rows.map(row => [row.id, row])), [rows]);
+  const selectedDetail = selectedFunction ? rowsById.get(selectedFunction) : undefined;
+
+  const functionTypes = useMemo(
+    () => Array.from(new Set(rows.map(row => row.functionType))).sort(),
+    [rows]
+  );
+
+  const rowSelectionModel = useMemo<GridRowSelectionModel>(
+    () => ({ type: 'include', ids: new Set(selectedDetail ? [selectedDetail.id] : []) }),
+    [selectedDetail]
+  );
+
+  const columns = useMemo<GridColDef<FunctionDetail>[]>(
+    () => [
+      {
+        field: 'id',
+        headerName: 'Name',
+        flex: 1,
+        minWidth: 180,
+        // Renames are searchable and sortable alongside the decompiler's names
+        valueGetter: (_value, row) => getAnnotatedName(row.id, annotations),
+        renderCell: ({ value, row }) => (
+          <Typography variant='body2' component='span' sx={{ fontFamily: 'monospace' }}>
+            {value}
+            {value !== row.id && (
+              <Typography component='span' variant='caption' color='text.secondary' sx={{ ml: 1 }}>
+                ({row.id})
+              </Typography>
+            )}
+          </Typography>
+        ),
+      },
+      {
+        field: 'address',
+        headerName: 'Address',
+        width: 120,
+        valueFormatter: (value?: string) => value ?? '—',
+      },
+      {
+        field: 'size',
+        headerName: 'Size',
+        type: 'number',
+        width: 90,
+        valueFormatter: formatOptional,
+      },
+      {
+        field: 'complexity',
+        headerName: 'Complexity',
+        type: 'number',
+        width: 110,
+        valueFormatter: formatOptional,
+      },
+      {
+        field: 'functionType',
+        headerName: 'Type',
+        type: 'singleSelect',
+        valueOptions: functionTypes,
+        width: 110,
+        renderCell: ({ row }) => (
+          <Chip
+            size='small'
+            label={row.functionType}
+            color={row.functionType === 'user' ? 'primary' : 'secondary'}
+          />
+        ),
+      },
+      {
+        field: 'confidence',
+        headerName: 'Confidence',
+        type: 'number',
+        width: 110,
+        valueFormatter: (value?: number) =>
+          value === undefined ? '—' : `${Math.round(value * 100)}%`,
+      },
+      {
+        field: 'parameters',
+        headerName: 'Parameters',
+        width: 160,
+        sortComparator: (a: string[], b: string[]) => a.length - b.length,
+        valueFormatter: (value: string[]) => (value.length > 0 ? value.join(', ') : '—'),
+      },
+      {
+        field: 'tags',
+        headerName: 'Tags',
+        width: 180,
+        valueGetter: (_value, row) => annotations?.[row.id]?.tags.join(', ') ?? '',
+        renderCell: ({ row }) => (
+          <Box sx={{ display: 'flex', gap: 0.5, alignItems: 'center', height: '100%' }}>
+            {annotations?.[row.id]?.tags.map(tag => (
+              <Chip key={tag} size='small' variant='outlined' label={tag} />
+            ))}
+          </Box>
+        ),
+      },
+    ],
+    [functionTypes, annotations]
+  );
+
+  if (rows.length === 0) {
+    return (
+      <Alert severity='info'>
+        Per-function details are not included in these results (decompilation ID:{' '}
+        {results.decompilation_id}). Only the total of {results.function_count} function(s) is
+        available.
+      </Alert>
+    );
+  }
+
+  return (
+    <Grid container spacing={2}>
+      <Grid item xs={12} lg={selectedFunction ? 7 : 12}>
+        {/* Fixed height so the grid virtualizes rows instead of rendering every function */}
+        <Box sx={{ height: 600 }}>
+          <DataGrid
+            rows={rows}
+            columns={columns}
+            rowSelectionModel={rowSelectionModel}
+            onRowClick={({ row }) => onSelectFunction(row.id)}
+            initialState={{ sorting: { sortModel: [{ field: 'address', sort: 'asc' }] } }}
+            showToolbar
+            density='compact'
+            hideFooterSelectedRowCount
+            localeText={{ noResultsOverlayLabel: 'No matching functions' }}
+            sx={{ '& .MuiDataGrid-row': { cursor: 'pointer' } }}
+          />
+        </Box>
+      </Grid>
+
+      {selectedFunction && (
+        <Grid item xs={12} lg={5}>
+          {selectedDetail ? (
+            <FunctionDetailPane
+              detail={selectedDetail}
+              annotation={annotations?.[selectedDetail.id]}
+              hasFunction={name => rowsById.has(name)}
+              onSelectFunction={onSelectFunction}
+              onClose={() => onSelectFunction(null)}
+              {...(onShowInDecompilation && { onShowInDecompilation })}
+              {...(onSaveAnnotation && { onSaveAnnotation })}
+            />
+          ) : (
+            <Alert severity='warning' onClose={() => onSelectFunction(null)}>
+              There is no function named <code>{selectedFunction}</code> in these results.
+            </Alert>
+          )}
+        </Grid>
+      )}
+    </Grid>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useRef, useState } from 'react';
+import { Alert, Button, Snackbar } from '@mui/material';
+import type { ButtonProps } from '@mui/material';
+import { FileUpload as ImportIcon } from '@mui/icons-material';
+import { resultsStore } from '../../services/history';
+import { useAppDispatch } from '../../store/hooks';
+import { importJob } from '../../store/slices/analysisSlice';
+import { getBinaryKey, parseResultsFile } from '../../utils/analysis';
+
+interface ImportResultsButtonProps {
+  // Called with the id of the read-only job the file was loaded into
+  onImported?: (jobId: string) => void;
+  variant?: ButtonProps['variant'];
+  size?: ButtonProps['size'];
+}
+
+export const ImportResultsButton: React.FC<ImportResultsButtonProps> = ({
+  onImported,
+  variant = 'outlined',
+  size = 'small',
+}) => {
+  const dispatch = useAppDispatch();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      const { job, status, annotations } = parseResultsFile(await file.text(), file.name);
+      // Stored first so the job never appears in history without its results
+      await resultsStore.put(job.id, status);
+      dispatch(importJob({ job, annotations, binaryKey: getBinaryKey(job.id, job) }));
+      onImported?.(job.id);
+    } catch (err) {
+      setError(`Could not import ${file.name}: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant={variant}
+        size={size}
+        startIcon={<ImportIcon />}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        Import results
+      </Button>
+      <input
+        ref={fileInputRef}
+        type='file'
+        accept='application/json,.json'
+        hidden
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) void handleFile(file);
+          e.target.value = '';
+        }}
+      />
+
+      <Snackbar
+        open={!!error}
+        autoHideDuration={8000}
+        onClose={() => setError(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity='error' onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      </Snackbar>
+    </>
+  );
+};
@@ -0,0 +1,243 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  FormControlLabel,
+  Snackbar,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { DataGrid, type GridColDef } from '@mui/x-data-grid';
+import { ContentCopy as CopyIcon, Download as DownloadIcon } from '@mui/icons-material';
+import type { JobStatusResponse } from '../../services/api/analysisApi';
+import {
+  INDICATOR_TYPES,
+  INDICATOR_TYPE_LABELS,
+  defangIndicator,
+  extractIndicators,
+  indicatorsToCsv,
+} from '../../utils/analysis';
+import type { Indicator, IndicatorType } from '../../utils/analysis';
+import { downloadFile } from '../../utils/download';
+
+interface IndicatorsPanelProps {
+  jobId: string;
+  results: NonNullable<JobStatusResponse['results']>;
+  onSelectFunction?: (functionName: string) => void;
+}
+
+export const IndicatorsPanel: React.FC<IndicatorsPanelProps> = ({
+  jobId,
+  results,
+  onSelectFunction,
+}) => {
+  const indicators = useMemo(() => extractIndicators(results), [results]);
+  const [hiddenTypes, setHiddenTypes] = useState<Set<IndicatorType>>(new Set());
+  const [search, setSearch] = useState('');
+  // Defanged by default so nothing copied from here is accidentally clickable
+  const [defang, setDefang] = useState(true);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const counts = useMemo(() => {
+    const byType = new Map<IndicatorType, number>();
+    indicators.forEach(indicator => {
+      byType.set(indicator.type, (byType.get(indicator.type) ?? 0) + 1);
+    });
+    return byType;
+  }, [indicators]);
+
+  const visible = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return indicators.filter(
+      indicator =>
+        !hiddenTypes.has(indicator.type) &&
+        (!query ||
+          indicator.value.toLowerCase().includes(query) ||
+          indicator.functions.some(name => name.toLowerCase().includes(query)))
+    );
+  }, [indicators, hiddenTypes, search]);
+
+  const display = (indicator: Indicator) => (defang ? defangIndicator(indicator) : indicator.value);
+
+  const toggleType = (type: IndicatorType) => {
+    setHiddenTypes(current => {
+      const next = new Set(current);
+      if (next.has(type)) {
+        next.delete(type);
+      } else {
+        next.add(type);
+      }
+      return next;
+    });
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(visible.map(display).join('\n')).then(
+      () => setMessage(`Copied ${visible.length} indicators`),
+      () => setMessage('Could not copy to the clipboard')
+    );
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(indicatorsToCsv(visible), `bin2nlp-indicators-${jobId}.csv`, 'text/csv');
+  };
+
+  const columns = useMemo<GridColDef<Indicator>[]>(
+    () => [
+      {
+        field: 'type',
+        headerName: 'Type',
+        width: 140,
+        valueGetter: (_value, row) =>
+          row.label
+            ? `${INDICATOR_TYPE_LABELS[row.type]} (${row.label})`
+            : INDICATOR_TYPE_LABELS[row.type],
+      },
+      {
+        field: 'value',
+        headerName: 'Indicator',
+        flex: 1,
+        minWidth: 260,
+        valueGetter: (_value, row) => (defang ? defangIndicator(row) : row.value),
+        renderCell: ({ value }) => (
+          <Typography
+            variant='body2'
+            component='span'
+            sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}
+          >
+            {value}
+          </Typography>
+        ),
+      },
+      {
+        field: 'occurrences',
+        headerName: 'Seen',
+        type: 'number',
+        width: 80,
+      },
+      {
+        field: 'sources',
+        headerName: 'Found in',
+        width: 170,
+        valueGetter: (_value, row) => row.sources.join(', '),
+      },
+      {
+        field: 'functions',
+        headerName: 'Functions',
+        flex: 1,
+        minWidth: 200,
+        sortable: false,
+        valueGetter: (_value, row) => row.functions.join(' '),
+        renderCell: ({ row }) => (
+          <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', py: 0.5 }}>
+            {row.functions.map(name => (
+              <Chip
+                key={name}
+                size='small'
+                label={name}
+                variant='outlined'
+                sx={{ fontFamily: 'monospace' }}
+                {...(onSelectFunction && { onClick: () => onSelectFunction(name) })}
+              />
+            ))}
+          </Box>
+        ),
+      },
+    ],
+    [defang, onSelectFunction]
+  );
+
+  if (indicators.length === 0) {
+    return (
+      <Alert severity='info'>
+        No indicators were found.{' '}
+        {results.strings
+          ? 'The strings and translations contain no URLs, addresses, paths or wallets.'
+          : 'The backend sent no extracted strings, so only translations were searched.'}
+      </Alert>
+    );
+  }
+
+  return (
+    <Box>
+      <Stack direction='row' spacing={1} flexWrap='wrap' useFlexGap sx={{ mb: 2 }}>
+        {INDICATOR_TYPES.filter(type => counts.has(type)).map(type => (
+          <Chip
+            key={type}
+            label={`${INDICATOR_TYPE_LABELS[type]} (${counts.get(type)})`}
+            color={hiddenTypes.has(type) ? 'default' : 'primary'}
+            variant={hiddenTypes.has(type) ? 'outlined' : 'filled'}
+            onClick={() => toggleType(type)}
+          />
+        ))}
+      </Stack>
+
+      <Stack
+        direction='row'
+        spacing={2}
+        alignItems='center'
+        flexWrap='wrap'
+        useFlexGap
+        sx={{ mb: 2 }}
+      >
+        <TextField
+          size='small'
+          label='Filter indicators'
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          sx={{ minWidth: 260 }}
+        />
+        <FormControlLabel
+          control={<Switch checked={defang} onChange={e => setDefang(e.target.checked)} />}
+          label='Defang'
+        />
+        <Box sx={{ flexGrow: 1 }} />
+        <Button
+          variant='outlined'
+          size='small'
+          startIcon={<CopyIcon />}
+          onClick={handleCopy}
+          disabled={visible.length === 0}
+        >
+          Copy as list
+        </Button>
+        <Button
+          variant='outlined'
+          size='small'
+          startIcon={<DownloadIcon />}
+          onClick={handleExportCsv}
+          disabled={visible.length === 0}
+        >
+          Export CSV
+        </Button>
+      </Stack>
+
+      <Box sx={{ height: 520 }}>
+        <DataGrid
+          rows={visible}
+          columns={columns}
+          getRowHeight={() => 'auto'}
+          density='compact'
+          disableRowSelectionOnClick
+          initialState={{ pagination: { paginationModel: { pageSize: 50 } } }}
+          pageSizeOptions={[25, 50, 100]}
+        />
+      </Box>
+
+      <Snackbar
+        open={!!message}
+        autoHideDuration={4000}
+        onClose={() => setMessage(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity='info' onClose={() => setMessage(null)}>
+          {message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
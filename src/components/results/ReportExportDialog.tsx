@@ -0,0 +1,360 @@
+import React, { useDeferredValue, useMemo, useRef, useState } from 'react';
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  List,
+  ListItem,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { GridLegacy as Grid } from '@mui/material';
+import {
+  ArrowDownward as MoveDownIcon,
+  ArrowUpward as MoveUpIcon,
+  Description as MarkdownIcon,
+  ExpandMore as ExpandIcon,
+  Html as HtmlIcon,
+  Print as PrintIcon,
+} from '@mui/icons-material';
+import type { JobStatusResponse } from '../../services/api/analysisApi';
+import type { AnalysisJob, FunctionAnnotation } from '../../types/analysis.types';
+import {
+  DEFAULT_REPORT_TEMPLATE,
+  REPORT_SECTION_LABELS,
+  buildAnalysisReport,
+  normalizeReportTemplate,
+  renderHtmlReport,
+  renderMarkdownReport,
+} from '../../utils/reports';
+import type { ReportTemplate } from '../../utils/reports';
+import { reportTemplateStorage } from '../../utils/storage';
+import { downloadFile } from '../../utils/download';
+
+interface ReportExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  jobId: string;
+  job?: AnalysisJob | undefined;
+  status: JobStatusResponse;
+  annotations?: Record<string, FunctionAnnotation> | undefined;
+}
+
+type TemplateTextField = 'title' | 'organization' | 'classification' | 'introduction' | 'footer';
+
+const TEMPLATE_TEXT_FIELDS: Array<{ field: TemplateTextField; label: string; rows?: number }> = [
+  { field: 'title', label: 'Title' },
+  { field: 'organization', label: 'Organization' },
+  { field: 'classification', label: 'Classification banner (e.g. TLP:AMBER)' },
+  { field: 'introduction', label: 'Introduction', rows: 3 },
+  { field: 'footer', label: 'Footer', rows: 2 },
+];
+
+// Printing from a hidden frame keeps the app itself out of the printout
+const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  Object.assign(frame.style, { position: 'fixed', width: '0', height: '0', border: '0' });
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 1000);
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
+
+export const ReportExportDialog: React.FC<ReportExportDialogProps> = ({
+  open,
+  onClose,
+  jobId,
+  job,
+  status,
+  annotations,
+}) => {
+  const [template, setTemplate] = useState<ReportTemplate>(() => reportTemplateStorage.get());
+  const [templateMessage, setTemplateMessage] = useState<{
+    severity: 'success' | 'error';
+    text: string;
+  } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const previewTemplate = useDeferredValue(template);
+
+  const buildReport = (reportTemplate: ReportTemplate) =>
+    buildAnalysisReport({ jobId, job, status, annotations }, reportTemplate);
+
+  const previewHtml = useMemo(
+    () =>
+      open
+        ? renderHtmlReport(
+            buildAnalysisReport({ jobId, job, status, annotations }, previewTemplate),
+            previewTemplate
+          )
+        : '',
+    [open, previewTemplate, jobId, job, status, annotations]
+  );
+
+  const updateTemplate = (changes: Partial<ReportTemplate>) => {
+    setTemplate(current => ({ ...current, ...changes }));
+    setTemplateMessage(null);
+  };
+
+  const moveSection = (index: number, offset: -1 | 1) => {
+    const sections = [...template.sections];
+    const [section] = sections.splice(index, 1);
+    if (!section) return;
+    sections.splice(index + offset, 0, section);
+    updateTemplate({ sections });
+  };
+
+  const toggleSection = (index: number) => {
+    updateTemplate({
+      sections: template.sections.map((section, i) =>
+        i === index ? { ...section, enabled: !section.enabled } : section
+      ),
+    });
+  };
+
+  const handleDownloadMarkdown = () => {
+    downloadFile(
+      renderMarkdownReport(buildReport(template), template),
+      `bin2nlp-report-${jobId}.md`,
+      'text/markdown'
+    );
+  };
+
+  const handleDownloadHtml = () => {
+    downloadFile(
+      renderHtmlReport(buildReport(template), template),
+      `bin2nlp-report-${jobId}.html`,
+      'text/html'
+    );
+  };
+
+  const handleImportTemplate = async (file: File) => {
+    try {
+      setTemplate(normalizeReportTemplate(JSON.parse(await file.text())));
+      setTemplateMessage({ severity: 'success', text: `Loaded template from ${file.name}` });
+    } catch {
+      setTemplateMessage({ severity: 'error', text: `${file.name} is not a valid template file` });
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth='lg' fullWidth>
+      <DialogTitle>Export Report</DialogTitle>
+
+      <DialogContent>
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={5}>
+            <Stack spacing={2}>
+              <Typography variant='body2' color='text.secondary'>
+                Reports include the sections below in the order shown. Use Print to save a PDF with
+                the print layout.
+              </Typography>
+
+              <Stack direction='row' spacing={1} flexWrap='wrap' useFlexGap>
+                <Button
+                  variant='contained'
+                  startIcon={<MarkdownIcon />}
+                  onClick={handleDownloadMarkdown}
+                >
+                  Markdown
+                </Button>
+                <Button variant='contained' startIcon={<HtmlIcon />} onClick={handleDownloadHtml}>
+                  HTML
+                </Button>
+                <Button
+                  variant='outlined'
+                  startIcon={<PrintIcon />}
+                  onClick={() => printHtml(renderHtmlReport(buildReport(template), template))}
+                >
+                  Print / PDF
+                </Button>
+              </Stack>
+
+              <Box>
+                <Typography variant='subtitle2'>Sections</Typography>
+                <List dense disablePadding>
+                  {template.sections.map((section, index) => (
+                    <ListItem
+                      key={section.id}
+                      disableGutters
+                      secondaryAction={
+                        <>
+                          <IconButton
+                            size='small'
+                            disabled={index === 0}
+                            onClick={() => moveSection(index, -1)}
+                            aria-label={`Move ${REPORT_SECTION_LABELS[section.id]} up`}
+                          >
+                            <MoveUpIcon fontSize='small' />
+                          </IconButton>
+                          <IconButton
+                            size='small'
+                            disabled={index === template.sections.length - 1}
+                            onClick={() => moveSection(index, 1)}
+                            aria-label={`Move ${REPORT_SECTION_LABELS[section.id]} down`}
+                          >
+                            <MoveDownIcon fontSize='small' />
+                          </IconButton>
+                        </>
+                      }
+                    >
+                      <FormControlLabel
+                        control={
+                          <Checkbox
+                            size='small'
+                            checked={section.enabled}
+                            onChange={() => toggleSection(index)}
+                          />
+                        }
+                        label={REPORT_SECTION_LABELS[section.id]}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              </Box>
+
+              <Accordion disableGutters>
+                <AccordionSummary expandIcon={<ExpandIcon />}>
+                  <Typography>Customize template</Typography>
+                </AccordionSummary>
+                <AccordionDetails>
+                  <Stack spacing={2}>
+                    <Typography variant='caption' color='text.secondary'>
+                      Text fields accept {'{{fileName}}'}, {'{{jobId}}'}, {'{{sha256}}'} and{' '}
+                      {'{{date}}'}.
+                    </Typography>
+                    {TEMPLATE_TEXT_FIELDS.map(({ field, label, rows }) => (
+                      <TextField
+                        key={field}
+                        size='small'
+                        label={label}
+                        value={template[field] ?? ''}
+                        onChange={e => updateTemplate({ [field]: e.target.value })}
+                        {...(rows && { multiline: true, minRows: rows })}
+                        fullWidth
+                      />
+                    ))}
+                    <Stack direction='row' spacing={2}>
+                      <TextField
+                        size='small'
+                        type='number'
+                        label='Max functions'
+                        value={template.maxFunctions}
+                        onChange={e =>
+                          updateTemplate({ maxFunctions: Math.max(1, Number(e.target.value) || 1) })
+                        }
+                      />
+                      <TextField
+                        size='small'
+                        type='color'
+                        label='Accent colour'
+                        value={template.accentColor}
+                        onChange={e => updateTemplate({ accentColor: e.target.value })}
+                        sx={{ minWidth: 120 }}
+                      />
+                    </Stack>
+                    <TextField
+                      size='small'
+                      label='Custom CSS'
+                      value={template.customCss ?? ''}
+                      onChange={e => updateTemplate({ customCss: e.target.value })}
+                      multiline
+                      minRows={3}
+                      slotProps={{ input: { sx: { fontFamily: 'monospace' } } }}
+                      fullWidth
+                    />
+
+                    {templateMessage && (
+                      <Alert severity={templateMessage.severity}>{templateMessage.text}</Alert>
+                    )}
+
+                    {/* Teams share templates as JSON files */}
+                    <Stack direction='row' spacing={1} flexWrap='wrap' useFlexGap>
+                      <Button
+                        size='small'
+                        variant='outlined'
+                        onClick={() => {
+                          reportTemplateStorage.set(template);
+                          setTemplateMessage({ severity: 'success', text: 'Saved as default' });
+                        }}
+                      >
+                        Save as default
+                      </Button>
+                      <Button
+                        size='small'
+                        onClick={() =>
+                          downloadFile(
+                            JSON.stringify(template, null, 2),
+                            'bin2nlp-report-template.json',
+                            'application/json'
+                          )
+                        }
+                      >
+                        Export
+                      </Button>
+                      <Button size='small' onClick={() => fileInputRef.current?.click()}>
+                        Import
+                      </Button>
+                      <Button size='small' onClick={() => updateTemplate(DEFAULT_REPORT_TEMPLATE)}>
+                        Reset
+                      </Button>
+                      <input
+                        ref={fileInputRef}
+                        type='file'
+                        accept='application/json,.json'
+                        hidden
+                        onChange={e => {
+                          const file = e.target.files?.[0];
+                          if (file) void handleImportTemplate(file);
+                          e.target.value = '';
+                        }}
+                      />
+                    </Stack>
+                  </Stack>
+                </AccordionDetails>
+              </Accordion>
+            </Stack>
+          </Grid>
+
+          <Grid item xs={12} md={7}>
+            <Typography variant='subtitle2' gutterBottom>
+              Preview
+            </Typography>
+            <Box
+              component='iframe'
+              title='Report preview'
+              srcDoc={previewHtml}
+              // Scripts never run in the preview; the report contains none anyway
+              sandbox=''
+              sx={{
+                width: '100%',
+                height: 560,
+                border: 1,
+                borderColor: 'divider',
+                borderRadius: 1,
+                bgcolor: 'common.white',
+              }}
+            />
+          </Grid>
+        </Grid>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
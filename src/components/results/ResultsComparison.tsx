@@ -0,0 +1,322 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  Collapse,
+  IconButton,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { GridLegacy as Grid } from '@mui/material';
+import {
+  KeyboardArrowDown as ExpandIcon,
+  KeyboardArrowUp as CollapseIcon,
+} from '@mui/icons-material';
+import { useGetJobStatusQuery } from '../../services/api/analysisApi';
+import { diffAnalysisResults, diffText } from '../../utils/analysis';
+import type { FunctionChangeType, FunctionDiff, FunctionSnapshot } from '../../utils/analysis';
+
+interface ResultsComparisonProps {
+  baseJobId: string;
+  targetJobId: string;
+  baseLabel?: string;
+  targetLabel?: string;
+}
+
+type ChangeFilter = 'changes' | 'all' | FunctionChangeType;
+
+const ROWS_PER_PAGE_OPTIONS = [25, 50, 100];
+
+const CHANGE_COLORS: Record<FunctionChangeType, 'warning' | 'success' | 'error' | 'default'> = {
+  changed: 'warning',
+  added: 'success',
+  removed: 'error',
+  unchanged: 'default',
+};
+
+const formatDelta = (delta: number): string => (delta > 0 ? `+${delta}` : String(delta));
+
+const FunctionCell: React.FC<{ snapshot?: FunctionSnapshot | undefined }> = ({ snapshot }) =>
+  snapshot ? (
+    <Box>
+      <Typography variant='body2' sx={{ fontFamily: 'monospace' }}>
+        {snapshot.name}
+      </Typography>
+      <Typography variant='caption' color='text.secondary'>
+        {[snapshot.address, snapshot.size !== undefined && `${snapshot.size} bytes`]
+          .filter(Boolean)
+          .join(' • ') || 'No decompiler details'}
+      </Typography>
+    </Box>
+  ) : (
+    <Typography variant='body2' color='text.disabled'>
+      —
+    </Typography>
+  );
+
+const DescriptionDiff: React.FC<{ diff: FunctionDiff }> = ({ diff }) => {
+  const before = diff.base?.description ?? '';
+  const after = diff.target?.description ?? '';
+
+  if (diff.change !== 'changed') {
+    return (
+      <Typography variant='body2'>{after || before || 'No LLM description available.'}</Typography>
+    );
+  }
+
+  return (
+    <Typography variant='body2' component='div'>
+      {diffText(before, after).map((segment, index) => (
+        <Box
+          key={index}
+          component='span'
+          sx={{
+            ...(segment.type === 'added' && { bgcolor: 'success.light' }),
+            ...(segment.type === 'removed' && {
+              bgcolor: 'error.light',
+              textDecoration: 'line-through',
+            }),
+          }}
+        >
+          {segment.text}
+        </Box>
+      ))}
+    </Typography>
+  );
+};
+
+const FunctionDiffRow: React.FC<{ diff: FunctionDiff }> = ({ diff }) => {
+  const [expanded, setExpanded] = useState(false);
+  const hasDescription = Boolean(diff.base?.description || diff.target?.description);
+
+  return (
+    <>
+      <TableRow hover>
+        <TableCell padding='checkbox'>
+          {hasDescription && (
+            <IconButton size='small' onClick={() => setExpanded(!expanded)}>
+              {expanded ? <CollapseIcon /> : <ExpandIcon />}
+            </IconButton>
+          )}
+        </TableCell>
+        <TableCell>
+          <Chip size='small' label={diff.change} color={CHANGE_COLORS[diff.change]} />
+        </TableCell>
+        <TableCell>
+          <FunctionCell snapshot={diff.base} />
+        </TableCell>
+        <TableCell>
+          <FunctionCell snapshot={diff.target} />
+        </TableCell>
+        <TableCell>
+          <Stack direction='row' spacing={0.5}>
+            {diff.changedFields.map(field => (
+              <Chip key={field} size='small' variant='outlined' label={field} />
+            ))}
+          </Stack>
+        </TableCell>
+      </TableRow>
+      {hasDescription && (
+        <TableRow>
+          <TableCell colSpan={5} sx={{ py: 0, borderBottom: expanded ? undefined : 'none' }}>
+            <Collapse in={expanded} timeout='auto' unmountOnExit>
+              <Box sx={{ py: 2 }}>
+                <DescriptionDiff diff={diff} />
+              </Box>
+            </Collapse>
+          </TableCell>
+        </TableRow>
+      )}
+    </>
+  );
+};
+
+export const ResultsComparison: React.FC<ResultsComparisonProps> = ({
+  baseJobId,
+  targetJobId,
+  baseLabel = baseJobId,
+  targetLabel = targetJobId,
+}) => {
+  const [filter, setFilter] = useState<ChangeFilter>('changes');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(50);
+
+  const {
+    data: baseStatus,
+    isLoading: baseLoading,
+    error: baseError,
+  } = useGetJobStatusQuery(baseJobId);
+  const {
+    data: targetStatus,
+    isLoading: targetLoading,
+    error: targetError,
+  } = useGetJobStatusQuery(targetJobId);
+
+  const baseResults = baseStatus?.status === 'completed' ? baseStatus.results : undefined;
+  const targetResults = targetStatus?.status === 'completed' ? targetStatus.results : undefined;
+
+  const diff = useMemo(
+    () => (baseResults && targetResults ? diffAnalysisResults(baseResults, targetResults) : null),
+    [baseResults, targetResults]
+  );
+
+  const visibleFunctions = useMemo(() => {
+    if (!diff) return [];
+    if (filter === 'all') return diff.functions;
+    if (filter === 'changes') return diff.functions.filter(fn => fn.change !== 'unchanged');
+    return diff.functions.filter(fn => fn.change === filter);
+  }, [diff, filter]);
+
+  const handleFilterChange = (
+    _event: React.MouseEvent<HTMLElement>,
+    value: ChangeFilter | null
+  ) => {
+    if (!value) return;
+    setFilter(value);
+    setPage(0);
+  };
+
+  if (baseLoading || targetLoading) {
+    return (
+      <Card>
+        <CardContent>
+          <Typography>Loading results...</Typography>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (baseError || targetError) {
+    return (
+      <Alert severity='error'>
+        Failed to load results for {baseError ? baseLabel : targetLabel}.
+      </Alert>
+    );
+  }
+
+  if (!diff) {
+    const pending = !baseResults ? baseLabel : targetLabel;
+    return (
+      <Alert severity='warning'>
+        Both jobs must be completed with results to compare them; {pending} has no results yet.
+      </Alert>
+    );
+  }
+
+  return (
+    <Stack spacing={3}>
+      {/* Metric deltas */}
+      <Grid container spacing={3}>
+        {diff.metrics.map(metric => (
+          <Grid item xs={12} sm={4} key={metric.metric}>
+            <Card>
+              <CardContent>
+                <Typography variant='h6'>{metric.label}</Typography>
+                <Box sx={{ display: 'flex', alignItems: 'baseline', gap: 1 }}>
+                  <Typography variant='h4'>
+                    {metric.base} → {metric.target}
+                  </Typography>
+                  <Typography
+                    variant='h6'
+                    color={
+                      metric.delta > 0
+                        ? 'success.main'
+                        : metric.delta < 0
+                          ? 'error.main'
+                          : 'text.secondary'
+                    }
+                  >
+                    {formatDelta(metric.delta)}
+                  </Typography>
+                </Box>
+              </CardContent>
+            </Card>
+          </Grid>
+        ))}
+      </Grid>
+
+      {/* Function changes */}
+      <Card>
+        <CardContent>
+          <Box
+            sx={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              flexWrap: 'wrap',
+              gap: 2,
+              mb: 2,
+            }}
+          >
+            <Typography variant='h6'>Function Changes</Typography>
+            <ToggleButtonGroup size='small' exclusive value={filter} onChange={handleFilterChange}>
+              <ToggleButton value='changes'>
+                All changes ({diff.functions.length - diff.counts.unchanged})
+              </ToggleButton>
+              <ToggleButton value='changed'>Changed ({diff.counts.changed})</ToggleButton>
+              <ToggleButton value='added'>Added ({diff.counts.added})</ToggleButton>
+              <ToggleButton value='removed'>Removed ({diff.counts.removed})</ToggleButton>
+              <ToggleButton value='all'>Everything ({diff.functions.length})</ToggleButton>
+            </ToggleButtonGroup>
+          </Box>
+
+          {diff.functions.length === 0 ? (
+            <Alert severity='info'>
+              Neither result includes per-function details, so only the totals above can be
+              compared.
+            </Alert>
+          ) : visibleFunctions.length === 0 ? (
+            <Alert severity='success'>No functions match this filter.</Alert>
+          ) : (
+            <>
+              <TableContainer>
+                <Table size='small'>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell padding='checkbox' />
+                      <TableCell>Change</TableCell>
+                      <TableCell>Before: {baseLabel}</TableCell>
+                      <TableCell>After: {targetLabel}</TableCell>
+                      <TableCell>Differences</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {visibleFunctions
+                      .slice(page * rowsPerPage, (page + 1) * rowsPerPage)
+                      .map(fn => (
+                        <FunctionDiffRow key={fn.key} diff={fn} />
+                      ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <TablePagination
+                component='div'
+                count={visibleFunctions.length}
+                page={page}
+                rowsPerPage={rowsPerPage}
+                rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+                onPageChange={(_event, newPage) => setPage(newPage)}
+                onRowsPerPageChange={event => {
+                  setRowsPerPage(Number(event.target.value));
+                  setPage(0);
+                }}
+              />
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </Stack>
+  );
+};
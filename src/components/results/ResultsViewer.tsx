@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Card,
   CardContent,
@@ -27,11 +27,57 @@ import {
   Functions as FunctionIcon,
   ImportExport as ImportIcon,
   FormatQuote as StringIcon,
+  CompareArrows as CompareIcon,
+  Translate as RetranslateIcon,
+  AccountTree as CallGraphIcon,
+  Summarize as ReportIcon,
+  GppMaybe as IndicatorIcon,
 } from '@mui/icons-material';
 import { useGetJobStatusQuery } from '../../services/api/analysisApi';
+import { useAppDispatch, useAppSelector } from '../../store/hooks';
+import {
+  selectAnnotationSets,
+  selectBinaryAnnotations,
+  selectChildJobs,
+  selectJobById,
+} from '../../store/selectors/analysisSelectors';
+import {
+  carryOverAnnotations,
+  discardCarriedAnnotations,
+  setFunctionAnnotation,
+} from '../../store/slices/analysisSlice';
+import type { FunctionAnnotation } from '../../types/analysis.types';
+import { RetranslateDialog } from './RetranslateDialog';
+import { SecurityAnalysisPanel } from './SecurityAnalysisPanel';
+import { FunctionDetailsPanel } from './FunctionDetailsPanel';
+import { DecompiledCodeViewer } from './DecompiledCodeViewer';
+import { ReportExportDialog } from './ReportExportDialog';
+import { IndicatorsPanel } from './IndicatorsPanel';
+import { CallGraph } from '../visualization';
+import { DEFAULT_RESULTS_TAB, RESULTS_TABS } from '../../constants/routes';
+import {
+  buildResultsFile,
+  carryOverFunctionAnnotations,
+  findPreviousAnnotations,
+  getBinaryKey,
+  getDecompiledListing,
+} from '../../utils/analysis';
+import { buildSarifLog, buildStixBundle } from '../../utils/reports';
+import { downloadJson } from '../../utils/download';
+import type { ResultsTab } from '../../constants/routes';
 
 interface ResultsViewerProps {
   jobId: string;
+  // When provided, the active tab is controlled by the caller (e.g. the URL)
+  activeTab?: ResultsTab;
+  onTabChange?: (tab: ResultsTab) => void;
+  // When provided, the function open in the Function Details tab is controlled by the caller
+  selectedFunction?: string | null;
+  onSelectedFunctionChange?: (functionName: string | null) => void;
+  // Open a comparison with this job as the base, optionally against a chosen target
+  onCompare?: (baseJobId: string, targetJobId?: string) => void;
+  // Open another job's results, e.g. a re-translation of this one
+  onOpenJob?: (jobId: string) => void;
 }
 
 interface TabPanelProps {
@@ -69,47 +115,122 @@ const StatCard: React.FC<{
   </Card>
 );
 
-export const ResultsViewer: React.FC<ResultsViewerProps> = ({ jobId }) => {
-  const [activeTab, setActiveTab] = useState(0);
+export const ResultsViewer: React.FC<ResultsViewerProps> = ({
+  jobId,
+  activeTab: controlledTab,
+  onTabChange,
+  selectedFunction: controlledFunction,
+  onSelectedFunctionChange,
+  onCompare,
+  onOpenJob,
+}) => {
+  const [internalTab, setInternalTab] = useState<ResultsTab>(DEFAULT_RESULTS_TAB);
+  const [internalFunction, setInternalFunction] = useState<string | null>(null);
+  const [retranslateOpen, setRetranslateOpen] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
+  const [focusedFunction, setFocusedFunction] = useState<string | null>(null);
+  const [functionsExpanded, setFunctionsExpanded] = useState(false);
+  const selectJob = React.useMemo(() => selectJobById(jobId), [jobId]);
+  const selectChildren = React.useMemo(() => selectChildJobs(jobId), [jobId]);
+  const dispatch = useAppDispatch();
+  const job = useAppSelector(selectJob);
+  const childJobs = useAppSelector(selectChildren);
+  const binaryKey = getBinaryKey(jobId, job);
+  const selectAnnotations = React.useMemo(() => selectBinaryAnnotations(binaryKey), [binaryKey]);
+  const binaryAnnotations = useAppSelector(selectAnnotations);
+  const annotationSets = useAppSelector(selectAnnotationSets);
+  const activeTab = RESULTS_TABS.indexOf(controlledTab ?? internalTab);
+  const selectedFunction = controlledFunction !== undefined ? controlledFunction : internalFunction;
 
   const {
     data: jobStatus,
     isLoading: statusLoading,
     error: statusError,
   } = useGetJobStatusQuery(jobId);
+  const decompiledCode = React.useMemo(
+    () => (jobStatus?.results ? getDecompiledListing(jobStatus.results) : undefined),
+    [jobStatus?.results]
+  );
+
+  const selectTab = (tab: ResultsTab) => {
+    setInternalTab(tab);
+    onTabChange?.(tab);
+  };
 
   const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
-    setActiveTab(newValue);
+    selectTab(RESULTS_TABS[newValue] ?? DEFAULT_RESULTS_TAB);
+  };
+
+  // Findings and the call graph open the function in the Function Details tab
+  const handleSelectFunction = (functionName: string | null) => {
+    setInternalFunction(functionName);
+    if (onSelectedFunctionChange) {
+      onSelectedFunctionChange(functionName);
+    } else if (functionName) {
+      selectTab('functions');
+    }
+  };
+
+  const handleShowInDecompilation = (functionName: string) => {
+    setFocusedFunction(functionName);
+    setFunctionsExpanded(true);
+    selectTab('decompilation');
   };
 
+  // Notes made on an earlier version of the same file carry over the first time it is viewed
+  useEffect(() => {
+    const results = jobStatus?.results;
+    if (!results || binaryAnnotations || !job) return;
+    const previous = findPreviousAnnotations(annotationSets, job.fileName, binaryKey);
+    if (!previous) return;
+    const functions = carryOverFunctionAnnotations(previous, results);
+    if (Object.keys(functions).length === 0) return;
+    dispatch(
+      carryOverAnnotations({
+        binaryKey,
+        fileName: job.fileName,
+        carriedFrom: previous.binaryKey,
+        functions,
+      })
+    );
+  }, [jobStatus?.results, binaryAnnotations, annotationSets, job, binaryKey, dispatch]);
+
+  const handleSaveAnnotation = (annotation: FunctionAnnotation) => {
+    dispatch(
+      setFunctionAnnotation({ binaryKey, fileName: job?.fileName ?? `Job ${jobId}`, annotation })
+    );
+  };
+
+  // The code viewer scrolls to the function itself; without one, scroll to its card
+  useEffect(() => {
+    if (!focusedFunction || activeTab !== RESULTS_TABS.indexOf('decompilation')) return;
+    document
+      .getElementById(decompiledCode ? 'decompiled-code' : `function-${focusedFunction}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: decompiledCode ? 'start' : 'center' });
+  }, [focusedFunction, activeTab, decompiledCode]);
+
   const handleDownload = () => {
     if (!jobStatus?.results) return;
     
-    const downloadData = {
-      job_id: jobId,
-      analysis_date: jobStatus.updated_at,
-      results: jobStatus.results,
-      summary: {
-        functions: jobStatus.results.function_count,
-        imports: jobStatus.results.import_count,
-        strings: jobStatus.results.string_count,
-        success: jobStatus.results.success,
-        duration: jobStatus.results.duration_seconds,
-        decompilation_id: jobStatus.results.decompilation_id
-      }
-    };
+    const downloadData = buildResultsFile(
+      jobId,
+      job,
+      { ...jobStatus, results: jobStatus.results },
+      binaryAnnotations?.functions
+    );
     
-    const blob = new Blob([JSON.stringify(downloadData, null, 2)], {
-      type: 'application/json'
-    });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `bin2nlp-results-${jobId}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadJson(downloadData, `bin2nlp-results-${jobId}.json`);
+  };
+
+  const handleExportFindings = (format: 'sarif' | 'stix') => {
+    if (!jobStatus?.results) return;
+
+    const input = { jobId, job, status: jobStatus };
+    if (format === 'sarif') {
+      downloadJson(buildSarifLog(input), `bin2nlp-findings-${jobId}.sarif`);
+    } else {
+      downloadJson(buildStixBundle(input), `bin2nlp-stix-${jobId}.json`);
+    }
   };
 
   const handleShare = () => {
@@ -209,6 +330,27 @@ export const ResultsViewer: React.FC<ResultsViewerProps> = ({ jobId }) => {
             <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
               <Typography variant='h5'>Analysis Results</Typography>
               <Stack direction='row' spacing={1}>
+                {/* Imported jobs have no decompilation on the server to translate again */}
+                {results.decompilation_id && !job?.imported && (
+                  <Button
+                    variant='outlined'
+                    startIcon={<RetranslateIcon />}
+                    onClick={() => setRetranslateOpen(true)}
+                    size='small'
+                  >
+                    Re-translate
+                  </Button>
+                )}
+                {onCompare && (
+                  <Button
+                    variant='outlined'
+                    startIcon={<CompareIcon />}
+                    onClick={() => onCompare(jobId)}
+                    size='small'
+                  >
+                    Compare
+                  </Button>
+                )}
                 <Button
                   variant='outlined'
                   startIcon={<ShareIcon />}
@@ -217,6 +359,14 @@ export const ResultsViewer: React.FC<ResultsViewerProps> = ({ jobId }) => {
                 >
                   Share
                 </Button>
+                <Button
+                  variant='outlined'
+                  startIcon={<ReportIcon />}
+                  onClick={() => setReportOpen(true)}
+                  size='small'
+                >
+                  Report
+                </Button>
                 <Button
                   variant='contained'
                   startIcon={<DownloadIcon />}
@@ -241,6 +391,16 @@ export const ResultsViewer: React.FC<ResultsViewerProps> = ({ jobId }) => {
               <Typography variant='body2' color='text.secondary'>
                 Duration: {formatDuration(results.duration_seconds)}
               </Typography>
+              {job?.imported && (
+                <Chip
+                  size='small'
+                  variant='outlined'
+                  label='Imported, read-only'
+                  title={`Loaded from ${job.imported.sourceName} on ${new Date(
+                    job.imported.importedAt
+                  ).toLocaleString()}`}
+                />
+              )}
             </Box>
           }
         />
@@ -298,6 +458,8 @@ export const ResultsViewer: React.FC<ResultsViewerProps> = ({ jobId }) => {
           <Tab icon={<AIIcon />} label='AI Translation' />
           <Tab icon={<SecurityIcon />} label='Security Analysis' />
           <Tab icon={<FunctionIcon />} label='Function Details' />
+          <Tab icon={<CallGraphIcon />} label='Call Graph' />
+          <Tab icon={<IndicatorIcon />} label='Indicators' />
         </Tabs>
 
         <TabPanel value={activeTab} index={0}>
@@ -312,7 +474,21 @@ export const ResultsViewer: React.FC<ResultsViewerProps> = ({ jobId }) => {
             Decompilation ID: <code>{results.decompilation_id}</code>
           </Alert>
 
-          <Accordion>
+          {decompiledCode && (
+            <Box id='decompiled-code' sx={{ mb: 2 }}>
+              <DecompiledCodeViewer
+                code={decompiledCode}
+                functions={results.functions}
+                focusedFunction={focusedFunction}
+                onOpenFunction={handleSelectFunction}
+              />
+            </Box>
+          )}
+
+          <Accordion
+            expanded={functionsExpanded}
+            onChange={(_event, expanded) => setFunctionsExpanded(expanded)}
+          >
             <AccordionSummary expandIcon={<ExpandIcon />}>
               <Typography>Function Analysis ({results.function_count} functions)</Typography>
             </AccordionSummary>
@@ -320,7 +496,14 @@ export const ResultsViewer: React.FC<ResultsViewerProps> = ({ jobId }) => {
               {results.functions && results.functions.length > 0 ? (
                 <Stack spacing={2}>
                   {results.functions.map((func: any, index: number) => (
-                    <Card key={index} variant="outlined">
+                    <Card
+                      key={index}
+                      id={`function-${func.name}`}
+                      variant='outlined'
+                      {...(func.name === focusedFunction && {
+                        sx: { borderColor: 'primary.main', borderWidth: 2 },
+                      })}
+                    >
                       <CardHeader
                         title={
                           <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
@@ -425,6 +608,67 @@ export const ResultsViewer: React.FC<ResultsViewerProps> = ({ jobId }) => {
             Natural language explanations of the decompiled code generated by the LLM.
           </Typography>
 
+          {job?.parentJobId && (
+            <Alert
+              severity='info'
+              sx={{ mb: 2 }}
+              action={
+                <Stack direction='row' spacing={1}>
+                  {onOpenJob && (
+                    <Button size='small' onClick={() => onOpenJob(job.parentJobId ?? '')}>
+                      Open original
+                    </Button>
+                  )}
+                  {onCompare && (
+                    <Button size='small' onClick={() => onCompare(job.parentJobId ?? '', jobId)}>
+                      Compare
+                    </Button>
+                  )}
+                </Stack>
+              }
+            >
+              Re-translation of job {job.parentJobId}, reusing its decompilation.
+            </Alert>
+          )}
+
+          {childJobs.length > 0 && (
+            <Card variant='outlined' sx={{ mb: 2 }}>
+              <CardContent>
+                <Typography variant='subtitle1' gutterBottom>
+                  Re-translations ({childJobs.length})
+                </Typography>
+                <Stack spacing={1} divider={<Divider flexItem />}>
+                  {childJobs.map(child => (
+                    <Box
+                      key={child.id}
+                      sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}
+                    >
+                      <Chip size='small' label={child.status.toUpperCase()} />
+                      <Typography variant='body2' sx={{ flexGrow: 1 }}>
+                        {child.config.llmProvider || 'Unknown provider'}
+                        {child.config.llmModel && ` • ${child.config.llmModel}`}
+                        {child.config.translationDetail &&
+                          ` • ${child.config.translationDetail} detail`}
+                        {' • '}
+                        {new Date(child.submittedAt).toLocaleString()}
+                      </Typography>
+                      {onOpenJob && (
+                        <Button size='small' onClick={() => onOpenJob(child.id)}>
+                          Open
+                        </Button>
+                      )}
+                      {onCompare && child.status === 'completed' && (
+                        <Button size='small' onClick={() => onCompare(jobId, child.id)}>
+                          Compare
+                        </Button>
+                      )}
+                    </Box>
+                  ))}
+                </Stack>
+              </CardContent>
+            </Card>
+          )}
+
           {!results.llm_translations ? (
             <Alert severity='info' sx={{ mb: 2 }}>
               No LLM translation was configured for this analysis job. To get AI-generated explanations,
@@ -518,26 +762,27 @@ export const ResultsViewer: React.FC<ResultsViewerProps> = ({ jobId }) => {
           <Typography variant='body2' color='text.secondary' paragraph>
             Security-focused insights and potential vulnerabilities identified during analysis.
           </Typography>
-
-          <Stack spacing={2}>
-            <Alert severity='info'>
-              Basic security assessment based on analysis metrics. For detailed security analysis,
-              enable LLM translation with security-focused prompts.
-            </Alert>
-
-            <Card variant='outlined'>
-              <CardContent>
-                <Typography variant='h6' gutterBottom>
-                  Risk Assessment
-                </Typography>
-                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
-                  <Chip label='Low Risk' color='success' size='small' />
-                  <Chip label='No Malware Detected' color='success' size='small' />
-                  <Chip label='Standard Functions' color='info' size='small' />
-                </Box>
-              </CardContent>
-            </Card>
+          {/* For code-scanning dashboards and threat-intel platforms */}
+          <Stack direction='row' spacing={1} sx={{ mb: 2 }}>
+            <Button
+              variant='outlined'
+              size='small'
+              startIcon={<DownloadIcon />}
+              onClick={() => handleExportFindings('sarif')}
+            >
+              Export SARIF
+            </Button>
+            <Button
+              variant='outlined'
+              size='small'
+              startIcon={<DownloadIcon />}
+              onClick={() => handleExportFindings('stix')}
+            >
+              Export STIX bundle
+            </Button>
           </Stack>
+
+          <SecurityAnalysisPanel results={results} onSelectFunction={handleSelectFunction} />
         </TabPanel>
 
         <TabPanel value={activeTab} index={3}>
@@ -548,13 +793,89 @@ export const ResultsViewer: React.FC<ResultsViewerProps> = ({ jobId }) => {
             Comprehensive breakdown of individual functions found in the binary.
           </Typography>
 
-          <Alert severity='info' sx={{ mb: 2 }}>
-            Detailed function analysis is available in the backend (decompilation ID: {results.decompilation_id})
-            but not yet exposed through the API. This will include call graphs, complexity metrics, and
-            cross-references.
-          </Alert>
+          {binaryAnnotations?.carriedFrom && (
+            <Alert
+              severity='info'
+              sx={{ mb: 2 }}
+              action={
+                <Button size='small' onClick={() => dispatch(discardCarriedAnnotations(binaryKey))}>
+                  Discard
+                </Button>
+              }
+            >
+              Notes were carried over from an earlier version of {binaryAnnotations.fileName} (
+              <code>{binaryAnnotations.carriedFrom.slice(0, 12)}</code>), matching functions by
+              name and address.
+            </Alert>
+          )}
+
+          <FunctionDetailsPanel
+            results={results}
+            selectedFunction={selectedFunction}
+            onSelectFunction={handleSelectFunction}
+            onShowInDecompilation={handleShowInDecompilation}
+            annotations={binaryAnnotations?.functions}
+            onSaveAnnotation={handleSaveAnnotation}
+          />
+        </TabPanel>
+
+        <TabPanel value={activeTab} index={4}>
+          <Typography variant='h6' gutterBottom>
+            Call Graph
+          </Typography>
+          <Typography variant='body2' color='text.secondary' paragraph>
+            Calls between decompiled functions. Scroll to zoom, drag to pan and click a function for
+            its details.
+          </Typography>
+
+          <CallGraph
+            functions={results.functions ?? []}
+            descriptions={Object.fromEntries(
+              (results.llm_translations?.functions ?? []).map(func => [
+                func.function_name,
+                func.description,
+              ])
+            )}
+            onOpenFunction={handleSelectFunction}
+          />
+        </TabPanel>
+
+        <TabPanel value={activeTab} index={5}>
+          <Typography variant='h6' gutterBottom>
+            Indicators
+          </Typography>
+          <Typography variant='body2' color='text.secondary' paragraph>
+            URLs, addresses, domains, registry keys, file paths and wallets found in the binary's
+            strings and the AI translations.
+          </Typography>
+
+          <IndicatorsPanel
+            jobId={jobId}
+            results={results}
+            onSelectFunction={handleSelectFunction}
+          />
         </TabPanel>
       </Card>
+
+      <ReportExportDialog
+        open={reportOpen}
+        onClose={() => setReportOpen(false)}
+        jobId={jobId}
+        job={job}
+        status={jobStatus}
+        annotations={binaryAnnotations?.functions}
+      />
+
+      {results.decompilation_id && (
+        <RetranslateDialog
+          open={retranslateOpen}
+          jobId={jobId}
+          decompilationId={results.decompilation_id}
+          parentJob={job}
+          onClose={() => setRetranslateOpen(false)}
+          {...(onOpenJob && { onSubmitted: onOpenJob })}
+        />
+      )}
     </Box>
   );
 };
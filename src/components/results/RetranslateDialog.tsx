@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  useGetUserLLMProvidersQuery,
+  useRetranslateJobMutation,
+} from '../../services/api/analysisApi';
+import type { RetranslationRequest } from '../../services/api/analysisApi';
+import { useAppDispatch } from '../../store/hooks';
+import { addJob } from '../../store/slices/analysisSlice';
+import type { AnalysisJob, JobStatusType } from '../../types/analysis.types';
+
+type TranslationDetail = NonNullable<RetranslationRequest['translation_detail']>;
+
+interface RetranslateDialogProps {
+  open: boolean;
+  jobId: string;
+  decompilationId: string;
+  // The tracked parent job, when it is known locally
+  parentJob?: AnalysisJob | undefined;
+  onClose: () => void;
+  onSubmitted?: (childJobId: string) => void;
+}
+
+const TRANSLATION_DETAIL_OPTIONS: Array<{ value: TranslationDetail; label: string }> = [
+  { value: 'basic', label: 'Basic' },
+  { value: 'standard', label: 'Standard' },
+  { value: 'detailed', label: 'Detailed' },
+];
+
+export const RetranslateDialog: React.FC<RetranslateDialogProps> = ({
+  open,
+  jobId,
+  decompilationId,
+  parentJob,
+  onClose,
+  onSubmitted,
+}) => {
+  const dispatch = useAppDispatch();
+  const [providerId, setProviderId] = useState('');
+  const [model, setModel] = useState('');
+  const [translationDetail, setTranslationDetail] = useState<TranslationDetail>(
+    parentJob?.config.translationDetail ?? 'standard'
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: providersData, isLoading: providersLoading } = useGetUserLLMProvidersQuery({
+    active_only: true,
+  });
+  const [retranslateJob, { isLoading: isSubmitting }] = useRetranslateJobMutation();
+
+  const providers = providersData?.providers.filter(provider => provider.is_active) ?? [];
+  const selectedProvider = providers.find(provider => provider.id === providerId);
+  const isSameAsParent =
+    providerId === parentJob?.config.llmProvider &&
+    (model || undefined) === parentJob?.config.llmModel &&
+    translationDetail === (parentJob?.config.translationDetail ?? 'standard');
+
+  const handleProviderChange = (id: string) => {
+    setProviderId(id);
+    // Default to the model configured on the provider, if any
+    const configuredModel = providers.find(provider => provider.id === id)?.config_json?.model;
+    setModel(typeof configuredModel === 'string' ? configuredModel : '');
+  };
+
+  const handleSubmit = async () => {
+    if (!providerId) return;
+    setError(null);
+
+    try {
+      const result = await retranslateJob({
+        parent_job_id: jobId,
+        decompilation_id: decompilationId,
+        llm_provider: providerId,
+        translation_detail: translationDetail,
+        ...(model.trim() && { llm_model: model.trim() }),
+      }).unwrap();
+
+      dispatch(
+        addJob({
+          id: result.job_id,
+          fileName: parentJob?.fileName ?? `Job ${jobId}`,
+          fileSize: parentJob?.fileSize ?? 0,
+          fileType: parentJob?.fileType ?? 'application/octet-stream',
+          status: result.status as JobStatusType,
+          progress: 0,
+          phase: 'translating',
+          submittedAt: new Date().toISOString(),
+          config: {
+            analysisDepth: parentJob?.config.analysisDepth ?? 'basic',
+            includeComments: parentJob?.config.includeComments ?? false,
+            decompilerOptions: parentJob?.config.decompilerOptions ?? {},
+            llmProvider: providerId,
+            translationDetail,
+            ...(model.trim() && { llmModel: model.trim() }),
+          },
+          parentJobId: jobId,
+          ...(parentJob?.hashes && { hashes: parentJob.hashes }),
+        })
+      );
+
+      onSubmitted?.(result.job_id);
+      onClose();
+    } catch (err) {
+      setError((err as { message?: string })?.message || 'Re-translation failed');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth='sm' fullWidth>
+      <DialogTitle>Re-translate Results</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <Typography variant='body2' color='text.secondary'>
+            Run the LLM translation again on the existing decompilation (
+            <code>{decompilationId}</code>) with a different provider, model or level of detail. The
+            binary is not uploaded or decompiled again.
+          </Typography>
+
+          {error && <Alert severity='error'>{error}</Alert>}
+
+          {!providersLoading && providers.length === 0 && (
+            <Alert severity='warning'>
+              No active LLM providers are configured. Add one on the LLM Providers page first.
+            </Alert>
+          )}
+
+          <FormControl fullWidth>
+            <InputLabel>LLM Provider</InputLabel>
+            <Select
+              value={providerId}
+              label='LLM Provider'
+              onChange={e => handleProviderChange(e.target.value)}
+              disabled={providersLoading || isSubmitting}
+            >
+              {providers.map(provider => (
+                <MenuItem key={provider.id} value={provider.id}>
+                  {provider.name} ({provider.provider_type})
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            label='Model'
+            value={model}
+            onChange={e => setModel(e.target.value)}
+            disabled={!selectedProvider || isSubmitting}
+            helperText="Leave empty to use the provider's default model"
+            fullWidth
+          />
+
+          <FormControl fullWidth>
+            <InputLabel>Translation Detail Level</InputLabel>
+            <Select
+              value={translationDetail}
+              label='Translation Detail Level'
+              onChange={e => setTranslationDetail(e.target.value as TranslationDetail)}
+              disabled={isSubmitting}
+            >
+              {TRANSLATION_DETAIL_OPTIONS.map(option => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {isSameAsParent && (
+            <Alert severity='info'>
+              These are the settings the original translation used; results may still vary between
+              runs.
+            </Alert>
+          )}
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button variant='contained' onClick={handleSubmit} disabled={!providerId || isSubmitting}>
+          {isSubmitting ? 'Starting...' : 'Re-translate'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
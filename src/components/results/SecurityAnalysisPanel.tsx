@@ -0,0 +1,184 @@
+import React, { useMemo } from 'react';
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Alert,
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  LinearProgress,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { ExpandMore as ExpandIcon } from '@mui/icons-material';
+import type { JobStatusResponse } from '../../services/api/analysisApi';
+import { analyzeSecurity } from '../../utils/analysis';
+import type { FindingSeverity, RiskLevel } from '../../utils/analysis';
+
+interface SecurityAnalysisPanelProps {
+  results: NonNullable<JobStatusResponse['results']>;
+  // Jump to a function that references a piece of evidence
+  onSelectFunction?: (functionName: string) => void;
+}
+
+type SeverityColor = 'default' | 'info' | 'warning' | 'error';
+
+const SEVERITY_COLORS: Record<FindingSeverity, SeverityColor> = {
+  info: 'default',
+  low: 'info',
+  medium: 'warning',
+  high: 'error',
+  critical: 'error',
+};
+
+const RISK_COLORS: Record<RiskLevel, 'success' | 'warning' | 'error'> = {
+  low: 'success',
+  medium: 'warning',
+  high: 'error',
+  critical: 'error',
+};
+
+const SEVERITIES: FindingSeverity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+export const SecurityAnalysisPanel: React.FC<SecurityAnalysisPanelProps> = ({
+  results,
+  onSelectFunction,
+}) => {
+  const assessment = useMemo(() => analyzeSecurity(results), [results]);
+  const { sources } = assessment;
+  const missingSources = [
+    !sources.imports && 'imports',
+    !sources.strings && 'strings',
+    !sources.sections && 'sections',
+  ].filter(Boolean);
+
+  return (
+    <Stack spacing={2}>
+      {/* Risk summary */}
+      <Card variant='outlined'>
+        <CardContent>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 1 }}>
+            <Typography variant='h6'>Risk Score</Typography>
+            <Typography variant='h4' color={`${RISK_COLORS[assessment.level]}.main`}>
+              {assessment.score}
+            </Typography>
+            <Typography variant='body2' color='text.secondary'>
+              / 100
+            </Typography>
+            <Chip
+              label={`${assessment.level.toUpperCase()} RISK`}
+              color={RISK_COLORS[assessment.level]}
+              size='small'
+            />
+          </Box>
+          <LinearProgress
+            variant='determinate'
+            value={assessment.score}
+            color={RISK_COLORS[assessment.level]}
+            sx={{ height: 8, borderRadius: 4, mb: 2 }}
+          />
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+            {SEVERITIES.map(severity => {
+              const count = assessment.findings.filter(f => f.severity === severity).length;
+              return count > 0 ? (
+                <Chip
+                  key={severity}
+                  size='small'
+                  variant='outlined'
+                  color={SEVERITY_COLORS[severity]}
+                  label={`${count} ${severity}`}
+                />
+              ) : null;
+            })}
+          </Box>
+        </CardContent>
+      </Card>
+
+      {missingSources.length > 0 && (
+        <Alert severity='info'>
+          These results do not include {missingSources.join(', ')}, so findings are based on the
+          data that is available and may be incomplete.
+        </Alert>
+      )}
+
+      {assessment.findings.length === 0 ? (
+        <Alert severity='success'>
+          No suspicious imports, strings or packing indicators were found in the available data.
+          This is not a guarantee that the binary is benign.
+        </Alert>
+      ) : (
+        <Box>
+          {assessment.findings.map(finding => (
+            <Accordion key={finding.id} sx={{ mb: 1 }}>
+              <AccordionSummary expandIcon={<ExpandIcon />}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                  <Chip
+                    size='small'
+                    label={finding.severity.toUpperCase()}
+                    color={SEVERITY_COLORS[finding.severity]}
+                  />
+                  <Typography>{finding.title}</Typography>
+                  <Typography variant='body2' color='text.secondary'>
+                    {finding.evidence.length} indicator{finding.evidence.length === 1 ? '' : 's'}
+                  </Typography>
+                </Box>
+              </AccordionSummary>
+              <AccordionDetails>
+                <Typography variant='body2' color='text.secondary' paragraph>
+                  {finding.description}
+                </Typography>
+                <Table size='small'>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Type</TableCell>
+                      <TableCell>Evidence</TableCell>
+                      <TableCell>Referenced by</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {finding.evidence.map(evidence => (
+                      <TableRow key={`${evidence.kind}-${evidence.value}`}>
+                        <TableCell>{evidence.kind}</TableCell>
+                        <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                          {evidence.value}
+                        </TableCell>
+                        <TableCell>
+                          {evidence.functions.length === 0 ? (
+                            <Typography variant='body2' color='text.secondary'>
+                              —
+                            </Typography>
+                          ) : (
+                            <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                              {evidence.functions.map(name => (
+                                <Chip
+                                  key={name}
+                                  size='small'
+                                  label={name}
+                                  sx={{ fontFamily: 'monospace' }}
+                                  {...(onSelectFunction && {
+                                    onClick: () => onSelectFunction(name),
+                                  })}
+                                />
+                              ))}
+                            </Box>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </AccordionDetails>
+            </Accordion>
+          ))}
+        </Box>
+      )}
+    </Stack>
+  );
+};
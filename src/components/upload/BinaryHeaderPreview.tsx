@@ -0,0 +1,98 @@
+import React from 'react';
+import {
+  Box,
+  Chip,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import type { BinaryHeaderInfo } from '../../utils/analysis';
+
+interface BinaryHeaderPreviewProps {
+  header: BinaryHeaderInfo;
+}
+
+const MAX_PREVIEW_SECTIONS = 12;
+
+export const BinaryHeaderPreview: React.FC<BinaryHeaderPreviewProps> = ({ header }) => {
+  const facts: Array<[string, string | number | undefined]> = [
+    ['Type', header.description],
+    ['Architecture', header.architecture],
+    ['Bitness', header.bitness && `${header.bitness}-bit`],
+    ['Endianness', header.endianness],
+    ['Entry point', header.entryPoint],
+    ['Imports', header.importsCount],
+    ['Libraries', header.librariesCount],
+    ...Object.entries(header.details),
+  ];
+
+  return (
+    <Box sx={{ pl: 6, pr: 2, pb: 1 }}>
+      <Stack direction='row' spacing={1} useFlexGap flexWrap='wrap' sx={{ mb: 1 }}>
+        {facts
+          .filter(([, value]) => value !== undefined && value !== '')
+          .map(([label, value]) => (
+            <Chip
+              key={label}
+              size='small'
+              variant='outlined'
+              label={`${label}: ${value}`}
+              sx={{ fontFamily: label === 'Entry point' ? 'monospace' : undefined }}
+            />
+          ))}
+      </Stack>
+
+      {header.slices && header.slices.length > 0 && (
+        <Typography variant='caption' color='text.secondary' display='block' sx={{ mb: 1 }}>
+          Slices: {header.slices.map(slice => slice.description).join('; ')}
+        </Typography>
+      )}
+
+      {header.sections.length > 0 && (
+        <TableContainer sx={{ maxHeight: 220 }}>
+          <Table size='small' stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>{header.format === 'JAR' ? 'Package' : 'Section'}</TableCell>
+                {header.format !== 'JAR' && (
+                  <>
+                    <TableCell>Address</TableCell>
+                    <TableCell align='right'>Size</TableCell>
+                    <TableCell>Flags</TableCell>
+                  </>
+                )}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {header.sections.slice(0, MAX_PREVIEW_SECTIONS).map((section, index) => (
+                <TableRow key={`${section.name}-${index}`}>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{section.name}</TableCell>
+                  {header.format !== 'JAR' && (
+                    <>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>
+                        {section.virtualAddress}
+                      </TableCell>
+                      <TableCell align='right'>{section.size.toLocaleString()}</TableCell>
+                      <TableCell>{section.flags}</TableCell>
+                    </>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {header.sections.length > MAX_PREVIEW_SECTIONS && (
+        <Typography variant='caption' color='text.secondary'>
+          and {header.sections.length - MAX_PREVIEW_SECTIONS} more
+        </Typography>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  TextField,
+  Stack,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  Radio,
+  RadioGroup,
+  InputAdornment,
+} from '@mui/material';
+import { formatCost } from '../../utils/analysis';
+import type { BudgetSettings } from '../../utils/analysis';
+
+interface BudgetSettingsDialogProps {
+  open: boolean;
+  settings: BudgetSettings;
+  monthSpend: number;
+  totalSpend: number;
+  spendByProvider: Record<string, number>;
+  onSave: (settings: BudgetSettings) => void;
+  onClose: () => void;
+}
+
+// Empty means no cap
+const parseLimit = (value: string): number | undefined => {
+  const limit = Number.parseFloat(value);
+  return value.trim() && Number.isFinite(limit) && limit >= 0 ? limit : undefined;
+};
+
+const isValidLimit = (value: string): boolean => !value.trim() || parseLimit(value) !== undefined;
+
+export const BudgetSettingsDialog: React.FC<BudgetSettingsDialogProps> = ({
+  open,
+  settings,
+  monthSpend,
+  totalSpend,
+  spendByProvider,
+  onSave,
+  onClose,
+}) => {
+  const [perJobLimit, setPerJobLimit] = useState('');
+  const [monthlyLimit, setMonthlyLimit] = useState('');
+  const [enforcement, setEnforcement] = useState<BudgetSettings['enforcement']>('warn');
+
+  useEffect(() => {
+    if (open) {
+      setPerJobLimit(settings.perJobLimit?.toString() ?? '');
+      setMonthlyLimit(settings.monthlyLimit?.toString() ?? '');
+      setEnforcement(settings.enforcement);
+    }
+  }, [open, settings]);
+
+  const handleSave = () => {
+    const perJob = parseLimit(perJobLimit);
+    const monthly = parseLimit(monthlyLimit);
+    onSave({
+      enforcement,
+      ...(perJob !== undefined && { perJobLimit: perJob }),
+      ...(monthly !== undefined && { monthlyLimit: monthly }),
+    });
+  };
+
+  const providers = Object.entries(spendByProvider).sort(([, a], [, b]) => b - a);
+  const canSave = isValidLimit(perJobLimit) && isValidLimit(monthlyLimit);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth='xs' fullWidth>
+      <DialogTitle>Budget</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <TextField
+            label='Per-job cap'
+            value={perJobLimit}
+            onChange={e => setPerJobLimit(e.target.value)}
+            error={!isValidLimit(perJobLimit)}
+            helperText='Leave empty for no cap'
+            size='small'
+            type='number'
+            slotProps={{
+              input: { startAdornment: <InputAdornment position='start'>$</InputAdornment> },
+              htmlInput: { min: 0, step: 0.01 },
+            }}
+          />
+          <TextField
+            label='Monthly cap'
+            value={monthlyLimit}
+            onChange={e => setMonthlyLimit(e.target.value)}
+            error={!isValidLimit(monthlyLimit)}
+            helperText='Counts estimated and actual spend since the 1st of the month'
+            size='small'
+            type='number'
+            slotProps={{
+              input: { startAdornment: <InputAdornment position='start'>$</InputAdornment> },
+              htmlInput: { min: 0, step: 0.01 },
+            }}
+          />
+          <FormControl>
+            <FormLabel>When a submission goes over a cap</FormLabel>
+            <RadioGroup
+              value={enforcement}
+              onChange={e => setEnforcement(e.target.value as BudgetSettings['enforcement'])}
+            >
+              <FormControlLabel value='warn' control={<Radio />} label='Warn, but allow it' />
+              <FormControlLabel value='block' control={<Radio />} label='Block the submission' />
+            </RadioGroup>
+          </FormControl>
+
+          <Divider />
+
+          <Typography variant='subtitle2'>Spend so far</Typography>
+          <Typography variant='body2'>
+            <strong>This month:</strong> {formatCost(monthSpend)}
+            <br />
+            <strong>All time:</strong> {formatCost(totalSpend)}
+          </Typography>
+          {providers.length > 0 && (
+            <Typography variant='body2' color='text.secondary'>
+              {providers.map(([provider, cost]) => `${provider}: ${formatCost(cost)}`).join(' • ')}
+            </Typography>
+          )}
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant='contained' onClick={handleSave} disabled={!canSave}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import type { AnalysisJob } from '../../types/analysis.types';
+
+export interface DuplicateAnalysisMatch {
+  file: File;
+  previousJob: AnalysisJob;
+}
+
+interface DuplicateAnalysisDialogProps {
+  open: boolean;
+  matches: DuplicateAnalysisMatch[];
+  totalFiles: number;
+  onOpenPrevious: (jobId: string) => void;
+  onSkipDuplicates: () => void;
+  onAnalyzeAnyway: () => void;
+  onClose: () => void;
+}
+
+const describePreviousJob = (job: AnalysisJob): string =>
+  job.status === 'completed'
+    ? `was already analyzed on ${new Date(job.completedAt || job.submittedAt).toLocaleString()}`
+    : `is already being analyzed (submitted ${new Date(job.submittedAt).toLocaleString()})`;
+
+export const DuplicateAnalysisDialog: React.FC<DuplicateAnalysisDialogProps> = ({
+  open,
+  matches,
+  totalFiles,
+  onOpenPrevious,
+  onSkipDuplicates,
+  onAnalyzeAnyway,
+  onClose,
+}) => {
+  const [single] = matches;
+  const allDuplicates = matches.length === totalFiles;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth='sm' fullWidth>
+      <DialogTitle>Binary Already Analyzed</DialogTitle>
+
+      <DialogContent>
+        {matches.length === 1 && single ? (
+          <Typography variant='body1'>
+            <strong>{single.file.name}</strong> {describePreviousJob(single.previousJob)} — open
+            previous results?
+          </Typography>
+        ) : (
+          <>
+            <Typography variant='body1' gutterBottom>
+              {matches.length} of {totalFiles} selected files match binaries analyzed before:
+            </Typography>
+            <List dense>
+              {matches.map(({ file, previousJob }) => (
+                <ListItem
+                  key={`${file.name}-${previousJob.id}`}
+                  secondaryAction={
+                    <Button size='small' onClick={() => onOpenPrevious(previousJob.id)}>
+                      Open
+                    </Button>
+                  }
+                >
+                  <ListItemText
+                    primary={file.name}
+                    secondary={`${describePreviousJob(previousJob)} as ${previousJob.fileName}`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </>
+        )}
+        <Typography variant='caption' color='text.secondary' display='block' sx={{ mt: 1 }}>
+          Matched by SHA-256 of the file contents.
+        </Typography>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        {!allDuplicates && <Button onClick={onSkipDuplicates}>Skip Duplicates</Button>}
+        <Button onClick={onAnalyzeAnyway}>Analyze Anyway</Button>
+        {matches.length === 1 && single && (
+          <Button variant='contained' onClick={() => onOpenPrevious(single.previousJob.id)}>
+            Open Previous Results
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
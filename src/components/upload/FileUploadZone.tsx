@@ -1,34 +1,69 @@
 import React, { useCallback, useState } from 'react';
-import { Box, Paper, Typography, Button, LinearProgress, Alert, Chip, Stack } from '@mui/material';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  LinearProgress,
+  Alert,
+  Chip,
+  Stack,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  IconButton,
+  Collapse,
+} from '@mui/material';
 import {
   CloudUpload as UploadIcon,
   InsertDriveFile as FileIcon,
   Error as ErrorIcon,
   CheckCircle as SuccessIcon,
+  Close as RemoveIcon,
+  FolderOpen as FolderIcon,
+  ExpandMore as ExpandIcon,
+  ExpandLess as CollapseIcon,
 } from '@mui/icons-material';
 import { fileUploadService } from '../../services/upload';
 import type { FileValidationResult, UploadProgress } from '../../services/upload';
+import { summarizeBinaryHeader } from '../../utils/analysis';
+import type { BinaryHeaderInfo } from '../../utils/analysis';
+import type { FileHashes } from '../../types/analysis.types';
+import { BinaryHeaderPreview } from './BinaryHeaderPreview';
 
 interface FileUploadZoneProps {
-  onFileSelect: (file: File) => void;
-  onFileRemove: () => void;
-  selectedFile: File | null;
+  onFilesSelect: (files: File[]) => void;
+  onFileRemove: (file: File) => void;
+  onClearFiles: () => void;
+  selectedFiles: File[];
   disabled?: boolean;
-  uploadProgress?: UploadProgress;
+  // Per-file progress keyed by fileUploadService.getFileKey()
+  uploadProgress?: Record<string, UploadProgress>;
+  // Content digests keyed the same way, filled in as hashing completes
+  fileHashes?: Record<string, FileHashes>;
 }
 
-const SUPPORTED_FORMATS = ['PE', 'ELF', 'Mach-O', 'JAR'];
+const SUPPORTED_FORMATS = ['PE', 'ELF', 'Mach-O', 'JAR', 'Java class'];
 const MAX_FILE_SIZE = '100MB';
 
 export const FileUploadZone: React.FC<FileUploadZoneProps> = ({
-  onFileSelect,
+  onFilesSelect,
   onFileRemove,
-  selectedFile,
+  onClearFiles,
+  selectedFiles,
   disabled = false,
-  uploadProgress,
+  uploadProgress = {},
+  fileHashes = {},
 }) => {
   const [dragActive, setDragActive] = useState(false);
-  const [validationResult, setValidationResult] = useState<FileValidationResult | null>(null);
+  const [rejectedFiles, setRejectedFiles] = useState<FileValidationResult[]>([]);
+  const [validationWarnings, setValidationWarnings] = useState<FileValidationResult[]>([]);
+  const [duplicateNames, setDuplicateNames] = useState<string[]>([]);
+  // Sniffed headers keyed by fileUploadService.getFileKey()
+  const [headers, setHeaders] = useState<Record<string, BinaryHeaderInfo>>({});
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [isInspecting, setIsInspecting] = useState(false);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -40,47 +75,72 @@ export const FileUploadZone: React.FC<FileUploadZoneProps> = ({
     }
   }, []);
 
-  const handleFileValidation = useCallback(
-    (file: File) => {
-      const result = fileUploadService.validateFile(file);
-      setValidationResult(result);
+  const handleFilesValidation = useCallback(
+    async (files: File[]) => {
+      const { duplicates, unique } = fileUploadService.checkDuplicates(files, selectedFiles);
+
+      // Magic bytes decide whether a file is a binary, regardless of its extension
+      setIsInspecting(true);
+      const results = await fileUploadService.inspectFiles(unique);
+      setIsInspecting(false);
+
+      setHeaders(prev => {
+        const next = { ...prev };
+        unique.forEach((file, index) => {
+          const header = results[index]?.header;
+          if (header) next[fileUploadService.getFileKey(file)] = header;
+        });
+        return next;
+      });
+
+      setDuplicateNames(duplicates.map(({ newFile }) => newFile.name));
+      setRejectedFiles(results.filter(result => !result.isValid));
+      setValidationWarnings(results.filter(result => result.isValid && result.warnings.length > 0));
 
-      if (result.isValid) {
-        onFileSelect(file);
+      const validFiles = unique.filter((_file, index) => results[index]?.isValid);
+      if (validFiles.length > 0) {
+        onFilesSelect(validFiles);
       }
     },
-    [onFileSelect]
+    [onFilesSelect, selectedFiles]
   );
 
   const handleDrop = useCallback(
-    (e: React.DragEvent) => {
+    async (e: React.DragEvent) => {
       e.preventDefault();
       e.stopPropagation();
       setDragActive(false);
 
-      if (disabled || e.dataTransfer.files.length === 0) return;
+      if (disabled) return;
 
-      const file = e.dataTransfer.files[0];
-      if (!file) return;
-      handleFileValidation(file);
+      // Folders are expanded into the binaries they contain
+      const files = await fileUploadService.collectDroppedFiles(e.dataTransfer);
+      if (files.length === 0) return;
+      await handleFilesValidation(files);
     },
-    [disabled, handleFileValidation]
+    [disabled, handleFilesValidation]
   );
 
   const handleFileInput = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       if (disabled || !e.target.files || e.target.files.length === 0) return;
 
-      const file = e.target.files[0];
-      if (!file) return;
-      handleFileValidation(file);
+      void handleFilesValidation(Array.from(e.target.files));
 
       // Reset input value to allow selecting same file again
       e.target.value = '';
     },
-    [disabled, handleFileValidation]
+    [disabled, handleFilesValidation]
   );
 
+  const clearMessages = () => {
+    setRejectedFiles([]);
+    setValidationWarnings([]);
+    setDuplicateNames([]);
+    setHeaders({});
+    setExpandedKey(null);
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -104,6 +164,8 @@ export const FileUploadZone: React.FC<FileUploadZoneProps> = ({
     }
   };
 
+  const totalSize = selectedFiles.reduce((sum, file) => sum + file.size, 0);
+
   return (
     <Box>
       <Paper
@@ -129,95 +191,202 @@ export const FileUploadZone: React.FC<FileUploadZoneProps> = ({
           id='file-input'
           type='file'
           accept='.exe,.dll,.bin,.elf,.so,.dylib,.jar'
+          multiple
+          style={{ display: 'none' }}
+          onChange={handleFileInput}
+          disabled={disabled}
+        />
+        <input
+          id='folder-input'
+          type='file'
+          // webkitdirectory is not part of React's input attribute types
+          ref={input => input?.setAttribute('webkitdirectory', '')}
           style={{ display: 'none' }}
           onChange={handleFileInput}
           disabled={disabled}
         />
 
-        {!selectedFile ? (
-          <Box>
-            <UploadIcon sx={{ fontSize: 48, color: 'primary.main', mb: 2 }} />
-            <Typography variant='h6' gutterBottom>
-              Drop your binary file here
-            </Typography>
-            <Typography variant='body2' color='text.secondary' gutterBottom>
-              or click to browse files
-            </Typography>
-            <Typography variant='caption' color='text.secondary'>
-              Supported formats: {SUPPORTED_FORMATS.join(', ')} • Max size: {MAX_FILE_SIZE}
-            </Typography>
-          </Box>
-        ) : (
-          <Box>
-            <FileIcon sx={{ fontSize: 48, color: 'success.main', mb: 2 }} />
-            <Typography variant='h6' gutterBottom>
-              {selectedFile.name}
-            </Typography>
-            <Typography variant='body2' color='text.secondary' gutterBottom>
-              {formatFileSize(selectedFile.size)}
-            </Typography>
+        <UploadIcon sx={{ fontSize: 48, color: 'primary.main', mb: 2 }} />
+        <Typography variant='h6' gutterBottom>
+          Drop binary files or a folder here
+        </Typography>
+        <Typography variant='body2' color='text.secondary' gutterBottom>
+          or click to browse files
+        </Typography>
+        <Typography variant='caption' color='text.secondary' display='block'>
+          Supported formats: {SUPPORTED_FORMATS.join(', ')} • Max size: {MAX_FILE_SIZE} per file
+        </Typography>
+        <Button
+          size='small'
+          startIcon={<FolderIcon />}
+          onClick={e => {
+            e.stopPropagation();
+            document.getElementById('folder-input')?.click();
+          }}
+          disabled={disabled}
+          sx={{ mt: 1 }}
+        >
+          Select Folder
+        </Button>
+      </Paper>
 
-            {uploadProgress && (
-              <Box sx={{ mt: 2, mb: 2 }}>
-                <Stack direction='row' spacing={1} justifyContent='center' alignItems='center'>
-                  <Chip
-                    size='small'
-                    label={uploadProgress.status}
-                    color={getUploadStatusColor(uploadProgress.status)}
-                    {...(uploadProgress.status === 'completed' && { icon: <SuccessIcon /> })}
-                  />
-                  <Typography variant='caption'>{uploadProgress.progress}%</Typography>
-                </Stack>
-                <LinearProgress
-                  variant='determinate'
-                  value={uploadProgress.progress}
-                  sx={{ mt: 1 }}
-                />
-              </Box>
-            )}
+      {isInspecting && <LinearProgress sx={{ mt: 1 }} />}
 
+      {selectedFiles.length > 0 && (
+        <Box sx={{ mt: 2 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Typography variant='subtitle2'>
+              {selectedFiles.length} file{selectedFiles.length === 1 ? '' : 's'} selected (
+              {formatFileSize(totalSize)})
+            </Typography>
             <Button
-              variant='outlined'
-              color='error'
               size='small'
-              onClick={e => {
-                e.stopPropagation();
-                onFileRemove();
-                setValidationResult(null);
+              color='error'
+              onClick={() => {
+                onClearFiles();
+                clearMessages();
               }}
               disabled={disabled}
-              sx={{ mt: 1 }}
             >
-              Remove File
+              Clear All
             </Button>
           </Box>
-        )}
-      </Paper>
 
-      {validationResult && !validationResult.isValid && (
-        <Alert severity='error' icon={<ErrorIcon />} sx={{ mt: 2 }}>
+          <List dense sx={{ maxHeight: 320, overflow: 'auto' }}>
+            {selectedFiles.map(file => {
+              const fileKey = fileUploadService.getFileKey(file);
+              const progress = uploadProgress[fileKey];
+              const header = headers[fileKey];
+              const sha256 = fileHashes[fileKey]?.sha256;
+              const isExpanded = expandedKey === fileKey;
+
+              return (
+                <React.Fragment key={fileKey}>
+                  <ListItem
+                    secondaryAction={
+                      <Stack direction='row'>
+                        {header && (
+                          <IconButton
+                            size='small'
+                            aria-label={`${isExpanded ? 'hide' : 'show'} header of ${file.name}`}
+                            onClick={() => setExpandedKey(isExpanded ? null : fileKey)}
+                          >
+                            {isExpanded ? (
+                              <CollapseIcon fontSize='small' />
+                            ) : (
+                              <ExpandIcon fontSize='small' />
+                            )}
+                          </IconButton>
+                        )}
+                        <IconButton
+                          edge='end'
+                          size='small'
+                          aria-label={`remove ${file.name}`}
+                          onClick={() => onFileRemove(file)}
+                          disabled={disabled}
+                        >
+                          <RemoveIcon fontSize='small' />
+                        </IconButton>
+                      </Stack>
+                    }
+                  >
+                    <ListItemIcon sx={{ minWidth: 36 }}>
+                      <FileIcon color={progress?.status === 'error' ? 'error' : 'action'} />
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={file.name}
+                      secondary={
+                        <Box component='span' sx={{ display: 'block' }}>
+                          {formatFileSize(file.size)}
+                          {header && ` • ${summarizeBinaryHeader(header)}`}
+                          {sha256 && (
+                            <Box
+                              component='span'
+                              title={`SHA-256: ${sha256}`}
+                              sx={{ display: 'block', fontFamily: 'monospace' }}
+                            >
+                              SHA-256 {sha256.slice(0, 16)}…
+                            </Box>
+                          )}
+                          {progress?.error && ` • ${progress.error}`}
+                          {progress && progress.status !== 'preparing' && (
+                            <LinearProgress
+                              sx={{ display: 'block', mt: 0.5 }}
+                              color={progress.status === 'error' ? 'error' : 'primary'}
+                              {...(progress.status === 'uploading'
+                                ? { variant: 'indeterminate' }
+                                : { variant: 'determinate', value: progress.progress })}
+                            />
+                          )}
+                        </Box>
+                      }
+                    />
+                    {progress && (
+                      <Stack direction='row' spacing={1} alignItems='center' sx={{ mr: 2 }}>
+                        <Chip
+                          size='small'
+                          label={progress.status}
+                          color={getUploadStatusColor(progress.status)}
+                          {...(progress.status === 'completed' && { icon: <SuccessIcon /> })}
+                        />
+                      </Stack>
+                    )}
+                  </ListItem>
+                  {header && (
+                    <Collapse in={isExpanded} unmountOnExit>
+                      <BinaryHeaderPreview header={header} />
+                    </Collapse>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </List>
+        </Box>
+      )}
+
+      {duplicateNames.length > 0 && (
+        <Alert severity='info' sx={{ mt: 2 }} onClose={() => setDuplicateNames([])}>
+          Skipped {duplicateNames.length} duplicate file{duplicateNames.length === 1 ? '' : 's'}:{' '}
+          {duplicateNames.slice(0, 5).join(', ')}
+          {duplicateNames.length > 5 && ` and ${duplicateNames.length - 5} more`}
+        </Alert>
+      )}
+
+      {rejectedFiles.length > 0 && (
+        <Alert
+          severity='error'
+          icon={<ErrorIcon />}
+          sx={{ mt: 2 }}
+          onClose={() => setRejectedFiles([])}
+        >
           <Typography variant='body2'>
-            <strong>File validation failed:</strong>
+            <strong>
+              {rejectedFiles.length} file{rejectedFiles.length === 1 ? '' : 's'} failed validation:
+            </strong>
           </Typography>
           <ul style={{ margin: '4px 0', paddingLeft: '20px' }}>
-            {validationResult.errors.map((error, index) => (
-              <li key={index}>
-                <Typography variant='body2'>{error}</Typography>
+            {rejectedFiles.map(result => (
+              <li key={result.fileInfo.name}>
+                <Typography variant='body2'>
+                  <strong>{result.fileInfo.name}:</strong> {result.errors.join('; ')}
+                </Typography>
               </li>
             ))}
           </ul>
         </Alert>
       )}
 
-      {validationResult && validationResult.isValid && validationResult.warnings.length > 0 && (
-        <Alert severity='warning' sx={{ mt: 2 }}>
+      {validationWarnings.length > 0 && (
+        <Alert severity='warning' sx={{ mt: 2 }} onClose={() => setValidationWarnings([])}>
           <Typography variant='body2'>
             <strong>Warnings:</strong>
           </Typography>
           <ul style={{ margin: '4px 0', paddingLeft: '20px' }}>
-            {validationResult.warnings.map((warning, index) => (
-              <li key={index}>
-                <Typography variant='body2'>{warning}</Typography>
+            {validationWarnings.map(result => (
+              <li key={result.fileInfo.name}>
+                <Typography variant='body2'>
+                  <strong>{result.fileInfo.name}:</strong> {result.warnings.join('; ')}
+                </Typography>
               </li>
             ))}
           </ul>
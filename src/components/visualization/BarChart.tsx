@@ -0,0 +1,162 @@
+import React from 'react';
+import { Box, Stack, Tooltip, Typography, useTheme } from '@mui/material';
+
+export interface BarChartSeries {
+  key: string;
+  label: string;
+  color: string;
+}
+
+export interface BarChartDatum {
+  label: string;
+  values: Record<string, number>;
+}
+
+interface BarChartProps {
+  data: BarChartDatum[];
+  // Stacked bottom to top in the given order
+  series: BarChartSeries[];
+  height?: number;
+  formatValue?: (value: number) => string;
+}
+
+// Drawing units; the SVG scales to the width of its container
+const WIDTH = 800;
+const MARGIN = { top: 8, right: 8, bottom: 24, left: 56 };
+const TICK_COUNT = 4;
+const MAX_X_LABELS = 12;
+
+// Round the tick step up to 1, 2 or 5 times a power of ten so tick labels stay readable
+const niceStep = (value: number): number => {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find(multiple => multiple * magnitude >= value) ?? 10;
+  return step * magnitude;
+};
+
+export const BarChart: React.FC<BarChartProps> = ({
+  data,
+  series,
+  height = 220,
+  formatValue = value => value.toLocaleString(),
+}) => {
+  const theme = useTheme();
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = height - MARGIN.top - MARGIN.bottom;
+
+  const totals = data.map(datum =>
+    series.reduce((sum, { key }) => sum + (datum.values[key] ?? 0), 0)
+  );
+  const max = niceStep(Math.max(0, ...totals) / TICK_COUNT) * TICK_COUNT;
+  const slot = plotWidth / Math.max(data.length, 1);
+  const barWidth = Math.max(slot * 0.7, 1);
+  const labelEvery = Math.ceil(data.length / MAX_X_LABELS);
+  const y = (value: number) => MARGIN.top + plotHeight - (value / max) * plotHeight;
+
+  return (
+    <Box>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        width='100%'
+        role='img'
+        style={{ display: 'block', fontFamily: theme.typography.fontFamily }}
+      >
+        {Array.from({ length: TICK_COUNT + 1 }, (_, index) => {
+          const value = (max / TICK_COUNT) * index;
+          return (
+            <g key={index}>
+              <line
+                x1={MARGIN.left}
+                x2={WIDTH - MARGIN.right}
+                y1={y(value)}
+                y2={y(value)}
+                stroke={theme.palette.divider}
+              />
+              <text
+                x={MARGIN.left - 6}
+                y={y(value)}
+                textAnchor='end'
+                dominantBaseline='middle'
+                fontSize={11}
+                fill={theme.palette.text.secondary}
+              >
+                {formatValue(value)}
+              </text>
+            </g>
+          );
+        })}
+
+        {data.map((datum, index) => {
+          const x = MARGIN.left + slot * index + (slot - barWidth) / 2;
+          let stacked = 0;
+          return (
+            <Tooltip
+              // Labels can repeat, e.g. the same day in different years
+              key={index}
+              title={
+                <>
+                  <strong>{datum.label}</strong>
+                  {series.map(({ key, label }) => (
+                    <div key={key}>
+                      {label}: {formatValue(datum.values[key] ?? 0)}
+                    </div>
+                  ))}
+                </>
+              }
+            >
+              <g>
+                {/* Transparent hit area so empty and short bars still show the tooltip */}
+                <rect
+                  x={x}
+                  y={MARGIN.top}
+                  width={barWidth}
+                  height={plotHeight}
+                  fill='transparent'
+                />
+                {series.map(({ key, color }) => {
+                  const value = datum.values[key] ?? 0;
+                  if (value <= 0) return null;
+                  const top = y(stacked + value);
+                  const bottom = y(stacked);
+                  stacked += value;
+                  return (
+                    <rect
+                      key={key}
+                      x={x}
+                      y={top}
+                      width={barWidth}
+                      height={Math.max(bottom - top, 0)}
+                      fill={color}
+                    />
+                  );
+                })}
+                {index % labelEvery === 0 && (
+                  <text
+                    x={x + barWidth / 2}
+                    y={height - 6}
+                    textAnchor='middle'
+                    fontSize={11}
+                    fill={theme.palette.text.secondary}
+                  >
+                    {datum.label}
+                  </text>
+                )}
+              </g>
+            </Tooltip>
+          );
+        })}
+      </svg>
+
+      {series.length > 1 && (
+        <Stack direction='row' spacing={2} flexWrap='wrap' useFlexGap justifyContent='center'>
+          {series.map(({ key, label, color }) => (
+            <Stack key={key} direction='row' spacing={0.75} alignItems='center'>
+              <Box sx={{ width: 12, height: 12, borderRadius: 0.5, bgcolor: color }} />
+              <Typography variant='caption'>{label}</Typography>
+            </Stack>
+          ))}
+        </Stack>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,557 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  FormControlLabel,
+  IconButton,
+  LinearProgress,
+  Slider,
+  Stack,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+  useTheme,
+} from '@mui/material';
+import type { TextFieldProps } from '@mui/material';
+import {
+  ZoomIn as ZoomInIcon,
+  ZoomOut as ZoomOutIcon,
+  CenterFocusStrong as FitIcon,
+} from '@mui/icons-material';
+import type { JobStatusResponse } from '../../services/api/analysisApi';
+import { callGraphLayoutService } from '../../services/visualization';
+import { buildCallGraph, getNeighborhood, getNodeRadius } from '../../utils/analysis';
+import type { CallGraphLayout, CallGraphNode, CallGraphNodeKind } from '../../utils/analysis';
+import { logger } from '../../utils/logger';
+
+type DecompiledFunction = NonNullable<
+  NonNullable<JobStatusResponse['results']>['functions']
+>[number];
+
+interface CallGraphProps {
+  functions: DecompiledFunction[];
+  // LLM descriptions by function name, shown in the detail card
+  descriptions?: Record<string, string>;
+  // Open the full details of a function elsewhere in the results view
+  onOpenFunction?: (functionName: string) => void;
+  height?: number;
+}
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+// Larger graphs open around the entry point instead of all at once
+const FULL_GRAPH_NODE_LIMIT = 400;
+const ENTRY_POINT_NAMES = ['main', '_main', 'WinMain', 'wmain', 'start', '_start', 'entry'];
+const MIN_SCALE = 0.05;
+const MAX_SCALE = 8;
+
+const pickDefaultFocus = (nodes: CallGraphNode[], degree: Map<string, number>): string | null => {
+  const entry = ENTRY_POINT_NAMES.find(name => nodes.some(node => node.id === name));
+  if (entry) return entry;
+  let best: string | null = null;
+  nodes.forEach(node => {
+    if (
+      node.kind === 'user' &&
+      (degree.get(node.id) ?? 0) > (best ? (degree.get(best) ?? 0) : -1)
+    ) {
+      best = node.id;
+    }
+  });
+  return best;
+};
+
+export const CallGraph: React.FC<CallGraphProps> = ({
+  functions,
+  descriptions,
+  onOpenFunction,
+  height = 560,
+}) => {
+  const theme = useTheme();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const transformRef = useRef<ViewTransform>({ scale: 1, x: 0, y: 0 });
+  const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+  const frameRef = useRef<number | null>(null);
+  // The layout the view was last fitted to
+  const fittedLayoutRef = useRef<CallGraphLayout | null>(null);
+
+  const graph = useMemo(() => buildCallGraph(functions), [functions]);
+  const { callers, callees, degree } = useMemo(() => {
+    const callerMap = new Map<string, string[]>();
+    const calleeMap = new Map<string, string[]>();
+    const degreeMap = new Map<string, number>();
+    graph.edges.forEach(({ source, target }) => {
+      calleeMap.set(source, [...(calleeMap.get(source) ?? []), target]);
+      callerMap.set(target, [...(callerMap.get(target) ?? []), source]);
+      degreeMap.set(source, (degreeMap.get(source) ?? 0) + 1);
+      degreeMap.set(target, (degreeMap.get(target) ?? 0) + 1);
+    });
+    return { callers: callerMap, callees: calleeMap, degree: degreeMap };
+  }, [graph]);
+
+  const isLargeGraph = graph.nodes.length > FULL_GRAPH_NODE_LIMIT;
+  const [focus, setFocus] = useState<string | null>(() => pickDefaultFocus(graph.nodes, degree));
+  const [hops, setHops] = useState(2);
+  const [showAll, setShowAll] = useState(!isLargeGraph);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [layout, setLayout] = useState<CallGraphLayout | null>(null);
+  const [layoutError, setLayoutError] = useState<string | null>(null);
+  const [width, setWidth] = useState(800);
+
+  const visibleGraph = useMemo(
+    () => (showAll || !focus ? graph : getNeighborhood(graph, focus, hops)),
+    [graph, showAll, focus, hops]
+  );
+  const nodesById = useMemo(
+    () => new Map(visibleGraph.nodes.map(node => [node.id, node])),
+    [visibleGraph]
+  );
+
+  const colors: Record<CallGraphNodeKind, string> = useMemo(
+    () => ({
+      user: theme.palette.primary.main,
+      library: theme.palette.secondary.main,
+      external: theme.palette.grey[500],
+    }),
+    [theme]
+  );
+
+  // Lay out the visible graph; a newer request supersedes an older one still running
+  useEffect(() => {
+    let cancelled = false;
+    setLayout(null);
+    setLayoutError(null);
+    callGraphLayoutService
+      .layout(visibleGraph)
+      .then(result => {
+        if (!cancelled) setLayout(result);
+      })
+      .catch((error: Error) => {
+        if (cancelled) return;
+        logger.warn('Call graph layout failed', { component: 'CallGraph', error: error.message });
+        setLayoutError(error.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [visibleGraph]);
+
+  // Track the container width so the canvas fills it
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => {
+      const entry = entries[0];
+      if (entry) setWidth(Math.max(200, Math.floor(entry.contentRect.width)));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const draw = useCallback(() => {
+    frameRef.current = null;
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const { scale, x, y } = transformRef.current;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, height);
+    if (!layout) return;
+
+    context.setTransform(ratio * scale, 0, 0, ratio * scale, ratio * x, ratio * y);
+    const highlight = selected ?? hovered;
+
+    // Edges, with arrowheads once zoomed in far enough to see them
+    visibleGraph.edges.forEach(({ source, target }) => {
+      const from = layout.positions.get(source);
+      const to = layout.positions.get(target);
+      const targetNode = nodesById.get(target);
+      if (!from || !to || !targetNode) return;
+
+      const isHighlighted = highlight === source || highlight === target;
+      context.strokeStyle = isHighlighted ? theme.palette.warning.main : theme.palette.divider;
+      context.fillStyle = context.strokeStyle;
+      context.lineWidth = (isHighlighted ? 2 : 1) / scale;
+      context.beginPath();
+      context.moveTo(from.x, from.y);
+      context.lineTo(to.x, to.y);
+      context.stroke();
+
+      if (scale > 0.6) {
+        const angle = Math.atan2(to.y - from.y, to.x - from.x);
+        const tipX = to.x - Math.cos(angle) * getNodeRadius(targetNode);
+        const tipY = to.y - Math.sin(angle) * getNodeRadius(targetNode);
+        const size = 6 / scale;
+        context.beginPath();
+        context.moveTo(tipX, tipY);
+        context.lineTo(
+          tipX - size * Math.cos(angle - Math.PI / 7),
+          tipY - size * Math.sin(angle - Math.PI / 7)
+        );
+        context.lineTo(
+          tipX - size * Math.cos(angle + Math.PI / 7),
+          tipY - size * Math.sin(angle + Math.PI / 7)
+        );
+        context.closePath();
+        context.fill();
+      }
+    });
+
+    const neighbors = new Set([
+      ...(highlight ? (callers.get(highlight) ?? []) : []),
+      ...(highlight ? (callees.get(highlight) ?? []) : []),
+    ]);
+
+    visibleGraph.nodes.forEach(node => {
+      const position = layout.positions.get(node.id);
+      if (!position) return;
+      const radius = getNodeRadius(node);
+
+      context.beginPath();
+      context.arc(position.x, position.y, radius, 0, Math.PI * 2);
+      context.fillStyle = colors[node.kind];
+      context.globalAlpha =
+        highlight && node.id !== highlight && !neighbors.has(node.id) ? 0.35 : 1;
+      context.fill();
+      context.globalAlpha = 1;
+      if (node.id === selected || node.id === focus) {
+        context.lineWidth = 3 / scale;
+        context.strokeStyle =
+          node.id === selected ? theme.palette.warning.main : theme.palette.text.primary;
+        context.stroke();
+      }
+
+      // Labels only where they are legible or relevant, so dense graphs stay readable
+      if (scale * radius > 7 || node.id === highlight || neighbors.has(node.id)) {
+        context.font = `${12 / scale}px ${theme.typography.fontFamily}`;
+        context.fillStyle = theme.palette.text.primary;
+        context.fillText(node.id, position.x + radius + 3 / scale, position.y + 4 / scale);
+      }
+    });
+  }, [
+    layout,
+    visibleGraph,
+    nodesById,
+    selected,
+    hovered,
+    focus,
+    callers,
+    callees,
+    colors,
+    theme,
+    width,
+    height,
+  ]);
+
+  const requestDraw = useCallback(() => {
+    if (frameRef.current === null) frameRef.current = requestAnimationFrame(draw);
+  }, [draw]);
+
+  useEffect(() => {
+    requestDraw();
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    };
+  }, [requestDraw]);
+
+  const fitToView = useCallback(() => {
+    if (!layout) return;
+    const { minX, minY, maxX, maxY } = layout.bounds;
+    const padding = 40;
+    const scale = Math.min(
+      MAX_SCALE,
+      Math.max(
+        MIN_SCALE,
+        Math.min(
+          (width - padding * 2) / Math.max(1, maxX - minX),
+          (height - padding * 2) / Math.max(1, maxY - minY)
+        )
+      )
+    );
+    transformRef.current = {
+      scale,
+      x: width / 2 - ((minX + maxX) / 2) * scale,
+      y: height / 2 - ((minY + maxY) / 2) * scale,
+    };
+    requestDraw();
+  }, [layout, width, height, requestDraw]);
+
+  // Only refit when a new layout arrives, not on every resize
+  useEffect(() => {
+    if (layout === fittedLayoutRef.current) return;
+    fittedLayoutRef.current = layout;
+    fitToView();
+  }, [layout, fitToView]);
+
+  const zoomAt = useCallback(
+    (factor: number, originX: number, originY: number) => {
+      const current = transformRef.current;
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, current.scale * factor));
+      const applied = scale / current.scale;
+      transformRef.current = {
+        scale,
+        x: originX - (originX - current.x) * applied,
+        y: originY - (originY - current.y) * applied,
+      };
+      requestDraw();
+    },
+    [requestDraw]
+  );
+
+  // Wheel listeners must be non-passive to stop the page from scrolling while zooming
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      zoomAt(
+        event.deltaY < 0 ? 1.15 : 1 / 1.15,
+        event.clientX - rect.left,
+        event.clientY - rect.top
+      );
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  const findNodeAt = (clientX: number, clientY: number): string | null => {
+    const canvas = canvasRef.current;
+    if (!canvas || !layout) return null;
+    const rect = canvas.getBoundingClientRect();
+    const { scale, x, y } = transformRef.current;
+    const graphX = (clientX - rect.left - x) / scale;
+    const graphY = (clientY - rect.top - y) / scale;
+
+    let closest: string | null = null;
+    let closestDistance = Infinity;
+    visibleGraph.nodes.forEach(node => {
+      const position = layout.positions.get(node.id);
+      if (!position) return;
+      const distance = Math.hypot(position.x - graphX, position.y - graphY);
+      // Small nodes get a minimum hit area so they stay clickable when zoomed out
+      if (distance <= Math.max(getNodeRadius(node), 6 / scale) && distance < closestDistance) {
+        closest = node.id;
+        closestDistance = distance;
+      }
+    });
+    return closest;
+  };
+
+  const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    dragRef.current = { x: event.clientX, y: event.clientY, moved: false };
+  };
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (drag) {
+      const deltaX = event.clientX - drag.x;
+      const deltaY = event.clientY - drag.y;
+      if (drag.moved || Math.hypot(deltaX, deltaY) > 3) {
+        drag.moved = true;
+        transformRef.current = {
+          ...transformRef.current,
+          x: transformRef.current.x + deltaX,
+          y: transformRef.current.y + deltaY,
+        };
+        drag.x = event.clientX;
+        drag.y = event.clientY;
+        requestDraw();
+      }
+      return;
+    }
+    const node = findNodeAt(event.clientX, event.clientY);
+    if (node !== hovered) setHovered(node);
+  };
+
+  const handleMouseUp = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && !drag.moved) {
+      setSelected(findNodeAt(event.clientX, event.clientY));
+    }
+  };
+
+  const handleFocusChange = (name: string | null) => {
+    setFocus(name);
+    if (name) setShowAll(false);
+  };
+
+  const selectedNode = selected ? graph.nodes.find(node => node.id === selected) : undefined;
+  const nodeNames = useMemo(() => graph.nodes.map(node => node.id).sort(), [graph]);
+
+  if (graph.nodes.length === 0) {
+    return (
+      <Alert severity='info'>
+        These results do not include per-function call information, so no call graph can be drawn.
+      </Alert>
+    );
+  }
+
+  return (
+    <Stack spacing={2}>
+      {/* Controls */}
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems='center'>
+        <Autocomplete
+          options={nodeNames}
+          value={focus}
+          onChange={(_event, value) => handleFocusChange(value)}
+          sx={{ minWidth: 260 }}
+          // MUI's input params predate exactOptionalPropertyTypes
+          renderInput={params => (
+            <TextField {...(params as TextFieldProps)} size='small' label='Focus function' />
+          )}
+        />
+        <Box sx={{ width: 220, px: 1 }}>
+          <Typography variant='caption' color='text.secondary'>
+            Hops around focus: {hops}
+          </Typography>
+          <Slider
+            size='small'
+            min={1}
+            max={6}
+            step={1}
+            marks
+            value={hops}
+            disabled={showAll || !focus}
+            onChange={(_event, value) => setHops(value as number)}
+          />
+        </Box>
+        <FormControlLabel
+          control={<Switch checked={showAll} onChange={e => setShowAll(e.target.checked)} />}
+          label={`Whole graph (${graph.nodes.length} nodes)`}
+        />
+        <Box sx={{ flexGrow: 1 }} />
+        <Tooltip title='Zoom in'>
+          <IconButton onClick={() => zoomAt(1.3, width / 2, height / 2)}>
+            <ZoomInIcon />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title='Zoom out'>
+          <IconButton onClick={() => zoomAt(1 / 1.3, width / 2, height / 2)}>
+            <ZoomOutIcon />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title='Fit to view'>
+          <IconButton onClick={fitToView}>
+            <FitIcon />
+          </IconButton>
+        </Tooltip>
+      </Stack>
+
+      {/* Legend */}
+      <Stack direction='row' spacing={1} alignItems='center'>
+        {(Object.keys(colors) as CallGraphNodeKind[]).map(kind => (
+          <Chip
+            key={kind}
+            size='small'
+            variant='outlined'
+            label={kind}
+            icon={
+              <Box
+                component='span'
+                sx={{ width: 10, height: 10, borderRadius: '50%', bgcolor: colors[kind] }}
+              />
+            }
+          />
+        ))}
+        <Typography variant='caption' color='text.secondary'>
+          Node size reflects complexity, or size in bytes when complexity is unknown. Showing{' '}
+          {visibleGraph.nodes.length} of {graph.nodes.length} functions.
+        </Typography>
+      </Stack>
+
+      {layoutError && (
+        <Alert severity='error'>Could not lay out the call graph: {layoutError}</Alert>
+      )}
+
+      <Box
+        ref={containerRef}
+        sx={{
+          position: 'relative',
+          border: 1,
+          borderColor: 'divider',
+          borderRadius: 1,
+          overflow: 'hidden',
+        }}
+      >
+        {!layout && !layoutError && (
+          <LinearProgress sx={{ position: 'absolute', top: 0, left: 0, right: 0 }} />
+        )}
+        <canvas
+          ref={canvasRef}
+          width={width * (window.devicePixelRatio || 1)}
+          height={height * (window.devicePixelRatio || 1)}
+          style={{ width, height, display: 'block', cursor: hovered ? 'pointer' : 'grab' }}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={() => {
+            dragRef.current = null;
+            setHovered(null);
+          }}
+        />
+
+        {/* Function detail for the clicked node */}
+        {selectedNode && (
+          <Card sx={{ position: 'absolute', top: 12, right: 12, width: 300, maxWidth: '80%' }}>
+            <CardContent>
+              <Typography
+                variant='subtitle1'
+                sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}
+              >
+                {selectedNode.id}
+              </Typography>
+              <Typography variant='caption' color='text.secondary' display='block' gutterBottom>
+                {[
+                  selectedNode.kind,
+                  selectedNode.address,
+                  selectedNode.size !== undefined && `${selectedNode.size} bytes`,
+                  selectedNode.complexity !== undefined && `complexity ${selectedNode.complexity}`,
+                ]
+                  .filter(Boolean)
+                  .join(' • ')}
+              </Typography>
+              <Typography variant='body2' gutterBottom>
+                {callers.get(selectedNode.id)?.length ?? 0} callers •{' '}
+                {callees.get(selectedNode.id)?.length ?? 0} callees
+              </Typography>
+              {descriptions?.[selectedNode.id] && (
+                <Typography variant='body2' color='text.secondary' paragraph>
+                  {descriptions[selectedNode.id]}
+                </Typography>
+              )}
+              <Stack direction='row' spacing={1}>
+                <Button size='small' onClick={() => handleFocusChange(selectedNode.id)}>
+                  Focus here
+                </Button>
+                {onOpenFunction && selectedNode.kind !== 'external' && (
+                  <Button size='small' onClick={() => onOpenFunction(selectedNode.id)}>
+                    Open function
+                  </Button>
+                )}
+                <Button size='small' onClick={() => setSelected(null)}>
+                  Close
+                </Button>
+              </Stack>
+            </CardContent>
+          </Card>
+        )}
+      </Box>
+    </Stack>
+  );
+};
@@ -1,2 +1,5 @@
 // Chart and graph components
 // Examples: CallGraph, DependencyTree, SecurityHeatmap, ProgressDisplay
+export { CallGraph } from './CallGraph';
+export { BarChart } from './BarChart';
+export type { BarChartDatum, BarChartSeries } from './BarChart';
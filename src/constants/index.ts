@@ -1,2 +1,3 @@
 // Application constants
 // Examples: API endpoints, file size limits, polling intervals
+export * from './routes';
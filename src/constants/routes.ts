@@ -0,0 +1,64 @@
+/**
+ * Application route definitions
+ * Central place for URL paths so links and route matching stay in sync
+ */
+
+export const ROUTES = {
+  HOME: '/',
+  UPLOAD: '/upload',
+  JOBS: '/jobs',
+  JOB_DETAILS: '/jobs/:jobId',
+  RESULTS: '/results',
+  RESULTS_JOB: '/results/:jobId',
+  RESULTS_JOB_TAB: '/results/:jobId/:tab',
+  RESULTS_FUNCTION: '/results/:jobId/functions/:functionName',
+  COMPARE: '/compare',
+  COMPARE_BASE: '/compare/:baseJobId',
+  COMPARE_JOBS: '/compare/:baseJobId/:targetJobId',
+  ANALYTICS: '/analytics',
+  PROVIDERS: '/providers',
+  HEALTH: '/health',
+} as const;
+
+// Results viewer tabs in display order, addressed by URL slug
+export const RESULTS_TABS = [
+  'decompilation',
+  'translation',
+  'security',
+  'functions',
+  'call-graph',
+  'indicators',
+] as const;
+
+export type ResultsTab = (typeof RESULTS_TABS)[number];
+
+export const DEFAULT_RESULTS_TAB: ResultsTab = 'decompilation';
+
+export const isResultsTab = (value: string | undefined): value is ResultsTab =>
+  RESULTS_TABS.includes(value as ResultsTab);
+
+/**
+ * Build the deep link for a single job
+ */
+export const jobPath = (jobId: string): string => `${ROUTES.JOBS}/${encodeURIComponent(jobId)}`;
+
+/**
+ * Build the deep link for a job's results, optionally opened on a specific tab
+ */
+export const resultsPath = (jobId: string, tab?: ResultsTab): string =>
+  `${ROUTES.RESULTS}/${encodeURIComponent(jobId)}${tab ? `/${tab}` : ''}`;
+
+/**
+ * Build the deep link for a single function in a job's results
+ */
+export const functionPath = (jobId: string, functionName: string): string =>
+  `${resultsPath(jobId, 'functions')}/${encodeURIComponent(functionName)}`;
+
+/**
+ * Build the deep link comparing two jobs' results; either side may still be unchosen
+ */
+export const comparePath = (baseJobId?: string, targetJobId?: string): string => {
+  if (!baseJobId) return ROUTES.COMPARE;
+  const base = `${ROUTES.COMPARE}/${encodeURIComponent(baseJobId)}`;
+  return targetJobId ? `${base}/${encodeURIComponent(targetJobId)}` : base;
+};
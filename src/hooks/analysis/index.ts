@@ -1,2 +1,5 @@
 // Analysis-specific custom hooks
 // Examples: useJobManager, useJobPolling, useAnalysisResults
+export { useJobUpdates, useJobUpdateConnection } from './useJobUpdates';
+export { useScheduledRetries } from './useScheduledRetries';
+export { useHistoryStorage } from './useHistoryStorage';
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { historyRetentionService } from '../../services/history';
+import type { HistoryStorageState } from '../../services/history';
+
+/**
+ * Storage used by job history and stored results, and how close it is to the browser quota
+ */
+export const useHistoryStorage = (): HistoryStorageState =>
+  useSyncExternalStore(historyRetentionService.onStateChange, historyRetentionService.getState);
@@ -0,0 +1,31 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { jobUpdateService } from '../../services/realtime';
+import type { JobUpdateConnectionState } from '../../services/realtime';
+
+/**
+ * Current state of the job update connection (stream, fallback polling or idle)
+ */
+export const useJobUpdateConnection = (): JobUpdateConnectionState =>
+  useSyncExternalStore(
+    jobUpdateService.onConnectionStateChange,
+    jobUpdateService.getConnectionState
+  );
+
+/**
+ * Receive live updates for the given jobs while the component is mounted.
+ * Updates land in the analysisApi cache and the analysis slice.
+ */
+export const useJobUpdates = (jobIds: string[]): JobUpdateConnectionState => {
+  const connection = useJobUpdateConnection();
+  // Resubscribe only when the set of jobs actually changes
+  const key = [...jobIds].sort().join(',');
+
+  useEffect(() => {
+    if (!key) return;
+
+    const unsubscribes = key.split(',').map(jobId => jobUpdateService.subscribe(jobId));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [key]);
+
+  return connection;
+};
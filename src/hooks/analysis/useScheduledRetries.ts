@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+import { jobRetryService } from '../../services/retry';
+import type { ScheduledRetry } from '../../services/retry';
+
+/**
+ * Automatic retries waiting to run, by the id of the failed job
+ */
+export const useScheduledRetries = (): Record<string, ScheduledRetry> =>
+  useSyncExternalStore(
+    jobRetryService.onScheduledRetriesChange,
+    jobRetryService.getScheduledRetries
+  );
@@ -1,2 +1,3 @@
 // Custom React hooks
 export * from './analysis';
+export * from './vault';
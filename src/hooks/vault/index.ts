@@ -0,0 +1,2 @@
+// Credential vault hooks
+export { useCredentialVault } from './useCredentialVault';
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { credentialVault } from '../../services/vault';
+import type { VaultState } from '../../services/vault';
+
+/**
+ * Current credential vault state; re-renders when it is unlocked, locked or changed
+ */
+export const useCredentialVault = (): VaultState =>
+  useSyncExternalStore(credentialVault.onStateChange, credentialVault.getState);
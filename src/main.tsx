@@ -1,5 +1,6 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
+import { BrowserRouter } from 'react-router';
 import { CssBaseline } from '@mui/material';
 import { ThemeProvider } from './theme/ThemeProvider';
 import { ReduxProvider } from './store/ReduxProvider';
@@ -20,7 +21,9 @@ createRoot(rootElement).render(
     <ReduxProvider>
       <ThemeProvider>
         <CssBaseline />
-        <App />
+        <BrowserRouter>
+          <App />
+        </BrowserRouter>
       </ThemeProvider>
     </ReduxProvider>
   </StrictMode>
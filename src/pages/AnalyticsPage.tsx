@@ -0,0 +1,385 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+  useTheme,
+} from '@mui/material';
+import { GridLegacy as Grid } from '@mui/material';
+import { Download as DownloadIcon } from '@mui/icons-material';
+import { BarChart } from '../components/visualization';
+import type { BarChartSeries } from '../components/visualization';
+import { useAppSelector } from '../store/hooks';
+import {
+  selectCostByProvider,
+  selectJobHistory,
+  selectJobStats,
+  selectTotalCost,
+} from '../store/selectors/analysisSelectors';
+import {
+  buildUsageAnalytics,
+  dailyUsageToCsv,
+  formatCost,
+  getRangeStart,
+  providerUsageToCsv,
+} from '../utils/analysis';
+import { downloadFile } from '../utils/download';
+
+const RANGES = [
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: 'all', label: 'All time' },
+] as const;
+
+type Range = (typeof RANGES)[number]['value'];
+
+const DEPTH_LABELS: Record<string, string> = {
+  basic: 'Basic',
+  standard: 'Standard',
+  detailed: 'Detailed',
+  comprehensive: 'Comprehensive',
+};
+
+const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = seconds % 60;
+  return `${minutes}m ${remainingSeconds.toFixed(0)}s`;
+};
+
+// Axis labels use the short month/day form; the tooltip shows the same
+const formatDay = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+interface StatCardProps {
+  label: string;
+  value: string;
+  detail?: string;
+}
+
+const StatCard: React.FC<StatCardProps> = ({ label, value, detail }) => (
+  <Card sx={{ height: '100%' }}>
+    <CardContent>
+      <Typography variant='overline' color='text.secondary'>
+        {label}
+      </Typography>
+      <Typography variant='h5'>{value}</Typography>
+      {detail && (
+        <Typography variant='caption' color='text.secondary'>
+          {detail}
+        </Typography>
+      )}
+    </CardContent>
+  </Card>
+);
+
+interface ChartCardProps {
+  title: string;
+  subheader?: string;
+  children: React.ReactNode;
+}
+
+const ChartCard: React.FC<ChartCardProps> = ({ title, subheader, children }) => (
+  <Card sx={{ height: '100%' }}>
+    <CardContent>
+      <Typography variant='h6'>{title}</Typography>
+      {subheader && (
+        <Typography variant='caption' color='text.secondary' component='p' sx={{ mb: 1 }}>
+          {subheader}
+        </Typography>
+      )}
+      {children}
+    </CardContent>
+  </Card>
+);
+
+export const AnalyticsPage: React.FC = () => {
+  const theme = useTheme();
+  const [range, setRange] = useState<Range>('30');
+  const history = useAppSelector(selectJobHistory);
+  const jobStats = useAppSelector(selectJobStats);
+  const totalCost = useAppSelector(selectTotalCost);
+  const costByProvider = useAppSelector(selectCostByProvider);
+
+  // Imported jobs were run elsewhere, so they are not part of this browser's usage
+  const localHistory = useMemo(() => history.filter(job => !job.imported), [history]);
+  const analytics = useMemo(
+    () =>
+      buildUsageAnalytics(localHistory, {
+        ...(range !== 'all' && { since: getRangeStart(Number(range)) }),
+      }),
+    [localHistory, range]
+  );
+
+  const providerPalette = [
+    theme.palette.primary.main,
+    theme.palette.secondary.main,
+    theme.palette.info.main,
+    theme.palette.warning.main,
+    theme.palette.success.main,
+    theme.palette.error.main,
+  ];
+  const providerSeries: BarChartSeries[] = Array.from(
+    new Set(analytics.daily.flatMap(day => Object.keys(day.costByProvider)))
+  )
+    .sort()
+    .map((provider, index) => ({
+      key: provider,
+      label: provider,
+      color: providerPalette[index % providerPalette.length] ?? theme.palette.primary.main,
+    }));
+
+  const dailyData = (values: (day: (typeof analytics.daily)[number]) => Record<string, number>) =>
+    analytics.daily.map(day => ({ label: formatDay(day.date), values: values(day) }));
+
+  const rangeSuffix = range === 'all' ? 'all' : `${range}d`;
+  const handleExportDaily = () =>
+    downloadFile(
+      dailyUsageToCsv(analytics.daily),
+      `bin2nlp-usage-daily-${rangeSuffix}.csv`,
+      'text/csv'
+    );
+  const handleExportProviders = () =>
+    downloadFile(
+      providerUsageToCsv(analytics.providers),
+      `bin2nlp-usage-providers-${rangeSuffix}.csv`,
+      'text/csv'
+    );
+
+  return (
+    <Box>
+      <Typography variant='h4' gutterBottom>
+        Usage & Spend
+      </Typography>
+      <Typography variant='body1' color='text.secondary' paragraph>
+        Activity, outcomes and LLM spend computed from the job history saved in this browser.
+        Imported results are not included.
+      </Typography>
+
+      <Stack
+        direction='row'
+        spacing={2}
+        alignItems='center'
+        flexWrap='wrap'
+        useFlexGap
+        sx={{ mb: 3 }}
+      >
+        <ToggleButtonGroup
+          size='small'
+          exclusive
+          value={range}
+          onChange={(_event, value: Range | null) => value && setRange(value)}
+        >
+          {RANGES.map(option => (
+            <ToggleButton key={option.value} value={option.value}>
+              {option.label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <Box sx={{ flexGrow: 1 }} />
+        <Button
+          variant='outlined'
+          size='small'
+          startIcon={<DownloadIcon />}
+          onClick={handleExportDaily}
+          disabled={analytics.jobs === 0}
+        >
+          Daily CSV
+        </Button>
+        <Button
+          variant='outlined'
+          size='small'
+          startIcon={<DownloadIcon />}
+          onClick={handleExportProviders}
+          disabled={analytics.providers.length === 0}
+        >
+          Providers CSV
+        </Button>
+      </Stack>
+
+      {localHistory.length === 0 ? (
+        <Alert severity='info'>
+          No finished jobs yet. Analytics appear once jobs complete and move into history.
+        </Alert>
+      ) : (
+        <Grid container spacing={2}>
+          <Grid item xs={12} sm={6} md={3}>
+            <StatCard
+              label='Jobs'
+              value={analytics.jobs.toLocaleString()}
+              detail={`${jobStats.totalJobs} tracked, ${jobStats.activeJobsCount} running`}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <StatCard
+              label='Success rate'
+              value={
+                analytics.successRate === undefined
+                  ? '—'
+                  : `${(analytics.successRate * 100).toFixed(1)}%`
+              }
+              detail={`${analytics.completed} completed, ${analytics.failed} failed, ${analytics.cancelled} cancelled`}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <StatCard
+              label='Spend'
+              value={formatCost(analytics.totalCost)}
+              detail={`${formatCost(totalCost)} across all tracked jobs`}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <StatCard
+              label='Tokens in / out'
+              value={`${analytics.inputTokens.toLocaleString()} / ${analytics.outputTokens.toLocaleString()}`}
+              detail={`Reported by ${analytics.tokenReportingJobs} of ${analytics.jobs} jobs`}
+            />
+          </Grid>
+
+          <Grid item xs={12} lg={6}>
+            <ChartCard title='Jobs per day' subheader='By outcome, on the day they were submitted'>
+              <BarChart
+                data={dailyData(day => ({
+                  completed: day.completed,
+                  failed: day.failed,
+                  cancelled: day.cancelled,
+                }))}
+                series={[
+                  { key: 'completed', label: 'Completed', color: theme.palette.success.main },
+                  { key: 'failed', label: 'Failed', color: theme.palette.error.main },
+                  { key: 'cancelled', label: 'Cancelled', color: theme.palette.grey[500] },
+                ]}
+              />
+            </ChartCard>
+          </Grid>
+
+          <Grid item xs={12} lg={6}>
+            <ChartCard
+              title='Spend per day'
+              subheader='By provider; estimates stand in where no actual cost was reported'
+            >
+              {providerSeries.length > 0 ? (
+                <BarChart
+                  data={dailyData(day => day.costByProvider)}
+                  series={providerSeries}
+                  formatValue={value => `$${value.toFixed(2)}`}
+                />
+              ) : (
+                <Alert severity='info'>No jobs in this range used an LLM provider.</Alert>
+              )}
+            </ChartCard>
+          </Grid>
+
+          <Grid item xs={12} lg={6}>
+            <ChartCard
+              title='Tokens per day'
+              subheader='Only jobs whose translation reported token usage'
+            >
+              {analytics.tokenReportingJobs > 0 ? (
+                <BarChart
+                  data={dailyData(day => ({ input: day.inputTokens, output: day.outputTokens }))}
+                  series={[
+                    { key: 'input', label: 'Input', color: theme.palette.info.main },
+                    { key: 'output', label: 'Output', color: theme.palette.secondary.main },
+                  ]}
+                />
+              ) : (
+                <Alert severity='info'>No jobs in this range reported token usage.</Alert>
+              )}
+            </ChartCard>
+          </Grid>
+
+          <Grid item xs={12} lg={6}>
+            <ChartCard title='Average duration by depth' subheader='Completed jobs only'>
+              {analytics.durationByDepth.length > 0 ? (
+                <BarChart
+                  data={analytics.durationByDepth.map(({ depth, jobs, averageSeconds }) => ({
+                    label: `${DEPTH_LABELS[depth] ?? depth} (${jobs})`,
+                    values: { duration: averageSeconds },
+                  }))}
+                  series={[
+                    { key: 'duration', label: 'Average', color: theme.palette.primary.main },
+                  ]}
+                  formatValue={formatDuration}
+                />
+              ) : (
+                <Alert severity='info'>No completed jobs in this range reported a duration.</Alert>
+              )}
+            </ChartCard>
+          </Grid>
+
+          <Grid item xs={12}>
+            <ChartCard title='Cost per provider and model'>
+              {analytics.providers.length > 0 ? (
+                <Table size='small'>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Provider</TableCell>
+                      <TableCell>Model</TableCell>
+                      <TableCell align='right'>Jobs</TableCell>
+                      <TableCell align='right'>Input tokens</TableCell>
+                      <TableCell align='right'>Output tokens</TableCell>
+                      <TableCell align='right'>Cost</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {analytics.providers.map(usage => (
+                      <TableRow key={`${usage.provider}-${usage.model ?? ''}`}>
+                        <TableCell>{usage.provider}</TableCell>
+                        <TableCell>{usage.model ?? '—'}</TableCell>
+                        <TableCell align='right'>{usage.jobs}</TableCell>
+                        <TableCell align='right'>{usage.inputTokens.toLocaleString()}</TableCell>
+                        <TableCell align='right'>{usage.outputTokens.toLocaleString()}</TableCell>
+                        <TableCell align='right'>{formatCost(usage.cost)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <Alert severity='info'>No jobs in this range used an LLM provider.</Alert>
+              )}
+
+              {Object.keys(costByProvider).length > 0 && (
+                <Stack
+                  direction='row'
+                  spacing={1}
+                  alignItems='center'
+                  flexWrap='wrap'
+                  useFlexGap
+                  sx={{ mt: 2 }}
+                >
+                  <Typography variant='caption' color='text.secondary'>
+                    All tracked jobs:
+                  </Typography>
+                  {Object.entries(costByProvider)
+                    .sort(([, a], [, b]) => b - a)
+                    .map(([provider, cost]) => (
+                      <Chip
+                        key={provider}
+                        size='small'
+                        variant='outlined'
+                        label={`${provider} ${formatCost(cost)}`}
+                      />
+                    ))}
+                </Stack>
+              )}
+            </ChartCard>
+          </Grid>
+        </Grid>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,108 @@
+import React from 'react';
+import { useNavigate, useParams } from 'react-router';
+import {
+  Alert,
+  Box,
+  IconButton,
+  MenuItem,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { SwapHoriz as SwapIcon } from '@mui/icons-material';
+import { ResultsComparison } from '../components/results/ResultsComparison';
+import { useAppSelector } from '../store/hooks';
+import { selectJobHistory } from '../store/selectors/analysisSelectors';
+import { comparePath } from '../constants/routes';
+import type { AnalysisJob } from '../types/analysis.types';
+
+const describeJob = (job: AnalysisJob): string =>
+  `${job.fileName} (${new Date(job.completedAt || job.submittedAt).toLocaleString()})`;
+
+export const ComparePage: React.FC = () => {
+  const { baseJobId, targetJobId } = useParams<{ baseJobId: string; targetJobId: string }>();
+  const navigate = useNavigate();
+  const history = useAppSelector(selectJobHistory);
+  const completedJobs = history.filter(job => job.status === 'completed');
+
+  const findJob = (jobId?: string) => history.find(job => job.id === jobId);
+  const baseJob = findJob(baseJobId);
+  const targetJob = findJob(targetJobId);
+
+  // Jobs opened from a deep link may not be in local history; keep them selectable anyway
+  const renderOptions = (selectedId?: string) => [
+    ...(selectedId && !completedJobs.some(job => job.id === selectedId)
+      ? [
+          <MenuItem key={selectedId} value={selectedId}>
+            Job {selectedId}
+          </MenuItem>,
+        ]
+      : []),
+    ...completedJobs.map(job => (
+      <MenuItem key={job.id} value={job.id}>
+        {describeJob(job)}
+      </MenuItem>
+    )),
+  ];
+
+  return (
+    <Box>
+      <Typography variant='h4' gutterBottom>
+        Compare Results
+      </Typography>
+      <Typography variant='body1' color='text.secondary' paragraph>
+        Align two analyses by function name and address to see what changed between versions of a
+        binary.
+      </Typography>
+
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems='center' sx={{ mb: 3 }}>
+        <TextField
+          select
+          fullWidth
+          label='Base (before)'
+          value={baseJobId ?? ''}
+          onChange={event => navigate(comparePath(event.target.value, targetJobId))}
+        >
+          {renderOptions(baseJobId)}
+        </TextField>
+        <Tooltip title='Swap base and target'>
+          <span>
+            <IconButton
+              disabled={!baseJobId || !targetJobId}
+              onClick={() => navigate(comparePath(targetJobId, baseJobId))}
+            >
+              <SwapIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <TextField
+          select
+          fullWidth
+          label='Target (after)'
+          value={targetJobId ?? ''}
+          disabled={!baseJobId}
+          onChange={event => navigate(comparePath(baseJobId, event.target.value))}
+        >
+          {renderOptions(targetJobId)}
+        </TextField>
+      </Stack>
+
+      {completedJobs.length < 2 && !(baseJobId && targetJobId) && (
+        <Alert severity='info'>
+          At least two completed jobs are needed for a comparison. Analyze another version of the
+          binary to diff them.
+        </Alert>
+      )}
+
+      {baseJobId && targetJobId && (
+        <ResultsComparison
+          baseJobId={baseJobId}
+          targetJobId={targetJobId}
+          {...(baseJob && { baseLabel: baseJob.fileName })}
+          {...(targetJob && { targetLabel: targetJob.fileName })}
+        />
+      )}
+    </Box>
+  );
+};
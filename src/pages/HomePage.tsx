@@ -0,0 +1,60 @@
+import React from 'react';
+import { Box, Typography, Alert, Card, CardContent } from '@mui/material';
+import { useGetSystemHealthQuery } from '../services/api/analysisApi';
+
+export const HomePage: React.FC = () => {
+  // Check system health
+  const { data: healthData, error: healthError, isLoading } = useGetSystemHealthQuery();
+
+  return (
+    <Box>
+      <Typography variant='h4' gutterBottom>
+        Welcome to bin2nlp
+      </Typography>
+      <Typography variant='body1' color='text.secondary' paragraph>
+        Binary-to-Natural-Language Processing Platform
+      </Typography>
+      <Typography variant='body2' paragraph>
+        Upload binary files for decompilation and natural language translation using advanced AI
+        models. Support for PE, ELF, Mach-O, and JAR formats with multi-provider LLM integration.
+      </Typography>
+
+      {/* System Status */}
+      <Card sx={{ mt: 3 }}>
+        <CardContent>
+          <Typography variant='h6' gutterBottom>
+            System Status
+          </Typography>
+          {isLoading ? (
+            <Alert severity='info'>Connecting to bin2nlp API...</Alert>
+          ) : healthError ? (
+            <Alert severity='warning'>
+              Unable to connect to bin2nlp API at http://localhost:8000. Please ensure the backend
+              is running.
+            </Alert>
+          ) : healthData ? (
+            <Alert severity='success'>
+              Connected to bin2nlp API v{healthData.version} ({healthData.status})
+            </Alert>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      {/* Navigation Help */}
+      <Card sx={{ mt: 2 }}>
+        <CardContent>
+          <Typography variant='h6' gutterBottom>
+            Getting Started
+          </Typography>
+          <Typography variant='body2'>
+            • Use the <strong>Upload & Analyze</strong> section to submit binary files for analysis
+            <br />• Monitor job progress in the <strong>Job Status</strong> dashboard
+            <br />• View analysis results in the <strong>Results</strong> section
+            <br />• Configure LLM providers in the <strong>LLM Providers</strong> settings
+            <br />• Check system health in the <strong>System Health</strong> monitor
+          </Typography>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router';
+import { Alert, Box, Button, Link, Stack, Typography } from '@mui/material';
+import {
+  ArrowBack as BackIcon,
+  Replay as RetryIcon,
+  Tune as RetryWithChangesIcon,
+} from '@mui/icons-material';
+import { JobStatusCard } from '../components/jobs/JobStatusCard';
+import { RetryJobDialog } from '../components/jobs/RetryJobDialog';
+import { useAppSelector } from '../store/hooks';
+import { selectJobById, selectRetryJobs } from '../store/selectors/analysisSelectors';
+import { ROUTES, jobPath, resultsPath } from '../constants/routes';
+import { isRetryableJob } from '../utils/analysis';
+
+export const JobDetailsPage: React.FC = () => {
+  const { jobId = '' } = useParams<{ jobId: string }>();
+  const navigate = useNavigate();
+  const selectJob = React.useMemo(() => selectJobById(jobId), [jobId]);
+  const job = useAppSelector(selectJob);
+  const selectRetries = React.useMemo(() => selectRetryJobs(jobId), [jobId]);
+  const retries = useAppSelector(selectRetries);
+  const [retryDialog, setRetryDialog] = useState<{ withChanges: boolean } | null>(null);
+
+  return (
+    <Box>
+      <Stack direction='row' spacing={2} alignItems='center' sx={{ mb: 2 }}>
+        <Button startIcon={<BackIcon />} onClick={() => navigate(ROUTES.JOBS)}>
+          All Jobs
+        </Button>
+        <Typography variant='h4'>{job?.fileName || 'Job Details'}</Typography>
+      </Stack>
+
+      {job && (
+        <Typography variant='body2' color='text.secondary' paragraph>
+          Submitted {new Date(job.submittedAt).toLocaleString()} • {job.config.analysisDepth}{' '}
+          analysis
+          {job.config.llmProvider && ` • ${job.config.llmProvider}`}
+        </Typography>
+      )}
+
+      {job?.hashes && (
+        <Typography
+          variant='body2'
+          color='text.secondary'
+          sx={{ fontFamily: 'monospace', mb: 2, wordBreak: 'break-all' }}
+        >
+          SHA-256 {job.hashes.sha256}
+          <br />
+          SHA-1 {job.hashes.sha1}
+          <br />
+          MD5 {job.hashes.md5}
+        </Typography>
+      )}
+
+      {job?.retryOfJobId && (
+        <Typography variant='body2' color='text.secondary' paragraph>
+          {job.retryAttempt ? `Automatic retry ${job.retryAttempt} of` : 'Resubmission of'} failed
+          job{' '}
+          <Link component='button' onClick={() => navigate(jobPath(job.retryOfJobId ?? ''))}>
+            {job.retryOfJobId}
+          </Link>
+        </Typography>
+      )}
+
+      {job && job.status === 'failed' && (
+        <Alert
+          severity='error'
+          sx={{ mb: 2 }}
+          action={
+            isRetryableJob(job) && (
+              <Stack direction='row' spacing={1}>
+                <Button
+                  color='inherit'
+                  size='small'
+                  startIcon={<RetryIcon />}
+                  onClick={() => setRetryDialog({ withChanges: false })}
+                >
+                  Retry
+                </Button>
+                <Button
+                  color='inherit'
+                  size='small'
+                  startIcon={<RetryWithChangesIcon />}
+                  onClick={() => setRetryDialog({ withChanges: true })}
+                >
+                  Retry with changes
+                </Button>
+              </Stack>
+            )
+          }
+        >
+          {job.error || 'The job failed.'}
+          {retries.length > 0 && (
+            <>
+              {' '}
+              Retried as{' '}
+              {retries.map((retry, index) => (
+                <React.Fragment key={retry.id}>
+                  {index > 0 && ', '}
+                  <Link component='button' onClick={() => navigate(jobPath(retry.id))}>
+                    {retry.id.slice(0, 8)}
+                  </Link>{' '}
+                  ({retry.status})
+                </React.Fragment>
+              ))}
+              .
+            </>
+          )}
+        </Alert>
+      )}
+
+      <JobStatusCard jobId={jobId} onViewResults={id => navigate(resultsPath(id))} />
+
+      <RetryJobDialog
+        open={!!retryDialog}
+        job={job}
+        withChanges={retryDialog?.withChanges ?? false}
+        onClose={() => setRetryDialog(null)}
+        onSubmitted={newJobId => navigate(jobPath(newJobId))}
+      />
+    </Box>
+  );
+};
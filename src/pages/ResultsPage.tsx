@@ -0,0 +1,81 @@
+import React, { useEffect } from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router';
+import { Box, Typography } from '@mui/material';
+import { ResultsViewer } from '../components/results/ResultsViewer';
+import { ImportResultsButton } from '../components/results/ImportResultsButton';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { setSelectedJob } from '../store/slices/analysisSlice';
+import { selectSelectedJobId } from '../store/selectors/analysisSelectors';
+import {
+  DEFAULT_RESULTS_TAB,
+  comparePath,
+  functionPath,
+  isResultsTab,
+  resultsPath,
+} from '../constants/routes';
+import type { ResultsTab } from '../constants/routes';
+
+export const ResultsPage: React.FC = () => {
+  const { jobId, tab, functionName } = useParams<{
+    jobId: string;
+    tab: string;
+    functionName: string;
+  }>();
+  const navigate = useNavigate();
+  const dispatch = useAppDispatch();
+  const selectedJobId = useAppSelector(selectSelectedJobId);
+
+  // Keep the Redux selection in sync with the URL so other views see the same job
+  useEffect(() => {
+    if (jobId && jobId !== selectedJobId) {
+      dispatch(setSelectedJob(jobId));
+    }
+  }, [jobId, selectedJobId, dispatch]);
+
+  if (!jobId) {
+    // Fall back to the last job the user looked at
+    if (selectedJobId) {
+      return <Navigate to={resultsPath(selectedJobId)} replace />;
+    }
+
+    return (
+      <Box>
+        <Typography variant='h4' gutterBottom>
+          Results
+        </Typography>
+        <Typography variant='body1' color='text.secondary' paragraph>
+          Select a completed job from the Job Status dashboard to view its results, or import a
+          results file someone shared with you.
+        </Typography>
+        <ImportResultsButton
+          variant='contained'
+          size='medium'
+          onImported={importedJobId => navigate(resultsPath(importedJobId))}
+        />
+      </Box>
+    );
+  }
+
+  // Unknown tab slugs are corrected rather than rendering an empty viewer
+  if (tab !== undefined && !isResultsTab(tab)) {
+    return <Navigate to={resultsPath(jobId, DEFAULT_RESULTS_TAB)} replace />;
+  }
+
+  const handleTabChange = (newTab: ResultsTab) => {
+    navigate(resultsPath(jobId, newTab));
+  };
+
+  return (
+    <ResultsViewer
+      jobId={jobId}
+      activeTab={functionName ? 'functions' : (tab ?? DEFAULT_RESULTS_TAB)}
+      onTabChange={handleTabChange}
+      selectedFunction={functionName ?? null}
+      onSelectedFunctionChange={name =>
+        navigate(name ? functionPath(jobId, name) : resultsPath(jobId, 'functions'))
+      }
+      onCompare={(baseJobId, targetJobId) => navigate(comparePath(baseJobId, targetJobId))}
+      onOpenJob={openJobId => navigate(resultsPath(openJobId, 'translation'))}
+    />
+  );
+};
@@ -1,83 +1,311 @@
-import React, { useState, useCallback } from 'react';
-import { Box, Button, Typography, Alert, Snackbar, Paper } from '@mui/material';
+import React, { useState, useCallback, useMemo } from 'react';
+import { useNavigate } from 'react-router';
+import { Box, Button, Typography, Alert, Snackbar, Paper, TextField, Stack } from '@mui/material';
 import { GridLegacy as Grid } from '@mui/material';
-import { Upload as UploadIcon } from '@mui/icons-material';
+import {
+  Upload as UploadIcon,
+  Cancel as CancelIcon,
+  Savings as BudgetIcon,
+} from '@mui/icons-material';
 import { FileUploadZone } from '../components/upload/FileUploadZone';
+import { DuplicateAnalysisDialog } from '../components/upload/DuplicateAnalysisDialog';
+import type { DuplicateAnalysisMatch } from '../components/upload/DuplicateAnalysisDialog';
+import { BudgetSettingsDialog } from '../components/upload/BudgetSettingsDialog';
+import { VaultUnlockDialog } from '../components/providers/VaultUnlockDialog';
 import { JobConfigurationForm } from '../components/analysis/JobConfigurationForm';
+import type { JobFormConfig } from '../components/analysis/JobConfigurationForm';
 import { useSubmitJobMutation } from '../services/api/analysisApi';
-import { useAppDispatch } from '../store/hooks';
-import { addJob } from '../store/slices/analysisSlice';
+import { fileCacheService, fileHashService, fileUploadService } from '../services/upload';
+import { llmProviderManager } from '../services/llm';
+import { credentialVault } from '../services/vault';
+import type { UploadProgress } from '../services/upload';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { addJob, createCampaign, recordCampaignFailure } from '../store/slices/analysisSlice';
+import {
+  selectCostByProvider,
+  selectCostSince,
+  selectJobsByHash,
+  selectTotalCost,
+} from '../store/selectors/analysisSelectors';
+import { resultsPath } from '../constants/routes';
+import { logger } from '../utils/logger';
+import { budgetStorage } from '../utils/storage';
+import { checkBudget, formatCost, getMonthStart } from '../utils/analysis';
+import type { BudgetSettings, JobCostEstimate } from '../utils/analysis';
 import type { JobSubmissionRequest } from '../services/api/analysisApi';
-import type { JobStatusType, AnalysisDepthType, JobPhaseType } from '../types/analysis.types';
+import type {
+  FileHashes,
+  JobConfig,
+  JobStatusType,
+  AnalysisDepthType,
+  JobPhaseType,
+} from '../types/analysis.types';
 
 export const UploadPage: React.FC = () => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [jobConfig, setJobConfig] = useState<Partial<JobSubmissionRequest>>({});
-  const [submitJob, { isLoading: isSubmitting, error: submitError }] = useSubmitJobMutation();
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [jobConfig, setJobConfig] = useState<JobFormConfig>({});
+  const [campaignName, setCampaignName] = useState('');
+  const [uploadProgress, setUploadProgress] = useState<Record<string, UploadProgress>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [failedCount, setFailedCount] = useState(0);
+  // Digests keyed by fileUploadService.getFileKey(), computed in the background on selection
+  const [fileHashes, setFileHashes] = useState<Record<string, FileHashes>>({});
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateAnalysisMatch[]>([]);
+  const jobsByHash = useAppSelector(selectJobsByHash);
+  const [costEstimate, setCostEstimate] = useState<JobCostEstimate | null>(null);
+  const [budgetSettings, setBudgetSettings] = useState<BudgetSettings>(() => budgetStorage.get());
+  const [budgetDialogOpen, setBudgetDialogOpen] = useState(false);
+  const [vaultDialogOpen, setVaultDialogOpen] = useState(false);
+  // Set while a submission waits for the vault, which locked after the submission started
+  const [waitingForVault, setWaitingForVault] = useState(false);
+  const selectMonthSpend = useMemo(() => selectCostSince(getMonthStart()), []);
+  const monthSpend = useAppSelector(selectMonthSpend);
+  const totalSpend = useAppSelector(selectTotalCost);
+  const spendByProvider = useAppSelector(selectCostByProvider);
+  const navigate = useNavigate();
+  const [submitJob] = useSubmitJobMutation();
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const dispatch = useAppDispatch();
 
-  const handleFileSelect = (file: File) => {
-    setSelectedFile(file);
+  const handleFilesSelect = useCallback((files: File[]) => {
+    setSelectedFiles(prev => [...prev, ...files]);
+
+    files.forEach(file =>
+      fileHashService
+        .hashFile(file)
+        .then(hashes =>
+          setFileHashes(prev => ({ ...prev, [fileUploadService.getFileKey(file)]: hashes }))
+        )
+        .catch(error =>
+          logger.warn(`Could not hash ${file.name}`, { component: 'UploadPage' }, error)
+        )
+    );
+  }, []);
+
+  const handleFileRemove = (file: File) => {
+    const key = fileUploadService.getFileKey(file);
+    const remaining = selectedFiles.filter(f => f !== file);
+    setSelectedFiles(remaining);
+    // A copy of the same file may still be selected and share the entry
+    if (!remaining.some(f => fileUploadService.getFileKey(f) === key)) {
+      setFileHashes(prev => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+    }
   };
 
-  const handleFileRemove = () => {
-    setSelectedFile(null);
+  const handleClearFiles = () => {
+    setSelectedFiles([]);
+    setUploadProgress({});
+    setFileHashes({});
+    setFailedCount(0);
   };
 
-  const handleConfigChange = useCallback((config: Partial<JobSubmissionRequest>) => {
+  const handleConfigChange = useCallback((config: JobFormConfig) => {
     setJobConfig(config);
   }, []);
 
-  const handleSubmitJob = async () => {
-    if (!selectedFile) {
-      return;
-    }
+  const handleSaveBudget = (settings: BudgetSettings) => {
+    budgetStorage.set(settings);
+    setBudgetSettings(settings);
+    setBudgetDialogOpen(false);
+  };
+
+  const fileSizes = useMemo(() => selectedFiles.map(file => file.size), [selectedFiles]);
+  const budgetCheck = costEstimate ? checkBudget(costEstimate, monthSpend, budgetSettings) : null;
 
-    const request: JobSubmissionRequest = {
-      file: selectedFile,
+  // A key saved for the provider in the credential vault is used unless one was entered
+  const needsVaultUnlock = () =>
+    !jobConfig.llm_api_key &&
+    !!jobConfig.llm_provider &&
+    llmProviderManager.hasStoredCredentials(jobConfig.llm_provider) &&
+    !credentialVault.isUnlocked();
+
+  const buildRequest = (file: File): JobSubmissionRequest => {
+    const apiKey =
+      jobConfig.llm_api_key ??
+      (jobConfig.llm_provider &&
+        llmProviderManager.getProviderCredentials(jobConfig.llm_provider)?.apiKey);
+
+    return {
+      file,
       analysis_depth: jobConfig.analysis_depth || 'standard',
       translation_detail: jobConfig.translation_detail || 'standard',
       ...(jobConfig.llm_provider && { llm_provider: jobConfig.llm_provider }),
       ...(jobConfig.llm_model && { llm_model: jobConfig.llm_model }),
-      ...(jobConfig.llm_api_key && { llm_api_key: jobConfig.llm_api_key }),
+      ...(apiKey && { llm_api_key: apiKey }),
       ...(jobConfig.llm_endpoint_url && { llm_endpoint_url: jobConfig.llm_endpoint_url }),
     };
+  };
+
+  const buildJobConfig = (): JobConfig => ({
+    analysisDepth: (jobConfig.analysis_depth || 'standard') as AnalysisDepthType,
+    includeComments: false,
+    decompilerOptions: jobConfig.decompilerOptions ?? {},
+    ...(jobConfig.llm_provider && { llmProvider: jobConfig.llm_provider }),
+    ...(jobConfig.llm_model && { llmModel: jobConfig.llm_model }),
+    ...(jobConfig.llm_provider && {
+      translationDetail: jobConfig.translation_detail || 'standard',
+    }),
+  });
+
+  const handleSubmitJob = async () => {
+    if (selectedFiles.length === 0 || budgetCheck?.status === 'block') {
+      return;
+    }
+
+    if (needsVaultUnlock()) {
+      setVaultDialogOpen(true);
+      return;
+    }
+
+    // Warn before re-analyzing binaries whose contents match an earlier job
+    const hashes = await Promise.all(
+      selectedFiles.map(file => fileHashService.hashFile(file).catch(() => undefined))
+    );
+    const matches = selectedFiles.flatMap((file, index) => {
+      const previousJob = jobsByHash.get(hashes[index]?.sha256 ?? '')?.[0];
+      return previousJob ? [{ file, previousJob }] : [];
+    });
+
+    if (matches.length > 0) {
+      setDuplicateMatches(matches);
+      return;
+    }
+
+    await submitFiles(selectedFiles);
+  };
+
+  const handleSkipDuplicates = async () => {
+    const duplicates = new Set(duplicateMatches.map(match => match.file));
+    setDuplicateMatches([]);
+    setSelectedFiles(prev => prev.filter(file => !duplicates.has(file)));
+    await submitFiles(selectedFiles.filter(file => !duplicates.has(file)));
+  };
+
+  const handleAnalyzeAnyway = async () => {
+    setDuplicateMatches([]);
+    await submitFiles(selectedFiles);
+  };
+
+  const submitFiles = async (files: File[]) => {
+    if (files.length === 0) {
+      return;
+    }
 
-    try {
-      const result = await submitJob(request).unwrap();
+    const isCampaign = files.length > 1;
+    const campaignId = isCampaign
+      ? `campaign_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+      : undefined;
 
-      // Add job to Redux store for tracking
+    if (campaignId) {
       dispatch(
-        addJob({
-          id: result.job_id,
-          fileName: selectedFile.name,
-          fileSize: selectedFile.size,
-          fileType: selectedFile.type || 'application/octet-stream',
-          status: result.status as JobStatusType,
-          progress: 0,
-          phase: 'queued' as JobPhaseType,
-          submittedAt: new Date().toISOString(),
-          config: {
-            analysisDepth: request.analysis_depth as AnalysisDepthType,
-            includeComments: false,
-            decompilerOptions: {},
-            ...(request.llm_provider && { llmProvider: request.llm_provider }),
-            ...(request.llm_api_key && { llmApiKey: request.llm_api_key }),
-          },
+        createCampaign({
+          id: campaignId,
+          name: campaignName.trim() || `Campaign ${new Date().toLocaleString()}`,
+          createdAt: new Date().toISOString(),
+          config: buildJobConfig(),
+          totalFiles: files.length,
+          jobIds: [],
+          failedFiles: [],
         })
       );
+    }
+
+    setIsSubmitting(true);
+    setFailedCount(0);
+    setUploadProgress({});
+
+    const results = await fileUploadService.processUploadQueue(
+      files,
+      async (file, signal) => {
+        // The vault can auto-lock during a long campaign; hold the remaining files rather than
+        // submitting them without the stored API key
+        if (needsVaultUnlock()) {
+          setWaitingForVault(true);
+          setVaultDialogOpen(true);
+          try {
+            await credentialVault.waitUntilUnlocked(signal);
+          } finally {
+            setWaitingForVault(false);
+          }
+        }
+
+        const request = buildRequest(file);
+        const submission = submitJob(request);
+        signal.addEventListener('abort', () => submission.abort());
+        const result = await submission.unwrap();
+        const hashes = await fileHashService.hashFile(file).catch(() => undefined);
+        const estimatedCost = costEstimate?.jobs[selectedFiles.indexOf(file)]?.cost;
+
+        // Add job to Redux store for tracking
+        dispatch(
+          addJob({
+            id: result.job_id,
+            fileName: file.name,
+            fileSize: file.size,
+            fileType: file.type || 'application/octet-stream',
+            status: result.status as JobStatusType,
+            progress: 0,
+            phase: 'queued' as JobPhaseType,
+            submittedAt: new Date().toISOString(),
+            config: buildJobConfig(),
+            ...(campaignId && { campaignId }),
+            ...(hashes && { hashes }),
+            ...(estimatedCost !== undefined && { estimatedCost }),
+          })
+        );
+
+        // Kept for a while so the job can be resubmitted if it fails
+        void fileCacheService.put(result.job_id, file);
+
+        return result;
+      },
+      (progress, file) =>
+        setUploadProgress(prev => ({ ...prev, [fileUploadService.getFileKey(file)]: progress }))
+    );
+
+    const succeeded = results.filter(result => result.status === 'completed');
+    const failed = results.filter(result => result.status === 'error');
 
-      setSuccessMessage(`Job submitted successfully! Job ID: ${result.job_id.slice(0, 8)}...`);
+    if (campaignId) {
+      failed.forEach(({ file, error }) =>
+        dispatch(
+          recordCampaignFailure({
+            campaignId,
+            fileName: file.name,
+            error: error || 'Submission failed',
+          })
+        )
+      );
+    }
+
+    setIsSubmitting(false);
+    setFailedCount(failed.length);
+
+    if (succeeded.length > 0) {
+      const [first] = succeeded;
+      setSuccessMessage(
+        succeeded.length === 1 && first?.result
+          ? `Job submitted successfully! Job ID: ${first.result.job_id.slice(0, 8)}...`
+          : `${succeeded.length} of ${files.length} jobs submitted successfully!`
+      );
+    }
 
-      // Clear form
-      setSelectedFile(null);
-      setJobConfig({});
-    } catch (error) {
-      console.error('Failed to submit job:', error);
+    // Keep failed and cancelled files selected so they can be resubmitted
+    const submittedFiles = new Set(succeeded.map(result => result.file));
+    setSelectedFiles(prev => prev.filter(file => !submittedFiles.has(file)));
+    if (failed.length === 0) {
+      setCampaignName('');
     }
   };
 
+  const handleCancelSubmission = () => {
+    fileUploadService.cancelAllUploads();
+  };
+
   const isConfigValid = () => {
     // For user providers, API key is pre-configured, so just check if provider is selected
     if (jobConfig.llm_provider) {
@@ -87,7 +315,9 @@ export const UploadPage: React.FC = () => {
     return true;
   };
 
-  const canSubmit = selectedFile && isConfigValid() && !isSubmitting;
+  const canSubmit =
+    selectedFiles.length > 0 && isConfigValid() && !isSubmitting && budgetCheck?.status !== 'block';
+  const totalSize = selectedFiles.reduce((sum, file) => sum + file.size, 0);
 
   return (
     <Box>
@@ -96,8 +326,9 @@ export const UploadPage: React.FC = () => {
       </Typography>
 
       <Typography variant='body1' color='text.secondary' paragraph>
-        Upload your binary file and configure the analysis parameters. The system will decompile
-        your binary and optionally translate it to natural language using AI.
+        Upload one or more binary files and configure the analysis parameters. The system will
+        decompile your binaries and optionally translate them to natural language using AI. Several
+        files submitted together are grouped into a campaign.
       </Typography>
 
       <Grid container spacing={3}>
@@ -105,12 +336,15 @@ export const UploadPage: React.FC = () => {
         <Grid xs={12} md={6}>
           <Paper elevation={1} sx={{ p: 2, height: 'fit-content' }}>
             <Typography variant='h6' gutterBottom>
-              1. Select Binary File
+              1. Select Binary Files
             </Typography>
             <FileUploadZone
-              onFileSelect={handleFileSelect}
+              onFilesSelect={handleFilesSelect}
               onFileRemove={handleFileRemove}
-              selectedFile={selectedFile}
+              onClearFiles={handleClearFiles}
+              selectedFiles={selectedFiles}
+              uploadProgress={uploadProgress}
+              fileHashes={fileHashes}
               disabled={isSubmitting}
             />
           </Paper>
@@ -121,7 +355,12 @@ export const UploadPage: React.FC = () => {
           <Typography variant='h6' gutterBottom>
             2. Configure Analysis
           </Typography>
-          <JobConfigurationForm onConfigChange={handleConfigChange} disabled={isSubmitting} />
+          <JobConfigurationForm
+            onConfigChange={handleConfigChange}
+            disabled={isSubmitting}
+            fileSizes={fileSizes}
+            onEstimateChange={setCostEstimate}
+          />
         </Grid>
 
         {/* Submit Button */}
@@ -137,30 +376,90 @@ export const UploadPage: React.FC = () => {
               </Alert>
             )}
 
-            {submitError && (
+            {budgetCheck && budgetCheck.status !== 'ok' && (
+              <Alert severity={budgetCheck.status === 'block' ? 'error' : 'warning'} sx={{ mb: 2 }}>
+                {budgetCheck.messages.join(' ')}
+                {budgetCheck.status === 'block' && ' Raise the cap or change the configuration.'}
+              </Alert>
+            )}
+
+            {waitingForVault && (
+              <Alert
+                severity='error'
+                sx={{ mb: 2 }}
+                action={
+                  <Button color='inherit' size='small' onClick={() => setVaultDialogOpen(true)}>
+                    Unlock
+                  </Button>
+                }
+              >
+                The credential vault locked, so submission is paused. Unlock it to submit the
+                remaining files with the stored API key, or cancel them.
+              </Alert>
+            )}
+
+            {failedCount > 0 && (
               <Alert severity='error' sx={{ mb: 2 }}>
-                Failed to submit job:{' '}
-                {(submitError as { data?: { message?: string } })?.data?.message || 'Unknown error'}
+                Failed to submit {failedCount} file{failedCount === 1 ? '' : 's'}. They remain
+                selected above with their error so you can retry.
               </Alert>
             )}
 
-            <Button
-              variant='contained'
-              size='large'
-              onClick={handleSubmitJob}
-              disabled={!canSubmit}
-              loading={isSubmitting}
-              startIcon={<UploadIcon />}
-              sx={{ minWidth: 200 }}
-            >
-              {isSubmitting ? 'Submitting...' : 'Start Analysis'}
-            </Button>
-
-            {selectedFile && (
+            {selectedFiles.length > 1 && (
+              <TextField
+                label='Campaign Name'
+                value={campaignName}
+                onChange={e => setCampaignName(e.target.value)}
+                placeholder={`Campaign ${new Date().toLocaleDateString()}`}
+                helperText='All selected files share the configuration above'
+                size='small'
+                disabled={isSubmitting}
+                sx={{ mb: 2, minWidth: 320 }}
+              />
+            )}
+
+            <Stack direction='row' spacing={2} justifyContent='center'>
+              <Button
+                variant='contained'
+                size='large'
+                onClick={handleSubmitJob}
+                disabled={!canSubmit}
+                loading={isSubmitting}
+                startIcon={<UploadIcon />}
+                sx={{ minWidth: 200 }}
+              >
+                {isSubmitting
+                  ? 'Submitting...'
+                  : selectedFiles.length > 1
+                    ? `Start Analysis (${selectedFiles.length} files)`
+                    : 'Start Analysis'}
+              </Button>
+              {isSubmitting && (
+                <Button
+                  variant='outlined'
+                  color='error'
+                  size='large'
+                  onClick={handleCancelSubmission}
+                  startIcon={<CancelIcon />}
+                >
+                  Cancel Remaining
+                </Button>
+              )}
+              <Button
+                variant='text'
+                onClick={() => setBudgetDialogOpen(true)}
+                startIcon={<BudgetIcon />}
+              >
+                Budget
+              </Button>
+            </Stack>
+
+            {selectedFiles.length > 0 && (
               <Box sx={{ mt: 2 }}>
                 <Typography variant='body2' color='text.secondary'>
-                  <strong>File:</strong> {selectedFile.name} (
-                  {(selectedFile.size / 1024 / 1024).toFixed(2)} MB)
+                  <strong>Files:</strong>{' '}
+                  {selectedFiles.length === 1 ? selectedFiles[0]?.name : selectedFiles.length} (
+                  {(totalSize / 1024 / 1024).toFixed(2)} MB)
                   <br />
                   <strong>Analysis:</strong> {jobConfig.analysis_depth || 'standard'} depth
                   {jobConfig.llm_provider && (
@@ -170,6 +469,16 @@ export const UploadPage: React.FC = () => {
                       {jobConfig.translation_detail || 'standard'} detail)
                     </>
                   )}
+                  {costEstimate && (
+                    <>
+                      <br />
+                      <strong>Estimated cost:</strong> {formatCost(costEstimate.totalCost)} (
+                      {formatCost(monthSpend)} spent this month
+                      {budgetSettings.monthlyLimit !== undefined &&
+                        ` of ${formatCost(budgetSettings.monthlyLimit)}`}
+                      )
+                    </>
+                  )}
                 </Typography>
               </Box>
             )}
@@ -177,6 +486,37 @@ export const UploadPage: React.FC = () => {
         </Grid>
       </Grid>
 
+      <BudgetSettingsDialog
+        open={budgetDialogOpen}
+        settings={budgetSettings}
+        monthSpend={monthSpend}
+        totalSpend={totalSpend}
+        spendByProvider={spendByProvider}
+        onSave={handleSaveBudget}
+        onClose={() => setBudgetDialogOpen(false)}
+      />
+
+      <VaultUnlockDialog
+        open={vaultDialogOpen}
+        reason='The API key for this provider is stored in the credential vault.'
+        onUnlocked={() => {
+          setVaultDialogOpen(false);
+          // A paused submission picks up by itself once the vault is unlocked
+          if (!isSubmitting) void handleSubmitJob();
+        }}
+        onClose={() => setVaultDialogOpen(false)}
+      />
+
+      <DuplicateAnalysisDialog
+        open={duplicateMatches.length > 0}
+        matches={duplicateMatches}
+        totalFiles={selectedFiles.length}
+        onOpenPrevious={jobId => navigate(resultsPath(jobId))}
+        onSkipDuplicates={handleSkipDuplicates}
+        onAnalyzeAnyway={handleAnalyzeAnyway}
+        onClose={() => setDuplicateMatches([])}
+      />
+
       {/* Success notification */}
       <Snackbar
         open={!!successMessage}
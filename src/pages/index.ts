@@ -1,2 +1,8 @@
 // Route components
 // Examples: HomePage, AnalysisPage, ResultsPage, HistoryPage
+export { HomePage } from './HomePage';
+export { UploadPage } from './UploadPage';
+export { JobDetailsPage } from './JobDetailsPage';
+export { ResultsPage } from './ResultsPage';
+export { ComparePage } from './ComparePage';
+export { AnalyticsPage } from './AnalyticsPage';
@@ -2,6 +2,8 @@ import { createApi, fetchBaseQuery, retry } from '@reduxjs/toolkit/query/react';
 import type { BaseQueryFn, FetchArgs, FetchBaseQueryError } from '@reduxjs/toolkit/query/react';
 import { config } from '../../utils/config';
 import { logger } from '../../utils/logger';
+import { resultsStore } from '../history/resultsStore';
+import { credentialVault } from '../vault';
 
 // Types for API requests and responses
 export interface JobSubmissionRequest {
@@ -14,6 +16,15 @@ export interface JobSubmissionRequest {
   translation_detail?: 'basic' | 'standard' | 'detailed';
 }
 
+// Translate an existing decompilation again without re-uploading the binary
+export interface RetranslationRequest {
+  parent_job_id: string;
+  decompilation_id: string;
+  llm_provider: string;
+  llm_model?: string;
+  translation_detail?: 'basic' | 'standard' | 'detailed';
+}
+
 export interface JobSubmissionResponse {
   success: boolean;
   job_id: string;
@@ -47,6 +58,27 @@ export interface JobStatusResponse {
     string_count: number;
     duration_seconds: number;
     decompilation_id: string;
+    // Full pseudo-C listing, when the backend includes it
+    decompiled_code?: string;
+    // Per-function decompiler output, when the backend includes it
+    functions?: Array<{
+      name: string;
+      address: string;
+      size: number;
+      complexity?: number;
+      function_type?: string;
+      calls_to?: string[];
+      assembly_code?: string;
+      decompiled_code?: string;
+    }>;
+    // Raw extraction lists, when the backend includes them
+    imports?: string[];
+    strings?: string[];
+    sections?: Array<{
+      name: string;
+      size: number;
+      entropy?: number;
+    }>;
     llm_translations?: {
       provider: string;
       translation_time: string;
@@ -216,6 +248,24 @@ const baseQueryWithRetry = retry(baseQueryWithLogging, {
   },
 });
 
+/**
+ * Normalize a job status payload and add derived fields for the UI.
+ * Shared by the REST endpoint and the streaming job update transports.
+ */
+export const normalizeJobStatus = (response: JobStatusResponse): JobStatusResponse => ({
+  ...response,
+  // Ensure progress is always a number between 0-100
+  progress_percentage: Math.min(100, Math.max(0, response.progress_percentage || 0)),
+  // Add derived fields for UI
+  ...(['queued', 'processing'].includes(response.status) && { isActive: true }),
+  ...(['completed', 'failed', 'cancelled'].includes(response.status) && {
+    isCompleted: true,
+  }),
+  ...(response.results?.duration_seconds && {
+    duration: response.results.duration_seconds * 1000,
+  }),
+});
+
 // RTK Query API definition
 export const analysisApi = createApi({
   reducerPath: 'analysisApi',
@@ -242,6 +292,11 @@ export const analysisApi = createApi({
           );
         }
 
+        // API keys are only released by an unlocked credential vault
+        if (llm_api_key && !credentialVault.isUnlocked()) {
+          throw new Error('Unlock the credential vault before submitting with an API key');
+        }
+
         const formData = new FormData();
         formData.append('file', file);
         formData.append('analysis_depth', analysis_depth);
@@ -286,26 +341,51 @@ export const analysisApi = createApi({
       },
     }),
 
+    // Start a translation-only child job that reuses a completed job's decompilation
+    retranslateJob: builder.mutation<JobSubmissionResponse, RetranslationRequest>({
+      query: ({ parent_job_id, translation_detail = 'standard', ...body }) => ({
+        url: `/decompile/${parent_job_id}/translate`,
+        method: 'POST',
+        body: { ...body, translation_detail },
+      }),
+      invalidatesTags: (_result, _error, { parent_job_id }) => [{ type: 'Job', id: parent_job_id }],
+      transformErrorResponse: response => {
+        if (typeof response.data === 'object' && response.data !== null) {
+          const error = response.data as ApiError;
+          return {
+            message: error.message || 'Re-translation failed',
+            code: error.code || 'RETRANSLATION_ERROR',
+            details: error.details || {},
+          };
+        }
+        return {
+          message: 'Re-translation failed',
+          code: 'NETWORK_ERROR',
+        };
+      },
+    }),
+
     // Get job status and results (optimized for polling)
     getJobStatus: builder.query<JobStatusResponse, string>({
-      query: jobId => `/decompile/${jobId}`,
+      // Completed and imported jobs are answered from the results store, so full results are
+      // only loaded when a job is opened and stay available after the backend discards them
+      queryFn: async (jobId, _api, _extraOptions, baseQuery) => {
+        const stored = await resultsStore.get(jobId).catch(error => {
+          logger.warn('Could not read stored results', { component: 'AnalysisAPI' }, error);
+          return undefined;
+        });
+        if (stored) return { data: stored };
+
+        const response = await baseQuery(`/decompile/${jobId}`);
+        if (response.error) return { error: response.error };
+        // Transform response to ensure consistency
+        const status = normalizeJobStatus(response.data as JobStatusResponse);
+        resultsStore.saveCompleted(status);
+        return { data: status };
+      },
       providesTags: (_result, _error, jobId) => [{ type: 'Job', id: jobId }],
       // Cache for 30 seconds by default (adjust based on job status in component)
       keepUnusedDataFor: 30,
-      // Transform response to ensure consistency
-      transformResponse: (response: JobStatusResponse): JobStatusResponse => ({
-        ...response,
-        // Ensure progress is always a number between 0-100
-        progress_percentage: Math.min(100, Math.max(0, response.progress_percentage || 0)),
-        // Add derived fields for UI
-        ...(['queued', 'processing'].includes(response.status) && { isActive: true }),
-        ...(['completed', 'failed', 'cancelled'].includes(response.status) && {
-          isCompleted: true,
-        }),
-        ...(response.results?.duration_seconds && {
-          duration: response.results.duration_seconds * 1000,
-        }),
-      }),
     }),
 
     // Cancel a job
@@ -456,6 +536,7 @@ export const analysisApi = createApi({
 // Export hooks for usage in components
 export const {
   useSubmitJobMutation,
+  useRetranslateJobMutation,
   useGetJobStatusQuery,
   useLazyGetJobStatusQuery,
   useCancelJobMutation,
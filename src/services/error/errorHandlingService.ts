@@ -58,6 +58,13 @@ export interface ErrorReport {
   }>;
 }
 
+// Status codes only count when labelled as one, so a 502 in an address or a count does not match
+const TRANSIENT_FAILURE_PATTERN =
+  /timed? ?out|temporarily unavailable|service unavailable|overloaded|rate limit|too many requests|connection reset|bad gateway|gateway time-?out|\b(?:HTTP(?:\/[\d.]+)?|status(?: code)?:?)\s*50[234]\b/i;
+
+// Failures that the user can usually fix in their LLM provider settings
+const PROVIDER_FAILURE_PATTERN = /\bprovider\b|\bapi[ _-]?key\b|\bllm\b/i;
+
 class ErrorHandlingService {
   private errorLog: ErrorReport[] = [];
   private breadcrumbs: ErrorReport['breadcrumbs'] = [];
@@ -122,6 +129,10 @@ class ErrorHandlingService {
         error.message.includes('authentication')
       ) {
         type = 'authentication';
+      } else if (TRANSIENT_FAILURE_PATTERN.test(error.message)) {
+        // Failures reported by the backend as text, e.g. a job's error, that may pass on retry
+        type = 'server';
+        canRetry = true;
       } else {
         type = 'client';
       }
@@ -141,7 +152,9 @@ class ErrorHandlingService {
     const severity = this.getSeverity(type, statusCode);
 
     // Generate suggested actions
-    const actions = this.getSuggestedActions(type, canRetry);
+    const providerRelated =
+      PROVIDER_FAILURE_PATTERN.test(technicalMessage) || /provider/i.test(fullContext.action ?? '');
+    const actions = this.getSuggestedActions(type, canRetry, providerRelated);
 
     const processedError: ProcessedError = {
       id: errorId,
@@ -226,7 +239,8 @@ class ErrorHandlingService {
    */
   private getSuggestedActions(
     type: ProcessedError['type'],
-    canRetry: boolean
+    canRetry: boolean,
+    providerRelated = false
   ): ProcessedError['actions'] {
     const actions: ProcessedError['actions'] = [];
 
@@ -270,6 +284,14 @@ class ErrorHandlingService {
         break;
     }
 
+    if (providerRelated) {
+      actions.push({
+        label: 'Open Provider Settings',
+        action: 'open-provider-settings',
+        primary: !canRetry,
+      });
+    }
+
     if (actions.length === 0) {
       actions.push({
         label: 'Dismiss',
@@ -0,0 +1,195 @@
+/**
+ * History Retention Service
+ * Applies the retention policy to the job history and stored results, and keeps an eye on how
+ * much of the browser's storage quota they use
+ */
+
+import { persistor, store } from '../../store';
+import { pruneJobHistory } from '../../store/slices/analysisSlice';
+import { onPersistQuotaExceeded } from './persistStorage';
+import { resultsStore } from './resultsStore';
+import { STORAGE_QUOTA_WARNING_RATIO, getJobsToPrune } from '../../utils/analysis';
+import type { HistoryRetentionSettings } from '../../utils/analysis';
+import { logger } from '../../utils/logger';
+import { historyRetentionStorage } from '../../utils/storage';
+
+export interface HistoryStorageState {
+  // Browser-wide usage and quota for this origin, when the browser reports them
+  usage?: number;
+  quota?: number;
+  nearQuota: boolean;
+  // Whether the browser has agreed not to evict this origin's storage under pressure
+  persisted: boolean;
+  resultsCount: number;
+  resultsBytes: number;
+  lastPrunedAt?: string;
+  lastPrunedCount: number;
+}
+
+// Changes to history and results are batched before the policy is applied again
+const RETENTION_DELAY_MS = 2000;
+
+class HistoryRetentionService {
+  private state: HistoryStorageState = {
+    nearQuota: false,
+    persisted: false,
+    resultsCount: 0,
+    resultsBytes: 0,
+    lastPrunedCount: 0,
+  };
+  private listeners = new Set<() => void>();
+  private jobHistory = store.getState().analysis.jobHistory;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    if (typeof window === 'undefined') return;
+
+    onPersistQuotaExceeded(this.handleQuotaExceeded);
+
+    // Pruning before the saved history is loaded would treat every stored result as orphaned
+    const startWhenRehydrated = () => {
+      if (!persistor.getState().bootstrapped) return;
+      unsubscribe();
+      this.jobHistory = store.getState().analysis.jobHistory;
+      store.subscribe(this.handleStoreChange);
+      resultsStore.onChange(this.scheduleRetention);
+      void this.applyRetention();
+    };
+    const unsubscribe = persistor.subscribe(startWhenRehydrated);
+    startWhenRehydrated();
+  }
+
+  public getState = (): HistoryStorageState => this.state;
+
+  public onStateChange = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Save new retention settings and apply them straight away
+   */
+  public async updateSettings(settings: HistoryRetentionSettings): Promise<number> {
+    historyRetentionStorage.set(settings);
+    return this.applyRetention();
+  }
+
+  /**
+   * Remove the jobs the retention policy no longer keeps, along with their results and any
+   * results that belong to no job. Resolves with the number of jobs removed.
+   */
+  public async applyRetention(): Promise<number> {
+    this.clearTimer();
+    try {
+      const { activeJobs, jobHistory } = store.getState().analysis;
+      const sizes = await resultsStore.getSizes();
+      const prunedIds = getJobsToPrune(jobHistory, sizes, historyRetentionStorage.get());
+
+      const kept = new Set([...jobHistory.map(job => job.id), ...Object.keys(activeJobs)]);
+      prunedIds.forEach(id => kept.delete(id));
+      const unusedResults = Object.keys(sizes).filter(id => !kept.has(id));
+
+      if (prunedIds.length > 0) {
+        store.dispatch(pruneJobHistory(prunedIds));
+        logger.info(`Removed ${prunedIds.length} jobs from history under the retention policy`, {
+          component: 'HistoryRetention',
+        });
+      }
+      await resultsStore.remove(unusedResults);
+
+      this.setState({
+        lastPrunedAt: new Date().toISOString(),
+        lastPrunedCount: prunedIds.length,
+      });
+      await this.refresh();
+      return prunedIds.length;
+    } catch (error) {
+      const context = { component: 'HistoryRetention' };
+      logger.warn('Could not apply the history retention policy', context, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Re-read the storage estimate and the size of the stored results
+   */
+  public async refresh(): Promise<void> {
+    try {
+      const sizes = await resultsStore.getSizes();
+      const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+      const persisted = (await navigator.storage?.persisted?.().catch(() => false)) ?? false;
+      const usage = estimate?.usage;
+      const quota = estimate?.quota;
+
+      const nearQuota =
+        usage !== undefined && !!quota && usage / quota >= STORAGE_QUOTA_WARNING_RATIO;
+      if (nearQuota && !this.state.nearQuota) {
+        logger.warn('Browser storage is almost full; new results may fail to save', {
+          component: 'HistoryRetention',
+        });
+      }
+
+      const sizeList = Object.values(sizes);
+      this.setState({
+        ...(usage !== undefined && { usage }),
+        ...(quota !== undefined && { quota }),
+        nearQuota,
+        persisted,
+        resultsCount: sizeList.length,
+        resultsBytes: sizeList.reduce((total, size) => total + size, 0),
+      });
+    } catch (error) {
+      logger.warn('Could not read storage usage', { component: 'HistoryRetention' }, error);
+    }
+  }
+
+  /**
+   * Ask the browser not to evict stored history when space runs low. Resolves with whether it
+   * agreed; browsers may decide without asking the user.
+   */
+  public async requestPersistence(): Promise<boolean> {
+    const persisted = (await navigator.storage?.persist?.().catch(() => false)) ?? false;
+    this.setState({ persisted });
+    return persisted;
+  }
+
+  private handleQuotaExceeded = (error: unknown): void => {
+    if (!this.state.nearQuota) {
+      const context = { component: 'HistoryRetention' };
+      logger.warn('Browser storage is full; the job history could not be saved', context, error);
+    }
+    this.setState({ nearQuota: true });
+  };
+
+  private handleStoreChange = (): void => {
+    const { jobHistory } = store.getState().analysis;
+    if (jobHistory === this.jobHistory) return;
+    this.jobHistory = jobHistory;
+    this.scheduleRetention();
+  };
+
+  private scheduleRetention = (): void => {
+    this.clearTimer();
+    this.timer = setTimeout(() => void this.applyRetention(), RETENTION_DELAY_MS);
+  };
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private setState(updates: Partial<HistoryStorageState>): void {
+    this.state = { ...this.state, ...updates };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Export singleton instance
+export const historyRetentionService = new HistoryRetentionService();
+
+// Export types for external use
+export type { HistoryRetentionService };
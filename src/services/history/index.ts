@@ -0,0 +1,5 @@
+export { historyRetentionService } from './historyRetentionService';
+export type { HistoryRetentionService, HistoryStorageState } from './historyRetentionService';
+export { indexedDbPersistStorage } from './persistStorage';
+export { resultsStore } from './resultsStore';
+export type { ResultsStore } from './resultsStore';
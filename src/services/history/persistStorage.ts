@@ -0,0 +1,112 @@
+/**
+ * IndexedDB Persist Storage
+ * A redux-persist storage engine that keeps persisted state in IndexedDB, which has room for
+ * far more job history than localStorage. State written by earlier versions to localStorage is
+ * read once and moved over.
+ */
+
+import type { WebStorage } from 'redux-persist';
+import { openDatabase, requestToPromise, transactionDone } from '../../utils/indexedDb';
+import { logger } from '../../utils/logger';
+
+const DB_NAME = 'bin2nlp-state';
+const DB_VERSION = 1;
+const STORE_NAME = 'keyval';
+
+let db: Promise<IDBDatabase> | null = null;
+const quotaListeners = new Set<(error: unknown) => void>();
+
+const isQuotaExceeded = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'QuotaExceededError';
+
+/**
+ * Be told when persisted state could not be saved because browser storage is full
+ */
+export const onPersistQuotaExceeded = (listener: (error: unknown) => void): (() => void) => {
+  quotaListeners.add(listener);
+  return () => {
+    quotaListeners.delete(listener);
+  };
+};
+
+const reportQuotaExceeded = (error: unknown): void => {
+  quotaListeners.forEach(listener => listener(error));
+};
+
+const open = (): Promise<IDBDatabase> => {
+  db ??= openDatabase(DB_NAME, DB_VERSION, database => {
+    database.createObjectStore(STORE_NAME);
+  }).catch(error => {
+    // Allow a later call to try again
+    db = null;
+    throw error;
+  });
+  return db;
+};
+
+const readLegacyItem = (key: string): string | null => {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const removeLegacyItem = (key: string): void => {
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.removeItem(key);
+  } catch {
+    // Nothing to clean up
+  }
+};
+
+export const indexedDbPersistStorage: WebStorage = {
+  async getItem(key) {
+    try {
+      const store = (await open()).transaction(STORE_NAME).objectStore(STORE_NAME);
+      const value = await requestToPromise<string | undefined>(store.get(key));
+      return value ?? readLegacyItem(key);
+    } catch (error) {
+      logger.warn(
+        'IndexedDB is unavailable, reading saved state from localStorage',
+        { component: 'PersistStorage' },
+        error
+      );
+      return readLegacyItem(key);
+    }
+  },
+
+  async setItem(key, value) {
+    let database: IDBDatabase;
+    try {
+      database = await open();
+    } catch {
+      // Keep persisting where state used to live; large histories may exceed its quota
+      try {
+        localStorage.setItem(key, value);
+      } catch (error) {
+        if (!isQuotaExceeded(error)) throw error;
+        reportQuotaExceeded(error);
+      }
+      return;
+    }
+
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(value, key);
+    try {
+      await transactionDone(transaction);
+    } catch (error) {
+      if (isQuotaExceeded(error)) reportQuotaExceeded(error);
+      throw error;
+    }
+    // The copy in IndexedDB is now the current one
+    removeLegacyItem(key);
+  },
+
+  async removeItem(key) {
+    const transaction = (await open()).transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(key);
+    await transactionDone(transaction);
+    removeLegacyItem(key);
+  },
+};
@@ -0,0 +1,138 @@
+/**
+ * Results Store
+ * Keeps the full results of completed and imported jobs in IndexedDB. Only job metadata stays in
+ * the Redux store; results are read from here when a job is opened.
+ */
+
+import type { JobStatusResponse } from '../api/analysisApi';
+import { openDatabase, requestToPromise, transactionDone } from '../../utils/indexedDb';
+import { logger } from '../../utils/logger';
+
+interface StoredResults {
+  jobId: string;
+  status: JobStatusResponse;
+  // Approximate size of the serialized results in bytes
+  size: number;
+  storedAt: number;
+}
+
+const DB_NAME = 'bin2nlp-results';
+const DB_VERSION = 1;
+const STORE_NAME = 'results';
+
+class ResultsStore {
+  private db: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Listen for results being added or removed
+   */
+  public onChange = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * The stored results of a job, or undefined when none are kept for it
+   */
+  public async get(jobId: string): Promise<JobStatusResponse | undefined> {
+    const store = (await this.open()).transaction(STORE_NAME).objectStore(STORE_NAME);
+    const entry = await requestToPromise<StoredResults | undefined>(store.get(jobId));
+    return entry?.status;
+  }
+
+  /**
+   * Keep the full results of a job, replacing any stored earlier. Rejects when the browser is
+   * out of storage.
+   */
+  public async put(jobId: string, status: JobStatusResponse): Promise<void> {
+    const entry: StoredResults = {
+      jobId,
+      status,
+      size: JSON.stringify(status).length,
+      storedAt: Date.now(),
+    };
+
+    const transaction = (await this.open()).transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(entry);
+    await transactionDone(transaction);
+    this.notify();
+  }
+
+  /**
+   * Keep the results of a status if it is a completed one carrying them. Every way a status can
+   * arrive (polling, a stream, a fetch) goes through here, and failures are only logged.
+   */
+  public saveCompleted(status: JobStatusResponse): void {
+    if (status.status !== 'completed' || !status.results) return;
+    this.put(status.job_id, status).catch(error =>
+      logger.warn(
+        `Could not store the results of job ${status.job_id}`,
+        { component: 'ResultsStore' },
+        error
+      )
+    );
+  }
+
+  public async remove(jobIds: string[]): Promise<void> {
+    if (jobIds.length === 0) return;
+    const transaction = (await this.open()).transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    jobIds.forEach(jobId => store.delete(jobId));
+    await transactionDone(transaction);
+    this.notify();
+  }
+
+  /**
+   * Size in bytes of the stored results by job id, read without loading the results themselves
+   */
+  public async getSizes(): Promise<Record<string, number>> {
+    const index = (await this.open()).transaction(STORE_NAME).objectStore(STORE_NAME).index('size');
+
+    return new Promise((resolve, reject) => {
+      const sizes: Record<string, number> = {};
+      const request = index.openKeyCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(sizes);
+          return;
+        }
+        sizes[String(cursor.primaryKey)] = Number(cursor.key);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error ?? new Error('Could not read stored results'));
+    });
+  }
+
+  public async clear(): Promise<void> {
+    const transaction = (await this.open()).transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    await transactionDone(transaction);
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= openDatabase(DB_NAME, DB_VERSION, db => {
+      const store = db.createObjectStore(STORE_NAME, { keyPath: 'jobId' });
+      store.createIndex('size', 'size');
+    }).catch(error => {
+      // Allow a later call to try again
+      this.db = null;
+      throw error;
+    });
+    return this.db;
+  }
+}
+
+// Export singleton instance
+export const resultsStore = new ResultsStore();
+
+// Export types for external use
+export type { ResultsStore };
@@ -1,6 +1,12 @@
 // Service layer exports
 export * from './api/analysisApi';
 export * from './polling';
+export * from './realtime';
 export * from './llm';
+export * from './vault';
+export * from './retry';
+export * from './history';
+export * from './notifications';
 export * from './upload';
+export * from './visualization';
 export * from './error';
@@ -1,10 +1,15 @@
 /**
  * LLM Provider Management Service
- * Handles provider discovery, API key management, and health checking
+ * Handles provider discovery, API key management, and health checking.
+ * API keys are kept in the credential vault, which lists the providers that have one even while
+ * locked; session storage only remembers the model chosen with each key.
  */
 
 import { analysisApi, type LLMProvider } from '../api/analysisApi';
+import { credentialVault } from '../vault';
 import { store } from '../../store';
+import { estimateTokens, getPricePer1kTokens } from '../../utils/analysis';
+import { llmProviderStorage } from '../../utils/storage';
 
 export interface ProviderCredentials {
   providerId: string;
@@ -13,6 +18,9 @@ export interface ProviderCredentials {
   expiresAt?: number;
 }
 
+// What is remembered about a provider's credentials outside the vault
+type StoredCredentialInfo = Omit<ProviderCredentials, 'apiKey'>;
+
 export interface ProviderHealthStatus {
   providerId: string;
   status: 'healthy' | 'error' | 'testing' | 'unknown';
@@ -30,15 +38,28 @@ export interface CostEstimate {
 }
 
 class LLMProviderManager {
-  private credentials = new Map<string, ProviderCredentials>();
+  private credentials = new Map<string, StoredCredentialInfo>();
+  // Plain-text keys left in session storage by earlier versions, kept there until the vault
+  // takes them on unlock
+  private legacyApiKeys = new Map<string, string>();
   private healthStatus = new Map<string, ProviderHealthStatus>();
   private providerCache: { data: LLMProvider[]; timestamp: number } | null = null;
   private readonly SESSION_STORAGE_KEY = 'llm-credentials';
+  private readonly SECRET_PREFIX = 'llm:';
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
   constructor() {
     this.loadCredentialsFromSession();
     this.setupSessionCleanup();
+    credentialVault.onStateChange(() => {
+      if (credentialVault.isUnlocked()) {
+        void this.syncVaultSecrets();
+      } else if (credentialVault.getState().status === 'uninitialized' && this.credentials.size) {
+        // The vault was reset, taking every stored key with it
+        this.credentials.clear();
+        this.saveCredentialsToSession();
+      }
+    });
   }
 
   /**
@@ -79,21 +100,20 @@ class LLMProviderManager {
   }
 
   /**
-   * Set API key for a provider (session only)
+   * Store the API key for a provider in the credential vault, which must be unlocked
    */
-  public setProviderCredentials(providerId: string, apiKey: string, model?: string): void {
+  public async setProviderCredentials(
+    providerId: string,
+    apiKey: string,
+    model?: string
+  ): Promise<void> {
     if (!apiKey.trim()) {
       throw new Error('API key cannot be empty');
     }
 
-    const credentials: ProviderCredentials = {
-      providerId,
-      apiKey: apiKey.trim(),
-      expiresAt: Date.now() + 8 * 60 * 60 * 1000, // 8 hours
-      ...(model && { model }),
-    };
-
-    this.credentials.set(providerId, credentials);
+    await credentialVault.setSecret(this.getSecretId(providerId), apiKey.trim());
+    this.credentials.set(providerId, { providerId, ...(model && { model }) });
+    this.legacyApiKeys.delete(providerId);
     this.saveCredentialsToSession();
 
     // Clear any previous health status to force recheck
@@ -101,18 +121,48 @@ class LLMProviderManager {
   }
 
   /**
-   * Get credentials for a provider
+   * Get credentials for a provider. Undefined while the credential vault is locked.
    */
   public getProviderCredentials(providerId: string): ProviderCredentials | undefined {
-    const credentials = this.credentials.get(providerId);
+    if (!credentialVault.isUnlocked()) return undefined;
 
-    // Check if credentials are expired
-    if (credentials && credentials.expiresAt && Date.now() > credentials.expiresAt) {
-      this.removeProviderCredentials(providerId);
-      return undefined;
-    }
+    const keyProviderId = this.resolveProviderType(providerId);
+    const apiKey = credentialVault.getSecret(this.getSecretId(keyProviderId));
+    return apiKey ? { ...this.credentials.get(keyProviderId), providerId, apiKey } : undefined;
+  }
 
-    return credentials;
+  /**
+   * Number of API keys still saved in plain text by earlier versions, which move into the
+   * vault the next time it is unlocked
+   */
+  public getPendingLegacyKeyCount(): number {
+    return new Set([...Object.keys(llmProviderStorage.getApiKeys()), ...this.legacyApiKeys.keys()])
+      .size;
+  }
+
+  /**
+   * Check if a provider has a key in the vault, or one waiting to move in, whether or not the
+   * vault is unlocked
+   */
+  public hasStoredCredentials(providerId: string): boolean {
+    const keyProviderId = this.resolveProviderType(providerId);
+    return (
+      credentialVault.hasSecret(this.getSecretId(keyProviderId)) ||
+      this.legacyApiKeys.has(keyProviderId) ||
+      keyProviderId in llmProviderStorage.getApiKeys()
+    );
+  }
+
+  /**
+   * Keys are saved per system provider, while jobs name the user provider they run on. Map a
+   * user provider id to its provider type; system provider ids are returned unchanged.
+   */
+  public resolveProviderType(providerId: string): string {
+    return (
+      analysisApi.endpoints.getUserLLMProviders
+        .select({})(store.getState())
+        .data?.providers.find(provider => provider.id === providerId)?.provider_type ?? providerId
+    );
   }
 
   /**
@@ -120,8 +170,12 @@ class LLMProviderManager {
    */
   public removeProviderCredentials(providerId: string): void {
     this.credentials.delete(providerId);
+    this.legacyApiKeys.delete(providerId);
     this.healthStatus.delete(providerId);
     this.saveCredentialsToSession();
+    if (credentialVault.hasSecret(this.getSecretId(providerId))) {
+      void credentialVault.removeSecrets([this.getSecretId(providerId)]);
+    }
   }
 
   /**
@@ -216,7 +270,7 @@ class LLMProviderManager {
   public async testAllProviders(): Promise<Record<string, ProviderHealthStatus>> {
     const results: Record<string, ProviderHealthStatus> = {};
 
-    const testPromises = Array.from(this.credentials.keys()).map(async providerId => {
+    const testPromises = this.getStoredProviderIds().map(async providerId => {
       const status = await this.testProvider(providerId);
       results[providerId] = status;
       return status;
@@ -237,27 +291,8 @@ class LLMProviderManager {
     const provider = (await this.getProviders()).find(p => p.provider_id === providerId);
     if (!provider) return null;
 
-    // Simple cost estimation based on file size and analysis depth
-    const baseTokens = Math.ceil(fileSize / 100); // Rough estimate: 1 token per 100 bytes
-
-    const depthMultipliers = {
-      basic: 1,
-      detailed: 2.5,
-      comprehensive: 5,
-    };
-
-    const estimatedTokens = Math.ceil(baseTokens * depthMultipliers[analysisDepth]);
-
-    // Provider-specific pricing (rough estimates)
-    const pricingPer1KTokens: Record<string, number> = {
-      openai: 0.002, // GPT-4
-      anthropic: 0.008, // Claude
-      gemini: 0.001, // Gemini Pro
-      ollama: 0, // Local/free
-    };
-
-    const pricePerToken = pricingPer1KTokens[providerId] || 0.002;
-    const estimatedCost = (estimatedTokens / 1000) * pricePerToken;
+    const estimatedTokens = estimateTokens({ fileSize, analysisDepth });
+    const estimatedCost = (estimatedTokens / 1000) * getPricePer1kTokens(providerId, [provider]);
 
     return {
       providerId,
@@ -312,9 +347,10 @@ class LLMProviderManager {
 
         // Validate and filter expired credentials
         Object.entries(data).forEach(([providerId, creds]) => {
-          const credentials = creds as ProviderCredentials;
+          const { apiKey, ...credentials } = creds as Partial<ProviderCredentials>;
           if (!credentials.expiresAt || Date.now() < credentials.expiresAt) {
-            this.credentials.set(providerId, credentials);
+            this.credentials.set(providerId, { ...credentials, providerId });
+            if (apiKey) this.legacyApiKeys.set(providerId, apiKey);
           }
         });
       }
@@ -332,9 +368,10 @@ class LLMProviderManager {
     if (typeof window === 'undefined') return;
 
     try {
-      const data: Record<string, ProviderCredentials> = {};
+      const data: Record<string, Partial<ProviderCredentials>> = {};
       this.credentials.forEach((credentials, providerId) => {
-        data[providerId] = credentials;
+        const legacyApiKey = this.legacyApiKeys.get(providerId);
+        data[providerId] = legacyApiKey ? { ...credentials, apiKey: legacyApiKey } : credentials;
       });
       sessionStorage.setItem(this.SESSION_STORAGE_KEY, JSON.stringify(data));
     } catch (error) {
@@ -342,6 +379,44 @@ class LLMProviderManager {
     }
   }
 
+  private getSecretId(providerId: string): string {
+    return `${this.SECRET_PREFIX}${providerId}`;
+  }
+
+  private getStoredProviderIds(): string[] {
+    return credentialVault
+      .getState()
+      .secretIds.filter(id => id.startsWith(this.SECRET_PREFIX))
+      .map(id => id.slice(this.SECRET_PREFIX.length));
+  }
+
+  /**
+   * Once the vault is unlocked, move in legacy plain-text keys
+   */
+  private async syncVaultSecrets(): Promise<void> {
+    try {
+      const storedApiKeys = llmProviderStorage.getApiKeys();
+      const legacyApiKeys = new Map([...Object.entries(storedApiKeys), ...this.legacyApiKeys]);
+      if (legacyApiKeys.size > 0) {
+        await credentialVault.setSecrets(
+          Object.fromEntries(
+            Array.from(legacyApiKeys, ([providerId, apiKey]) => [
+              this.getSecretId(providerId),
+              apiKey,
+            ])
+          )
+        );
+
+        // Only forget the plain-text copies once the vault holds the keys
+        this.legacyApiKeys.clear();
+        this.saveCredentialsToSession();
+        if (Object.keys(storedApiKeys).length > 0) llmProviderStorage.clearApiKeys();
+      }
+    } catch (error) {
+      console.warn('Failed to sync provider credentials with the vault:', error);
+    }
+  }
+
   /**
    * Setup session cleanup on page unload
    */
@@ -355,6 +430,7 @@ class LLMProviderManager {
       this.credentials.forEach((credentials, providerId) => {
         if (credentials.expiresAt && Date.now() > credentials.expiresAt) {
           this.credentials.delete(providerId);
+          this.legacyApiKeys.delete(providerId);
           this.healthStatus.delete(providerId);
           hasExpired = true;
         }
@@ -375,7 +451,11 @@ class LLMProviderManager {
    * Clear all data (for logout/reset)
    */
   public clearAll(): void {
+    void credentialVault.removeSecrets(
+      this.getStoredProviderIds().map(providerId => this.getSecretId(providerId))
+    );
     this.credentials.clear();
+    this.legacyApiKeys.clear();
     this.healthStatus.clear();
     this.providerCache = null;
 
@@ -406,7 +486,7 @@ class LLMProviderManager {
     return {
       totalProviders: this.providerCache?.data.length || 0,
       healthyProviders: this.providerCache?.data.filter(p => p.status === 'healthy').length || 0,
-      providersWithCredentials: this.credentials.size,
+      providersWithCredentials: this.getStoredProviderIds().length,
       credentialsExpiringSoon,
     };
   }
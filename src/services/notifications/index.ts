@@ -0,0 +1,2 @@
+export { jobNotificationService } from './jobNotificationService';
+export type { JobNotificationService, NotificationPermissionState } from './jobNotificationService';
@@ -0,0 +1,185 @@
+/**
+ * Job Notification Service
+ * Shows a desktop notification, optionally with a sound, when a tracked job finishes while the
+ * app is in the background, and applies the background polling preference
+ */
+
+import { store } from '../../store';
+import { pollingManager } from '../polling';
+import { buildJobNotification, getJobNotificationEvent } from '../../utils/analysis';
+import type { NotificationSettings } from '../../utils/analysis';
+import { logger } from '../../utils/logger';
+import { notificationSettingsStorage } from '../../utils/storage';
+import type { AnalysisJob } from '../../types/analysis.types';
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+// Two short rising tones
+const CHIME_NOTES = [
+  { frequency: 660, start: 0 },
+  { frequency: 880, start: 0.18 },
+];
+
+class JobNotificationService {
+  private activeJobs = store.getState().analysis.activeJobs;
+  private settings = notificationSettingsStorage.get();
+  private clickListeners = new Set<(job: AnalysisJob) => void>();
+  private audioContext: AudioContext | null = null;
+
+  constructor() {
+    store.subscribe(this.handleStoreChange);
+    this.applyPollingSettings();
+  }
+
+  public getSettings(): NotificationSettings {
+    return this.settings;
+  }
+
+  /**
+   * Save new settings. Call from a user action so the sound can be unlocked for later use.
+   */
+  public updateSettings(settings: NotificationSettings): void {
+    notificationSettingsStorage.set(settings);
+    this.settings = settings;
+    this.applyPollingSettings();
+    if (settings.enabled && settings.sound) {
+      // Browsers only allow audio that was started from a user gesture
+      void this.getAudioContext()?.resume();
+    }
+  }
+
+  public getPermission(): NotificationPermissionState {
+    return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+  }
+
+  /**
+   * Ask for permission to show notifications; resolves with the answer
+   */
+  public async requestPermission(): Promise<NotificationPermissionState> {
+    if (typeof Notification === 'undefined') return 'unsupported';
+    if (Notification.permission !== 'default') return Notification.permission;
+    return Notification.requestPermission();
+  }
+
+  /**
+   * Listen for clicks on job notifications; returns an unsubscribe function
+   */
+  public onNotificationClick = (listener: (job: AnalysisJob) => void): (() => void) => {
+    this.clickListeners.add(listener);
+    return () => {
+      this.clickListeners.delete(listener);
+    };
+  };
+
+  /**
+   * Show a sample notification so the user can check permission and sound
+   */
+  public sendTest(): void {
+    this.show(
+      'Notifications are on',
+      'You will be notified here when a job finishes in the background',
+      'test'
+    );
+  }
+
+  private notifyJob(job: AnalysisJob): void {
+    const content = buildJobNotification(job);
+    if (!content) return;
+    // A tag per job replaces the notification from another open tab rather than adding a second
+    this.show(content.title, content.body, `job-${job.id}`, () =>
+      this.clickListeners.forEach(listener => listener(job))
+    );
+  }
+
+  private show(title: string, body: string, tag: string, onClick?: () => void): void {
+    if (this.getPermission() === 'granted') {
+      try {
+        const notification = new Notification(title, { body, tag });
+        notification.onclick = () => {
+          window.focus();
+          notification.close();
+          onClick?.();
+        };
+      } catch (error) {
+        // Some mobile browsers only allow notifications from a service worker
+        logger.warn('Could not show a notification', { component: 'JobNotifications' }, error);
+      }
+    }
+
+    if (this.settings.sound) this.playChime();
+  }
+
+  private applyPollingSettings(): void {
+    pollingManager.updateConfig({
+      pauseOnInactive: !this.settings.backgroundPolling,
+      backgroundInterval: this.settings.backgroundIntervalSeconds * 1000,
+    });
+  }
+
+  /**
+   * Watch for tracked jobs finishing and notify about the ones the user asked for
+   */
+  private handleStoreChange = (): void => {
+    const { activeJobs, jobHistory } = store.getState().analysis;
+    if (activeJobs === this.activeJobs) return;
+
+    const finishedIds = Object.keys(this.activeJobs).filter(id => !activeJobs[id]);
+    this.activeJobs = activeJobs;
+    if (!this.settings.enabled || !this.isInBackground()) return;
+
+    finishedIds.forEach(id => {
+      const job = jobHistory.find(candidate => candidate.id === id);
+      const event = job && getJobNotificationEvent(job);
+      if (job && event && this.settings.events[event]) this.notifyJob(job);
+    });
+  };
+
+  // Jobs finishing in front of the user already show up on screen
+  private isInBackground(): boolean {
+    return (
+      typeof document !== 'undefined' &&
+      (document.visibilityState === 'hidden' || !document.hasFocus())
+    );
+  }
+
+  private getAudioContext(): AudioContext | null {
+    if (!this.audioContext && typeof AudioContext !== 'undefined') {
+      this.audioContext = new AudioContext();
+    }
+    return this.audioContext;
+  }
+
+  private playChime(): void {
+    const context = this.getAudioContext();
+    if (!context) return;
+
+    context
+      .resume()
+      .then(() => {
+        CHIME_NOTES.forEach(({ frequency, start }) => {
+          const oscillator = context.createOscillator();
+          const gain = context.createGain();
+          const startAt = context.currentTime + start;
+
+          oscillator.frequency.value = frequency;
+          gain.gain.setValueAtTime(0.15, startAt);
+          gain.gain.exponentialRampToValueAtTime(0.001, startAt + 0.3);
+          oscillator.connect(gain).connect(context.destination);
+          oscillator.start(startAt);
+          oscillator.stop(startAt + 0.3);
+        });
+      })
+      .catch(error =>
+        logger.debug('Could not play the notification sound', {
+          component: 'JobNotifications',
+          error: String(error),
+        })
+      );
+  }
+}
+
+// Export singleton instance
+export const jobNotificationService = new JobNotificationService();
+
+// Export types for external use
+export type { JobNotificationService };
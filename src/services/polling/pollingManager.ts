@@ -11,7 +11,9 @@ import {
   stopPolling,
   addJobToPolling,
   removeJobFromPolling,
+  updateJob,
 } from '../../store/slices/analysisSlice';
+import { toJobUpdate } from '../../utils/analysis/jobStatus';
 
 export interface PollingConfig {
   minInterval: number;
@@ -19,6 +21,8 @@ export interface PollingConfig {
   backoffMultiplier: number;
   maxRetries: number;
   pauseOnInactive: boolean;
+  // Slowest cadence while the tab is hidden, when polling continues in the background
+  backgroundInterval: number;
 }
 
 export interface JobPollingState {
@@ -37,12 +41,14 @@ class PollingManager {
     backoffMultiplier: 1.5, // Gradual backoff
     maxRetries: 5, // Max retries before giving up
     pauseOnInactive: true, // Pause when tab is inactive
+    backgroundInterval: 60000, // 1 minute while hidden, if not paused
   };
 
   private pollingJobs = new Map<string, JobPollingState>();
   private timers = new Map<string, NodeJS.Timeout>();
   private isTabActive = true;
   private globalPauseCount = 0;
+  private pausedWhileHidden = false;
 
   constructor() {
     this.setupVisibilityHandling();
@@ -180,9 +186,18 @@ class PollingManager {
       return;
     }
 
+    // A poll already waiting is replaced, so each job only ever has one
+    const existing = this.timers.get(jobId);
+    if (existing) clearTimeout(existing);
+
+    // Background polling keeps going at a slower pace while the tab is hidden
+    const interval = this.isTabActive
+      ? pollingState.currentInterval
+      : Math.max(pollingState.currentInterval, this.config.backgroundInterval);
+
     const timer = setTimeout(() => {
       this.pollJobStatus(jobId);
-    }, pollingState.currentInterval);
+    }, interval);
 
     this.timers.set(jobId, timer);
   }
@@ -222,6 +237,9 @@ class PollingManager {
     pollingState.lastPollTime = Date.now();
     delete pollingState.error;
 
+    // Keep the tracked job in the store in sync with the API cache
+    store.dispatch(updateJob(toJobUpdate(result)));
+
     // Check if job is completed
     if (result.isCompleted) {
       // Job is done, stop polling
@@ -286,18 +304,40 @@ class PollingManager {
     if (typeof document !== 'undefined') {
       document.addEventListener('visibilitychange', () => {
         this.isTabActive = !document.hidden;
-
-        if (this.isTabActive) {
-          // Tab became active, resume polling
-          this.resumeAll();
-        } else if (this.config.pauseOnInactive) {
-          // Tab became inactive, pause polling
-          this.pauseAll();
-        }
+        this.applyVisibility();
       });
     }
   }
 
+  /**
+   * Pause while hidden when configured to, otherwise move every job to the pace that suits
+   * the tab's visibility
+   */
+  private applyVisibility(): void {
+    const shouldPause = !this.isTabActive && this.config.pauseOnInactive;
+
+    if (shouldPause && !this.pausedWhileHidden) {
+      // Tab became inactive, pause polling
+      this.pausedWhileHidden = true;
+      this.pauseAll();
+    } else if (!shouldPause && this.pausedWhileHidden) {
+      // Tab became active, resume polling
+      this.pausedWhileHidden = false;
+      this.resumeAll();
+    } else if (!shouldPause) {
+      this.rescheduleAll();
+    }
+  }
+
+  /**
+   * Restart every job's wait, e.g. after switching between foreground and background pace
+   */
+  private rescheduleAll(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.pollingJobs.forEach((_state, jobId) => this.scheduleNextPoll(jobId));
+  }
+
   /**
    * Setup network connectivity handling
    */
@@ -324,6 +364,7 @@ class PollingManager {
    */
   public updateConfig(newConfig: Partial<PollingConfig>): void {
     this.config = { ...this.config, ...newConfig };
+    this.applyVisibility();
   }
 
   /**
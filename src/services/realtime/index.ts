@@ -0,0 +1,13 @@
+export { jobUpdateService } from './jobUpdateService';
+export type {
+  JobUpdateService,
+  JobUpdateMode,
+  JobUpdateConfig,
+  JobUpdateConnectionState,
+} from './jobUpdateService';
+export { SseJobUpdateTransport, WebSocketJobUpdateTransport } from './jobUpdateTransports';
+export type {
+  JobUpdateTransport,
+  JobUpdateTransportKind,
+  JobUpdateTransportHandlers,
+} from './jobUpdateTransports';
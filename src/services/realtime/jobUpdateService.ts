@@ -0,0 +1,286 @@
+/**
+ * Job update service
+ * Receives job progress over SSE or WebSocket and falls back to REST polling when no stream is available
+ */
+
+import { store } from '../../store';
+import { analysisApi, normalizeJobStatus } from '../api/analysisApi';
+import type { JobStatusResponse } from '../api/analysisApi';
+import { resultsStore } from '../history/resultsStore';
+import { pollingManager } from '../polling';
+import { updateJob } from '../../store/slices/analysisSlice';
+import { toJobUpdate } from '../../utils/analysis/jobStatus';
+import { config as appConfig } from '../../utils/config';
+import { logger } from '../../utils/logger';
+import { SseJobUpdateTransport, WebSocketJobUpdateTransport } from './jobUpdateTransports';
+import type { JobUpdateTransport, JobUpdateTransportKind } from './jobUpdateTransports';
+
+export type JobUpdateMode = 'auto' | JobUpdateTransportKind | 'polling';
+
+export interface JobUpdateConnectionState {
+  transport: JobUpdateTransportKind | 'polling';
+  status: 'idle' | 'connecting' | 'live' | 'fallback';
+  error?: string;
+}
+
+export interface JobUpdateConfig {
+  mode: JobUpdateMode;
+  reconnectDelay: number;
+  maxReconnectDelay: number;
+}
+
+class JobUpdateService {
+  private config: JobUpdateConfig = {
+    mode: appConfig.jobUpdatesTransport,
+    reconnectDelay: 5000, // First retry of a dropped stream
+    maxReconnectDelay: 5 * 60 * 1000, // Give the backend a break when it has no stream at all
+  };
+
+  // Reference counts, since several components can watch the same job
+  private subscriptions = new Map<string, number>();
+  private transport: JobUpdateTransport | null = null;
+  private candidateIndex = 0;
+  private hasOpened = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+  private currentReconnectDelay = this.config.reconnectDelay;
+  private isFallbackActive = false;
+  private fallbackJobs = new Set<string>();
+  private state: JobUpdateConnectionState = { transport: 'polling', status: 'idle' };
+  private listeners = new Set<() => void>();
+
+  /**
+   * Receive updates for a job until the returned function is called
+   */
+  public subscribe(jobId: string): () => void {
+    this.subscriptions.set(jobId, (this.subscriptions.get(jobId) ?? 0) + 1);
+    this.scheduleSync();
+
+    let subscribed = true;
+    return () => {
+      if (!subscribed) return;
+      subscribed = false;
+
+      const count = (this.subscriptions.get(jobId) ?? 1) - 1;
+      if (count > 0) {
+        this.subscriptions.set(jobId, count);
+      } else {
+        this.subscriptions.delete(jobId);
+      }
+      this.scheduleSync();
+    };
+  }
+
+  /**
+   * Current connection state (stable reference until it changes)
+   */
+  public getConnectionState = (): JobUpdateConnectionState => this.state;
+
+  /**
+   * Listen for connection state changes; returns an unsubscribe function
+   */
+  public onConnectionStateChange = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Update configuration and reconnect with the new settings
+   */
+  public updateConfig(newConfig: Partial<JobUpdateConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+    this.teardown();
+    this.scheduleSync();
+  }
+
+  /**
+   * Apply a status update from any source to the API cache, the tracked job and, once the job is
+   * completed, the results store
+   */
+  public applyStatus(status: JobStatusResponse): void {
+    const normalized = normalizeJobStatus(status);
+    resultsStore.saveCompleted(normalized);
+    store.dispatch(analysisApi.util.upsertQueryData('getJobStatus', normalized.job_id, normalized));
+    store.dispatch(updateJob(toJobUpdate(normalized)));
+  }
+
+  // Batch subscription changes made during one render into a single reconnect
+  private scheduleSync(): void {
+    if (this.syncTimer) return;
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      this.sync();
+    }, 0);
+  }
+
+  private sync(): void {
+    const jobIds = Array.from(this.subscriptions.keys());
+
+    if (jobIds.length === 0) {
+      this.teardown();
+      this.setState({ transport: 'polling', status: 'idle' });
+      return;
+    }
+
+    if (this.getCandidates().length === 0) {
+      this.startFallback(jobIds);
+      this.setState({ transport: 'polling', status: 'fallback' });
+      return;
+    }
+
+    // While a stream is down, polling covers every subscribed job
+    if (this.isFallbackActive) {
+      this.startFallback(jobIds);
+    }
+
+    if (this.transport) {
+      this.transport.setJobs(jobIds);
+    } else if (!this.reconnectTimer) {
+      this.connect(jobIds);
+    }
+  }
+
+  private connect(jobIds: string[]): void {
+    const candidate = this.getCandidates()[this.candidateIndex];
+    if (!candidate) return;
+
+    const transport = this.createTransport(candidate);
+    this.transport = transport;
+    this.hasOpened = false;
+    // Reconnect attempts happen in the background while polling keeps the jobs current
+    if (!this.isFallbackActive) {
+      this.setState({ transport: candidate, status: 'connecting' });
+    }
+
+    try {
+      transport.connect(jobIds, {
+        onOpen: () => {
+          this.hasOpened = true;
+          this.currentReconnectDelay = this.config.reconnectDelay;
+          // The stream replays current status on subscribe, so polling can stop
+          this.stopFallback();
+          this.setState({ transport: candidate, status: 'live' });
+        },
+        onUpdate: status => this.applyStatus(status),
+        onClose: reason => this.handleClose(candidate, reason),
+      });
+    } catch (error) {
+      this.handleClose(candidate, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private handleClose(kind: JobUpdateTransportKind, reason: string): void {
+    this.transport = null;
+    const candidates = this.getCandidates();
+
+    // A transport that never opened is probably not offered by the backend; try the next one
+    if (!this.hasOpened && this.candidateIndex < candidates.length - 1) {
+      logger.info(`Job update ${kind} transport unavailable, trying next`, {
+        component: 'JobUpdateService',
+        reason,
+      });
+      this.candidateIndex++;
+      this.scheduleSync();
+      return;
+    }
+
+    const context = { component: 'JobUpdateService', transport: kind, reason };
+    if (this.isFallbackActive) {
+      logger.debug('Job update stream still unavailable', context);
+    } else {
+      logger.warn('Job update stream closed, falling back to polling', context);
+    }
+    this.candidateIndex = 0;
+    this.setState({ transport: 'polling', status: 'fallback', error: reason });
+    this.startFallback(Array.from(this.subscriptions.keys()));
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.subscriptions.size === 0) return;
+      this.connect(Array.from(this.subscriptions.keys()));
+    }, this.currentReconnectDelay);
+
+    this.currentReconnectDelay = Math.min(
+      this.config.maxReconnectDelay,
+      this.currentReconnectDelay * 2
+    );
+  }
+
+  // Poll exactly the given jobs through the polling manager
+  private startFallback(jobIds: string[]): void {
+    this.isFallbackActive = true;
+    const next = new Set(jobIds);
+    this.fallbackJobs.forEach(jobId => {
+      if (!next.has(jobId)) pollingManager.stopJobPolling(jobId);
+    });
+    next.forEach(jobId => {
+      if (!this.fallbackJobs.has(jobId)) pollingManager.startJobPolling(jobId);
+    });
+    this.fallbackJobs = next;
+  }
+
+  private stopFallback(): void {
+    this.fallbackJobs.forEach(jobId => pollingManager.stopJobPolling(jobId));
+    this.fallbackJobs.clear();
+    this.isFallbackActive = false;
+  }
+
+  private teardown(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.transport?.disconnect();
+    this.transport = null;
+    this.candidateIndex = 0;
+    this.currentReconnectDelay = this.config.reconnectDelay;
+    this.stopFallback();
+  }
+
+  private getCandidates(): JobUpdateTransportKind[] {
+    const supported: JobUpdateTransportKind[] = [];
+    if (typeof EventSource !== 'undefined') supported.push('sse');
+    if (typeof WebSocket !== 'undefined') supported.push('websocket');
+
+    switch (this.config.mode) {
+      case 'polling':
+        return [];
+      case 'auto':
+        return supported;
+      default:
+        return supported.filter(kind => kind === this.config.mode);
+    }
+  }
+
+  private createTransport(kind: JobUpdateTransportKind): JobUpdateTransport {
+    const baseUrl = `${appConfig.apiBaseUrl}/api/v1/decompile`;
+    return kind === 'sse'
+      ? new SseJobUpdateTransport(`${baseUrl}/events`)
+      : new WebSocketJobUpdateTransport(`${baseUrl.replace(/^http/, 'ws')}/ws`);
+  }
+
+  private setState(state: JobUpdateConnectionState): void {
+    if (
+      state.transport === this.state.transport &&
+      state.status === this.state.status &&
+      state.error === this.state.error
+    ) {
+      return;
+    }
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Export singleton instance
+export const jobUpdateService = new JobUpdateService();
+
+// Export types for external use
+export type { JobUpdateService };
@@ -0,0 +1,170 @@
+/**
+ * Streaming transports for job status updates
+ *
+ * Wire protocol expected from the backend:
+ * - SSE: `GET /api/v1/decompile/events?job_ids=a,b` emits `job_status` events whose data is a
+ *   JobStatusResponse. The stream is reopened whenever the set of jobs changes.
+ * - WebSocket: `/api/v1/decompile/ws` accepts `{"type":"subscribe"|"unsubscribe","job_ids":[...]}`
+ *   and sends `{"type":"job_status","data":JobStatusResponse}`.
+ * Both send the current status of a job as soon as it is subscribed.
+ */
+
+import type { JobStatusResponse } from '../api/analysisApi';
+
+export type JobUpdateTransportKind = 'sse' | 'websocket';
+
+export interface JobUpdateTransportHandlers {
+  onOpen: () => void;
+  onUpdate: (status: JobStatusResponse) => void;
+  // Fired once when the connection fails to open or drops; the transport does not reconnect
+  onClose: (reason: string) => void;
+}
+
+export interface JobUpdateTransport {
+  readonly kind: JobUpdateTransportKind;
+  connect(jobIds: string[], handlers: JobUpdateTransportHandlers): void;
+  setJobs(jobIds: string[]): void;
+  disconnect(): void;
+}
+
+const parseStatus = (data: string): JobStatusResponse | null => {
+  try {
+    const status = JSON.parse(data) as JobStatusResponse;
+    return status && typeof status.job_id === 'string' ? status : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Server-Sent Events transport
+ */
+export class SseJobUpdateTransport implements JobUpdateTransport {
+  public readonly kind = 'sse';
+  private readonly url: string;
+  private source: EventSource | null = null;
+  private handlers: JobUpdateTransportHandlers | null = null;
+  private jobIds: string[] = [];
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  public connect(jobIds: string[], handlers: JobUpdateTransportHandlers): void {
+    this.handlers = handlers;
+    this.jobIds = [...jobIds].sort();
+    this.open();
+  }
+
+  public setJobs(jobIds: string[]): void {
+    const next = [...jobIds].sort();
+    if (next.join(',') === this.jobIds.join(',')) return;
+
+    // EventSource cannot change its query, so reopen the stream for the new job set
+    this.jobIds = next;
+    this.source?.close();
+    this.open();
+  }
+
+  public disconnect(): void {
+    this.source?.close();
+    this.source = null;
+    this.handlers = null;
+  }
+
+  private open(): void {
+    const handlers = this.handlers;
+    if (!handlers) return;
+
+    const source = new EventSource(
+      `${this.url}?job_ids=${encodeURIComponent(this.jobIds.join(','))}`
+    );
+    this.source = source;
+
+    const handleMessage = (event: MessageEvent<string>) => {
+      const status = parseStatus(event.data);
+      if (status) handlers.onUpdate(status);
+    };
+
+    source.onopen = () => handlers.onOpen();
+    source.onmessage = handleMessage;
+    source.addEventListener('job_status', handleMessage);
+    source.onerror = () => {
+      // Ignore errors from a stream that was already replaced
+      if (this.source !== source) return;
+      // Take over reconnection from EventSource so fallback and backoff stay in one place
+      source.close();
+      this.source = null;
+      this.handlers = null;
+      handlers.onClose('Event stream closed');
+    };
+  }
+}
+
+/**
+ * WebSocket transport
+ */
+export class WebSocketJobUpdateTransport implements JobUpdateTransport {
+  public readonly kind = 'websocket';
+  private readonly url: string;
+  private socket: WebSocket | null = null;
+  private jobIds = new Set<string>();
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  public connect(jobIds: string[], handlers: JobUpdateTransportHandlers): void {
+    this.jobIds = new Set(jobIds);
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.send('subscribe', Array.from(this.jobIds));
+      handlers.onOpen();
+    };
+    socket.onmessage = (event: MessageEvent<string>) => {
+      try {
+        const message = JSON.parse(event.data) as { type?: string; data?: unknown };
+        if (message.type !== 'job_status') return;
+        const status = parseStatus(JSON.stringify(message.data));
+        if (status) handlers.onUpdate(status);
+      } catch {
+        // Ignore malformed frames
+      }
+    };
+    const close = (reason: string) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      handlers.onClose(reason);
+    };
+    socket.onclose = event => close(event.reason || `WebSocket closed (${event.code})`);
+    // Some implementations report a failed handshake only as an error
+    socket.onerror = () => {
+      if (socket.readyState !== WebSocket.OPEN) close('WebSocket connection failed');
+    };
+  }
+
+  public setJobs(jobIds: string[]): void {
+    const next = new Set(jobIds);
+    const added = jobIds.filter(jobId => !this.jobIds.has(jobId));
+    const removed = Array.from(this.jobIds).filter(jobId => !next.has(jobId));
+    this.jobIds = next;
+
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      if (added.length > 0) this.send('subscribe', added);
+      if (removed.length > 0) this.send('unsubscribe', removed);
+    }
+  }
+
+  public disconnect(): void {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  private send(type: 'subscribe' | 'unsubscribe', jobIds: string[]): void {
+    this.socket?.send(JSON.stringify({ type, job_ids: jobIds }));
+  }
+}
@@ -0,0 +1,2 @@
+export { jobRetryService } from './jobRetryService';
+export type { JobRetryService, ScheduledRetry } from './jobRetryService';
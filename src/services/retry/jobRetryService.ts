@@ -0,0 +1,244 @@
+/**
+ * Job Retry Service
+ * Resubmits failed jobs from their cached files, either on request or automatically when the
+ * failure looks transient
+ */
+
+import { store } from '../../store';
+import { selectCostSince } from '../../store/selectors';
+import { addJob } from '../../store/slices/analysisSlice';
+import { analysisApi } from '../api/analysisApi';
+import { errorService } from '../error';
+import { llmProviderManager } from '../llm';
+import { fileCacheService } from '../upload';
+import { credentialVault } from '../vault';
+import {
+  buildRetryRequest,
+  checkBudget,
+  estimateJobCosts,
+  getMonthStart,
+  getPricePer1kTokens,
+  getRetryDelayMs,
+  isRetryableJob,
+} from '../../utils/analysis';
+import type { BudgetCheck } from '../../utils/analysis';
+import { logger } from '../../utils/logger';
+import { budgetStorage, retrySettingsStorage } from '../../utils/storage';
+import type { AnalysisJob, JobConfig, JobStatusType } from '../../types/analysis.types';
+
+export interface ScheduledRetry {
+  jobId: string;
+  attempt: number;
+  retryAt: number;
+}
+
+class JobRetryService {
+  private activeJobs = store.getState().analysis.activeJobs;
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private scheduled: Record<string, ScheduledRetry> = {};
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    store.subscribe(this.handleStoreChange);
+  }
+
+  /**
+   * Automatic retries waiting to run, by the id of the failed job (stable until it changes)
+   */
+  public getScheduledRetries = (): Record<string, ScheduledRetry> => this.scheduled;
+
+  public onScheduledRetriesChange = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Whether a job can be resubmitted right now: it failed and its file is still cached
+   */
+  public async canRetry(jobId: string): Promise<boolean> {
+    const job = this.findJob(jobId);
+    return !!job && isRetryableJob(job) && (await fileCacheService.has(jobId));
+  }
+
+  /**
+   * Resubmit a failed job with its original configuration, or an edited one.
+   * Resolves with the id of the new job.
+   */
+  public async retryJob(jobId: string, config?: JobConfig): Promise<string> {
+    const job = this.findJob(jobId);
+    if (!job || !isRetryableJob(job)) {
+      throw new Error('Only failed jobs that were uploaded from this browser can be retried');
+    }
+
+    this.cancelScheduledRetry(jobId);
+    return this.resubmit(job, config ?? job.config);
+  }
+
+  public cancelScheduledRetry(jobId: string): void {
+    const timer = this.timers.get(jobId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(jobId);
+    }
+    if (this.scheduled[jobId]) {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { [jobId]: _cancelled, ...remaining } = this.scheduled;
+      this.setScheduled(remaining);
+    }
+  }
+
+  private async resubmit(job: AnalysisJob, config: JobConfig, attempt?: number): Promise<string> {
+    const file = await fileCacheService.get(job.id);
+    if (!file) {
+      throw new Error(`${job.fileName} is no longer cached; upload it again to retry`);
+    }
+
+    const provider = config.llmProvider;
+    if (
+      provider &&
+      llmProviderManager.hasStoredCredentials(provider) &&
+      !credentialVault.isUnlocked()
+    ) {
+      throw new Error('Unlock the credential vault to use the stored API key');
+    }
+    const apiKey = provider
+      ? llmProviderManager.getProviderCredentials(provider)?.apiKey
+      : undefined;
+
+    const result = await store
+      .dispatch(analysisApi.endpoints.submitJob.initiate(buildRetryRequest(file, config, apiKey)))
+      .unwrap();
+
+    store.dispatch(
+      addJob({
+        id: result.job_id,
+        fileName: job.fileName,
+        fileSize: job.fileSize,
+        fileType: job.fileType,
+        status: result.status as JobStatusType,
+        progress: 0,
+        phase: 'queued',
+        submittedAt: new Date().toISOString(),
+        config,
+        retryOfJobId: job.id,
+        ...(attempt && { retryAttempt: attempt }),
+        ...(job.hashes && { hashes: job.hashes }),
+        // The estimate only still holds when nothing that affects cost was changed
+        ...(job.estimatedCost !== undefined &&
+          config === job.config && { estimatedCost: job.estimatedCost }),
+      })
+    );
+
+    // The new job may fail too, so it keeps the file for its own retries
+    await fileCacheService.put(result.job_id, file);
+    return result.job_id;
+  }
+
+  /**
+   * Watch for tracked jobs finishing: completed jobs no longer need their file, failed ones
+   * may be retried
+   */
+  private handleStoreChange = (): void => {
+    const { activeJobs, jobHistory } = store.getState().analysis;
+    if (activeJobs === this.activeJobs) return;
+
+    const finishedIds = Object.keys(this.activeJobs).filter(id => !activeJobs[id]);
+    this.activeJobs = activeJobs;
+
+    finishedIds.forEach(id => {
+      const job = jobHistory.find(candidate => candidate.id === id);
+      if (job?.status === 'completed') {
+        void fileCacheService.remove(id);
+      } else if (job?.status === 'failed') {
+        this.scheduleAutomaticRetry(job);
+      }
+    });
+  };
+
+  private scheduleAutomaticRetry(job: AnalysisJob): void {
+    const { autoRetry } = retrySettingsStorage.get();
+    const attempt = (job.retryAttempt ?? 0) + 1;
+    if (!autoRetry.enabled || attempt > autoRetry.maxAttempts || !isRetryableJob(job)) return;
+
+    // Only failures that look transient, such as timeouts or an overloaded server, are repeated
+    if (!job.error || !errorService.isRetryable(new Error(job.error))) return;
+
+    const delay = getRetryDelayMs(autoRetry, attempt);
+    this.timers.set(
+      job.id,
+      setTimeout(() => {
+        this.cancelScheduledRetry(job.id);
+
+        // Checked when the retry runs, since other jobs may have spent from the budget meanwhile
+        const budget = this.checkRetryBudget(job);
+        if (budget.status !== 'ok') {
+          logger.warn(`Automatic retry of ${job.fileName} skipped to stay within the budget`, {
+            component: 'JobRetryService',
+            messages: budget.messages,
+          });
+          return;
+        }
+
+        this.resubmit(job, job.config, attempt)
+          .then(newJobId =>
+            logger.info(`Automatic retry ${attempt} of ${job.fileName} started as ${newJobId}`, {
+              component: 'JobRetryService',
+            })
+          )
+          .catch(error =>
+            logger.warn(
+              `Automatic retry of ${job.fileName} could not be submitted`,
+              { component: 'JobRetryService' },
+              error
+            )
+          );
+      }, delay)
+    );
+    this.setScheduled({
+      ...this.scheduled,
+      [job.id]: { jobId: job.id, attempt, retryAt: Date.now() + delay },
+    });
+  }
+
+  /**
+   * Check a resubmission against the budget caps like the upload page does. Nobody sees a
+   * warning for an automatic retry, so anything but 'ok' stops it.
+   */
+  private checkRetryBudget(job: AnalysisJob): BudgetCheck {
+    const { llmProvider, analysisDepth, translationDetail } = job.config;
+    // Decompilation alone costs nothing
+    if (!llmProvider) return { status: 'ok', messages: [] };
+
+    const state = store.getState();
+    // Jobs record the user provider id; prices are listed by provider type. The lookup reads the
+    // provider list the upload form fetched.
+    const providerType = llmProviderManager.resolveProviderType(llmProvider);
+    const estimate = estimateJobCosts([job.fileSize], {
+      analysisDepth,
+      ...(translationDetail && { translationDetail }),
+      pricePer1kTokens: getPricePer1kTokens(
+        providerType,
+        analysisApi.endpoints.getLLMProviders.select()(state).data?.providers
+      ),
+    });
+
+    return checkBudget(estimate, selectCostSince(getMonthStart())(state), budgetStorage.get());
+  }
+
+  private findJob(jobId: string): AnalysisJob | undefined {
+    return store.getState().analysis.jobHistory.find(job => job.id === jobId);
+  }
+
+  private setScheduled(scheduled: Record<string, ScheduledRetry>): void {
+    this.scheduled = scheduled;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Export singleton instance
+export const jobRetryService = new JobRetryService();
+
+// Export types for external use
+export type { JobRetryService };
@@ -0,0 +1,139 @@
+/**
+ * Uploaded File Cache
+ * Keeps submitted binaries in IndexedDB for a limited time so failed jobs can be resubmitted
+ * without picking the file again
+ */
+
+import { openDatabase, requestToPromise, transactionDone } from '../../utils/indexedDb';
+import { logger } from '../../utils/logger';
+import { retrySettingsStorage } from '../../utils/storage';
+
+interface CachedFile {
+  jobId: string;
+  file: Blob;
+  name: string;
+  type: string;
+  lastModified: number;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+const DB_NAME = 'bin2nlp-files';
+const DB_VERSION = 1;
+const STORE_NAME = 'files';
+
+class FileCacheService {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor() {
+    // Expired files are only ever read by a retry, so clear them out on startup
+    if (typeof window !== 'undefined') {
+      void this.pruneExpired();
+    }
+  }
+
+  /**
+   * Keep the file submitted for a job. Does nothing when caching is turned off.
+   */
+  public async put(jobId: string, file: File): Promise<void> {
+    const { fileCacheHours } = retrySettingsStorage.get();
+    if (fileCacheHours <= 0) return;
+
+    const now = Date.now();
+    const entry: CachedFile = {
+      jobId,
+      file,
+      name: file.name,
+      type: file.type,
+      lastModified: file.lastModified,
+      cachedAt: now,
+      expiresAt: now + fileCacheHours * 60 * 60 * 1000,
+    };
+
+    try {
+      const transaction = (await this.open()).transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).put(entry);
+      await transactionDone(transaction);
+    } catch (error) {
+      // Most often the storage quota; the job itself is unaffected
+      logger.warn(`Could not cache ${file.name} for retries`, { component: 'FileCache' }, error);
+    }
+  }
+
+  /**
+   * The file submitted for a job, or undefined once it has expired or was never cached
+   */
+  public async get(jobId: string): Promise<File | undefined> {
+    try {
+      const store = (await this.open()).transaction(STORE_NAME).objectStore(STORE_NAME);
+      const entry = await requestToPromise<CachedFile | undefined>(store.get(jobId));
+      if (!entry) return undefined;
+      if (entry.expiresAt < Date.now()) {
+        await this.remove(jobId);
+        return undefined;
+      }
+      return new File([entry.file], entry.name, {
+        type: entry.type,
+        lastModified: entry.lastModified,
+      });
+    } catch (error) {
+      logger.warn('Could not read the file cache', { component: 'FileCache' }, error);
+      return undefined;
+    }
+  }
+
+  public async has(jobId: string): Promise<boolean> {
+    return (await this.get(jobId)) !== undefined;
+  }
+
+  public async remove(jobId: string): Promise<void> {
+    try {
+      const transaction = (await this.open()).transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).delete(jobId);
+      await transactionDone(transaction);
+    } catch (error) {
+      logger.warn('Could not remove a cached file', { component: 'FileCache' }, error);
+    }
+  }
+
+  /**
+   * Delete every file past its retention time
+   */
+  public async pruneExpired(): Promise<void> {
+    try {
+      const transaction = (await this.open()).transaction(STORE_NAME, 'readwrite');
+      const range = IDBKeyRange.upperBound(Date.now());
+      const keys = await requestToPromise(
+        transaction.objectStore(STORE_NAME).index('expiresAt').getAllKeys(range)
+      );
+      keys.forEach(key => transaction.objectStore(STORE_NAME).delete(key));
+      await transactionDone(transaction);
+    } catch (error) {
+      logger.warn('Could not prune the file cache', { component: 'FileCache' }, error);
+    }
+  }
+
+  public async clear(): Promise<void> {
+    const transaction = (await this.open()).transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    await transactionDone(transaction);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= openDatabase(DB_NAME, DB_VERSION, db => {
+      const store = db.createObjectStore(STORE_NAME, { keyPath: 'jobId' });
+      store.createIndex('expiresAt', 'expiresAt');
+    }).catch(error => {
+      // Allow a later call to try again
+      this.db = null;
+      throw error;
+    });
+    return this.db;
+  }
+}
+
+// Export singleton instance
+export const fileCacheService = new FileCacheService();
+
+// Export types for external use
+export type { FileCacheService };
@@ -0,0 +1,27 @@
+/**
+ * File hash worker
+ * Hashes files off the main thread so large binaries do not freeze the upload page
+ */
+
+import { computeFileHashes } from '../../utils/analysis/fileHash';
+import type { FileHashes } from '../../types/analysis.types';
+
+export interface FileHashRequest {
+  id: number;
+  file: Blob;
+}
+
+export type FileHashResponse = { id: number; hashes: FileHashes } | { id: number; error: string };
+
+self.onmessage = async (event: MessageEvent<FileHashRequest>) => {
+  const { id, file } = event.data;
+  let response: FileHashResponse;
+
+  try {
+    response = { id, hashes: await computeFileHashes(file) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'Hashing failed' };
+  }
+
+  self.postMessage(response);
+};
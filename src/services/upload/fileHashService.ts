@@ -0,0 +1,110 @@
+/**
+ * File Hash Service
+ * Computes SHA-256, SHA-1 and MD5 digests of selected files in a Web Worker
+ */
+
+import { computeFileHashes } from '../../utils/analysis/fileHash';
+import type { FileHashes } from '../../types/analysis.types';
+import type { FileHashRequest, FileHashResponse } from './fileHash.worker';
+
+interface PendingRequest {
+  resolve: (hashes: FileHashes) => void;
+  reject: (error: Error) => void;
+}
+
+class FileHashService {
+  private worker: Worker | null = null;
+  private nextRequestId = 0;
+  private pending = new Map<number, PendingRequest>();
+  private cache = new WeakMap<File, Promise<FileHashes>>();
+
+  /**
+   * Hash a file, reusing the result for the same File object
+   */
+  public hashFile(file: File): Promise<FileHashes> {
+    const cached = this.cache.get(file);
+    if (cached) return cached;
+
+    const hashes = this.computeHashes(file);
+    this.cache.set(file, hashes);
+    // Allow a failed hash to be retried
+    hashes.catch(() => this.cache.delete(file));
+    return hashes;
+  }
+
+  /**
+   * Hash multiple files; the worker processes them one at a time
+   */
+  public hashFiles(files: File[]): Promise<FileHashes[]> {
+    return Promise.all(files.map(file => this.hashFile(file)));
+  }
+
+  /**
+   * Stop the worker and reject any outstanding requests
+   */
+  public dispose(): void {
+    this.failPending(new Error('Hashing was cancelled'));
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private computeHashes(file: File): Promise<FileHashes> {
+    const worker = this.getWorker();
+    if (!worker) {
+      // Fall back to the main thread where workers are unavailable
+      return computeFileHashes(file);
+    }
+
+    const id = ++this.nextRequestId;
+    return new Promise<FileHashes>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      const request: FileHashRequest = { id, file };
+      worker.postMessage(request);
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker) return this.worker;
+    if (typeof Worker === 'undefined') return null;
+
+    try {
+      this.worker = new Worker(new URL('./fileHash.worker.ts', import.meta.url), {
+        type: 'module',
+      });
+    } catch {
+      return null;
+    }
+
+    this.worker.onmessage = (event: MessageEvent<FileHashResponse>) => {
+      const response = event.data;
+      const request = this.pending.get(response.id);
+      if (!request) return;
+
+      this.pending.delete(response.id);
+      if ('hashes' in response) {
+        request.resolve(response.hashes);
+      } else {
+        request.reject(new Error(response.error));
+      }
+    };
+
+    this.worker.onerror = event => {
+      this.failPending(new Error(event.message || 'Hash worker failed'));
+      this.worker?.terminate();
+      this.worker = null;
+    };
+
+    return this.worker;
+  }
+
+  private failPending(error: Error): void {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+}
+
+// Export singleton instance
+export const fileHashService = new FileHashService();
+
+// Export types for external use
+export type { FileHashService };
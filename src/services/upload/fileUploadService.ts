@@ -3,6 +3,10 @@
  * Handles file validation, upload progress, and drag-and-drop functionality
  */
 
+import { sniffBinaryFormat } from '../../utils/analysis/binaryFormat';
+import type { BinaryHeaderInfo } from '../../utils/analysis/binaryFormat';
+import { logger } from '../../utils/logger';
+
 export interface FileValidationResult {
   isValid: boolean;
   errors: string[];
@@ -14,6 +18,8 @@ export interface FileValidationResult {
     extension: string;
     readableSize: string;
   };
+  // Parsed executable header, present when the contents were sniffed
+  header?: BinaryHeaderInfo;
 }
 
 export interface UploadProgress {
@@ -28,6 +34,14 @@ export interface UploadProgress {
   error?: string;
 }
 
+export interface QueuedUploadResult<T> {
+  file: File;
+  fileId?: string;
+  status: 'completed' | 'error' | 'cancelled';
+  result?: T;
+  error?: string;
+}
+
 export interface UploadConfig {
   maxFileSize: number;
   allowedExtensions: string[];
@@ -60,9 +74,11 @@ class FileUploadService {
   private abortControllers = new Map<string, AbortController>();
 
   /**
-   * Validate a file before upload
+   * Validate a file before upload.
+   * When a sniffed header is passed, it takes precedence over the extension and MIME type:
+   * a recognised binary is accepted under any name, and `null` (no known signature) is rejected.
    */
-  public validateFile(file: File): FileValidationResult {
+  public validateFile(file: File, header?: BinaryHeaderInfo | null): FileValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
 
@@ -84,27 +100,41 @@ class FileUploadService {
       );
     }
 
+    // Content validation
+    if (header === null && file.size > 0) {
+      errors.push(
+        'File contents do not match a supported binary format (PE, ELF, Mach-O, JAR or Java class)'
+      );
+    }
+    if (header) {
+      warnings.push(...header.warnings);
+    }
+
     // Extension validation
     const extension = fileInfo.extension.toLowerCase();
-    if (extension && !this.config.allowedExtensions.includes(extension)) {
+    if (header === undefined && extension && !this.config.allowedExtensions.includes(extension)) {
       errors.push(
         `File extension ${extension} is not supported. Allowed: ${this.config.allowedExtensions.join(', ')}`
       );
     }
 
-    // MIME type validation (if available)
-    if (file.type) {
-      const isAllowedMimeType = this.config.allowedMimeTypes.some(
-        allowed => file.type.includes(allowed) || allowed.includes(file.type)
-      );
+    // MIME type validation (if available); skipped once the magic bytes have decided
+    if (header === undefined) {
+      if (file.type) {
+        const isAllowedMimeType = this.config.allowedMimeTypes.some(
+          allowed => file.type.includes(allowed) || allowed.includes(file.type)
+        );
 
-      if (!isAllowedMimeType) {
+        if (!isAllowedMimeType) {
+          warnings.push(
+            `File type ${file.type} may not be supported. Expected binary executable files.`
+          );
+        }
+      } else {
         warnings.push(
-          `File type ${file.type} may not be supported. Expected binary executable files.`
+          'File type could not be determined. Ensure this is a binary executable file.'
         );
       }
-    } else {
-      warnings.push('File type could not be determined. Ensure this is a binary executable file.');
     }
 
     // Name validation
@@ -122,6 +152,7 @@ class FileUploadService {
       errors,
       warnings,
       fileInfo,
+      ...(header && { header }),
     };
   }
 
@@ -133,9 +164,37 @@ class FileUploadService {
   }
 
   /**
-   * Check for duplicate files in upload queue
+   * Validate a file by reading its magic bytes and executable header
+   */
+  public async inspectFile(file: File): Promise<FileValidationResult> {
+    if (file.size === 0) {
+      return this.validateFile(file);
+    }
+
+    try {
+      return this.validateFile(file, await sniffBinaryFormat(file));
+    } catch (error) {
+      // Fall back to name-based validation if the file cannot be read
+      const result = this.validateFile(file);
+      result.warnings.push(`Could not read file header: ${this.getErrorMessage(error)}`);
+      return result;
+    }
+  }
+
+  /**
+   * Inspect multiple files, reading their headers in parallel
    */
-  public checkDuplicates(newFiles: File[]): {
+  public async inspectFiles(files: File[]): Promise<FileValidationResult[]> {
+    return Promise.all(files.map(file => this.inspectFile(file)));
+  }
+
+  /**
+   * Check for duplicate files in upload queue (or in a given selection)
+   */
+  public checkDuplicates(
+    newFiles: File[],
+    existingFiles: File[] = this.uploadQueue
+  ): {
     duplicates: Array<{ newFile: File; existingFile: File }>;
     unique: File[];
   } {
@@ -143,7 +202,8 @@ class FileUploadService {
     const unique: File[] = [];
 
     newFiles.forEach(newFile => {
-      const existing = this.uploadQueue.find(
+      // Also catch duplicates within the batch itself (e.g. the same folder dropped twice)
+      const existing = [...existingFiles, ...unique].find(
         existingFile =>
           existingFile.name === newFile.name &&
           existingFile.size === newFile.size &&
@@ -160,6 +220,94 @@ class FileUploadService {
     return { duplicates, unique };
   }
 
+  /**
+   * Stable key for a selected file, used to track per-file state in the UI
+   */
+  public getFileKey(file: File): string {
+    const path = (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name;
+    return `${path}:${file.size}:${file.lastModified}`;
+  }
+
+  /**
+   * Submit files through a throttled queue, running at most `maxConcurrentUploads` at a time
+   */
+  public async processUploadQueue<T>(
+    files: File[],
+    upload: (file: File, signal: AbortSignal) => Promise<T>,
+    onProgress?: (progress: UploadProgress, file: File) => void
+  ): Promise<QueuedUploadResult<T>[]> {
+    const results = new Map<File, QueuedUploadResult<T>>();
+    this.uploadQueue.push(...files);
+
+    const worker = async () => {
+      let file = this.uploadQueue.shift();
+      while (file) {
+        const current = file;
+        const tracker = this.createProgressTracker(current, progress =>
+          onProgress?.(progress, current)
+        );
+        const controller = new AbortController();
+        this.abortControllers.set(tracker.fileId, controller);
+
+        try {
+          tracker.updateProgress(0, 'uploading');
+          const result = await upload(current, controller.signal);
+          tracker.complete();
+          results.set(current, {
+            file: current,
+            fileId: tracker.fileId,
+            status: 'completed',
+            result,
+          });
+        } catch (error) {
+          if (controller.signal.aborted) {
+            tracker.updateProgress(0, 'cancelled', 'Upload cancelled by user');
+            results.set(current, { file: current, fileId: tracker.fileId, status: 'cancelled' });
+          } else {
+            const message = this.getErrorMessage(error);
+            tracker.error(message);
+            results.set(current, {
+              file: current,
+              fileId: tracker.fileId,
+              status: 'error',
+              error: message,
+            });
+          }
+        } finally {
+          this.abortControllers.delete(tracker.fileId);
+        }
+
+        file = this.uploadQueue.shift();
+      }
+    };
+
+    const workerCount = Math.max(1, Math.min(this.config.maxConcurrentUploads, files.length));
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+    // Files still missing a result were dropped from the queue by cancelAllUploads()
+    return files.map(
+      file => results.get(file) ?? { file, status: 'cancelled', error: 'Upload cancelled by user' }
+    );
+  }
+
+  /**
+   * Collect files from a drop event, walking into dropped folders where the browser allows it
+   */
+  public async collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+    const entries = Array.from(dataTransfer.items || [])
+      .filter(item => item.kind === 'file')
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+
+    // Fall back to the flat file list when entries are not supported
+    if (entries.length === 0) {
+      return Array.from(dataTransfer.files || []);
+    }
+
+    const files = await Promise.all(entries.map(entry => this.readEntry(entry)));
+    return files.flat();
+  }
+
   /**
    * Get current upload progress for all active uploads
    */
@@ -212,6 +360,11 @@ class FileUploadService {
     });
 
     this.abortControllers.clear();
+
+    // Drop anything still waiting in the queue so it is never started
+    cancelled += this.uploadQueue.length;
+    this.uploadQueue = [];
+
     return cancelled;
   }
 
@@ -344,10 +497,24 @@ class FileUploadService {
         onDragStateChange(false);
       }
 
-      const files = e.dataTransfer?.files;
-      if (files && files.length > 0) {
-        const fileArray = Array.from(files);
-        onFilesDropped(fileArray);
+      if (e.dataTransfer) {
+        // The browser empties the data transfer once the drop event returns
+        const flatFiles = Array.from(e.dataTransfer.files || []);
+        this.collectDroppedFiles(e.dataTransfer)
+          .catch(error => {
+            // Folders could not be read; upload what was dropped at the top level instead
+            logger.warn(
+              'Could not read dropped folders',
+              { component: 'FileUploadService' },
+              error
+            );
+            return flatFiles;
+          })
+          .then(files => {
+            if (files.length > 0) {
+              onFilesDropped(files);
+            }
+          });
       }
     };
 
@@ -366,6 +533,50 @@ class FileUploadService {
     };
   }
 
+  /**
+   * Recursively read a dropped file system entry into files
+   */
+  private async readEntry(entry: FileSystemEntry): Promise<File[]> {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject)
+      );
+      return [file];
+    }
+
+    if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      const children: FileSystemEntry[] = [];
+
+      // readEntries returns results in batches until an empty batch is returned
+      let batch: FileSystemEntry[];
+      do {
+        batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+          reader.readEntries(resolve, reject)
+        );
+        children.push(...batch);
+      } while (batch.length > 0);
+
+      const files = await Promise.all(children.map(child => this.readEntry(child)));
+      return files.flat();
+    }
+
+    return [];
+  }
+
+  /**
+   * Extract a readable message from upload errors (including RTK Query error payloads)
+   */
+  private getErrorMessage(error: unknown): string {
+    if (error instanceof Error) return error.message;
+    if (error && typeof error === 'object') {
+      const { message, data } = error as { message?: string; data?: { message?: string } };
+      if (message) return message;
+      if (data?.message) return data.message;
+    }
+    return 'Upload failed';
+  }
+
   /**
    * Get readable file extension
    */
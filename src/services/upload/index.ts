@@ -4,4 +4,9 @@ export type {
   FileValidationResult,
   UploadProgress,
   UploadConfig,
+  QueuedUploadResult,
 } from './fileUploadService';
+export { fileHashService } from './fileHashService';
+export type { FileHashService } from './fileHashService';
+export { fileCacheService } from './fileCacheService';
+export type { FileCacheService } from './fileCacheService';
@@ -0,0 +1,421 @@
+/**
+ * Credential Vault
+ * Keeps API keys encrypted at rest under a passphrase (PBKDF2-SHA-256 deriving an AES-256-GCM
+ * key) and locks itself again after a period of inactivity
+ */
+
+import { vaultStorage } from '../../utils/storage';
+
+export type VaultStatus = 'uninitialized' | 'locked' | 'unlocked';
+
+export interface VaultState {
+  status: VaultStatus;
+  autoLockMinutes: number;
+  // Ids of the stored secrets, known while locked too
+  secretIds: string[];
+}
+
+interface StoredVault {
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  // Encrypted JSON object of secrets by id
+  data: string;
+  // The ids in `data`, kept in the clear so they can be listed and removed while locked. A
+  // secret whose id is missing here is dropped on the next unlock.
+  secretIds: string[];
+  autoLockMinutes: number;
+}
+
+const VAULT_VERSION = 1;
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const AUTO_LOCK_OPTIONS = [5, 15, 30, 60];
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+// Input events closer together than this do not restart the idle timer
+const ACTIVITY_THROTTLE_MS = 5000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const readStoredVault = (value: unknown): StoredVault | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const vault = value as Partial<StoredVault>;
+  if (
+    typeof vault.data !== 'string' ||
+    typeof vault.kdf?.salt !== 'string' ||
+    typeof vault.kdf.iterations !== 'number' ||
+    typeof vault.cipher?.iv !== 'string'
+  ) {
+    return null;
+  }
+  return {
+    ...(vault as StoredVault),
+    secretIds: Array.isArray(vault.secretIds)
+      ? vault.secretIds.filter((id): id is string => typeof id === 'string')
+      : [],
+    autoLockMinutes:
+      typeof vault.autoLockMinutes === 'number' && vault.autoLockMinutes > 0
+        ? vault.autoLockMinutes
+        : DEFAULT_AUTO_LOCK_MINUTES,
+  };
+};
+
+const deriveKey = async (
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const decryptSecrets = async (
+  key: CryptoKey,
+  vault: StoredVault
+): Promise<Record<string, string>> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(vault.cipher.iv) },
+    key,
+    fromBase64(vault.data)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext)) as Record<string, string>;
+};
+
+// Secrets removed while the vault was locked are no longer listed and are dropped on unlock
+const withoutForgotten = (
+  secrets: Record<string, string>,
+  stored: StoredVault
+): Record<string, string> =>
+  Object.fromEntries(Object.entries(secrets).filter(([id]) => stored.secretIds.includes(id)));
+
+class CredentialVault {
+  // Only held while unlocked; the derived key cannot be exported
+  private key: CryptoKey | null = null;
+  private salt: Uint8Array<ArrayBuffer> | null = null;
+  private secrets: Record<string, string> = {};
+  private autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastActivity = 0;
+  private state: VaultState;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    const stored = readStoredVault(vaultStorage.get());
+    this.state = {
+      status: stored ? 'locked' : 'uninitialized',
+      autoLockMinutes: stored?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES,
+      secretIds: stored?.secretIds ?? [],
+    };
+    this.setupActivityTracking();
+  }
+
+  /**
+   * Current vault state (stable reference until it changes)
+   */
+  public getState = (): VaultState => this.state;
+
+  /**
+   * Listen for the vault being created, unlocked, locked or changed; returns an unsubscribe
+   * function
+   */
+  public onStateChange = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  public isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  /**
+   * Whether a secret is stored under the id, whether or not the vault is unlocked
+   */
+  public hasSecret(id: string): boolean {
+    return this.state.secretIds.includes(id);
+  }
+
+  /**
+   * Resolves once the vault is unlocked, or rejects if the signal aborts first
+   */
+  public waitUntilUnlocked(signal?: AbortSignal): Promise<void> {
+    if (this.isUnlocked()) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const stop = () => {
+        unsubscribe();
+        signal?.removeEventListener('abort', handleAbort);
+      };
+      const handleAbort = () => {
+        stop();
+        reject(new Error('Stopped waiting for the credential vault'));
+      };
+      const unsubscribe = this.onStateChange(() => {
+        if (!this.isUnlocked()) return;
+        stop();
+        resolve();
+      });
+
+      if (signal?.aborted) {
+        handleAbort();
+      } else {
+        signal?.addEventListener('abort', handleAbort);
+      }
+    });
+  }
+
+  /**
+   * Set up a new, empty vault protected by the passphrase; it is left unlocked
+   */
+  public async create(passphrase: string): Promise<void> {
+    if (this.state.status !== 'uninitialized') {
+      throw new Error('A credential vault already exists');
+    }
+    this.validatePassphrase(passphrase);
+
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    this.key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    this.salt = salt;
+    this.secrets = {};
+    await this.persist();
+    this.afterUnlock();
+  }
+
+  /**
+   * Decrypt the vault with the passphrase. Fails without changing anything if it is wrong.
+   */
+  public async unlock(passphrase: string): Promise<void> {
+    const stored = readStoredVault(vaultStorage.get());
+    if (!stored) throw new Error('No credential vault has been set up');
+    if (this.isUnlocked()) return;
+
+    const salt = fromBase64(stored.kdf.salt);
+    const key = await deriveKey(passphrase, salt, stored.kdf.iterations);
+    let secrets: Record<string, string>;
+    try {
+      secrets = await decryptSecrets(key, stored);
+    } catch {
+      // AES-GCM authentication fails when the key was derived from the wrong passphrase
+      throw new Error('Incorrect passphrase');
+    }
+    this.key = key;
+    this.salt = salt;
+    this.secrets = withoutForgotten(secrets, stored);
+    if (Object.keys(this.secrets).length < Object.keys(secrets).length) {
+      await this.persist();
+    }
+    this.afterUnlock();
+  }
+
+  /**
+   * Forget the key and every decrypted secret
+   */
+  public lock(): void {
+    if (!this.isUnlocked()) return;
+    this.key = null;
+    this.salt = null;
+    this.secrets = {};
+    this.clearAutoLock();
+    this.setState({ status: 'locked' });
+  }
+
+  /**
+   * Read a secret; throws while the vault is locked
+   */
+  public getSecret(id: string): string | undefined {
+    this.requireUnlocked();
+    this.touch();
+    return this.secrets[id];
+  }
+
+  /**
+   * Store secrets, replacing any with the same ids; throws while the vault is locked
+   */
+  public async setSecrets(entries: Record<string, string>): Promise<void> {
+    this.requireUnlocked();
+    this.touch();
+    this.secrets = { ...this.secrets, ...entries };
+    await this.persist();
+    this.setState({ secretIds: Object.keys(this.secrets) });
+  }
+
+  public async setSecret(id: string, value: string): Promise<void> {
+    await this.setSecrets({ [id]: value });
+  }
+
+  /**
+   * Delete secrets by id. While the vault is locked the ids are forgotten straight away and the
+   * encrypted values are dropped on the next unlock.
+   */
+  public async removeSecrets(ids: string[]): Promise<void> {
+    if (!this.isUnlocked()) {
+      const stored = readStoredVault(vaultStorage.get());
+      if (!stored) return;
+      const secretIds = stored.secretIds.filter(id => !ids.includes(id));
+      vaultStorage.set({ ...stored, secretIds });
+      this.setState({ secretIds });
+      return;
+    }
+
+    this.touch();
+    this.secrets = Object.fromEntries(
+      Object.entries(this.secrets).filter(([id]) => !ids.includes(id))
+    );
+    await this.persist();
+    this.setState({ secretIds: Object.keys(this.secrets) });
+  }
+
+  /**
+   * Re-encrypt every secret under a new passphrase
+   */
+  public async changePassphrase(current: string, next: string): Promise<void> {
+    this.validatePassphrase(next);
+    const stored = readStoredVault(vaultStorage.get());
+    if (!stored) throw new Error('No credential vault has been set up');
+
+    let secrets: Record<string, string>;
+    try {
+      const currentKey = await deriveKey(
+        current,
+        fromBase64(stored.kdf.salt),
+        stored.kdf.iterations
+      );
+      secrets = await decryptSecrets(currentKey, stored);
+    } catch {
+      throw new Error('Incorrect passphrase');
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    this.key = await deriveKey(next, salt, PBKDF2_ITERATIONS);
+    this.salt = salt;
+    this.secrets = withoutForgotten(secrets, stored);
+    await this.persist();
+    this.afterUnlock();
+  }
+
+  /**
+   * Delete the vault and every secret in it, e.g. when the passphrase is forgotten
+   */
+  public reset(): void {
+    this.lock();
+    vaultStorage.clear();
+    this.setState({ status: 'uninitialized', secretIds: [] });
+  }
+
+  public setAutoLockMinutes(minutes: number): void {
+    const autoLockMinutes = minutes > 0 ? minutes : DEFAULT_AUTO_LOCK_MINUTES;
+    // The setting lives outside the encrypted data so it applies before unlocking
+    const stored = readStoredVault(vaultStorage.get());
+    if (stored) vaultStorage.set({ ...stored, autoLockMinutes });
+    this.setState({ autoLockMinutes });
+    if (this.isUnlocked()) this.scheduleAutoLock();
+  }
+
+  private validatePassphrase(passphrase: string): void {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+  }
+
+  private requireUnlocked(): void {
+    if (!this.isUnlocked()) {
+      throw new Error('The credential vault is locked');
+    }
+  }
+
+  /**
+   * Encrypt the secrets with a fresh IV and save them
+   */
+  private async persist(): Promise<void> {
+    if (!this.key || !this.salt) return;
+
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      this.key,
+      new TextEncoder().encode(JSON.stringify(this.secrets))
+    );
+    const vault: StoredVault = {
+      version: VAULT_VERSION,
+      kdf: {
+        name: 'PBKDF2',
+        hash: 'SHA-256',
+        iterations: PBKDF2_ITERATIONS,
+        salt: toBase64(this.salt),
+      },
+      cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+      data: toBase64(new Uint8Array(ciphertext)),
+      secretIds: Object.keys(this.secrets),
+      autoLockMinutes: this.state.autoLockMinutes,
+    };
+    vaultStorage.set(vault);
+  }
+
+  private afterUnlock(): void {
+    this.lastActivity = Date.now();
+    this.scheduleAutoLock();
+    this.setState({ status: 'unlocked', secretIds: Object.keys(this.secrets) });
+  }
+
+  private touch(): void {
+    const now = Date.now();
+    if (now - this.lastActivity < ACTIVITY_THROTTLE_MS) return;
+    this.lastActivity = now;
+    this.scheduleAutoLock();
+  }
+
+  private scheduleAutoLock(): void {
+    this.clearAutoLock();
+    this.autoLockTimer = setTimeout(() => this.lock(), this.state.autoLockMinutes * 60 * 1000);
+  }
+
+  private clearAutoLock(): void {
+    if (this.autoLockTimer) {
+      clearTimeout(this.autoLockTimer);
+      this.autoLockTimer = null;
+    }
+  }
+
+  /**
+   * Any user input counts as activity, so the vault only locks while the app is left alone
+   */
+  private setupActivityTracking(): void {
+    if (typeof window === 'undefined') return;
+
+    const handleActivity = () => {
+      if (this.isUnlocked()) this.touch();
+    };
+    ACTIVITY_EVENTS.forEach(event =>
+      window.addEventListener(event, handleActivity, { passive: true, capture: true })
+    );
+  }
+
+  private setState(changes: Partial<VaultState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Export singleton instance
+export const credentialVault = new CredentialVault();
+
+// Export types for external use
+export type { CredentialVault };
@@ -0,0 +1,2 @@
+export { credentialVault, AUTO_LOCK_OPTIONS, MIN_PASSPHRASE_LENGTH } from './credentialVault';
+export type { CredentialVault, VaultState, VaultStatus } from './credentialVault';
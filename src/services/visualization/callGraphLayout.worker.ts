@@ -0,0 +1,29 @@
+/**
+ * Call graph layout worker
+ * Runs the force-directed layout off the main thread so large graphs do not freeze the results view
+ */
+
+import { layoutCallGraph } from '../../utils/analysis/callGraph';
+import type { CallGraph, CallGraphLayout } from '../../utils/analysis/callGraph';
+
+export interface CallGraphLayoutRequest {
+  id: number;
+  graph: CallGraph;
+}
+
+export type CallGraphLayoutResponse =
+  | { id: number; layout: CallGraphLayout }
+  | { id: number; error: string };
+
+self.onmessage = (event: MessageEvent<CallGraphLayoutRequest>) => {
+  const { id, graph } = event.data;
+  let response: CallGraphLayoutResponse;
+
+  try {
+    response = { id, layout: layoutCallGraph(graph) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'Layout failed' };
+  }
+
+  self.postMessage(response);
+};
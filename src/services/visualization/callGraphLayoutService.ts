@@ -0,0 +1,97 @@
+/**
+ * Call Graph Layout Service
+ * Lays out call graphs in a Web Worker, keeping small graphs on the main thread
+ */
+
+import { layoutCallGraph } from '../../utils/analysis/callGraph';
+import type { CallGraph, CallGraphLayout } from '../../utils/analysis/callGraph';
+import type { CallGraphLayoutRequest, CallGraphLayoutResponse } from './callGraphLayout.worker';
+
+interface PendingRequest {
+  resolve: (layout: CallGraphLayout) => void;
+  reject: (error: Error) => void;
+}
+
+// Below this size the layout is quicker than the round trip to the worker
+const MAIN_THREAD_NODE_LIMIT = 150;
+
+class CallGraphLayoutService {
+  private worker: Worker | null = null;
+  private nextRequestId = 0;
+  private pending = new Map<number, PendingRequest>();
+
+  /**
+   * Compute node positions for a graph
+   */
+  public layout(graph: CallGraph): Promise<CallGraphLayout> {
+    const worker = graph.nodes.length > MAIN_THREAD_NODE_LIMIT ? this.getWorker() : null;
+    if (!worker) {
+      try {
+        return Promise.resolve(layoutCallGraph(graph));
+      } catch (error) {
+        return Promise.reject(error instanceof Error ? error : new Error('Layout failed'));
+      }
+    }
+
+    const id = ++this.nextRequestId;
+    return new Promise<CallGraphLayout>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      const request: CallGraphLayoutRequest = { id, graph };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Stop the worker and reject any outstanding requests
+   */
+  public dispose(): void {
+    this.failPending(new Error('Layout was cancelled'));
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker) return this.worker;
+    if (typeof Worker === 'undefined') return null;
+
+    try {
+      this.worker = new Worker(new URL('./callGraphLayout.worker.ts', import.meta.url), {
+        type: 'module',
+      });
+    } catch {
+      return null;
+    }
+
+    this.worker.onmessage = (event: MessageEvent<CallGraphLayoutResponse>) => {
+      const response = event.data;
+      const request = this.pending.get(response.id);
+      if (!request) return;
+
+      this.pending.delete(response.id);
+      if ('layout' in response) {
+        request.resolve(response.layout);
+      } else {
+        request.reject(new Error(response.error));
+      }
+    };
+
+    this.worker.onerror = event => {
+      this.failPending(new Error(event.message || 'Layout worker failed'));
+      this.worker?.terminate();
+      this.worker = null;
+    };
+
+    return this.worker;
+  }
+
+  private failPending(error: Error): void {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+}
+
+// Export singleton instance
+export const callGraphLayoutService = new CallGraphLayoutService();
+
+// Export types for external use
+export type { CallGraphLayoutService };
@@ -0,0 +1,2 @@
+export { callGraphLayoutService } from './callGraphLayoutService';
+export type { CallGraphLayoutService } from './callGraphLayoutService';
@@ -3,6 +3,7 @@ import { type TypedUseSelectorHook, useDispatch, useSelector } from 'react-redux
 import { persistStore, FLUSH, REHYDRATE, PAUSE, PERSIST, PURGE, REGISTER } from 'redux-persist';
 import { analysisApi } from '../services/api/analysisApi';
 import analysisReducer from './slices/analysisSlice';
+import notificationsReducer from './slices/notificationsSlice';
 import { errorMiddleware } from './middleware';
 import { isDevelopment } from '../utils/config';
 import { createPersistedAnalysisReducer } from './persistConfig';
@@ -12,6 +13,8 @@ export const store = configureStore({
   reducer: {
     // Analysis domain slice with persistence for job history
     analysis: createPersistedAnalysisReducer(analysisReducer),
+    // In-app notifications and their history for this session
+    notifications: notificationsReducer,
     // RTK Query API slice for server state management
     [analysisApi.reducerPath]: analysisApi.reducer,
   },
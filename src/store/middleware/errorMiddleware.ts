@@ -1,26 +1,79 @@
 import { isRejectedWithValue, type MiddlewareAPI, type Middleware } from '@reduxjs/toolkit';
+import { errorService } from '../../services/error';
+import type { ProcessedError } from '../../services/error';
+import { logger } from '../../utils/logger';
+import { addNotification } from '../slices/notificationsSlice';
+import type { NewNotification } from '../slices/notificationsSlice';
+
+// Actions the notification center knows how to carry out
+const SUPPORTED_ACTIONS = new Set([
+  'retry',
+  'open-provider-settings',
+  'check-connection',
+  'refresh',
+  'dismiss',
+]);
+
+/**
+ * Turn a processed API error into a notification. Only queries can be retried from the
+ * notification; mutations carry uploads and are retried from where they were started.
+ */
+const toErrorNotification = (
+  processed: ProcessedError,
+  endpointName: string,
+  request: { type?: string; originalArgs?: unknown }
+): NewNotification => {
+  const canRetryHere = processed.canRetry && request.type === 'query';
+  const actions = (processed.actions ?? []).filter(
+    ({ action }) => SUPPORTED_ACTIONS.has(action) && (action !== 'retry' || canRetryHere)
+  );
+
+  return {
+    key: `${endpointName}:${processed.type}:${processed.statusCode ?? ''}:${processed.technicalMessage}`,
+    severity: processed.severity === 'low' ? 'warning' : 'error',
+    message: processed.userMessage,
+    detail: processed.technicalMessage,
+    source: endpointName,
+    actions,
+    ...(canRetryHere && { retry: { endpointName, args: request.originalArgs } }),
+  };
+};
 
 /**
  * Error handling middleware for RTK Query and other async actions
- * Logs errors and provides centralized error handling
+ * Logs errors and reports them to the user through the notification center
  */
-export const errorMiddleware: Middleware = (_api: MiddlewareAPI) => next => action => {
+export const errorMiddleware: Middleware = (api: MiddlewareAPI) => next => action => {
   // Check if action was rejected by RTK Query
   if (isRejectedWithValue(action)) {
     const { error, meta } = action;
+    const request = (meta?.arg ?? {}) as {
+      endpointName?: string;
+      originalArgs?: unknown;
+      type?: string;
+    };
+    const endpointName = request.endpointName || 'unknown';
 
-    // Log API errors with context
-    console.error('API Error:', {
-      endpoint: (meta?.arg as { endpointName?: string })?.endpointName || 'unknown',
-      status: (error as { status?: unknown })?.status,
-      message:
-        (error as { data?: { message?: string }; message?: string })?.data?.message ||
+    // Log API errors with context. Mutation arguments are left out: job submissions carry the
+    // file and the decrypted API key.
+    logger.error(
+      'API Error',
+      {
+        component: 'errorMiddleware',
+        endpoint: endpointName,
+        status: (error as { status?: unknown })?.status,
+      },
+      (error as { data?: { message?: string }; message?: string })?.data?.message ||
         (error as Error)?.message,
-      originalArgs: (meta?.arg as { originalArgs?: unknown })?.originalArgs,
-    });
+      ...(request.type === 'query' ? [request.originalArgs] : [])
+    );
 
-    // You could dispatch a global error action here
-    // or show toast notifications
+    // RTK Query puts the error response in the payload
+    const processed = errorService.processError(action.payload, {
+      component: 'errorMiddleware',
+      action: endpointName,
+    });
+    api.dispatch(addNotification(toErrorNotification(processed, endpointName, request)));
   }
 
   return next(action);
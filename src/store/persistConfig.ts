@@ -1,13 +1,15 @@
 /**
  * Redux Persist configuration
- * Selectively persists job history and UI preferences
+ * Selectively persists job history, annotations and UI preferences to IndexedDB. Full results
+ * are kept separately in the results store.
  */
 
 import { persistReducer } from 'redux-persist';
-import storage from 'redux-persist/lib/storage'; // localStorage
+// Imported directly; the services/history index also loads services that need the store
+import { indexedDbPersistStorage } from '../services/history/persistStorage';
 import type { AnalysisState } from './slices/analysisSlice';
 
-// Transform to exclude sensitive data and large objects
+// Transform to exclude sensitive data
 const analysisTransform = {
   in: (inboundState: AnalysisState): AnalysisState => {
     // Clean up any sensitive data before persisting
@@ -17,19 +19,6 @@ const analysisTransform = {
       return {
         ...job,
         config: configWithoutApiKey,
-        // Limit results size for storage efficiency
-        ...(job.results && {
-          results: {
-            ...(job.results.decompilation && {
-              decompilation: {
-                ...job.results.decompilation,
-                // Keep metadata but limit code size
-                code: job.results.decompilation.code?.substring(0, 10000) || '',
-              },
-            }),
-            ...(job.results.translation && { translation: job.results.translation }),
-          },
-        }),
       };
     });
 
@@ -62,14 +51,17 @@ const analysisTransform = {
 // Analysis slice persist config
 export const analysisPersistConfig = {
   key: 'analysis',
-  storage,
+  storage: indexedDbPersistStorage,
   // Only persist specific parts of the state
-  whitelist: ['jobHistory', 'ui'] as Array<keyof AnalysisState>,
+  whitelist: ['jobHistory', 'campaigns', 'annotations', 'ui'] as Array<keyof AnalysisState>,
   // Don't persist these sensitive or temporary fields
   blacklist: ['activeJobs', 'polling', 'isLoading', 'error'] as Array<keyof AnalysisState>,
   transforms: [analysisTransform],
   // Throttle writes to storage
   throttle: 1000,
+  // Reading a large history from IndexedDB can take longer than the 5 second default; timing out
+  // would start from empty state and overwrite the saved history
+  timeout: 30000,
 };
 
 // Helper function to create persisted reducer
@@ -6,7 +6,15 @@
 import { createSelector } from '@reduxjs/toolkit';
 import type { RootState } from '../index';
 import type { AnalysisState } from '../slices/analysisSlice';
-import type { JobStatusType, JobPhaseType } from '../../types/analysis.types';
+import type { AnalysisJob, JobStatusType, JobPhaseType } from '../../types/analysis.types';
+import { analysisApi } from '../../services/api/analysisApi';
+import {
+  buildJobSearchText,
+  getJobCost,
+  getJobProvider,
+  matchesSearchText,
+  toJobHistoryRow,
+} from '../../utils/analysis';
 
 // Helper to safely access analysis state (handles PersistPartial)
 const getAnalysisState = (state: RootState): AnalysisState =>
@@ -16,6 +24,8 @@ const getAnalysisState = (state: RootState): AnalysisState =>
 export const selectAnalysisState = (state: RootState) => getAnalysisState(state);
 export const selectActiveJobs = (state: RootState) => getAnalysisState(state).activeJobs;
 export const selectJobHistory = (state: RootState) => getAnalysisState(state).jobHistory;
+export const selectCampaigns = (state: RootState) => getAnalysisState(state).campaigns;
+export const selectAnnotations = (state: RootState) => getAnalysisState(state).annotations;
 export const selectUIState = (state: RootState) => getAnalysisState(state).ui;
 export const selectPollingState = (state: RootState) => getAnalysisState(state).polling;
 export const selectIsLoading = (state: RootState) => getAnalysisState(state).isLoading;
@@ -34,6 +44,22 @@ export const selectJobById = (jobId: string) =>
     (activeJobs, history) => activeJobs[jobId] || history.find(job => job.id === jobId)
   );
 
+// Re-translations started from a job, newest first
+export const selectChildJobs = (parentJobId: string) =>
+  createSelector([selectActiveJobsArray, selectJobHistory], (activeJobs, history) =>
+    [...activeJobs, ...history]
+      .filter(job => job.parentJobId === parentJobId)
+      .sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime())
+  );
+
+// Resubmissions of a failed job, newest first
+export const selectRetryJobs = (jobId: string) =>
+  createSelector([selectActiveJobsArray, selectJobHistory], (activeJobs, history) =>
+    [...activeJobs, ...history]
+      .filter(job => job.retryOfJobId === jobId)
+      .sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime())
+  );
+
 export const selectActiveJobById = (jobId: string) =>
   createSelector([selectActiveJobs], activeJobs => activeJobs[jobId]);
 
@@ -52,10 +78,97 @@ export const selectCompletedJobs = createSelector([selectJobHistory], history =>
   history.filter(job => job.status === 'completed')
 );
 
+// Jobs keyed by the SHA-256 of their binary, newest first. Failed and cancelled
+// jobs are left out since they produced nothing worth reopening.
+export const selectJobsByHash = createSelector(
+  [selectActiveJobsArray, selectJobHistory],
+  (activeJobs, history) => {
+    const jobsByHash = new Map<string, AnalysisJob[]>();
+    [...activeJobs, ...history]
+      .filter(job => job.hashes && job.status !== 'failed' && job.status !== 'cancelled')
+      .sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime())
+      .forEach(job => {
+        const sha256 = job.hashes?.sha256 ?? '';
+        jobsByHash.set(sha256, [...(jobsByHash.get(sha256) ?? []), job]);
+      });
+    return jobsByHash;
+  }
+);
+
 export const selectFailedJobs = createSelector([selectJobHistory], history =>
   history.filter(job => job.status === 'failed')
 );
 
+// Annotation selectors
+export const selectAnnotationSets = createSelector([selectAnnotations], annotations =>
+  Object.values(annotations)
+);
+
+export const selectBinaryAnnotations = (binaryKey: string) =>
+  createSelector([selectAnnotations], annotations => annotations[binaryKey]);
+
+// Campaign selectors
+export const selectCampaignsArray = createSelector([selectCampaigns], campaigns =>
+  Object.values(campaigns).sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  )
+);
+
+export const selectCampaignJobIds = createSelector([selectCampaigns], campaigns => {
+  const ids = new Set<string>();
+  Object.values(campaigns).forEach(campaign => campaign.jobIds.forEach(id => ids.add(id)));
+  return ids;
+});
+
+/**
+ * Aggregate progress for a campaign, preferring live status from the RTK Query cache
+ * over the submission-time snapshot kept in the analysis slice
+ */
+export const selectCampaignProgress = (campaignId: string) =>
+  createSelector(
+    [
+      (state: RootState) => selectCampaigns(state)[campaignId],
+      selectActiveJobs,
+      selectJobHistory,
+      (state: RootState) => state[analysisApi.reducerPath],
+    ],
+    (campaign, activeJobs, history, apiState) => {
+      const counts: Record<JobStatusType, number> = {
+        queued: 0,
+        processing: 0,
+        completed: 0,
+        failed: 0,
+        cancelled: 0,
+      };
+      if (!campaign) {
+        return { counts, progress: 0, submitted: 0, failedSubmissions: 0, isFinished: true };
+      }
+
+      let progressTotal = 0;
+      campaign.jobIds.forEach(jobId => {
+        const live = analysisApi.endpoints.getJobStatus.select(jobId)({
+          [analysisApi.reducerPath]: apiState,
+        }).data;
+        const stored = activeJobs[jobId] || history.find(job => job.id === jobId);
+        const status = live?.status ?? stored?.status ?? 'queued';
+        const progress =
+          status === 'completed' ? 100 : (live?.progress_percentage ?? stored?.progress ?? 0);
+
+        counts[status]++;
+        progressTotal += progress;
+      });
+
+      const submitted = campaign.jobIds.length;
+      return {
+        counts,
+        progress: submitted > 0 ? Math.round(progressTotal / submitted) : 0,
+        submitted,
+        failedSubmissions: campaign.failedFiles.length,
+        isFinished: counts.queued + counts.processing === 0,
+      };
+    }
+  );
+
 // UI selectors
 export const selectCurrentView = (state: RootState) => getAnalysisState(state).ui.currentView;
 export const selectSelectedJobId = (state: RootState) => getAnalysisState(state).ui.selectedJobId;
@@ -75,12 +188,24 @@ export const selectPanelStates = createSelector([selectUIState], ui => ({
   history: ui.historyPanelExpanded,
 }));
 
+// Search text per history job, rebuilt only when the history changes
+export const selectJobHistorySearchIndex = createSelector([selectJobHistory], history => {
+  const index = new Map<string, string>();
+  history.forEach(job => index.set(job.id, buildJobSearchText(job)));
+  return index;
+});
+
 // Filtered job history based on UI filters
 export const selectFilteredJobHistory = createSelector(
-  [selectJobHistory, selectFilters],
-  (history, filters) => {
+  [selectJobHistory, selectFilters, selectJobHistorySearchIndex],
+  (history, filters, searchIndex) => {
     let filtered = history;
 
+    if (filters.search?.trim()) {
+      const query = filters.search;
+      filtered = filtered.filter(job => matchesSearchText(searchIndex.get(job.id) ?? '', query));
+    }
+
     if (filters.status) {
       filtered = filtered.filter(job => job.status === filters.status);
     }
@@ -98,10 +223,18 @@ export const selectFilteredJobHistory = createSelector(
       });
     }
 
+    if (filters.llmProvider) {
+      filtered = filtered.filter(job => job.config.llmProvider === filters.llmProvider);
+    }
+
     return filtered;
   }
 );
 
+export const selectFilteredJobHistoryRows = createSelector([selectFilteredJobHistory], history =>
+  history.map(toJobHistoryRow)
+);
+
 // Polling selectors
 export const selectIsPolling = (state: RootState) => getAnalysisState(state).polling.isPolling;
 export const selectPollingInterval = (state: RootState) => getAnalysisState(state).polling.interval;
@@ -152,16 +285,23 @@ export const selectJobStats = createSelector(
 );
 
 // Cost tracking selectors
-export const selectTotalCost = createSelector([selectJobHistory], history =>
-  history.reduce((total, job) => total + (job.actualCost || 0), 0)
+// Running jobs count at their estimate so spend includes what is already committed
+const selectAllJobs = createSelector(
+  [selectActiveJobsArray, selectJobHistory],
+  (activeJobs, history) => [...activeJobs, ...history]
 );
 
-export const selectCostByProvider = createSelector([selectJobHistory], history => {
-  const costByProvider = history.reduce(
+export const selectTotalCost = createSelector([selectAllJobs], jobs =>
+  jobs.reduce((total, job) => total + (getJobCost(job) ?? 0), 0)
+);
+
+export const selectCostByProvider = createSelector([selectAllJobs], jobs => {
+  const costByProvider = jobs.reduce(
     (acc, job) => {
-      if (job.config.llmProvider && job.actualCost) {
-        const provider = job.config.llmProvider;
-        acc[provider] = (acc[provider] || 0) + job.actualCost;
+      const provider = getJobProvider(job);
+      const cost = getJobCost(job);
+      if (provider && cost) {
+        acc[provider] = (acc[provider] || 0) + cost;
       }
       return acc;
     },
@@ -170,6 +310,17 @@ export const selectCostByProvider = createSelector([selectJobHistory], history =
   return costByProvider;
 });
 
+/**
+ * Spend on jobs submitted at or after the given ISO timestamp, e.g. the start of the month
+ */
+export const selectCostSince = (since: string) =>
+  createSelector([selectAllJobs], jobs => {
+    const sinceTime = new Date(since).getTime();
+    return jobs
+      .filter(job => new Date(job.submittedAt).getTime() >= sinceTime)
+      .reduce((total, job) => total + (getJobCost(job) ?? 0), 0);
+  });
+
 // Progress tracking selectors
 export const selectOverallProgress = createSelector([selectActiveJobsArray], jobs => {
   if (jobs.length === 0) return 0;
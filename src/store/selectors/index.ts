@@ -1,2 +1,3 @@
 // Redux selectors exports
 export * from './analysisSelectors';
+export * from './notificationSelectors';
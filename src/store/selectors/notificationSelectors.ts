@@ -0,0 +1,19 @@
+/**
+ * Redux selectors for in-app notifications
+ */
+
+import { createSelector } from '@reduxjs/toolkit';
+import type { RootState } from '../index';
+
+export const selectNotifications = (state: RootState) => state.notifications.items;
+export const selectNotificationCenterOpen = (state: RootState) => state.notifications.centerOpen;
+
+export const selectUnreadNotificationCount = createSelector(
+  [selectNotifications],
+  notifications => notifications.filter(notification => !notification.read).length
+);
+
+// The newest notification still waiting to be shown as a toast
+export const selectToastNotification = createSelector([selectNotifications], notifications =>
+  notifications.find(notification => notification.showToast)
+);
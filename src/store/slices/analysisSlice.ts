@@ -1,5 +1,12 @@
 import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
-import type { AnalysisJob, AnalysisUIState, PollingState } from '../../types/analysis.types';
+import type {
+  AnalysisCampaign,
+  AnalysisJob,
+  AnalysisUIState,
+  BinaryAnnotations,
+  FunctionAnnotation,
+  PollingState,
+} from '../../types/analysis.types';
 
 export interface AnalysisState {
   // Active jobs being processed or monitored
@@ -8,6 +15,12 @@ export interface AnalysisState {
   // Job history for completed/failed jobs
   jobHistory: AnalysisJob[];
 
+  // Batch submissions grouping several jobs
+  campaigns: Record<string, AnalysisCampaign>;
+
+  // Analyst renames, comments and tags per binary
+  annotations: Record<string, BinaryAnnotations>;
+
   // UI state
   ui: AnalysisUIState;
 
@@ -22,6 +35,8 @@ export interface AnalysisState {
 const initialState: AnalysisState = {
   activeJobs: {},
   jobHistory: [],
+  campaigns: {},
+  annotations: {},
   ui: {
     currentView: 'submission',
     selectedJobId: undefined,
@@ -45,6 +60,11 @@ const analysisSlice = createSlice({
     // Job management actions
     addJob: (state, action: PayloadAction<AnalysisJob>) => {
       state.activeJobs[action.payload.id] = action.payload;
+
+      const campaign = action.payload.campaignId && state.campaigns[action.payload.campaignId];
+      if (campaign && !campaign.jobIds.includes(action.payload.id)) {
+        campaign.jobIds.push(action.payload.id);
+      }
     },
 
     updateJob: (state, action: PayloadAction<Partial<AnalysisJob> & { id: string }>) => {
@@ -52,8 +72,12 @@ const analysisSlice = createSlice({
       if (state.activeJobs[id]) {
         state.activeJobs[id] = { ...state.activeJobs[id], ...updates };
 
-        // Move to history if completed or failed
-        if (updates.status === 'completed' || updates.status === 'failed') {
+        // Move to history once the job has finished
+        if (
+          updates.status === 'completed' ||
+          updates.status === 'failed' ||
+          updates.status === 'cancelled'
+        ) {
           const job = state.activeJobs[id];
           state.jobHistory.unshift(job);
           delete state.activeJobs[id];
@@ -66,6 +90,30 @@ const analysisSlice = createSlice({
       }
     },
 
+    // Re-importing the same file replaces the earlier copy. The results themselves are kept in
+    // the results store, not in state.
+    importJob: (
+      state,
+      action: PayloadAction<{
+        job: AnalysisJob;
+        binaryKey: string;
+        annotations: Record<string, FunctionAnnotation>;
+      }>
+    ) => {
+      const { job, binaryKey, annotations } = action.payload;
+      state.jobHistory = [job, ...state.jobHistory.filter(existing => existing.id !== job.id)];
+
+      // Notes already made in this browser win over the ones in the file
+      if (!state.annotations[binaryKey] && Object.keys(annotations).length > 0) {
+        state.annotations[binaryKey] = {
+          binaryKey,
+          fileName: job.fileName,
+          functions: annotations,
+          updatedAt: job.imported?.importedAt ?? new Date().toISOString(),
+        };
+      }
+    },
+
     removeJob: (state, action: PayloadAction<string>) => {
       delete state.activeJobs[action.payload];
       state.polling.jobsBeingPolled = state.polling.jobsBeingPolled.filter(
@@ -90,6 +138,78 @@ const analysisSlice = createSlice({
       }
     },
 
+    // Campaign actions
+    createCampaign: (state, action: PayloadAction<AnalysisCampaign>) => {
+      state.campaigns[action.payload.id] = action.payload;
+    },
+
+    recordCampaignFailure: (
+      state,
+      action: PayloadAction<{ campaignId: string; fileName: string; error: string }>
+    ) => {
+      const { campaignId, fileName, error } = action.payload;
+      state.campaigns[campaignId]?.failedFiles.push({ fileName, error });
+    },
+
+    removeCampaign: (state, action: PayloadAction<string>) => {
+      delete state.campaigns[action.payload];
+    },
+
+    // Annotation actions
+    setFunctionAnnotation: (
+      state,
+      action: PayloadAction<{
+        binaryKey: string;
+        fileName: string;
+        annotation: FunctionAnnotation;
+      }>
+    ) => {
+      const { binaryKey, fileName, annotation } = action.payload;
+      const binary = (state.annotations[binaryKey] ??= {
+        binaryKey,
+        fileName,
+        functions: {},
+        updatedAt: annotation.updatedAt,
+      });
+      binary.updatedAt = annotation.updatedAt;
+
+      // Clearing every field removes the note rather than keeping an empty one
+      if (!annotation.displayName && !annotation.comment && annotation.tags.length === 0) {
+        delete binary.functions[annotation.originalName];
+      } else {
+        binary.functions[annotation.originalName] = annotation;
+      }
+    },
+
+    carryOverAnnotations: (
+      state,
+      action: PayloadAction<{
+        binaryKey: string;
+        fileName: string;
+        carriedFrom: string;
+        functions: Record<string, FunctionAnnotation>;
+      }>
+    ) => {
+      const { binaryKey, fileName, carriedFrom, functions } = action.payload;
+      // Never overwrite notes already made on this binary
+      if (state.annotations[binaryKey]) return;
+      state.annotations[binaryKey] = {
+        binaryKey,
+        fileName,
+        functions,
+        carriedFrom,
+        updatedAt: new Date().toISOString(),
+      };
+    },
+
+    // Keeps an empty set so the same notes are not carried over again
+    discardCarriedAnnotations: (state, action: PayloadAction<string>) => {
+      const binary = state.annotations[action.payload];
+      if (!binary) return;
+      binary.functions = {};
+      delete binary.carriedFrom;
+    },
+
     // UI actions
     setCurrentView: (state, action: PayloadAction<AnalysisState['ui']['currentView']>) => {
       state.ui.currentView = action.payload;
@@ -173,14 +293,27 @@ const analysisSlice = createSlice({
     removeFromHistory: (state, action: PayloadAction<string>) => {
       state.jobHistory = state.jobHistory.filter(job => job.id !== action.payload);
     },
+
+    // Drop the jobs the retention policy no longer keeps
+    pruneJobHistory: (state, action: PayloadAction<string[]>) => {
+      const pruned = new Set(action.payload);
+      state.jobHistory = state.jobHistory.filter(job => !pruned.has(job.id));
+    },
   },
 });
 
 export const {
   addJob,
   updateJob,
+  importJob,
   removeJob,
   cancelJob,
+  createCampaign,
+  recordCampaignFailure,
+  removeCampaign,
+  setFunctionAnnotation,
+  carryOverAnnotations,
+  discardCarriedAnnotations,
   setCurrentView,
   setSelectedJob,
   togglePanel,
@@ -195,6 +328,7 @@ export const {
   clearError,
   clearJobHistory,
   removeFromHistory,
+  pruneJobHistory,
 } = analysisSlice.actions;
 
 export default analysisSlice.reducer;
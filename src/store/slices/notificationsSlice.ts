@@ -0,0 +1,125 @@
+import { createSlice, nanoid, type PayloadAction } from '@reduxjs/toolkit';
+
+export interface NotificationAction {
+  label: string;
+  // What the notification center does when the button is clicked, e.g. 'retry'
+  action: string;
+  primary?: boolean;
+}
+
+export interface AppNotification {
+  id: string;
+  // Notifications with the same key are merged into one with a count
+  key: string;
+  severity: 'error' | 'warning' | 'info' | 'success';
+  message: string;
+  detail?: string;
+  // Where the notification came from, such as the API endpoint that failed
+  source?: string;
+  actions: NotificationAction[];
+  // The query the retry action runs again
+  retry?: { endpointName: string; args: unknown };
+  count: number;
+  firstAt: string;
+  lastAt: string;
+  read: boolean;
+  // Still waiting to be shown, or showing, as a toast
+  showToast: boolean;
+}
+
+export type NewNotification = Omit<
+  AppNotification,
+  'id' | 'count' | 'firstAt' | 'lastAt' | 'read' | 'showToast'
+>;
+
+export interface NotificationsState {
+  items: AppNotification[];
+  centerOpen: boolean;
+}
+
+// A repeat within this window only bumps the count instead of showing the toast again
+export const NOTIFICATION_DEDUPE_WINDOW_MS = 30 * 1000;
+const MAX_NOTIFICATIONS = 50;
+
+const initialState: NotificationsState = {
+  items: [],
+  centerOpen: false,
+};
+
+const notificationsSlice = createSlice({
+  name: 'notifications',
+  initialState,
+  reducers: {
+    addNotification: {
+      reducer: (state, action: PayloadAction<NewNotification & { id: string; at: string }>) => {
+        const { id, at, ...notification } = action.payload;
+        const index = state.items.findIndex(item => item.key === notification.key);
+        const existing = state.items[index];
+
+        if (existing) {
+          state.items.splice(index, 1);
+          const repeatedSoon =
+            new Date(at).getTime() - new Date(existing.lastAt).getTime() <
+            NOTIFICATION_DEDUPE_WINDOW_MS;
+          state.items.unshift({
+            ...existing,
+            ...notification,
+            count: existing.count + 1,
+            lastAt: at,
+            read: false,
+            showToast: existing.showToast || !repeatedSoon,
+          });
+          return;
+        }
+
+        state.items.unshift({
+          ...notification,
+          id,
+          count: 1,
+          firstAt: at,
+          lastAt: at,
+          read: false,
+          showToast: true,
+        });
+        state.items.splice(MAX_NOTIFICATIONS);
+      },
+      prepare: (notification: NewNotification) => ({
+        payload: { ...notification, id: nanoid(), at: new Date().toISOString() },
+      }),
+    },
+
+    dismissToast: (state, action: PayloadAction<string>) => {
+      const notification = state.items.find(item => item.id === action.payload);
+      if (notification) notification.showToast = false;
+    },
+
+    removeNotification: (state, action: PayloadAction<string>) => {
+      state.items = state.items.filter(item => item.id !== action.payload);
+    },
+
+    clearNotifications: state => {
+      state.items = [];
+    },
+
+    // Opening the center counts as reading everything in it
+    setNotificationCenterOpen: (state, action: PayloadAction<boolean>) => {
+      state.centerOpen = action.payload;
+      if (action.payload) {
+        state.items.forEach(item => {
+          item.read = true;
+          item.showToast = false;
+        });
+      }
+    },
+  },
+});
+
+export const {
+  addNotification,
+  dismissToast,
+  removeNotification,
+  clearNotifications,
+  setNotificationCenterOpen,
+} = notificationsSlice.actions;
+
+export default notificationsSlice.reducer;
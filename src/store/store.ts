@@ -2,6 +2,7 @@ import { configureStore } from '@reduxjs/toolkit';
 import { analysisApi } from '../services/api/analysisApi';
 import { createPersistedAnalysisReducer } from './persistConfig';
 import analysisReducer from './slices/analysisSlice';
+import notificationsReducer from './slices/notificationsSlice';
 
 // Configure store with RTK Query and persistent analysis state
 export const store = configureStore({
@@ -10,6 +11,8 @@ export const store = configureStore({
     [analysisApi.reducerPath]: analysisApi.reducer,
     // Analysis slice with persistence
     analysis: createPersistedAnalysisReducer(analysisReducer),
+    // In-app notifications for this session
+    notifications: notificationsReducer,
   },
   middleware: getDefaultMiddleware =>
     getDefaultMiddleware({
@@ -22,6 +22,7 @@ export const JobPhase = {
 
 export const AnalysisDepth = {
   BASIC: 'basic',
+  STANDARD: 'standard',
   DETAILED: 'detailed',
   COMPREHENSIVE: 'comprehensive',
 } as const;
@@ -37,7 +38,9 @@ export interface JobConfig {
   includeComments: boolean;
   decompilerOptions: Record<string, unknown>;
   llmProvider?: string;
+  llmModel?: string;
   llmApiKey?: string;
+  translationDetail?: 'basic' | 'standard' | 'detailed';
 }
 
 // Job results interface
@@ -95,6 +98,75 @@ export interface AnalysisJob {
   error?: string;
   estimatedCost?: number;
   actualCost?: number;
+  campaignId?: string;
+  // Set on translation-only jobs that reuse the parent job's decompilation
+  parentJobId?: string;
+  // Set on resubmissions of a failed job, pointing at that job
+  retryOfJobId?: string;
+  // Which automatic retry this is; absent when submitted by the user
+  retryAttempt?: number;
+  // Content digests, used to recognise a binary that was analyzed before
+  hashes?: FileHashes;
+  // Digest of the completed results, kept so history stays searchable without refetching
+  resultSummary?: JobResultSummary;
+  // Set on read-only jobs loaded from a results file rather than run on the server
+  imported?: ImportedJobSource;
+}
+
+export interface ImportedJobSource {
+  importedAt: string;
+  sourceName: string;
+  originalJobId: string;
+}
+
+export interface FileHashes {
+  sha256: string;
+  sha1: string;
+  md5: string;
+}
+
+export interface JobResultSummary {
+  functionCount: number;
+  functionNames: string[];
+  functionDescriptions: string[];
+  durationSeconds?: number;
+  llmProvider?: string;
+}
+
+// Batch of jobs submitted together with one shared configuration
+export interface AnalysisCampaign {
+  id: string;
+  name: string;
+  createdAt: string;
+  config: JobConfig;
+  totalFiles: number;
+  jobIds: string[];
+  failedFiles: Array<{
+    fileName: string;
+    error: string;
+  }>;
+}
+
+// Analyst notes on one function, keyed by the decompiler's name for it
+export interface FunctionAnnotation {
+  originalName: string;
+  // Kept so notes can follow a function that was renamed or moved in a new version
+  address?: string;
+  size?: number;
+  displayName?: string;
+  comment?: string;
+  tags: string[];
+  updatedAt: string;
+}
+
+// All notes made on one binary, keyed by its SHA-256 (or the job id when no hash is known)
+export interface BinaryAnnotations {
+  binaryKey: string;
+  fileName: string;
+  functions: Record<string, FunctionAnnotation>;
+  // Binary whose notes were carried over to start this set
+  carriedFrom?: string;
+  updatedAt: string;
 }
 
 // UI state interfaces
@@ -106,6 +178,8 @@ export interface JobFilters {
   };
   fileType?: string;
   llmProvider?: string;
+  // Free text matched against file names, hashes, function names and LLM summaries
+  search?: string;
 }
 
 export interface AnalysisUIState {
@@ -129,6 +203,7 @@ export interface PollingState {
 export interface AnalysisState {
   activeJobs: Record<string, AnalysisJob>;
   jobHistory: AnalysisJob[];
+  campaigns: Record<string, AnalysisCampaign>;
   ui: AnalysisUIState;
   polling: PollingState;
   isLoading: boolean;
@@ -0,0 +1,77 @@
+/**
+ * Analyst annotations
+ * Keys annotations by binary and carries them over to later versions of the same file
+ */
+
+import type { JobStatusResponse } from '../../services/api/analysisApi';
+import type {
+  AnalysisJob,
+  BinaryAnnotations,
+  FunctionAnnotation,
+} from '../../types/analysis.types';
+import { diffFunctions } from './resultsDiff';
+import type { FunctionSnapshot } from './resultsDiff';
+
+type AnalysisResults = NonNullable<JobStatusResponse['results']>;
+
+// Offered as one-click tags; analysts can add any other tag
+export const SUGGESTED_TAGS = ['crypto', 'C2', 'benign', 'network', 'anti-debug', 'persistence'];
+
+/**
+ * Annotations follow the binary, so the same file analyzed twice shares one set
+ */
+export const getBinaryKey = (jobId: string, job?: AnalysisJob): string =>
+  job?.hashes?.sha256 ?? `job:${jobId}`;
+
+/**
+ * The name an analyst gave a function, falling back to the decompiler's name
+ */
+export const getAnnotatedName = (
+  name: string,
+  annotations?: Record<string, FunctionAnnotation>
+): string => annotations?.[name]?.displayName || name;
+
+/**
+ * The most recently updated annotations on another binary with the same file name
+ */
+export const findPreviousAnnotations = (
+  sets: BinaryAnnotations[],
+  fileName: string,
+  binaryKey: string
+): BinaryAnnotations | undefined =>
+  sets
+    .filter(set => set.binaryKey !== binaryKey && set.fileName === fileName)
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())[0];
+
+/**
+ * Map annotations from an earlier version onto new results. Functions are matched by name,
+ * then by address, the same way result comparisons align them.
+ */
+export const carryOverFunctionAnnotations = (
+  previous: BinaryAnnotations,
+  results: AnalysisResults
+): Record<string, FunctionAnnotation> => {
+  const annotated: FunctionSnapshot[] = Object.values(previous.functions).map(annotation => ({
+    name: annotation.originalName,
+    ...(annotation.address && { address: annotation.address }),
+    ...(annotation.size !== undefined && { size: annotation.size }),
+  }));
+  const current: FunctionSnapshot[] = (results.functions ?? []).map(fn => ({
+    name: fn.name,
+    address: fn.address,
+    size: fn.size,
+  }));
+
+  const carried: Record<string, FunctionAnnotation> = {};
+  diffFunctions(annotated, current).forEach(({ base, target }) => {
+    const annotation = base && previous.functions[base.name];
+    if (!annotation || !target) return;
+    carried[target.name] = {
+      ...annotation,
+      originalName: target.name,
+      ...(target.address && { address: target.address }),
+      ...(target.size !== undefined && { size: target.size }),
+    };
+  });
+  return carried;
+};
@@ -0,0 +1,842 @@
+/**
+ * Binary format sniffing
+ * Reads executable headers in the browser (PE, ELF, Mach-O incl. fat, JAR and Java class)
+ * so files can be identified and previewed before they are sent for decompilation
+ */
+
+export type BinaryFormat = 'PE' | 'ELF' | 'Mach-O' | 'Mach-O (fat)' | 'JAR' | 'Java class';
+
+export interface BinarySection {
+  name: string;
+  virtualAddress?: string;
+  offset?: number;
+  size: number;
+  flags?: string;
+}
+
+export interface BinaryHeaderInfo {
+  format: BinaryFormat;
+  description: string;
+  architecture: string;
+  bitness?: 32 | 64;
+  endianness?: 'little' | 'big';
+  entryPoint?: string;
+  sections: BinarySection[];
+  importsCount?: number;
+  librariesCount?: number;
+  details: Record<string, string | number>;
+  // Per-architecture headers of a fat (universal) Mach-O
+  slices?: BinaryHeaderInfo[];
+  warnings: string[];
+}
+
+// Upper bounds keep malformed or hostile headers from stalling the page
+const MAX_SECTIONS = 256;
+const MAX_IMPORT_DESCRIPTORS = 1024;
+const MAX_IMPORT_THUNKS = 20000;
+const MAX_ZIP_ENTRIES = 100000;
+// Fat headers are told apart from Java class files by an architecture count below this
+const MAX_FAT_ARCHITECTURES = 30;
+const THIN_MACHO_MAGICS = [0xfeedface, 0xcefaedfe, 0xfeedfacf, 0xcffaedfe];
+
+/**
+ * Random access reader over a Blob/File, reading only the byte ranges it needs
+ */
+class BlobReader {
+  private readonly blob: Blob;
+  private readonly base: number;
+  private readonly length: number;
+
+  constructor(blob: Blob, base = 0, length = blob.size - base) {
+    this.blob = blob;
+    this.base = base;
+    this.length = length;
+  }
+
+  get size(): number {
+    return this.length;
+  }
+
+  // Reader over a sub-range, used for the slices of a fat Mach-O
+  public subReader(offset: number, length: number): BlobReader {
+    return new BlobReader(this.blob, this.base + offset, Math.min(length, this.length - offset));
+  }
+
+  public async view(offset: number, length: number): Promise<DataView> {
+    if (offset < 0 || offset >= this.length) {
+      throw new RangeError(`Offset 0x${offset.toString(16)} is outside the file`);
+    }
+    const end = Math.min(this.length, offset + length);
+    const buffer = await this.blob.slice(this.base + offset, this.base + end).arrayBuffer();
+    return new DataView(buffer);
+  }
+
+  public async bytes(offset: number, length: number): Promise<Uint8Array> {
+    const view = await this.view(offset, length);
+    return new Uint8Array(view.buffer);
+  }
+}
+
+const hex = (value: number | bigint): string => `0x${value.toString(16)}`;
+
+const readCString = (bytes: Uint8Array, offset = 0, maxLength = bytes.length): string => {
+  let end = offset;
+  while (end < bytes.length && end - offset < maxLength && bytes[end] !== 0) end++;
+  return new TextDecoder('latin1').decode(bytes.subarray(offset, end));
+};
+
+/**
+ * Detect the binary format from its magic bytes and parse the header.
+ * Returns null when the contents do not match any supported format.
+ */
+export async function sniffBinaryFormat(file: Blob): Promise<BinaryHeaderInfo | null> {
+  return sniffReader(new BlobReader(file));
+}
+
+async function sniffReader(reader: BlobReader): Promise<BinaryHeaderInfo | null> {
+  if (reader.size < 4) return null;
+
+  const magic = await reader.view(0, 8);
+  const be32 = magic.getUint32(0, false);
+
+  if (magic.getUint16(0, true) === 0x5a4d) {
+    return withMalformedFallback('PE', () => parsePE(reader));
+  }
+
+  if (be32 === 0x7f454c46) {
+    return withMalformedFallback('ELF', () => parseELF(reader));
+  }
+
+  if (THIN_MACHO_MAGICS.includes(be32)) {
+    return withMalformedFallback('Mach-O', () => parseMachO(reader));
+  }
+
+  if (be32 === 0xcafebabe || be32 === 0xcafebabf) {
+    // Fat Mach-O and Java class files share a magic; the architecture count of a fat
+    // header is small, while a class file stores its version (major >= 45) in the same word
+    const next = magic.byteLength >= 8 ? magic.getUint32(4, false) : 0;
+    if (be32 === 0xcafebabf || (next > 0 && next < MAX_FAT_ARCHITECTURES)) {
+      return withMalformedFallback('Mach-O (fat)', () => parseFatMachO(reader));
+    }
+    return withMalformedFallback('Java class', () => parseJavaClass(reader));
+  }
+
+  if (be32 === 0x504b0304) {
+    return withMalformedFallback('JAR', () => parseJar(reader));
+  }
+
+  return null;
+}
+
+/**
+ * Compact one-line summary of a header, e.g. "ELF • x86-64 • 64-bit"
+ */
+export function summarizeBinaryHeader(header: BinaryHeaderInfo): string {
+  return [header.format, header.architecture, header.bitness && `${header.bitness}-bit`]
+    .filter(Boolean)
+    .join(' • ');
+}
+
+/**
+ * Wrap a parser so a truncated header still reports the detected format
+ */
+async function withMalformedFallback<T extends BinaryHeaderInfo | null>(
+  format: BinaryFormat,
+  parse: () => Promise<T>
+): Promise<T | BinaryHeaderInfo> {
+  try {
+    return await parse();
+  } catch (error) {
+    return {
+      format,
+      description: `${format} (malformed header)`,
+      architecture: 'unknown',
+      sections: [],
+      details: {},
+      warnings: [
+        `The ${format} header could not be fully parsed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      ],
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PE / COFF
+// ---------------------------------------------------------------------------
+
+const PE_MACHINES: Record<number, string> = {
+  0x14c: 'x86',
+  0x8664: 'x86-64',
+  0x1c0: 'ARM',
+  0x1c4: 'ARMv7 (Thumb-2)',
+  0xaa64: 'ARM64',
+  0x200: 'IA-64',
+  0x5064: 'RISC-V 64',
+};
+
+const PE_SUBSYSTEMS: Record<number, string> = {
+  1: 'Native',
+  2: 'Windows GUI',
+  3: 'Windows console',
+  9: 'Windows CE',
+  10: 'EFI application',
+  11: 'EFI boot driver',
+  12: 'EFI runtime driver',
+};
+
+async function parsePE(reader: BlobReader): Promise<BinaryHeaderInfo> {
+  const dos = await reader.view(0, 64);
+  const peOffset = dos.getUint32(0x3c, true);
+  const header = await reader.view(peOffset, 24 + 240);
+
+  if (header.getUint32(0, false) !== 0x50450000) {
+    // A bare MZ header without a PE signature is a DOS executable
+    return {
+      format: 'PE',
+      description: 'MS-DOS executable',
+      architecture: 'x86 (16-bit)',
+      sections: [],
+      details: {},
+      warnings: ['No PE signature found; this looks like a 16-bit DOS program.'],
+    };
+  }
+
+  const machine = header.getUint16(4, true);
+  const sectionCount = Math.min(header.getUint16(6, true), MAX_SECTIONS);
+  const timestamp = header.getUint32(8, true);
+  const optionalHeaderSize = header.getUint16(20, true);
+  const characteristics = header.getUint16(22, true);
+
+  const opt = 24;
+  const optMagic = header.getUint16(opt, true);
+  const is64 = optMagic === 0x20b;
+  const entryRva = header.getUint32(opt + 16, true);
+  const imageBase = is64
+    ? header.getBigUint64(opt + 24, true)
+    : BigInt(header.getUint32(opt + 28, true));
+  const subsystem = header.getUint16(opt + 68, true);
+  const dataDirOffset = opt + (is64 ? 112 : 96);
+  const rvaCount = header.getUint32(opt + (is64 ? 108 : 92), true);
+
+  const dataDirectory = (index: number) =>
+    index < rvaCount && dataDirOffset + index * 8 + 8 <= header.byteLength
+      ? {
+          rva: header.getUint32(dataDirOffset + index * 8, true),
+          size: header.getUint32(dataDirOffset + index * 8 + 4, true),
+        }
+      : { rva: 0, size: 0 };
+
+  // Section table
+  const sectionTableOffset = peOffset + 24 + optionalHeaderSize;
+  const sectionTable = await reader.view(sectionTableOffset, sectionCount * 40);
+  const sectionBytes = new Uint8Array(sectionTable.buffer);
+  const rawSections: Array<{ va: number; vsize: number; rawPtr: number; rawSize: number }> = [];
+  const sections: BinarySection[] = [];
+
+  for (let i = 0; i < sectionCount && (i + 1) * 40 <= sectionTable.byteLength; i++) {
+    const base = i * 40;
+    const va = sectionTable.getUint32(base + 12, true);
+    const vsize = sectionTable.getUint32(base + 8, true);
+    const rawSize = sectionTable.getUint32(base + 16, true);
+    const rawPtr = sectionTable.getUint32(base + 20, true);
+    const flags = sectionTable.getUint32(base + 36, true);
+
+    rawSections.push({ va, vsize, rawPtr, rawSize });
+    sections.push({
+      name: readCString(sectionBytes, base, 8),
+      virtualAddress: hex(va),
+      offset: rawPtr,
+      size: rawSize,
+      flags: [
+        flags & 0x20000000 ? 'X' : '',
+        flags & 0x40000000 ? 'R' : '',
+        flags & 0x80000000 ? 'W' : '',
+      ].join(''),
+    });
+  }
+
+  const rvaToOffset = (rva: number): number | null => {
+    const section = rawSections.find(s => rva >= s.va && rva < s.va + Math.max(s.vsize, s.rawSize));
+    return section ? rva - section.va + section.rawPtr : null;
+  };
+
+  // Import directory: one descriptor per DLL, one thunk per imported function
+  const warnings: string[] = [];
+  let librariesCount = 0;
+  let importsCount = 0;
+  const importDir = dataDirectory(1);
+  const importOffset = importDir.rva ? rvaToOffset(importDir.rva) : null;
+
+  if (importOffset !== null) {
+    try {
+      const descriptors = await reader.view(importOffset, MAX_IMPORT_DESCRIPTORS * 20);
+      const thunkSize = is64 ? 8 : 4;
+
+      for (let i = 0; (i + 1) * 20 <= descriptors.byteLength; i++) {
+        const originalFirstThunk = descriptors.getUint32(i * 20, true);
+        const nameRva = descriptors.getUint32(i * 20 + 12, true);
+        const firstThunk = descriptors.getUint32(i * 20 + 16, true);
+        if (!originalFirstThunk && !nameRva && !firstThunk) break;
+
+        librariesCount++;
+        const thunkOffset = rvaToOffset(originalFirstThunk || firstThunk);
+        if (thunkOffset === null || importsCount >= MAX_IMPORT_THUNKS) continue;
+
+        const thunks = await reader.view(thunkOffset, 4096 * thunkSize);
+        for (let t = 0; (t + 1) * thunkSize <= thunks.byteLength; t++) {
+          const value = is64
+            ? thunks.getBigUint64(t * thunkSize, true)
+            : BigInt(thunks.getUint32(t * thunkSize, true));
+          if (value === 0n) break;
+          importsCount++;
+        }
+      }
+    } catch {
+      warnings.push('The import table could not be read completely.');
+    }
+  }
+
+  const isDll = (characteristics & 0x2000) !== 0;
+  const isDotNet = dataDirectory(14).rva !== 0;
+  const entryOffset = entryRva ? rvaToOffset(entryRva) : null;
+
+  return {
+    format: 'PE',
+    description: `${is64 ? 'PE32+' : 'PE32'} ${isDll ? 'DLL' : 'executable'}${
+      isDotNet ? ' (.NET assembly)' : ''
+    }`,
+    architecture: PE_MACHINES[machine] || `unknown (${hex(machine)})`,
+    bitness: is64 ? 64 : 32,
+    endianness: 'little',
+    ...(entryRva && { entryPoint: hex(imageBase + BigInt(entryRva)) }),
+    sections,
+    importsCount,
+    librariesCount,
+    details: {
+      subsystem: PE_SUBSYSTEMS[subsystem] || `Unknown (${subsystem})`,
+      imageBase: hex(imageBase),
+      ...(timestamp && { compiled: new Date(timestamp * 1000).toISOString() }),
+      ...(entryOffset !== null && { entryFileOffset: hex(entryOffset) }),
+    },
+    warnings,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// ELF
+// ---------------------------------------------------------------------------
+
+const ELF_MACHINES: Record<number, string> = {
+  2: 'SPARC',
+  3: 'x86',
+  8: 'MIPS',
+  20: 'PowerPC',
+  21: 'PowerPC 64',
+  40: 'ARM',
+  43: 'SPARC V9',
+  50: 'IA-64',
+  62: 'x86-64',
+  183: 'AArch64',
+  243: 'RISC-V',
+};
+
+const ELF_TYPES: Record<number, string> = {
+  1: 'relocatable object',
+  2: 'executable',
+  3: 'shared object',
+  4: 'core dump',
+};
+
+const ELF_OS_ABI: Record<number, string> = {
+  0: 'System V',
+  3: 'Linux',
+  6: 'Solaris',
+  9: 'FreeBSD',
+  12: 'OpenBSD',
+};
+
+async function parseELF(reader: BlobReader): Promise<BinaryHeaderInfo> {
+  const ident = await reader.view(0, 64);
+  const is64 = ident.getUint8(4) === 2;
+  const le = ident.getUint8(5) === 1;
+  const osAbi = ident.getUint8(7);
+
+  const u16 = (view: DataView, offset: number) => view.getUint16(offset, le);
+  const u32 = (view: DataView, offset: number) => view.getUint32(offset, le);
+  const addr = (view: DataView, offset: number) =>
+    is64 ? view.getBigUint64(offset, le) : BigInt(view.getUint32(offset, le));
+
+  const type = u16(ident, 16);
+  const machine = u16(ident, 18);
+  const entry = addr(ident, 24);
+  const shoff = Number(addr(ident, is64 ? 40 : 32));
+  const shentsize = u16(ident, is64 ? 58 : 46);
+  const shnum = Math.min(u16(ident, is64 ? 60 : 48), MAX_SECTIONS);
+  const shstrndx = u16(ident, is64 ? 62 : 50);
+
+  const warnings: string[] = [];
+  const sections: BinarySection[] = [];
+  let importsCount: number | undefined;
+  let librariesCount: number | undefined;
+
+  if (shoff && shnum && shentsize) {
+    const table = await reader.view(shoff, shnum * shentsize);
+    const headers = Array.from({ length: shnum }, (_, i) => {
+      const base = i * shentsize;
+      return {
+        nameOffset: u32(table, base),
+        type: u32(table, base + 4),
+        flags: Number(addr(table, base + 8)),
+        address: addr(table, base + (is64 ? 16 : 12)),
+        offset: Number(addr(table, base + (is64 ? 24 : 16))),
+        size: Number(addr(table, base + (is64 ? 32 : 20))),
+        link: u32(table, base + (is64 ? 40 : 24)),
+        entsize: Number(addr(table, base + (is64 ? 56 : 36))),
+      };
+    });
+
+    const strtab = headers[shstrndx];
+    const names = strtab ? await reader.bytes(strtab.offset, strtab.size) : new Uint8Array();
+
+    headers.forEach(section => {
+      if (section.type === 0) return; // SHT_NULL
+      sections.push({
+        name: readCString(names, section.nameOffset) || '(unnamed)',
+        virtualAddress: hex(section.address),
+        offset: section.offset,
+        size: section.size,
+        flags: [
+          section.flags & 0x2 ? 'A' : '',
+          section.flags & 0x1 ? 'W' : '',
+          section.flags & 0x4 ? 'X' : '',
+        ].join(''),
+      });
+    });
+
+    // Undefined dynamic symbols are what the binary imports from shared libraries
+    const dynsym = headers.find(section => section.type === 11); // SHT_DYNSYM
+    if (dynsym && dynsym.entsize) {
+      try {
+        const symbols = await reader.view(dynsym.offset, dynsym.size);
+        const count = Math.min(Math.floor(symbols.byteLength / dynsym.entsize), MAX_IMPORT_THUNKS);
+        importsCount = 0;
+        for (let i = 1; i < count; i++) {
+          const base = i * dynsym.entsize;
+          const name = u32(symbols, base);
+          const shndx = u16(symbols, base + (is64 ? 6 : 14));
+          if (name !== 0 && shndx === 0) importsCount++;
+        }
+      } catch {
+        warnings.push('The dynamic symbol table could not be read completely.');
+      }
+    }
+
+    // DT_NEEDED entries in .dynamic name the required shared libraries
+    const dynamic = headers.find(section => section.type === 6); // SHT_DYNAMIC
+    if (dynamic) {
+      try {
+        const entries = await reader.view(dynamic.offset, dynamic.size);
+        const entrySize = is64 ? 16 : 8;
+        librariesCount = 0;
+        for (let i = 0; (i + 1) * entrySize <= entries.byteLength; i++) {
+          const tag = Number(addr(entries, i * entrySize));
+          if (tag === 0) break;
+          if (tag === 1) librariesCount++;
+        }
+      } catch {
+        warnings.push('The dynamic section could not be read completely.');
+      }
+    }
+  } else {
+    warnings.push('No section header table; the binary may be stripped or packed.');
+  }
+
+  return {
+    format: 'ELF',
+    description: `ELF${is64 ? '64' : '32'} ${ELF_TYPES[type] || `type ${type}`}`,
+    architecture: ELF_MACHINES[machine] || `unknown (${machine})`,
+    bitness: is64 ? 64 : 32,
+    endianness: le ? 'little' : 'big',
+    ...(entry && { entryPoint: hex(entry) }),
+    sections,
+    ...(importsCount !== undefined && { importsCount }),
+    ...(librariesCount !== undefined && { librariesCount }),
+    details: {
+      osAbi: ELF_OS_ABI[osAbi] || `Unknown (${osAbi})`,
+    },
+    warnings,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Mach-O
+// ---------------------------------------------------------------------------
+
+const CPU_ARCH_ABI64 = 0x01000000;
+
+const MACHO_CPU_TYPES: Record<number, string> = {
+  7: 'x86',
+  [7 | CPU_ARCH_ABI64]: 'x86-64',
+  12: 'ARM',
+  [12 | CPU_ARCH_ABI64]: 'ARM64',
+  18: 'PowerPC',
+  [18 | CPU_ARCH_ABI64]: 'PowerPC 64',
+};
+
+const MACHO_FILE_TYPES: Record<number, string> = {
+  1: 'object',
+  2: 'executable',
+  6: 'dynamic library',
+  7: 'dynamic linker',
+  8: 'bundle',
+  10: 'debug symbols',
+  11: 'kernel extension',
+};
+
+async function parseMachO(reader: BlobReader): Promise<BinaryHeaderInfo> {
+  const magic = (await reader.view(0, 4)).getUint32(0, false);
+  const is64 = magic === 0xfeedfacf || magic === 0xcffaedfe;
+  const le = magic === 0xcefaedfe || magic === 0xcffaedfe;
+  const headerSize = is64 ? 32 : 28;
+
+  const header = await reader.view(0, headerSize);
+  const cpuType = header.getUint32(4, le);
+  const fileType = header.getUint32(12, le);
+  const commandCount = header.getUint32(16, le);
+  const commandsSize = header.getUint32(20, le);
+
+  const commands = await reader.view(headerSize, commandsSize);
+  const commandBytes = new Uint8Array(commands.buffer);
+  const sections: BinarySection[] = [];
+  let librariesCount = 0;
+  let importsCount: number | undefined;
+  let entryPoint: string | undefined;
+  let textVmAddr = 0n;
+
+  let offset = 0;
+  for (let i = 0; i < commandCount && offset + 8 <= commands.byteLength; i++) {
+    const cmd = commands.getUint32(offset, le);
+    const cmdSize = commands.getUint32(offset + 4, le);
+    if (cmdSize < 8) break;
+
+    if (cmd === 0x1 || cmd === 0x19) {
+      // LC_SEGMENT / LC_SEGMENT_64
+      const segName = readCString(commandBytes, offset + 8, 16);
+      const vmAddr = is64
+        ? commands.getBigUint64(offset + 24, le)
+        : BigInt(commands.getUint32(offset + 24, le));
+      if (segName === '__TEXT') textVmAddr = vmAddr;
+
+      const sectionCount = commands.getUint32(offset + (is64 ? 64 : 48), le);
+      const sectionSize = is64 ? 80 : 68;
+      let sectionOffset = offset + (is64 ? 72 : 56);
+
+      for (let s = 0; s < sectionCount && sections.length < MAX_SECTIONS; s++) {
+        if (sectionOffset + sectionSize > commands.byteLength) break;
+        const address = is64
+          ? commands.getBigUint64(sectionOffset + 32, le)
+          : BigInt(commands.getUint32(sectionOffset + 32, le));
+        const size = is64
+          ? Number(commands.getBigUint64(sectionOffset + 40, le))
+          : commands.getUint32(sectionOffset + 36, le);
+        sections.push({
+          name: `${readCString(commandBytes, sectionOffset + 16, 16)},${readCString(commandBytes, sectionOffset, 16)}`,
+          virtualAddress: hex(address),
+          offset: commands.getUint32(sectionOffset + (is64 ? 48 : 40), le),
+          size,
+        });
+        sectionOffset += sectionSize;
+      }
+    } else if (cmd === 0xc || cmd === 0x80000018 || cmd === 0x8000001f) {
+      // LC_LOAD_DYLIB, LC_LOAD_WEAK_DYLIB, LC_REEXPORT_DYLIB
+      librariesCount++;
+    } else if (cmd === 0xb) {
+      // LC_DYSYMTAB: undefined symbols are resolved from other images
+      importsCount = commands.getUint32(offset + 28, le);
+    } else if (cmd === 0x80000028) {
+      // LC_MAIN stores the entry point as an offset from the __TEXT segment
+      const entryOffset = commands.getBigUint64(offset + 8, le);
+      entryPoint = hex(textVmAddr + entryOffset);
+    }
+
+    offset += cmdSize;
+  }
+
+  return {
+    format: 'Mach-O',
+    description: `Mach-O ${is64 ? '64-bit' : '32-bit'} ${MACHO_FILE_TYPES[fileType] || `type ${fileType}`}`,
+    architecture: MACHO_CPU_TYPES[cpuType] || `unknown (${hex(cpuType)})`,
+    bitness: is64 ? 64 : 32,
+    endianness: le ? 'little' : 'big',
+    ...(entryPoint && { entryPoint }),
+    sections,
+    librariesCount,
+    ...(importsCount !== undefined && { importsCount }),
+    details: {
+      loadCommands: commandCount,
+    },
+    warnings: [],
+  };
+}
+
+async function parseFatMachO(reader: BlobReader): Promise<BinaryHeaderInfo> {
+  const header = await reader.view(0, 8);
+  const is64 = header.getUint32(0, false) === 0xcafebabf;
+  const archCount = header.getUint32(4, false);
+  if (archCount === 0 || archCount >= MAX_FAT_ARCHITECTURES) {
+    throw new RangeError(`Implausible architecture count ${archCount}`);
+  }
+  const entrySize = is64 ? 32 : 20;
+  const tableEnd = 8 + archCount * entrySize;
+  const table = await reader.view(8, archCount * entrySize);
+
+  const slices: BinaryHeaderInfo[] = [];
+  const warnings: string[] = [];
+  for (let i = 0; i < archCount; i++) {
+    const base = i * entrySize;
+    const offset = is64
+      ? Number(table.getBigUint64(base + 8, false))
+      : table.getUint32(base + 8, false);
+    const size = is64
+      ? Number(table.getBigUint64(base + 16, false))
+      : table.getUint32(base + 12, false);
+
+    // Slices must lie after the table and inside the file; anything else could point back at
+    // the fat header and be parsed again forever
+    if (offset < tableEnd || size < 4 || offset + size > reader.size) {
+      warnings.push(`Architecture ${i + 1} has an invalid offset or size.`);
+      continue;
+    }
+
+    // Slices hold thin images only, so they are parsed as such and never as another fat header
+    const slice = reader.subReader(offset, size);
+    if (!THIN_MACHO_MAGICS.includes((await slice.view(0, 4)).getUint32(0, false))) {
+      warnings.push(`Architecture ${i + 1} does not hold a Mach-O image.`);
+      continue;
+    }
+    slices.push(await withMalformedFallback('Mach-O', () => parseMachO(slice)));
+  }
+
+  return {
+    format: 'Mach-O (fat)',
+    description: `Universal binary with ${archCount} architecture${archCount === 1 ? '' : 's'}`,
+    architecture: slices.map(slice => slice.architecture).join(', ') || 'unknown',
+    sections: slices[0]?.sections ?? [],
+    ...(slices[0]?.entryPoint && { entryPoint: slices[0].entryPoint }),
+    ...(slices[0]?.importsCount !== undefined && { importsCount: slices[0].importsCount }),
+    ...(slices[0]?.librariesCount !== undefined && { librariesCount: slices[0].librariesCount }),
+    details: {
+      architectures: archCount,
+    },
+    slices,
+    warnings: [...warnings, ...slices.flatMap(slice => slice.warnings)],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Java class and JAR
+// ---------------------------------------------------------------------------
+
+async function parseJavaClass(reader: BlobReader): Promise<BinaryHeaderInfo> {
+  const view = await reader.view(0, reader.size);
+  const minor = view.getUint16(4, false);
+  const major = view.getUint16(6, false);
+  const poolCount = view.getUint16(8, false);
+
+  // Walk the constant pool, remembering UTF-8 strings and class references
+  const utf8 = new Map<number, string>();
+  const classRefs = new Map<number, number>();
+  const decoder = new TextDecoder();
+  let offset = 10;
+
+  for (let index = 1; index < poolCount; index++) {
+    const tag = view.getUint8(offset);
+    switch (tag) {
+      case 1: {
+        const length = view.getUint16(offset + 1, false);
+        utf8.set(index, decoder.decode(new Uint8Array(view.buffer, offset + 3, length)));
+        offset += 3 + length;
+        break;
+      }
+      case 7:
+        classRefs.set(index, view.getUint16(offset + 1, false));
+        offset += 3;
+        break;
+      case 8:
+      case 16:
+      case 19:
+      case 20:
+        offset += 3;
+        break;
+      case 15:
+        offset += 4;
+        break;
+      case 3:
+      case 4:
+      case 9:
+      case 10:
+      case 11:
+      case 12:
+      case 17:
+      case 18:
+        offset += 5;
+        break;
+      case 5:
+      case 6:
+        // Long and double constants occupy two pool slots
+        offset += 9;
+        index++;
+        break;
+      default:
+        throw new Error(`Unknown constant pool tag ${tag} at ${hex(offset)}`);
+    }
+  }
+
+  const accessFlags = view.getUint16(offset, false);
+  const thisClass = utf8.get(classRefs.get(view.getUint16(offset + 2, false)) ?? 0) ?? 'unknown';
+  const interfaceCount = view.getUint16(offset + 6, false);
+  offset += 8 + interfaceCount * 2;
+
+  // Fields and methods share a layout; skip fields and look for a main method
+  const readMembers = () => {
+    const count = view.getUint16(offset, false);
+    offset += 2;
+    const members: Array<{ name: string; descriptor: string }> = [];
+    for (let i = 0; i < count; i++) {
+      members.push({
+        name: utf8.get(view.getUint16(offset + 2, false)) ?? '',
+        descriptor: utf8.get(view.getUint16(offset + 4, false)) ?? '',
+      });
+      const attributeCount = view.getUint16(offset + 6, false);
+      offset += 8;
+      for (let a = 0; a < attributeCount; a++) {
+        offset += 6 + view.getUint32(offset + 2, false);
+      }
+    }
+    return members;
+  };
+
+  const fields = readMembers();
+  const methods = readMembers();
+  const hasMain = methods.some(
+    method => method.name === 'main' && method.descriptor === '([Ljava/lang/String;)V'
+  );
+  const referencedClasses = Array.from(classRefs.values())
+    .map(nameIndex => utf8.get(nameIndex))
+    .filter(name => name && name !== thisClass);
+
+  return {
+    format: 'Java class',
+    description: `Java class file (${accessFlags & 0x0200 ? 'interface' : 'class'})`,
+    architecture: 'JVM',
+    ...(hasMain && { entryPoint: `${thisClass.replace(/\//g, '.')}.main` }),
+    sections: [],
+    importsCount: referencedClasses.length,
+    details: {
+      className: thisClass.replace(/\//g, '.'),
+      javaVersion: major >= 49 ? `Java ${major - 44}` : `1.${major - 44}`,
+      classVersion: `${major}.${minor}`,
+      fields: fields.length,
+      methods: methods.length,
+    },
+    warnings: [],
+  };
+}
+
+async function parseJar(reader: BlobReader): Promise<BinaryHeaderInfo | null> {
+  // The end of central directory record sits within the last 64 KiB + 22 bytes
+  const tailLength = Math.min(reader.size, 0xffff + 22);
+  const tail = await reader.view(reader.size - tailLength, tailLength);
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) return null;
+
+  const entryCount = Math.min(tail.getUint16(eocd + 10, true), MAX_ZIP_ENTRIES);
+  const directorySize = tail.getUint32(eocd + 12, true);
+  const directoryOffset = tail.getUint32(eocd + 16, true);
+  const directory = await reader.view(directoryOffset, directorySize);
+  const directoryBytes = new Uint8Array(directory.buffer);
+  const decoder = new TextDecoder();
+
+  let classCount = 0;
+  let manifest: { offset: number; method: number; compressedSize: number } | undefined;
+  const packages = new Set<string>();
+
+  let offset = 0;
+  for (let i = 0; i < entryCount && offset + 46 <= directory.byteLength; i++) {
+    if (directory.getUint32(offset, true) !== 0x02014b50) break;
+    const method = directory.getUint16(offset + 10, true);
+    const compressedSize = directory.getUint32(offset + 20, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const localHeaderOffset = directory.getUint32(offset + 42, true);
+    const name = decoder.decode(directoryBytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (name.endsWith('.class')) {
+      classCount++;
+      const slash = name.lastIndexOf('/');
+      if (slash > 0) packages.add(name.slice(0, slash));
+    } else if (name.toUpperCase() === 'META-INF/MANIFEST.MF') {
+      manifest = { offset: localHeaderOffset, method, compressedSize };
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  // A zip without classes or a manifest is an ordinary archive, not a JAR
+  if (classCount === 0 && !manifest) return null;
+
+  const warnings: string[] = [];
+  let mainClass: string | undefined;
+  if (manifest) {
+    try {
+      const text = await readZipEntryText(reader, manifest);
+      mainClass = text?.match(/^Main-Class:\s*(.+)$/m)?.[1]?.trim();
+    } catch {
+      warnings.push('The JAR manifest could not be read.');
+    }
+  }
+
+  return {
+    format: 'JAR',
+    description: 'Java archive',
+    architecture: 'JVM',
+    ...(mainClass && { entryPoint: `${mainClass}.main` }),
+    sections: Array.from(packages)
+      .sort()
+      .slice(0, MAX_SECTIONS)
+      .map(name => ({ name: name.replace(/\//g, '.'), size: 0 })),
+    details: {
+      entries: entryCount,
+      classes: classCount,
+      packages: packages.size,
+    },
+    warnings,
+  };
+}
+
+async function readZipEntryText(
+  reader: BlobReader,
+  entry: { offset: number; method: number; compressedSize: number }
+): Promise<string | null> {
+  const local = await reader.view(entry.offset, 30);
+  const dataOffset = entry.offset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+  const data = await reader.bytes(dataOffset, entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method === 8 && typeof DecompressionStream !== 'undefined') {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Response(stream).text();
+  }
+  return null;
+}
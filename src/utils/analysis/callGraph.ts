@@ -0,0 +1,237 @@
+/**
+ * Call graph construction and layout
+ * Builds a graph from decompiled functions and positions it with a force-directed layout
+ */
+
+import type { JobStatusResponse } from '../../services/api/analysisApi';
+
+type DecompiledFunction = NonNullable<
+  NonNullable<JobStatusResponse['results']>['functions']
+>[number];
+
+export type CallGraphNodeKind = 'user' | 'library' | 'external';
+
+export interface CallGraphNode {
+  id: string;
+  kind: CallGraphNodeKind;
+  address?: string;
+  size?: number;
+  complexity?: number;
+}
+
+export interface CallGraphEdge {
+  source: string;
+  target: string;
+}
+
+export interface CallGraph {
+  nodes: CallGraphNode[];
+  edges: CallGraphEdge[];
+}
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+export interface CallGraphLayout {
+  positions: Map<string, NodePosition>;
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+}
+
+const IDEAL_EDGE_LENGTH = 60;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// Numeric key for a grid cell; coordinates stay far below the multiplier
+const cellKey = (cx: number, cy: number): number => cx * 1_000_003 + cy;
+
+/**
+ * Build the call graph; callees that were not decompiled become external nodes
+ */
+export const buildCallGraph = (functions: DecompiledFunction[]): CallGraph => {
+  const nodes = new Map<string, CallGraphNode>();
+  functions.forEach(fn => {
+    nodes.set(fn.name, {
+      id: fn.name,
+      kind: fn.function_type && fn.function_type !== 'user' ? 'library' : 'user',
+      address: fn.address,
+      size: fn.size,
+      ...(fn.complexity !== undefined && { complexity: fn.complexity }),
+    });
+  });
+
+  const edges: CallGraphEdge[] = [];
+  const seen = new Set<string>();
+  functions.forEach(fn => {
+    fn.calls_to?.forEach(callee => {
+      const key = `${fn.name}\u0000${callee}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      if (!nodes.has(callee)) nodes.set(callee, { id: callee, kind: 'external' });
+      edges.push({ source: fn.name, target: callee });
+    });
+  });
+
+  return { nodes: Array.from(nodes.values()), edges };
+};
+
+/**
+ * Restrict a graph to the nodes within `hops` calls of a function, following calls both ways
+ */
+export const getNeighborhood = (graph: CallGraph, centerId: string, hops: number): CallGraph => {
+  const adjacency = new Map<string, string[]>();
+  const link = (from: string, to: string) =>
+    adjacency.set(from, [...(adjacency.get(from) ?? []), to]);
+  graph.edges.forEach(edge => {
+    link(edge.source, edge.target);
+    link(edge.target, edge.source);
+  });
+
+  const included = new Set([centerId]);
+  let frontier = [centerId];
+  for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    frontier.forEach(id =>
+      adjacency.get(id)?.forEach(neighbor => {
+        if (!included.has(neighbor)) {
+          included.add(neighbor);
+          next.push(neighbor);
+        }
+      })
+    );
+    frontier = next;
+  }
+
+  return {
+    nodes: graph.nodes.filter(node => included.has(node.id)),
+    edges: graph.edges.filter(edge => included.has(edge.source) && included.has(edge.target)),
+  };
+};
+
+/**
+ * Node radius from its complexity when known, otherwise from its size in bytes
+ */
+export const getNodeRadius = (node: CallGraphNode): number => {
+  if (node.complexity !== undefined) return Math.min(18, 4 + Math.sqrt(node.complexity) * 2);
+  if (node.size !== undefined) return Math.min(18, 4 + Math.sqrt(node.size) / 3);
+  return 4;
+};
+
+/**
+ * Force-directed layout. Repulsion only considers nodes in neighbouring grid cells,
+ * which keeps each iteration close to linear so large binaries stay interactive.
+ */
+export const layoutCallGraph = (graph: CallGraph): CallGraphLayout => {
+  const count = graph.nodes.length;
+  const index = new Map(graph.nodes.map((node, i) => [node.id, i]));
+  const xs = new Float64Array(count);
+  const ys = new Float64Array(count);
+  const dx = new Float64Array(count);
+  const dy = new Float64Array(count);
+
+  // Deterministic spiral start so the same results always produce the same picture
+  graph.nodes.forEach((_node, i) => {
+    const radius = IDEAL_EDGE_LENGTH * Math.sqrt(i + 0.5);
+    xs[i] = radius * Math.cos(i * GOLDEN_ANGLE);
+    ys[i] = radius * Math.sin(i * GOLDEN_ANGLE);
+  });
+
+  const edges = graph.edges.flatMap(edge => {
+    const source = index.get(edge.source);
+    const target = index.get(edge.target);
+    return source !== undefined && target !== undefined && source !== target
+      ? [[source, target] as const]
+      : [];
+  });
+
+  const iterations = count > 2000 ? 60 : count > 500 ? 120 : 250;
+  const cellSize = IDEAL_EDGE_LENGTH * 2;
+  let temperature = IDEAL_EDGE_LENGTH * Math.sqrt(count + 1);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    dx.fill(0);
+    dy.fill(0);
+
+    const grid = new Map<number, number[]>();
+    for (let i = 0; i < count; i++) {
+      const key = cellKey(Math.floor(xs[i]! / cellSize), Math.floor(ys[i]! / cellSize));
+      const cell = grid.get(key);
+      if (cell) cell.push(i);
+      else grid.set(key, [i]);
+    }
+
+    for (let i = 0; i < count; i++) {
+      const cx = Math.floor(xs[i]! / cellSize);
+      const cy = Math.floor(ys[i]! / cellSize);
+      for (let ox = -1; ox <= 1; ox++) {
+        for (let oy = -1; oy <= 1; oy++) {
+          const cell = grid.get(cellKey(cx + ox, cy + oy));
+          if (!cell) continue;
+          for (const j of cell) {
+            if (j <= i) continue;
+            let ddx = xs[i]! - xs[j]!;
+            let ddy = ys[i]! - ys[j]!;
+            let distance = Math.hypot(ddx, ddy);
+            if (distance === 0) {
+              ddx = 0.01 * (i - j);
+              ddy = 0.01;
+              distance = Math.hypot(ddx, ddy);
+            }
+            if (distance > cellSize) continue;
+            const force = (IDEAL_EDGE_LENGTH * IDEAL_EDGE_LENGTH) / distance;
+            const fx = (ddx / distance) * force;
+            const fy = (ddy / distance) * force;
+            dx[i]! += fx;
+            dy[i]! += fy;
+            dx[j]! -= fx;
+            dy[j]! -= fy;
+          }
+        }
+      }
+    }
+
+    edges.forEach(([source, target]) => {
+      const ddx = xs[source]! - xs[target]!;
+      const ddy = ys[source]! - ys[target]!;
+      const distance = Math.max(0.01, Math.hypot(ddx, ddy));
+      const force = (distance * distance) / IDEAL_EDGE_LENGTH;
+      const fx = (ddx / distance) * force;
+      const fy = (ddy / distance) * force;
+      dx[source]! -= fx;
+      dy[source]! -= fy;
+      dx[target]! += fx;
+      dy[target]! += fy;
+    });
+
+    // Weak pull to the centre keeps disconnected components from drifting away
+    for (let i = 0; i < count; i++) {
+      dx[i]! -= xs[i]! * 0.01;
+      dy[i]! -= ys[i]! * 0.01;
+      const displacement = Math.hypot(dx[i]!, dy[i]!);
+      if (displacement > 0) {
+        const step = Math.min(displacement, temperature);
+        xs[i]! += (dx[i]! / displacement) * step;
+        ys[i]! += (dy[i]! / displacement) * step;
+      }
+    }
+
+    temperature = Math.max(1, temperature * 0.95);
+  }
+
+  const positions = new Map<string, NodePosition>();
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  graph.nodes.forEach((node, i) => {
+    const x = xs[i]!;
+    const y = ys[i]!;
+    positions.set(node.id, { x, y });
+    bounds.minX = Math.min(bounds.minX, x);
+    bounds.minY = Math.min(bounds.minY, y);
+    bounds.maxX = Math.max(bounds.maxX, x);
+    bounds.maxY = Math.max(bounds.maxY, y);
+  });
+
+  if (count === 0) {
+    return { positions, bounds: { minX: 0, minY: 0, maxX: 0, maxY: 0 } };
+  }
+  return { positions, bounds };
+};
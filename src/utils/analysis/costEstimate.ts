@@ -0,0 +1,183 @@
+/**
+ * Cost estimation and budgets
+ * Estimates LLM spend before submission and checks it against per-job and monthly caps
+ */
+
+import type { LLMProvider } from '../../services/api/analysisApi';
+
+export type EstimateDepth = 'basic' | 'standard' | 'detailed' | 'comprehensive';
+export type EstimateDetail = 'basic' | 'standard' | 'detailed';
+
+// Rough list prices per 1K tokens, used when the backend does not report one
+export const DEFAULT_PRICE_PER_1K_TOKENS: Record<string, number> = {
+  openai: 0.002,
+  anthropic: 0.008,
+  gemini: 0.001,
+  ollama: 0,
+};
+
+const FALLBACK_PRICE_PER_1K_TOKENS = 0.002;
+
+// 'detailed' is the provider manager's name for the standard depth
+const DEPTH_MULTIPLIERS: Record<EstimateDepth, number> = {
+  basic: 1,
+  standard: 2.5,
+  detailed: 2.5,
+  comprehensive: 5,
+};
+
+const DETAIL_MULTIPLIERS: Record<EstimateDetail, number> = {
+  basic: 0.6,
+  standard: 1,
+  detailed: 1.6,
+};
+
+// Share of the monthly cap after which submissions are flagged as nearing it
+const MONTHLY_WARNING_RATIO = 0.8;
+
+export interface CostEstimateInput {
+  fileSize: number;
+  analysisDepth: EstimateDepth;
+  translationDetail?: EstimateDetail;
+  pricePer1kTokens: number;
+}
+
+export interface JobCostEstimate {
+  // Per selected file, in selection order
+  jobs: Array<{ fileSize: number; tokens: number; cost: number }>;
+  totalTokens: number;
+  totalCost: number;
+  pricePer1kTokens: number;
+  currency: 'USD';
+}
+
+export interface BudgetSettings {
+  perJobLimit?: number;
+  monthlyLimit?: number;
+  // Whether going over a cap stops the submission or only warns about it
+  enforcement: 'warn' | 'block';
+}
+
+export interface BudgetCheck {
+  status: 'ok' | 'warn' | 'block';
+  messages: string[];
+}
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = { enforcement: 'warn' };
+
+/**
+ * Price of the provider type, preferring what the backend reports for it
+ */
+export const getPricePer1kTokens = (providerType: string, systemProviders?: LLMProvider[]) =>
+  systemProviders?.find(provider => provider.provider_id === providerType)?.cost_per_1k_tokens ??
+  DEFAULT_PRICE_PER_1K_TOKENS[providerType] ??
+  FALLBACK_PRICE_PER_1K_TOKENS;
+
+/**
+ * Estimated LLM tokens for translating one binary: roughly one token per 100 bytes, scaled by
+ * how deep the analysis goes and how detailed the translation is
+ */
+export const estimateTokens = ({
+  fileSize,
+  analysisDepth,
+  translationDetail = 'standard',
+}: Omit<CostEstimateInput, 'pricePer1kTokens'>): number =>
+  Math.ceil(
+    Math.ceil(fileSize / 100) *
+      DEPTH_MULTIPLIERS[analysisDepth] *
+      DETAIL_MULTIPLIERS[translationDetail]
+  );
+
+/**
+ * Estimate the cost of submitting each of the given files with one configuration
+ */
+export const estimateJobCosts = (
+  fileSizes: number[],
+  options: Omit<CostEstimateInput, 'fileSize'>
+): JobCostEstimate => {
+  const jobs = fileSizes.map(fileSize => {
+    const tokens = estimateTokens({ ...options, fileSize });
+    return { fileSize, tokens, cost: (tokens / 1000) * options.pricePer1kTokens };
+  });
+
+  return {
+    jobs,
+    totalTokens: jobs.reduce((sum, job) => sum + job.tokens, 0),
+    totalCost: jobs.reduce((sum, job) => sum + job.cost, 0),
+    pricePer1kTokens: options.pricePer1kTokens,
+    currency: 'USD',
+  };
+};
+
+export const formatCost = (cost: number): string =>
+  cost > 0 && cost < 0.01 ? `<$0.01` : `$${cost.toFixed(2)}`;
+
+/**
+ * Check an estimate against the budget caps, given what has been spent this month
+ */
+export const checkBudget = (
+  estimate: JobCostEstimate,
+  monthSpend: number,
+  settings: BudgetSettings
+): BudgetCheck => {
+  const violations: string[] = [];
+  const warnings: string[] = [];
+  const { perJobLimit, monthlyLimit } = settings;
+
+  if (perJobLimit !== undefined) {
+    const cap = formatCost(perJobLimit);
+    const overLimit = estimate.jobs.filter(job => job.cost > perJobLimit);
+    if (estimate.jobs.length === 1 && overLimit[0]) {
+      violations.push(
+        `The estimated ${formatCost(overLimit[0].cost)} exceeds the per-job cap of ${cap}.`
+      );
+    } else if (overLimit.length > 0) {
+      violations.push(
+        `${overLimit.length} of ${estimate.jobs.length} files exceed the per-job cap of ${cap}.`
+      );
+    }
+  }
+
+  if (monthlyLimit !== undefined) {
+    const cap = formatCost(monthlyLimit);
+    const projected = monthSpend + estimate.totalCost;
+    if (projected > monthlyLimit) {
+      violations.push(
+        `This would bring spending this month to ${formatCost(projected)}, over the ${cap} cap.`
+      );
+    } else if (projected > monthlyLimit * MONTHLY_WARNING_RATIO) {
+      const share = Math.round((projected / monthlyLimit) * 100);
+      warnings.push(`This would use ${share}% of the monthly cap of ${cap}.`);
+    }
+  }
+
+  if (violations.length > 0) {
+    return { status: settings.enforcement, messages: [...violations, ...warnings] };
+  }
+  return { status: warnings.length > 0 ? 'warn' : 'ok', messages: warnings };
+};
+
+const readLimit = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+/**
+ * Read stored budget settings, dropping anything that is not a usable cap
+ */
+export const normalizeBudgetSettings = (value: unknown): BudgetSettings => {
+  if (typeof value !== 'object' || value === null) return DEFAULT_BUDGET_SETTINGS;
+  const stored = value as Record<string, unknown>;
+  const perJobLimit = readLimit(stored.perJobLimit);
+  const monthlyLimit = readLimit(stored.monthlyLimit);
+
+  return {
+    enforcement: stored.enforcement === 'block' ? 'block' : 'warn',
+    ...(perJobLimit !== undefined && { perJobLimit }),
+    ...(monthlyLimit !== undefined && { monthlyLimit }),
+  };
+};
+
+/**
+ * Start of the calendar month containing the date, as an ISO timestamp
+ */
+export const getMonthStart = (date = new Date()): string =>
+  new Date(date.getFullYear(), date.getMonth(), 1).toISOString();
@@ -0,0 +1,379 @@
+/**
+ * Decompiled code listing
+ * Tokenizes pseudo-C for highlighting and indexes functions, addresses and symbols for navigation
+ */
+
+import type { JobStatusResponse } from '../../services/api/analysisApi';
+
+type AnalysisResults = NonNullable<JobStatusResponse['results']>;
+
+export type CodeTokenType =
+  | 'keyword'
+  | 'type'
+  | 'number'
+  | 'string'
+  | 'comment'
+  | 'function'
+  | 'identifier'
+  | 'plain';
+
+export interface CodeToken {
+  type: CodeTokenType;
+  text: string;
+}
+
+export interface CodeFunctionRange {
+  name: string;
+  address?: string;
+  // Zero-based line of the signature and of the closing brace
+  startLine: number;
+  endLine: number;
+}
+
+export interface DecompiledListing {
+  lines: string[];
+  functions: CodeFunctionRange[];
+  // Lines that start inside a block comment, so any line can be highlighted on its own
+  blockCommentLines: Uint8Array;
+  // Known addresses in ascending order, each mapped to the line it starts at
+  addresses: Array<{ address: bigint; line: number }>;
+}
+
+// Searches stop here so a one-character query on a huge listing stays responsive
+export const MAX_CODE_MATCHES = 5000;
+
+const KEYWORDS = new Set([
+  'if',
+  'else',
+  'while',
+  'for',
+  'do',
+  'switch',
+  'case',
+  'default',
+  'break',
+  'continue',
+  'return',
+  'goto',
+  'sizeof',
+  'typedef',
+  'struct',
+  'union',
+  'enum',
+  'static',
+  'const',
+  'volatile',
+  'extern',
+  'register',
+  'inline',
+]);
+
+// C types plus the ones Ghidra, IDA and Windows headers put in decompiler output
+const TYPES = new Set([
+  'void',
+  'char',
+  'short',
+  'int',
+  'long',
+  'float',
+  'double',
+  'signed',
+  'unsigned',
+  'bool',
+  '_Bool',
+  'size_t',
+  'ssize_t',
+  'uint',
+  'ulong',
+  'ushort',
+  'uchar',
+  'byte',
+  'word',
+  'dword',
+  'qword',
+  'code',
+  'undefined',
+  'undefined1',
+  'undefined2',
+  'undefined4',
+  'undefined8',
+  'int8_t',
+  'int16_t',
+  'int32_t',
+  'int64_t',
+  'uint8_t',
+  'uint16_t',
+  'uint32_t',
+  'uint64_t',
+  '__int64',
+  'BOOL',
+  'BYTE',
+  'WORD',
+  'DWORD',
+  'QWORD',
+  'HANDLE',
+  'LPVOID',
+  'LPCSTR',
+  'LPSTR',
+]);
+
+const IDENTIFIER = /[A-Za-z_]\w*/y;
+const NUMBER = /(?:0[xX][0-9a-fA-F]+|\d+(?:\.\d+)?)[uUlLfF]*/y;
+const FUNCTION_HEADER = /^\s*(?:[A-Za-z_][\w\s*]*?[\s*])?([A-Za-z_]\w*)\s*\([^;{}]*\)?\s*\{?\s*$/;
+const HEX_ADDRESS = /(?:0x)?([0-9a-fA-F]{6,16})\b/;
+const LINE_ADDRESS = /^\s*(?:\/\/|\/\*)\s*(?:0x)?([0-9a-fA-F]{6,16})\b/;
+const GENERATED_NAME = /^(?:FUN|sub|LAB|loc)_([0-9a-fA-F]+)$/;
+
+const isWordStart = (char: string): boolean => /[A-Za-z_]/.test(char);
+const isDigit = (char: string): boolean => char >= '0' && char <= '9';
+
+/**
+ * Parse a hex address as typed by a user ("0x401000", "401000h" or "FUN_00401000")
+ */
+export const parseAddress = (value: string): bigint | null => {
+  const match = value
+    .trim()
+    .replace(/^(?:FUN|sub|LAB|loc)_/i, '')
+    .match(/^(?:0x)?([0-9a-fA-F]+)h?$/i);
+  return match?.[1] ? BigInt(`0x${match[1]}`) : null;
+};
+
+/**
+ * Split one line into highlight tokens; `inBlockComment` says whether it starts inside one
+ */
+export const tokenizeLine = (
+  line: string,
+  inBlockComment = false
+): { tokens: CodeToken[]; inBlockComment: boolean } => {
+  const tokens: CodeToken[] = [];
+  const push = (type: CodeTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type && type === 'plain') last.text += text;
+    else tokens.push({ type, text });
+  };
+
+  let index = 0;
+  let inComment = inBlockComment;
+  while (index < line.length) {
+    if (inComment) {
+      const end = line.indexOf('*/', index);
+      const stop = end === -1 ? line.length : end + 2;
+      push('comment', line.slice(index, stop));
+      inComment = end === -1;
+      index = stop;
+      continue;
+    }
+
+    const char = line[index] ?? '';
+    const next = line[index + 1];
+    if (char === '/' && next === '/') {
+      push('comment', line.slice(index));
+      break;
+    }
+    if (char === '/' && next === '*') {
+      inComment = true;
+      push('comment', '/*');
+      index += 2;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      let end = index + 1;
+      while (end < line.length && line[end] !== char) end += line[end] === '\\' ? 2 : 1;
+      push('string', line.slice(index, end + 1));
+      index = end + 1;
+      continue;
+    }
+    if (isDigit(char)) {
+      NUMBER.lastIndex = index;
+      const match = NUMBER.exec(line);
+      const text = match?.[0] ?? char;
+      push('number', text);
+      index += text.length;
+      continue;
+    }
+    if (isWordStart(char)) {
+      IDENTIFIER.lastIndex = index;
+      const word = IDENTIFIER.exec(line)?.[0] ?? char;
+      index += word.length;
+      if (KEYWORDS.has(word)) push('keyword', word);
+      else if (TYPES.has(word)) push('type', word);
+      else if (/^\s*\(/.test(line.slice(index, index + 32))) push('function', word);
+      else push('identifier', word);
+      continue;
+    }
+    push('plain', char);
+    index++;
+  }
+
+  return { tokens, inBlockComment: inComment };
+};
+
+/**
+ * Index a listing in a single pass: block comment state, function ranges and known addresses.
+ * Function addresses come from nearby comments, generated names or the decompiler's function list.
+ */
+export const parseDecompiledCode = (
+  code: string,
+  knownFunctions: Array<{ name: string; address: string }> = []
+): DecompiledListing => {
+  const lines = code.split(/\r?\n/);
+  const blockCommentLines = new Uint8Array(lines.length);
+  const functions: CodeFunctionRange[] = [];
+  const addresses: DecompiledListing['addresses'] = [];
+  const knownAddresses = new Map(knownFunctions.map(fn => [fn.name, fn.address]));
+
+  let inComment = false;
+  let depth = 0;
+  let pending: { name: string; line: number } | null = null;
+  let current: CodeFunctionRange | null = null;
+
+  const addAddress = (address: string, line: number) => {
+    const value = parseAddress(address);
+    if (value !== null) addresses.push({ address: value, line });
+  };
+
+  lines.forEach((line, lineIndex) => {
+    blockCommentLines[lineIndex] = inComment ? 1 : 0;
+
+    if (depth === 0 && !inComment) {
+      const header = line.match(FUNCTION_HEADER);
+      const name = header?.[1];
+      if (name && !KEYWORDS.has(name) && !TYPES.has(name)) {
+        pending = { name, line: lineIndex };
+      } else if (line.includes(';')) {
+        pending = null;
+      }
+    }
+
+    const lineAddress = line.match(LINE_ADDRESS)?.[1];
+    if (lineAddress) addAddress(lineAddress, lineIndex);
+
+    // Brace depth, ignoring braces inside strings and comments
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (inComment) {
+        if (char === '*' && line[i + 1] === '/') {
+          inComment = false;
+          i++;
+        }
+      } else if (char === '/' && line[i + 1] === '/') {
+        break;
+      } else if (char === '/' && line[i + 1] === '*') {
+        inComment = true;
+        i++;
+      } else if (char === '"' || char === "'") {
+        i++;
+        while (i < line.length && line[i] !== char) i += line[i] === '\\' ? 2 : 1;
+      } else if (char === '{') {
+        if (depth === 0 && pending) {
+          const { name, line: startLine } = pending;
+          // A comment right above the signature often carries the address
+          const commentAddress = lines
+            .slice(Math.max(0, startLine - 3), startLine)
+            .map(previous => (/^\s*(?:\/\/|\/?\*)/.test(previous) ? previous : ''))
+            .join(' ')
+            .match(HEX_ADDRESS)?.[1];
+          const address =
+            knownAddresses.get(name) ?? name.match(GENERATED_NAME)?.[1] ?? commentAddress;
+          current = { name, startLine, endLine: startLine, ...(address && { address }) };
+          if (address) addAddress(address, startLine);
+          pending = null;
+        }
+        depth++;
+      } else if (char === '}') {
+        depth = Math.max(0, depth - 1);
+        if (depth === 0 && current) {
+          current.endLine = lineIndex;
+          functions.push(current);
+          current = null;
+        }
+      }
+    }
+  });
+
+  addresses.sort((a, b) => (a.address < b.address ? -1 : a.address > b.address ? 1 : 0));
+  return { lines, functions, blockCommentLines, addresses };
+};
+
+/**
+ * Line for an address: the exact entry, otherwise the closest known address below it
+ */
+export const findAddressLine = (listing: DecompiledListing, address: bigint): number | null => {
+  let low = 0;
+  let high = listing.addresses.length - 1;
+  let best: number | null = null;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const entry = listing.addresses[middle];
+    if (!entry) break;
+    if (entry.address <= address) {
+      best = entry.line;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return best;
+};
+
+/**
+ * Lines containing a plain-text query, capped at MAX_CODE_MATCHES
+ */
+export const searchCodeLines = (
+  lines: string[],
+  query: string,
+  caseSensitive = false
+): number[] => {
+  if (!query) return [];
+  const needle = caseSensitive ? query : query.toLowerCase();
+  const matches: number[] = [];
+  for (let i = 0; i < lines.length && matches.length < MAX_CODE_MATCHES; i++) {
+    const line = lines[i] ?? '';
+    if ((caseSensitive ? line : line.toLowerCase()).includes(needle)) matches.push(i);
+  }
+  return matches;
+};
+
+/**
+ * Lines that mention a symbol as a whole word, capped at MAX_CODE_MATCHES
+ */
+export const findSymbolReferences = (lines: string[], symbol: string): number[] => {
+  const pattern = new RegExp(`\\b${symbol.replace(/[^\w]/g, '')}\\b`);
+  const matches: number[] = [];
+  for (let i = 0; i < lines.length && matches.length < MAX_CODE_MATCHES; i++) {
+    if (pattern.test(lines[i] ?? '')) matches.push(i);
+  }
+  return matches;
+};
+
+/**
+ * Line numbers still shown once the given functions (by start line) are collapsed
+ */
+export const getVisibleLines = (
+  listing: DecompiledListing,
+  collapsedStartLines: ReadonlySet<number>
+): Int32Array => {
+  const hidden = new Uint8Array(listing.lines.length);
+  listing.functions.forEach(fn => {
+    if (collapsedStartLines.has(fn.startLine)) hidden.fill(1, fn.startLine + 1, fn.endLine + 1);
+  });
+
+  const visible = new Int32Array(listing.lines.length - hidden.reduce((sum, h) => sum + h, 0));
+  let position = 0;
+  hidden.forEach((isHidden, line) => {
+    if (!isHidden) visible[position++] = line;
+  });
+  return visible;
+};
+
+/**
+ * The full pseudo-C listing, or one assembled from per-function output when only that is present
+ */
+export const getDecompiledListing = (results: AnalysisResults): string | undefined => {
+  if (results.decompiled_code) return results.decompiled_code;
+
+  const parts = (results.functions ?? [])
+    .filter(fn => fn.decompiled_code)
+    .map(fn => `// ${fn.name} @ ${fn.address}\n${fn.decompiled_code}`);
+  return parts.length > 0 ? parts.join('\n\n') : undefined;
+};
@@ -0,0 +1,34 @@
+/**
+ * File hashing
+ * Computes the digests used to recognise a binary across submissions
+ */
+
+import type { FileHashes } from '../../types/analysis.types';
+import { Md5, toHex } from './md5';
+
+// MD5 is fed in slices so large files do not need a second full-size copy
+const MD5_CHUNK_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Compute SHA-256, SHA-1 and MD5 of a file.
+ * Runs anywhere SubtleCrypto is available, including inside a Web Worker.
+ */
+export async function computeFileHashes(file: Blob): Promise<FileHashes> {
+  const buffer = await file.arrayBuffer();
+  const [sha256, sha1] = await Promise.all([
+    crypto.subtle.digest('SHA-256', buffer),
+    crypto.subtle.digest('SHA-1', buffer),
+  ]);
+
+  const md5 = new Md5();
+  const bytes = new Uint8Array(buffer);
+  for (let offset = 0; offset < bytes.length; offset += MD5_CHUNK_SIZE) {
+    md5.update(bytes.subarray(offset, offset + MD5_CHUNK_SIZE));
+  }
+
+  return {
+    sha256: toHex(sha256),
+    sha1: toHex(sha1),
+    md5: md5.digest(),
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Per-function details
+ * Joins decompiler output, LLM translations and call relationships into one row per function
+ */
+
+import type { JobStatusResponse } from '../../services/api/analysisApi';
+
+type AnalysisResults = NonNullable<JobStatusResponse['results']>;
+
+export interface FunctionDetail {
+  // Function name, which is also the row id
+  id: string;
+  address?: string;
+  size?: number;
+  complexity?: number;
+  functionType: string;
+  confidence?: number;
+  parameters: string[];
+  description?: string;
+  code?: string;
+  codeKind?: 'decompiled' | 'assembly';
+  callers: string[];
+  callees: string[];
+}
+
+/**
+ * Build the function table; functions only the LLM described are included without decompiler data
+ */
+export const buildFunctionDetails = (results: AnalysisResults): FunctionDetail[] => {
+  const byName = new Map<string, FunctionDetail>();
+  const getOrCreate = (name: string): FunctionDetail => {
+    let detail = byName.get(name);
+    if (!detail) {
+      detail = { id: name, functionType: 'user', parameters: [], callers: [], callees: [] };
+      byName.set(name, detail);
+    }
+    return detail;
+  };
+
+  results.functions?.forEach(fn => {
+    const detail = getOrCreate(fn.name);
+    detail.address = fn.address;
+    detail.size = fn.size;
+    if (fn.complexity !== undefined) detail.complexity = fn.complexity;
+    if (fn.function_type) detail.functionType = fn.function_type;
+    if (fn.decompiled_code) {
+      detail.code = fn.decompiled_code;
+      detail.codeKind = 'decompiled';
+    } else if (fn.assembly_code) {
+      detail.code = fn.assembly_code;
+      detail.codeKind = 'assembly';
+    }
+    detail.callees = Array.from(new Set(fn.calls_to ?? []));
+  });
+
+  results.llm_translations?.functions.forEach(fn => {
+    const detail = getOrCreate(fn.function_name);
+    detail.description = fn.description;
+    detail.confidence = fn.confidence;
+    detail.parameters = fn.parameters ?? [];
+  });
+
+  // Callers are only known from the callee lists of functions that were decompiled
+  byName.forEach(detail => {
+    detail.callees.forEach(callee => byName.get(callee)?.callers.push(detail.id));
+  });
+
+  return Array.from(byName.values());
+};
@@ -0,0 +1,111 @@
+/**
+ * History retention
+ * Limits on how much job history and stored results are kept in the browser, and the rules for
+ * choosing which jobs to drop when a limit is exceeded
+ */
+
+import type { AnalysisJob } from '../../types/analysis.types';
+
+export interface HistoryRetentionSettings {
+  // Nothing is removed from the history until the user turns the policy on
+  enabled: boolean;
+  // Jobs submitted longer ago than this are removed; 0 keeps them regardless of age
+  maxAgeDays: number;
+  // Only the newest jobs are kept; 0 keeps any number
+  maxJobs: number;
+  // Stored results beyond this size remove the oldest jobs; 0 allows any size
+  maxStorageMB: number;
+}
+
+export const DEFAULT_HISTORY_RETENTION: HistoryRetentionSettings = {
+  enabled: false,
+  maxAgeDays: 180,
+  maxJobs: 1000,
+  maxStorageMB: 500,
+};
+
+export const MAX_RETENTION_DAYS = 365 * 5;
+export const MAX_RETAINED_JOBS = 10000;
+export const MAX_RETAINED_STORAGE_MB = 10 * 1024;
+
+// Share of the browser quota in use at which the user is warned
+export const STORAGE_QUOTA_WARNING_RATIO = 0.8;
+
+const readLimit = (value: unknown, fallback: number, max: number): number =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.round(Math.min(Math.max(value, 0), max))
+    : fallback;
+
+/**
+ * Read stored retention settings, falling back to the defaults for anything missing or invalid
+ */
+export const normalizeHistoryRetention = (value: unknown): HistoryRetentionSettings => {
+  if (typeof value !== 'object' || value === null) return DEFAULT_HISTORY_RETENTION;
+  const stored = value as Record<string, unknown>;
+
+  return {
+    enabled: stored.enabled === true,
+    maxAgeDays: readLimit(
+      stored.maxAgeDays,
+      DEFAULT_HISTORY_RETENTION.maxAgeDays,
+      MAX_RETENTION_DAYS
+    ),
+    maxJobs: readLimit(stored.maxJobs, DEFAULT_HISTORY_RETENTION.maxJobs, MAX_RETAINED_JOBS),
+    maxStorageMB: readLimit(
+      stored.maxStorageMB,
+      DEFAULT_HISTORY_RETENTION.maxStorageMB,
+      MAX_RETAINED_STORAGE_MB
+    ),
+  };
+};
+
+/**
+ * Ids of the jobs to remove so the history fits the retention settings, none while the policy is
+ * off. Jobs are dropped oldest first; `resultSizes` holds the stored results size in bytes by
+ * job id.
+ */
+export const getJobsToPrune = (
+  jobs: AnalysisJob[],
+  resultSizes: Record<string, number>,
+  settings: HistoryRetentionSettings,
+  now = Date.now()
+): string[] => {
+  if (!settings.enabled) return [];
+
+  const newestFirst = [...jobs].sort(
+    (a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime()
+  );
+  const oldestAllowed = now - settings.maxAgeDays * 24 * 60 * 60 * 1000;
+  const maxBytes = settings.maxStorageMB * 1024 * 1024;
+
+  let keptBytes = 0;
+  let storageFull = false;
+  return newestFirst
+    .filter((job, index) => {
+      const bytes = resultSizes[job.id] ?? 0;
+      // The newest job is never dropped for size, or large results could not be kept at all.
+      // Once one job does not fit, every older one goes too.
+      storageFull ||= settings.maxStorageMB !== 0 && index > 0 && keptBytes + bytes > maxBytes;
+      const keep =
+        !storageFull &&
+        (settings.maxAgeDays === 0 || new Date(job.submittedAt).getTime() >= oldestAllowed) &&
+        (settings.maxJobs === 0 || index < settings.maxJobs);
+      if (keep) keptBytes += bytes;
+      return !keep;
+    })
+    .map(job => job.id);
+};
+
+/**
+ * Format a byte count for display, e.g. "12.4 MB"
+ */
+export const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
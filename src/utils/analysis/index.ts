@@ -1,2 +1,176 @@
 // Job validation and file processing utilities
 // Examples: jobValidation, file format detection, cost estimation
+export { sniffBinaryFormat, summarizeBinaryHeader } from './binaryFormat';
+export type { BinaryFormat, BinaryHeaderInfo, BinarySection } from './binaryFormat';
+export { computeFileHashes } from './fileHash';
+export { Md5 } from './md5';
+export { toJobUpdate } from './jobStatus';
+export {
+  buildJobSearchText,
+  compareAnalysisDepths,
+  getDurationSeconds,
+  getJobCost,
+  getJobProvider,
+  matchesSearchText,
+  queryJobHistoryPage,
+  toJobHistoryRow,
+} from './jobHistory';
+export type {
+  JobHistoryPage,
+  JobHistoryPageQuery,
+  JobHistoryRow,
+  JobHistorySortField,
+} from './jobHistory';
+export { diffAnalysisResults, diffFunctions, diffText } from './resultsDiff';
+export type {
+  AnalysisResultsDiff,
+  FunctionChangeType,
+  FunctionDiff,
+  FunctionSnapshot,
+  MetricDelta,
+  TextDiffSegment,
+} from './resultsDiff';
+export { analyzeSecurity, normalizeApiName } from './securityFindings';
+export type {
+  FindingCategory,
+  FindingEvidence,
+  FindingSeverity,
+  RiskLevel,
+  SecurityAssessment,
+  SecurityFinding,
+} from './securityFindings';
+export { buildCallGraph, getNeighborhood, getNodeRadius, layoutCallGraph } from './callGraph';
+export type {
+  CallGraph,
+  CallGraphEdge,
+  CallGraphLayout,
+  CallGraphNode,
+  CallGraphNodeKind,
+  NodePosition,
+} from './callGraph';
+export { buildFunctionDetails } from './functionDetails';
+export type { FunctionDetail } from './functionDetails';
+export {
+  MAX_CODE_MATCHES,
+  findAddressLine,
+  findSymbolReferences,
+  getDecompiledListing,
+  getVisibleLines,
+  parseAddress,
+  parseDecompiledCode,
+  searchCodeLines,
+  tokenizeLine,
+} from './decompiledCode';
+export type {
+  CodeFunctionRange,
+  CodeToken,
+  CodeTokenType,
+  DecompiledListing,
+} from './decompiledCode';
+export {
+  SUGGESTED_TAGS,
+  carryOverFunctionAnnotations,
+  findPreviousAnnotations,
+  getAnnotatedName,
+  getBinaryKey,
+} from './annotations';
+export {
+  RESULTS_FILE_FORMAT,
+  RESULTS_FILE_VERSION,
+  buildResultsFile,
+  parseResultsFile,
+} from './resultsFile';
+export type { ImportedResults, ResultsFile } from './resultsFile';
+export {
+  INDICATOR_TYPES,
+  INDICATOR_TYPE_LABELS,
+  defangIndicator,
+  extractIndicators,
+  findIndicatorsInText,
+  indicatorsToCsv,
+} from './indicators';
+export type { Indicator, IndicatorSource, IndicatorType } from './indicators';
+export {
+  DEFAULT_BUDGET_SETTINGS,
+  DEFAULT_PRICE_PER_1K_TOKENS,
+  checkBudget,
+  estimateJobCosts,
+  estimateTokens,
+  formatCost,
+  getMonthStart,
+  getPricePer1kTokens,
+  normalizeBudgetSettings,
+} from './costEstimate';
+export type {
+  BudgetCheck,
+  BudgetSettings,
+  CostEstimateInput,
+  EstimateDepth,
+  EstimateDetail,
+  JobCostEstimate,
+} from './costEstimate';
+export {
+  buildUsageAnalytics,
+  dailyUsageToCsv,
+  getRangeStart,
+  providerUsageToCsv,
+} from './usageAnalytics';
+export type {
+  DailyUsage,
+  DepthDuration,
+  ProviderUsage,
+  UsageAnalytics,
+  UsageAnalyticsOptions,
+} from './usageAnalytics';
+export {
+  DEFAULT_PRESETS,
+  PRESETS_FILE_FORMAT,
+  PRESETS_FILE_VERSION,
+  buildPresetsFile,
+  createPresetId,
+  matchesPreset,
+  mergePresets,
+  normalizePreset,
+  normalizePresetCollection,
+  parsePresetsFile,
+  resolvePresetProvider,
+} from './presets';
+export type {
+  AnalysisPreset,
+  AnalysisPresetConfig,
+  PresetAnalysisDepth,
+  PresetCollection,
+  PresetLLMSettings,
+  PresetsFile,
+  PresetTranslationDetail,
+} from './presets';
+export {
+  DEFAULT_RETRY_SETTINGS,
+  MAX_AUTO_RETRY_ATTEMPTS,
+  MAX_FILE_CACHE_HOURS,
+  buildRetryRequest,
+  getRetryDelayMs,
+  isRetryableJob,
+  normalizeRetrySettings,
+} from './jobRetry';
+export type { AutoRetryPolicy, RetrySettings } from './jobRetry';
+export {
+  DEFAULT_HISTORY_RETENTION,
+  MAX_RETAINED_JOBS,
+  MAX_RETAINED_STORAGE_MB,
+  MAX_RETENTION_DAYS,
+  STORAGE_QUOTA_WARNING_RATIO,
+  formatBytes,
+  getJobsToPrune,
+  normalizeHistoryRetention,
+} from './historyRetention';
+export type { HistoryRetentionSettings } from './historyRetention';
+export {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  MAX_BACKGROUND_INTERVAL_SECONDS,
+  MIN_BACKGROUND_INTERVAL_SECONDS,
+  buildJobNotification,
+  getJobNotificationEvent,
+  normalizeNotificationSettings,
+} from './jobNotifications';
+export type { JobNotificationEvent, NotificationSettings } from './jobNotifications';
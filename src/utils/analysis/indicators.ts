@@ -0,0 +1,244 @@
+/**
+ * Indicators of compromise
+ * Extracts network, host and wallet indicators from a binary's strings and LLM translations
+ */
+
+import type { JobStatusResponse } from '../../services/api/analysisApi';
+import { toCsv } from '../csv';
+
+type AnalysisResults = NonNullable<JobStatusResponse['results']>;
+
+export type IndicatorType =
+  | 'url'
+  | 'ipv4'
+  | 'ipv6'
+  | 'domain'
+  | 'email'
+  | 'registry_key'
+  | 'file_path'
+  | 'crypto_wallet';
+
+export type IndicatorSource = 'strings' | 'translations';
+
+export interface Indicator {
+  id: string;
+  type: IndicatorType;
+  value: string;
+  // Wallet currency, e.g. "Bitcoin"
+  label?: string;
+  occurrences: number;
+  sources: IndicatorSource[];
+  // Functions whose code quotes the string or whose translation mentions the indicator
+  functions: string[];
+}
+
+export const INDICATOR_TYPES: IndicatorType[] = [
+  'url',
+  'domain',
+  'ipv4',
+  'ipv6',
+  'email',
+  'registry_key',
+  'file_path',
+  'crypto_wallet',
+];
+
+export const INDICATOR_TYPE_LABELS: Record<IndicatorType, string> = {
+  url: 'URL',
+  domain: 'Domain',
+  ipv4: 'IPv4',
+  ipv6: 'IPv6',
+  email: 'Email',
+  registry_key: 'Registry key',
+  file_path: 'File path',
+  crypto_wallet: 'Crypto wallet',
+};
+
+// Only these top-level domains count, so file names like "kernel32.dll" or "libc.so" do not
+const DOMAIN_TLDS = new Set(
+  [
+    'com net org info biz io co me us uk de ru cn jp fr nl br au ca it es ch se no fi dk',
+    'be at kr in tw hk vn id tr ro cz hu gr ua by kz su ir kp tk ml ga cf gq xyz top',
+    'online site club app dev cloud tech store shop live space website gov edu mil int',
+    'eu onion bit cc ws to tv pw ly gg mobi name pro',
+  ]
+    .join(' ')
+    .split(' ')
+);
+
+const PATTERNS: Array<{ type: IndicatorType; pattern: RegExp; label?: string }> = [
+  { type: 'url', pattern: /\b(?:https?|ftps?|wss?):\/\/[^\s"'<>`]+/gi },
+  { type: 'email', pattern: /\b[A-Za-z0-9._%+-]+@(?:[A-Za-z0-9-]+\.)+[A-Za-z]{2,24}\b/g },
+  {
+    type: 'ipv4',
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+  },
+  // Candidates only; see isIpv6
+  { type: 'ipv6', pattern: /(?<![\w:])(?:[0-9a-f]{0,4}:){2,7}[0-9a-f]{0,4}(?![\w:])/gi },
+  {
+    type: 'domain',
+    pattern: /\b(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,24}\b/gi,
+  },
+  {
+    type: 'registry_key',
+    pattern:
+      /\b(?:HKEY_(?:LOCAL_MACHINE|CURRENT_USER|CLASSES_ROOT|USERS|CURRENT_CONFIG)|HK(?:LM|CU|CR|U|CC))\\[^\s"'<>|]+/gi,
+  },
+  {
+    type: 'registry_key',
+    pattern:
+      /\b(?:SOFTWARE|SYSTEM)\\(?:Microsoft|Policies|CurrentControlSet|Classes)\\[^\s"'<>|]+/gi,
+  },
+  { type: 'file_path', pattern: /\b[A-Za-z]:\\(?:[^\\/:*?"<>|\r\n\t]+\\)*[^\\/:*?"<>|\s]*/g },
+  { type: 'file_path', pattern: /%[A-Za-z_]+%\\[^\s"'<>|]+/g },
+  { type: 'file_path', pattern: /\\\\[\w.-]+\\[^\s"'<>|]+/g },
+  {
+    type: 'file_path',
+    pattern:
+      /(?<![\w.:/])\/(?:etc|tmp|var|usr|bin|sbin|home|root|dev|proc|opt|lib|Library|Users|Applications|System)(?:\/[\w.+-]+)+/g,
+  },
+  { type: 'crypto_wallet', label: 'Bitcoin', pattern: /\bbc1[ac-hj-np-z02-9]{11,71}\b/g },
+  {
+    type: 'crypto_wallet',
+    label: 'Bitcoin',
+    pattern: /\b[13][a-km-zA-HJ-NP-Z1-9]{25,34}\b/g,
+  },
+  { type: 'crypto_wallet', label: 'Ethereum', pattern: /\b0x[a-fA-F0-9]{40}\b/g },
+  {
+    type: 'crypto_wallet',
+    label: 'Monero',
+    pattern: /\b4[0-9AB][1-9A-HJ-NP-Za-km-z]{93}\b/g,
+  },
+];
+
+// Punctuation that ends a sentence rather than the indicator
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}'"]+$/;
+
+const isIpv6 = (value: string): boolean => {
+  const halves = value.split('::');
+  if (halves.length > 2 || value === '::') return false;
+  const groups = halves.flatMap(half => (half ? half.split(':') : []));
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/i.test(group))) return false;
+  return halves.length === 2 ? groups.length < 8 : groups.length === 8;
+};
+
+const isDomain = (value: string): boolean => {
+  const tld = value.slice(value.lastIndexOf('.') + 1).toLowerCase();
+  return DOMAIN_TLDS.has(tld);
+};
+
+// Indicators that differ only in case are the same indicator
+const normalize = (type: IndicatorType, value: string): string =>
+  type === 'domain' || type === 'email' || type === 'ipv6' || type === 'registry_key'
+    ? value.toLowerCase()
+    : value;
+
+/**
+ * Find every indicator in one piece of text, in order of appearance
+ */
+export const findIndicatorsInText = (
+  text: string
+): Array<{ type: IndicatorType; value: string; label?: string }> => {
+  const found: Array<{ type: IndicatorType; value: string; label?: string }> = [];
+  PATTERNS.forEach(({ type, pattern, label }) => {
+    for (const match of text.matchAll(pattern)) {
+      const value =
+        type === 'url' || type === 'file_path' || type === 'registry_key'
+          ? match[0].replace(TRAILING_PUNCTUATION, '')
+          : match[0];
+      if (type === 'ipv6' && !isIpv6(value)) continue;
+      if (type === 'domain' && !isDomain(value)) continue;
+      found.push({ type, value, ...(label && { label }) });
+    }
+  });
+  return found;
+};
+
+/**
+ * Extract and deduplicate the indicators in a job's strings and LLM translations
+ */
+export const extractIndicators = (results: AnalysisResults): Indicator[] => {
+  const indicators = new Map<string, Indicator>();
+  const functions = results.functions ?? [];
+
+  const add = (text: string, source: IndicatorSource, referencedBy: () => string[]) => {
+    findIndicatorsInText(text).forEach(({ type, value, label }) => {
+      const id = `${type}:${normalize(type, value)}`;
+      const indicator = indicators.get(id) ?? {
+        id,
+        type,
+        value,
+        ...(label && { label }),
+        occurrences: 0,
+        sources: [],
+        functions: [],
+      };
+      indicator.occurrences++;
+      if (!indicator.sources.includes(source)) indicator.sources.push(source);
+      referencedBy().forEach(name => {
+        if (!indicator.functions.includes(name)) indicator.functions.push(name);
+      });
+      indicators.set(id, indicator);
+    });
+  };
+
+  results.strings?.forEach(value => {
+    // Strings are attributed to any function whose code quotes them
+    add(value, 'strings', () =>
+      functions
+        .filter(fn => fn.decompiled_code?.includes(value) || fn.assembly_code?.includes(value))
+        .map(fn => fn.name)
+    );
+  });
+  results.llm_translations?.functions.forEach(fn => {
+    add(fn.description, 'translations', () => [fn.function_name]);
+  });
+
+  return Array.from(indicators.values()).sort(
+    (a, b) =>
+      INDICATOR_TYPES.indexOf(a.type) - INDICATOR_TYPES.indexOf(b.type) ||
+      a.value.localeCompare(b.value)
+  );
+};
+
+/**
+ * Make a network indicator safe to paste into tickets and chat: it no longer links or resolves
+ */
+export const defangIndicator = ({ type, value }: Pick<Indicator, 'type' | 'value'>): string => {
+  switch (type) {
+    case 'url': {
+      const [, scheme = '', rest = value] = /^([a-z]+):\/\/(.*)$/i.exec(value) ?? [];
+      const slash = rest.indexOf('/');
+      const host = slash === -1 ? rest : rest.slice(0, slash);
+      const path = slash === -1 ? '' : rest.slice(slash);
+      const defangedScheme = scheme.replace(/^http/i, 'hxxp').replace(/^ftp/i, 'fxp');
+      return `${defangedScheme}[://]${host.replace(/\./g, '[.]')}${path}`;
+    }
+    case 'domain':
+    case 'ipv4':
+      return value.replace(/\./g, '[.]');
+    case 'ipv6':
+      return value.replace(/:/g, '[:]');
+    case 'email':
+      return value.replace('@', '[@]').replace(/\./g, '[.]');
+    default:
+      return value;
+  }
+};
+
+/**
+ * Render indicators as CSV, with the defanged form alongside the original
+ */
+export const indicatorsToCsv = (indicators: Indicator[]): string =>
+  toCsv([
+    ['type', 'value', 'defanged', 'label', 'occurrences', 'sources', 'functions'],
+    ...indicators.map(indicator => [
+      indicator.type,
+      indicator.value,
+      defangIndicator(indicator),
+      indicator.label,
+      indicator.occurrences,
+      indicator.sources.join(';'),
+      indicator.functions.join(';'),
+    ]),
+  ]);
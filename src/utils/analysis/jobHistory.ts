@@ -0,0 +1,174 @@
+/**
+ * Job history querying
+ * Flattens tracked jobs into table rows and searches, sorts and pages them
+ */
+
+import { isRetryableJob } from './jobRetry';
+import type { AnalysisDepthType, AnalysisJob, JobStatusType } from '../../types/analysis.types';
+
+export interface JobHistoryRow {
+  id: string;
+  fileName: string;
+  sha256?: string;
+  status: JobStatusType;
+  analysisDepth: AnalysisDepthType;
+  llmProvider?: string;
+  submittedAt: string;
+  durationSeconds?: number;
+  cost?: number;
+  functionCount?: number;
+  error?: string;
+  retryOfJobId?: string;
+  // Failed, and uploaded from this browser so it can be resubmitted
+  retryable: boolean;
+}
+
+export type JobHistorySortField = Exclude<
+  keyof JobHistoryRow,
+  'id' | 'error' | 'retryOfJobId' | 'retryable'
+>;
+
+export interface JobHistoryPageQuery {
+  page: number;
+  pageSize: number;
+  sortField?: JobHistorySortField;
+  sortDirection?: 'asc' | 'desc';
+}
+
+export interface JobHistoryPage {
+  rows: JobHistoryRow[];
+  total: number;
+}
+
+const DEPTH_ORDER: Record<AnalysisDepthType, number> = {
+  basic: 0,
+  standard: 1,
+  detailed: 2,
+  comprehensive: 3,
+};
+
+/**
+ * Order analysis depths from shallowest to deepest. Depths this version does not know about,
+ * e.g. from an imported results file, sort after the known ones.
+ */
+export const compareAnalysisDepths = (a: string, b: string): number => {
+  const rank = (depth: string) =>
+    depth in DEPTH_ORDER
+      ? DEPTH_ORDER[depth as AnalysisDepthType]
+      : Object.keys(DEPTH_ORDER).length;
+  return rank(a) - rank(b) || a.localeCompare(b);
+};
+
+/**
+ * How long a job ran, as reported by the backend or measured from its timestamps
+ */
+export const getDurationSeconds = (job: AnalysisJob): number | undefined => {
+  if (job.resultSummary?.durationSeconds !== undefined) return job.resultSummary.durationSeconds;
+  if (!job.completedAt) return undefined;
+  const elapsed = new Date(job.completedAt).getTime() - new Date(job.submittedAt).getTime();
+  return Number.isFinite(elapsed) && elapsed >= 0 ? elapsed / 1000 : undefined;
+};
+
+/**
+ * What a job cost: the billed amount when known, otherwise the token cost the LLM reported,
+ * otherwise the estimate made at submission
+ */
+export const getJobCost = (job: AnalysisJob): number | undefined =>
+  job.actualCost ?? job.results?.translation?.tokensUsed.cost ?? job.estimatedCost;
+
+/**
+ * Provider that translated a job, as reported by the results when available
+ */
+export const getJobProvider = (job: AnalysisJob): string | undefined =>
+  job.resultSummary?.llmProvider ?? job.results?.translation?.llmProvider ?? job.config.llmProvider;
+
+/**
+ * Flatten a job into the values shown and sorted in the history table
+ */
+export const toJobHistoryRow = (job: AnalysisJob): JobHistoryRow => {
+  const llmProvider = getJobProvider(job);
+  const cost = getJobCost(job);
+  const functionCount =
+    job.resultSummary?.functionCount ?? job.results?.decompilation?.functions.length;
+  const durationSeconds = getDurationSeconds(job);
+
+  return {
+    id: job.id,
+    fileName: job.fileName,
+    status: job.status,
+    analysisDepth: job.config.analysisDepth,
+    submittedAt: job.submittedAt,
+    ...(job.hashes && { sha256: job.hashes.sha256 }),
+    ...(llmProvider && { llmProvider }),
+    ...(durationSeconds !== undefined && { durationSeconds }),
+    ...(cost !== undefined && { cost }),
+    ...(functionCount !== undefined && { functionCount }),
+    ...(job.error && { error: job.error }),
+    ...(job.retryOfJobId && { retryOfJobId: job.retryOfJobId }),
+    retryable: isRetryableJob(job),
+  };
+};
+
+/**
+ * Lower-cased text a job is searched by: file name, hashes, function names and LLM summaries
+ */
+export const buildJobSearchText = (job: AnalysisJob): string =>
+  [
+    job.fileName,
+    job.hashes?.sha256,
+    job.hashes?.sha1,
+    job.hashes?.md5,
+    ...(job.resultSummary?.functionNames ?? []),
+    ...(job.resultSummary?.functionDescriptions ?? []),
+    ...(job.results?.decompilation?.functions.map(fn => fn.name) ?? []),
+    job.results?.translation?.summary,
+    ...(job.results?.translation?.keyFindings ?? []),
+  ]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+
+/**
+ * Whether search text contains every whitespace-separated term of the query
+ */
+export const matchesSearchText = (searchText: string, query: string): boolean =>
+  query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every(term => searchText.includes(term));
+
+const compareRows = (a: JobHistoryRow, b: JobHistoryRow, field: JobHistorySortField): number => {
+  if (field === 'analysisDepth') return compareAnalysisDepths(a.analysisDepth, b.analysisDepth);
+  if (field === 'submittedAt') {
+    return new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime();
+  }
+
+  const left = a[field];
+  const right = b[field];
+  // Rows missing a value are placed by the caller
+  if (left === undefined || right === undefined) return 0;
+  return typeof left === 'number' && typeof right === 'number'
+    ? left - right
+    : String(left).localeCompare(String(right), undefined, { sensitivity: 'base' });
+};
+
+/**
+ * Sort and slice rows the way a paginated backend endpoint would
+ */
+export const queryJobHistoryPage = (
+  rows: JobHistoryRow[],
+  { page, pageSize, sortField = 'submittedAt', sortDirection = 'desc' }: JobHistoryPageQuery
+): JobHistoryPage => {
+  const direction = sortDirection === 'asc' ? 1 : -1;
+  const sorted = [...rows].sort((a, b) => {
+    // Rows without a value for the column always go last, whichever the direction
+    const missingA = a[sortField] === undefined;
+    const missingB = b[sortField] === undefined;
+    if (missingA !== missingB) return missingA ? 1 : -1;
+    return compareRows(a, b, sortField) * direction;
+  });
+
+  const start = page * pageSize;
+  return { rows: sorted.slice(start, start + pageSize), total: rows.length };
+};
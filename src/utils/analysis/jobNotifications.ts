@@ -0,0 +1,123 @@
+/**
+ * Job notifications
+ * Settings for desktop notifications and background polling, and the text shown when a job
+ * finishes
+ */
+
+import type { AnalysisJob } from '../../types/analysis.types';
+import { getDurationSeconds, getJobProvider } from './jobHistory';
+
+export type JobNotificationEvent = 'completed' | 'failed' | 'cancelled';
+
+export interface NotificationSettings {
+  // Opt-in; the browser permission is requested when this is turned on
+  enabled: boolean;
+  events: Record<JobNotificationEvent, boolean>;
+  sound: boolean;
+  // Keep polling at a slower pace while the tab is hidden instead of pausing
+  backgroundPolling: boolean;
+  backgroundIntervalSeconds: number;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  events: { completed: true, failed: true, cancelled: false },
+  sound: false,
+  backgroundPolling: true,
+  backgroundIntervalSeconds: 60,
+};
+
+// Browsers throttle timers in hidden tabs to about once a minute, so shorter waits gain little
+export const MIN_BACKGROUND_INTERVAL_SECONDS = 15;
+export const MAX_BACKGROUND_INTERVAL_SECONDS = 15 * 60;
+
+const JOB_NOTIFICATION_EVENTS: JobNotificationEvent[] = ['completed', 'failed', 'cancelled'];
+
+const readBoolean = (value: unknown, fallback: boolean): boolean =>
+  typeof value === 'boolean' ? value : fallback;
+
+/**
+ * Read stored notification settings, falling back to the defaults for anything missing or invalid
+ */
+export const normalizeNotificationSettings = (value: unknown): NotificationSettings => {
+  if (typeof value !== 'object' || value === null) return DEFAULT_NOTIFICATION_SETTINGS;
+  const stored = value as Record<string, unknown>;
+  const events = (
+    typeof stored.events === 'object' && stored.events !== null ? stored.events : {}
+  ) as Record<string, unknown>;
+  const defaults = DEFAULT_NOTIFICATION_SETTINGS;
+  const interval = stored.backgroundIntervalSeconds;
+
+  return {
+    enabled: readBoolean(stored.enabled, defaults.enabled),
+    events: Object.fromEntries(
+      JOB_NOTIFICATION_EVENTS.map(event => [
+        event,
+        readBoolean(events[event], defaults.events[event]),
+      ])
+    ) as Record<JobNotificationEvent, boolean>,
+    sound: readBoolean(stored.sound, defaults.sound),
+    backgroundPolling: readBoolean(stored.backgroundPolling, defaults.backgroundPolling),
+    backgroundIntervalSeconds:
+      typeof interval === 'number' && Number.isFinite(interval)
+        ? Math.round(
+            Math.min(
+              Math.max(interval, MIN_BACKGROUND_INTERVAL_SECONDS),
+              MAX_BACKGROUND_INTERVAL_SECONDS
+            )
+          )
+        : defaults.backgroundIntervalSeconds,
+  };
+};
+
+/**
+ * The event a finished job reports, or undefined while it is still running
+ */
+export const getJobNotificationEvent = (job: AnalysisJob): JobNotificationEvent | undefined =>
+  JOB_NOTIFICATION_EVENTS.find(event => event === job.status);
+
+const formatElapsed = (seconds: number): string => {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${Math.round(seconds % 60)}s`;
+};
+
+/**
+ * Title and summary line for the notification about a finished job
+ */
+export const buildJobNotification = (
+  job: AnalysisJob
+): { title: string; body: string } | undefined => {
+  const event = getJobNotificationEvent(job);
+  if (!event) return undefined;
+
+  const duration = getDurationSeconds(job);
+  const elapsed = duration !== undefined ? formatElapsed(duration) : undefined;
+
+  switch (event) {
+    case 'completed': {
+      const functionCount = job.resultSummary?.functionCount;
+      const provider = getJobProvider(job);
+      return {
+        title: `Analysis of ${job.fileName} is ready`,
+        body: [
+          functionCount !== undefined && `${functionCount} functions`,
+          provider ? `translated with ${provider}` : 'decompiled only',
+          elapsed && `took ${elapsed}`,
+        ]
+          .filter(Boolean)
+          .join(' · '),
+      };
+    }
+    case 'failed':
+      return {
+        title: `Analysis of ${job.fileName} failed`,
+        body: job.error || 'The job failed without an error message',
+      };
+    case 'cancelled':
+      return {
+        title: `Analysis of ${job.fileName} was cancelled`,
+        body: elapsed ? `Cancelled after ${elapsed}` : 'The job was cancelled',
+      };
+  }
+};
@@ -0,0 +1,105 @@
+/**
+ * Job retry
+ * Settings for caching uploaded files and retrying failed jobs, and helpers for resubmitting
+ * a job with its original or edited configuration
+ */
+
+import type { JobSubmissionRequest } from '../../services/api/analysisApi';
+import type { AnalysisJob, JobConfig } from '../../types/analysis.types';
+
+export interface AutoRetryPolicy {
+  enabled: boolean;
+  // Automatic resubmissions per original job
+  maxAttempts: number;
+  // Doubles after every attempt
+  initialDelaySeconds: number;
+}
+
+export interface RetrySettings {
+  // How long uploaded files are kept in the browser for resubmission; 0 turns caching off
+  fileCacheHours: number;
+  autoRetry: AutoRetryPolicy;
+}
+
+// Automatic retries submit jobs, and spend on LLM translation, without the user, so they are opt-in
+export const DEFAULT_RETRY_SETTINGS: RetrySettings = {
+  fileCacheHours: 24,
+  autoRetry: {
+    enabled: false,
+    maxAttempts: 2,
+    initialDelaySeconds: 30,
+  },
+};
+
+export const MAX_AUTO_RETRY_ATTEMPTS = 5;
+export const MAX_FILE_CACHE_HOURS = 24 * 30;
+
+const readNumber = (value: unknown, fallback: number, min: number, max: number): number =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(Math.max(value, min), max)
+    : fallback;
+
+/**
+ * Read stored retry settings, falling back to the defaults for anything missing or invalid
+ */
+export const normalizeRetrySettings = (value: unknown): RetrySettings => {
+  if (typeof value !== 'object' || value === null) return DEFAULT_RETRY_SETTINGS;
+  const stored = value as Record<string, unknown>;
+  const autoRetry = (
+    typeof stored.autoRetry === 'object' && stored.autoRetry !== null ? stored.autoRetry : {}
+  ) as Record<string, unknown>;
+  const defaults = DEFAULT_RETRY_SETTINGS.autoRetry;
+
+  return {
+    fileCacheHours: readNumber(
+      stored.fileCacheHours,
+      DEFAULT_RETRY_SETTINGS.fileCacheHours,
+      0,
+      MAX_FILE_CACHE_HOURS
+    ),
+    autoRetry: {
+      enabled: typeof autoRetry.enabled === 'boolean' ? autoRetry.enabled : defaults.enabled,
+      maxAttempts: Math.round(
+        readNumber(autoRetry.maxAttempts, defaults.maxAttempts, 0, MAX_AUTO_RETRY_ATTEMPTS)
+      ),
+      initialDelaySeconds: readNumber(
+        autoRetry.initialDelaySeconds,
+        defaults.initialDelaySeconds,
+        0,
+        60 * 60
+      ),
+    },
+  };
+};
+
+/**
+ * Wait before the given automatic attempt (1 for the first retry), doubling each time
+ */
+export const getRetryDelayMs = (policy: AutoRetryPolicy, attempt: number): number =>
+  policy.initialDelaySeconds * 1000 * 2 ** Math.max(attempt - 1, 0);
+
+/**
+ * Whether the job can be resubmitted at all; the file must also still be cached
+ */
+export const isRetryableJob = (job: AnalysisJob): boolean =>
+  job.status === 'failed' && !job.imported && !job.parentJobId;
+
+/**
+ * Build the submission for a retry. API keys are never part of a stored config, so the caller
+ * passes one in when the provider needs it.
+ */
+export const buildRetryRequest = (
+  file: File,
+  config: JobConfig,
+  apiKey?: string
+): JobSubmissionRequest => ({
+  file,
+  // Job configs record the depth exactly as it was submitted
+  analysis_depth: config.analysisDepth as NonNullable<JobSubmissionRequest['analysis_depth']>,
+  ...(config.llmProvider && {
+    llm_provider: config.llmProvider,
+    translation_detail: config.translationDetail ?? 'standard',
+  }),
+  ...(config.llmModel && { llm_model: config.llmModel }),
+  ...(apiKey && { llm_api_key: apiKey }),
+});
@@ -0,0 +1,54 @@
+/**
+ * Job status mapping
+ * Converts backend job status payloads into updates for tracked AnalysisJobs
+ */
+
+import type { JobStatusResponse } from '../../services/api/analysisApi';
+import type { AnalysisJob, JobPhaseType, JobResultSummary } from '../../types/analysis.types';
+
+const getPhase = (status: JobStatusResponse): JobPhaseType | undefined => {
+  switch (status.status) {
+    case 'queued':
+      return 'queued';
+    case 'processing':
+      return /translat|llm/i.test(status.current_stage || '') ? 'translating' : 'decompiling';
+    case 'completed':
+      return 'completed';
+    case 'failed':
+      return 'failed';
+    default:
+      return undefined;
+  }
+};
+
+const getResultSummary = (status: JobStatusResponse): JobResultSummary | undefined => {
+  const results = status.results;
+  if (!results) return undefined;
+
+  const functions = results.llm_translations?.functions ?? [];
+  return {
+    functionCount: results.function_count,
+    functionNames: functions.map(fn => fn.function_name),
+    functionDescriptions: functions.map(fn => fn.description).filter(Boolean),
+    durationSeconds: results.duration_seconds,
+    ...(results.llm_translations?.provider && { llmProvider: results.llm_translations.provider }),
+  };
+};
+
+/**
+ * Build the `updateJob` payload for a job status received from polling or a stream
+ */
+export const toJobUpdate = (status: JobStatusResponse): Partial<AnalysisJob> & { id: string } => {
+  const phase = getPhase(status);
+  const resultSummary = getResultSummary(status);
+
+  return {
+    id: status.job_id,
+    status: status.status,
+    progress: status.progress_percentage,
+    ...(phase && { phase }),
+    ...(status.isCompleted && { completedAt: status.updated_at || new Date().toISOString() }),
+    ...(status.status === 'failed' && status.message && { error: status.message }),
+    ...(resultSummary && { resultSummary }),
+  };
+};
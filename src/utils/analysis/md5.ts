@@ -0,0 +1,106 @@
+/**
+ * Incremental MD5 (RFC 1321)
+ * SubtleCrypto does not implement MD5, but it is still the digest most threat-intel feeds index by
+ */
+
+// Per-round left rotation amounts
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14,
+  20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6,
+  10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+// K[i] = floor(abs(sin(i + 1)) * 2^32)
+const CONSTANTS = Array.from({ length: 64 }, (_, i) =>
+  Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000)
+);
+
+export class Md5 {
+  private state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+  private buffer = new Uint8Array(64);
+  private bufferLength = 0;
+  private bytesHashed = 0;
+
+  /**
+   * Feed more data into the digest
+   */
+  public update(data: Uint8Array): this {
+    this.bytesHashed += data.length;
+    let offset = 0;
+
+    if (this.bufferLength > 0) {
+      const take = Math.min(64 - this.bufferLength, data.length);
+      this.buffer.set(data.subarray(0, take), this.bufferLength);
+      this.bufferLength += take;
+      offset = take;
+      if (this.bufferLength < 64) return this;
+      this.processBlock(this.buffer, 0);
+      this.bufferLength = 0;
+    }
+
+    for (; offset + 64 <= data.length; offset += 64) {
+      this.processBlock(data, offset);
+    }
+
+    if (offset < data.length) {
+      this.buffer.set(data.subarray(offset), 0);
+      this.bufferLength = data.length - offset;
+    }
+    return this;
+  }
+
+  /**
+   * Finish the digest and return it as lowercase hex
+   */
+  public digest(): string {
+    const bitLength = this.bytesHashed * 8;
+    const padLength = this.bufferLength < 56 ? 56 - this.bufferLength : 120 - this.bufferLength;
+    const padding = new Uint8Array(padLength + 8);
+    const view = new DataView(padding.buffer);
+
+    padding[0] = 0x80;
+    view.setUint32(padLength, bitLength >>> 0, true);
+    view.setUint32(padLength + 4, Math.floor(bitLength / 0x100000000), true);
+    this.update(padding);
+
+    const output = new DataView(new ArrayBuffer(16));
+    this.state.forEach((word, i) => output.setUint32(i * 4, word, true));
+    return toHex(output.buffer);
+  }
+
+  private processBlock(data: Uint8Array, offset: number): void {
+    const block = new DataView(data.buffer, data.byteOffset + offset, 64);
+    const words = Array.from({ length: 16 }, (_, i) => block.getUint32(i * 4, true));
+    let [a = 0, b = 0, c = 0, d = 0] = this.state;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      const shift = SHIFTS[i] ?? 0;
+      const sum = (a + f + (CONSTANTS[i] ?? 0) + (words[g] ?? 0)) >>> 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) >>> 0;
+    }
+
+    this.state = [a, b, c, d].map((word, i) => (word + (this.state[i] ?? 0)) >>> 0);
+  }
+}
+
+export const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
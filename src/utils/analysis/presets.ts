@@ -0,0 +1,219 @@
+/**
+ * Analysis presets
+ * Named job configurations that can be reapplied, set as the default and shared as JSON
+ */
+
+import type { UserLLMProvider } from '../../services/api/analysisApi';
+
+export const PRESETS_FILE_FORMAT = 'bin2nlp-presets';
+export const PRESETS_FILE_VERSION = 1;
+
+export type PresetAnalysisDepth = 'basic' | 'standard' | 'comprehensive';
+export type PresetTranslationDetail = 'basic' | 'standard' | 'detailed';
+
+export interface PresetLLMSettings {
+  // Provider ids are per user, so the type is what lets a shared preset find a provider
+  providerType: UserLLMProvider['provider_type'];
+  providerId?: string;
+  providerName?: string;
+  model?: string;
+}
+
+export interface AnalysisPresetConfig {
+  analysisDepth: PresetAnalysisDepth;
+  translationDetail: PresetTranslationDetail;
+  // Absent when LLM translation is off
+  llm?: PresetLLMSettings;
+  decompilerOptions: Record<string, unknown>;
+}
+
+export interface AnalysisPreset extends AnalysisPresetConfig {
+  id: string;
+  name: string;
+}
+
+export interface PresetCollection {
+  presets: AnalysisPreset[];
+  defaultPresetId?: string;
+}
+
+export interface PresetsFile {
+  format: typeof PRESETS_FILE_FORMAT;
+  version: number;
+  exported_at: string;
+  presets: AnalysisPreset[];
+}
+
+export const DEFAULT_PRESETS: AnalysisPreset[] = [
+  {
+    id: 'quick-triage',
+    name: 'Quick triage',
+    analysisDepth: 'basic',
+    translationDetail: 'basic',
+    decompilerOptions: {},
+  },
+  {
+    id: 'full-malware-report-claude',
+    name: 'Full malware report with Claude',
+    analysisDepth: 'comprehensive',
+    translationDetail: 'detailed',
+    llm: { providerType: 'anthropic' },
+    decompilerOptions: {},
+  },
+];
+
+const DEPTHS: PresetAnalysisDepth[] = ['basic', 'standard', 'comprehensive'];
+const DETAILS: PresetTranslationDetail[] = ['basic', 'standard', 'detailed'];
+const PROVIDER_TYPES: Array<UserLLMProvider['provider_type']> = [
+  'openai',
+  'anthropic',
+  'gemini',
+  'ollama',
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalText = <K extends string>(key: K, value: unknown) =>
+  (typeof value === 'string' && value.trim() ? { [key]: value.trim() } : {}) as Partial<
+    Record<K, string>
+  >;
+
+export const createPresetId = (): string =>
+  `preset_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+/**
+ * Read one stored or imported preset, or undefined when it is unusable
+ */
+export const normalizePreset = (value: unknown): AnalysisPreset | undefined => {
+  if (!isRecord(value) || typeof value.name !== 'string' || !value.name.trim()) return undefined;
+  const llm = isRecord(value.llm) ? value.llm : undefined;
+  const providerType = PROVIDER_TYPES.find(type => type === llm?.providerType);
+
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : createPresetId(),
+    name: value.name.trim(),
+    analysisDepth: DEPTHS.find(depth => depth === value.analysisDepth) ?? 'standard',
+    translationDetail: DETAILS.find(detail => detail === value.translationDetail) ?? 'standard',
+    ...(providerType && {
+      llm: {
+        providerType,
+        ...optionalText('providerId', llm?.providerId),
+        ...optionalText('providerName', llm?.providerName),
+        ...optionalText('model', llm?.model),
+      },
+    }),
+    decompilerOptions: isRecord(value.decompilerOptions) ? value.decompilerOptions : {},
+  };
+};
+
+/**
+ * Read the stored presets, falling back to the built-in ones on first use
+ */
+export const normalizePresetCollection = (value: unknown): PresetCollection => {
+  if (!isRecord(value) || !Array.isArray(value.presets)) return { presets: DEFAULT_PRESETS };
+  const presets = value.presets
+    .map(normalizePreset)
+    .filter((preset): preset is AnalysisPreset => preset !== undefined);
+  const defaultPresetId = presets.some(preset => preset.id === value.defaultPresetId)
+    ? (value.defaultPresetId as string)
+    : undefined;
+  return { presets, ...(defaultPresetId && { defaultPresetId }) };
+};
+
+/**
+ * Build the JSON file for sharing presets. Provider ids only mean something to the user who
+ * made them, so they are left out; the provider type and name are enough to match one.
+ */
+export const buildPresetsFile = (presets: AnalysisPreset[]): PresetsFile => ({
+  format: PRESETS_FILE_FORMAT,
+  version: PRESETS_FILE_VERSION,
+  exported_at: new Date().toISOString(),
+  presets: presets.map(preset => {
+    if (!preset.llm) return preset;
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { providerId: _providerId, ...llm } = preset.llm;
+    return { ...preset, llm };
+  }),
+});
+
+/**
+ * Read presets from a shared file. A bare array of presets is accepted too.
+ */
+export const parsePresetsFile = (text: string): AnalysisPreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (isRecord(data)) {
+    if (data.format !== PRESETS_FILE_FORMAT) throw new Error('The file is not a presets export');
+    if (typeof data.version === 'number' && data.version > PRESETS_FILE_VERSION) {
+      throw new Error('The file was exported by a newer version of bin2nlp');
+    }
+  }
+  const entries = Array.isArray(data) ? data : isRecord(data) ? data.presets : undefined;
+  if (!Array.isArray(entries)) throw new Error('The file is not a presets export');
+
+  const presets = entries
+    .map(normalizePreset)
+    .filter((preset): preset is AnalysisPreset => preset !== undefined);
+  if (presets.length === 0) throw new Error('The file contains no usable presets');
+  return presets;
+};
+
+/**
+ * Add imported presets, replacing any existing preset with the same name
+ */
+export const mergePresets = (
+  existing: AnalysisPreset[],
+  imported: AnalysisPreset[]
+): AnalysisPreset[] => {
+  const merged = [...existing];
+  imported.forEach(preset => {
+    const index = merged.findIndex(
+      candidate => candidate.name.toLowerCase() === preset.name.toLowerCase()
+    );
+    if (index === -1) {
+      // Imported ids may clash with ones made locally
+      merged.push(
+        merged.some(candidate => candidate.id === preset.id)
+          ? { ...preset, id: createPresetId() }
+          : preset
+      );
+    } else {
+      merged[index] = { ...preset, id: merged[index]?.id ?? preset.id };
+    }
+  });
+  return merged;
+};
+
+/**
+ * Pick the user provider a preset should use: the one it was saved with if it still exists,
+ * otherwise an active provider of the same type, preferring one with the same name
+ */
+export const resolvePresetProvider = (
+  llm: PresetLLMSettings,
+  providers: UserLLMProvider[]
+): UserLLMProvider | undefined => {
+  const active = providers.filter(provider => provider.is_active);
+  return (
+    active.find(provider => provider.id === llm.providerId) ??
+    active.find(
+      provider => provider.provider_type === llm.providerType && provider.name === llm.providerName
+    ) ??
+    active.find(provider => provider.provider_type === llm.providerType)
+  );
+};
+
+/**
+ * Whether a configuration is what the preset would produce
+ */
+export const matchesPreset = (preset: AnalysisPreset, config: AnalysisPresetConfig): boolean =>
+  preset.analysisDepth === config.analysisDepth &&
+  // Translation detail only matters when translating
+  (!preset.llm || preset.translationDetail === config.translationDetail) &&
+  preset.llm?.providerType === config.llm?.providerType &&
+  (preset.llm?.model ?? '') === (config.llm?.model ?? '') &&
+  JSON.stringify(preset.decompilerOptions) === JSON.stringify(config.decompilerOptions);
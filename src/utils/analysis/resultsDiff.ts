@@ -0,0 +1,245 @@
+/**
+ * Analysis results diffing
+ * Aligns the functions of two analysis results and reports what was added, removed or changed
+ */
+
+import type { JobStatusResponse } from '../../services/api/analysisApi';
+
+type AnalysisResults = NonNullable<JobStatusResponse['results']>;
+
+export type FunctionChangeType = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export type FunctionChangedField = 'name' | 'size' | 'description';
+
+export interface FunctionSnapshot {
+  name: string;
+  address?: string;
+  size?: number;
+  description?: string;
+  confidence?: number;
+}
+
+export interface FunctionDiff {
+  key: string;
+  change: FunctionChangeType;
+  changedFields: FunctionChangedField[];
+  base?: FunctionSnapshot;
+  target?: FunctionSnapshot;
+}
+
+export type ResultsMetric = 'function_count' | 'import_count' | 'string_count';
+
+export interface MetricDelta {
+  metric: ResultsMetric;
+  label: string;
+  base: number;
+  target: number;
+  delta: number;
+}
+
+export interface TextDiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface AnalysisResultsDiff {
+  metrics: MetricDelta[];
+  functions: FunctionDiff[];
+  counts: Record<FunctionChangeType, number>;
+}
+
+const METRICS: Array<{ metric: ResultsMetric; label: string }> = [
+  { metric: 'function_count', label: 'Functions' },
+  { metric: 'import_count', label: 'Imports' },
+  { metric: 'string_count', label: 'Strings' },
+];
+
+const CHANGE_ORDER: Record<FunctionChangeType, number> = {
+  changed: 0,
+  added: 1,
+  removed: 2,
+  unchanged: 3,
+};
+
+// Word diffs are quadratic; longer texts are shown as a whole replacement instead
+const MAX_DIFF_TOKENS = 2000;
+
+// Addresses are compared numerically so 0x401000 and 0x00401000 line up
+const normalizeAddress = (address: string): string => {
+  const value = Number.parseInt(address, 16);
+  return Number.isNaN(value) ? address.toLowerCase() : value.toString(16);
+};
+
+/**
+ * Merge decompiler functions with their LLM descriptions, keyed by function name
+ */
+const collectFunctions = (results: AnalysisResults): FunctionSnapshot[] => {
+  const byName = new Map<string, FunctionSnapshot>();
+
+  results.functions?.forEach(fn => {
+    byName.set(fn.name, { name: fn.name, address: fn.address, size: fn.size });
+  });
+  results.llm_translations?.functions.forEach(fn => {
+    const existing = byName.get(fn.function_name) ?? { name: fn.function_name };
+    byName.set(fn.function_name, {
+      ...existing,
+      description: fn.description,
+      confidence: fn.confidence,
+    });
+  });
+
+  return Array.from(byName.values());
+};
+
+const compareFunctions = (base: FunctionSnapshot, target: FunctionSnapshot): FunctionDiff => {
+  const changedFields: FunctionChangedField[] = [];
+  if (base.name !== target.name) changedFields.push('name');
+  if (base.size !== undefined && target.size !== undefined && base.size !== target.size) {
+    changedFields.push('size');
+  }
+  if ((base.description ?? '').trim() !== (target.description ?? '').trim()) {
+    changedFields.push('description');
+  }
+
+  return {
+    key: `${base.name}→${target.name}`,
+    change: changedFields.length > 0 ? 'changed' : 'unchanged',
+    changedFields,
+    base,
+    target,
+  };
+};
+
+const getDisplayName = (diff: FunctionDiff): string => (diff.target ?? diff.base)?.name ?? '';
+
+/**
+ * Align two sets of functions by name, then pair the leftovers by address
+ */
+export const diffFunctions = (
+  baseFunctions: FunctionSnapshot[],
+  targetFunctions: FunctionSnapshot[]
+): FunctionDiff[] => {
+  const diffs: FunctionDiff[] = [];
+  const unmatchedTargets = new Map(targetFunctions.map(fn => [fn.name, fn]));
+  const unmatchedBases: FunctionSnapshot[] = [];
+
+  baseFunctions.forEach(base => {
+    const target = unmatchedTargets.get(base.name);
+    if (target) {
+      unmatchedTargets.delete(base.name);
+      diffs.push(compareFunctions(base, target));
+    } else {
+      unmatchedBases.push(base);
+    }
+  });
+
+  // Functions that were renamed between versions still sit at the same address
+  const targetsByAddress = new Map<string, FunctionSnapshot>();
+  unmatchedTargets.forEach(target => {
+    if (target.address) targetsByAddress.set(normalizeAddress(target.address), target);
+  });
+
+  unmatchedBases.forEach(base => {
+    const target = base.address ? targetsByAddress.get(normalizeAddress(base.address)) : undefined;
+    if (target && base.address) {
+      targetsByAddress.delete(normalizeAddress(base.address));
+      unmatchedTargets.delete(target.name);
+      diffs.push(compareFunctions(base, target));
+    } else {
+      diffs.push({ key: `${base.name}→`, change: 'removed', changedFields: [], base });
+    }
+  });
+
+  unmatchedTargets.forEach(target => {
+    diffs.push({ key: `→${target.name}`, change: 'added', changedFields: [], target });
+  });
+
+  return diffs.sort(
+    (a, b) =>
+      CHANGE_ORDER[a.change] - CHANGE_ORDER[b.change] ||
+      getDisplayName(a).localeCompare(getDisplayName(b))
+  );
+};
+
+/**
+ * Compare two analysis results: headline metric deltas plus per-function changes
+ */
+export const diffAnalysisResults = (
+  base: AnalysisResults,
+  target: AnalysisResults
+): AnalysisResultsDiff => {
+  const functions = diffFunctions(collectFunctions(base), collectFunctions(target));
+  const counts: Record<FunctionChangeType, number> = {
+    added: 0,
+    removed: 0,
+    changed: 0,
+    unchanged: 0,
+  };
+  functions.forEach(fn => counts[fn.change]++);
+
+  return {
+    metrics: METRICS.map(({ metric, label }) => ({
+      metric,
+      label,
+      base: base[metric],
+      target: target[metric],
+      delta: target[metric] - base[metric],
+    })),
+    functions,
+    counts,
+  };
+};
+
+/**
+ * Word-level diff of two texts (longest common subsequence over words and whitespace)
+ */
+export const diffText = (before: string, after: string): TextDiffSegment[] => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, text: before }] : []),
+      ...(after ? [{ type: 'added' as const, text: after }] : []),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    const row = lengths[i]!;
+    const next = lengths[i + 1]!;
+    for (let j = b.length - 1; j >= 0; j--) {
+      row[j] = a[i] === b[j] ? next[j + 1]! + 1 : Math.max(next[j]!, row[j + 1]!);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  const push = (type: TextDiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i++]!);
+      j++;
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      push('removed', a[i++]!);
+    } else {
+      push('added', b[j++]!);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]!);
+  while (j < b.length) push('added', b[j++]!);
+
+  return segments;
+};
@@ -0,0 +1,197 @@
+/**
+ * Results files
+ * Builds the JSON results download and reads it back as a read-only job for offline viewing
+ */
+
+import type { JobStatusResponse } from '../../services/api/analysisApi';
+import type { AnalysisJob, FunctionAnnotation, JobConfig } from '../../types/analysis.types';
+import { toJobUpdate } from './jobStatus';
+
+type AnalysisResults = NonNullable<JobStatusResponse['results']>;
+
+export const RESULTS_FILE_FORMAT = 'bin2nlp-results';
+export const RESULTS_FILE_VERSION = 1;
+
+// Prefix for jobs loaded from a file, so they never collide with server job ids
+const IMPORTED_JOB_PREFIX = 'imported-';
+
+export interface ResultsFile {
+  format: typeof RESULTS_FILE_FORMAT;
+  version: number;
+  exported_at: string;
+  job_id: string;
+  analysis_date: string;
+  // Upload details and configuration; absent when the job was not tracked in this browser
+  job?: Omit<AnalysisJob, 'results'>;
+  // Full results, including per-function output and LLM translations when the backend sent them
+  results: AnalysisResults;
+  annotations: Record<string, FunctionAnnotation>;
+  summary: {
+    functions: number;
+    imports: number;
+    strings: number;
+    success: boolean;
+    duration: number;
+    decompilation_id: string;
+  };
+}
+
+export interface ImportedResults {
+  job: AnalysisJob;
+  status: JobStatusResponse;
+  annotations: Record<string, FunctionAnnotation>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Build the downloadable results file for a completed job. API keys are never included.
+ */
+export const buildResultsFile = (
+  jobId: string,
+  job: AnalysisJob | undefined,
+  status: JobStatusResponse & { results: AnalysisResults },
+  annotations: Record<string, FunctionAnnotation> = {}
+): ResultsFile => {
+  let exportedJob: ResultsFile['job'];
+  if (job) {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { results: _results, ...rest } = job;
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { llmApiKey: _key, ...config } = job.config;
+    exportedJob = { ...rest, config };
+  }
+
+  return {
+    format: RESULTS_FILE_FORMAT,
+    version: RESULTS_FILE_VERSION,
+    exported_at: new Date().toISOString(),
+    job_id: jobId,
+    analysis_date: status.updated_at,
+    ...(exportedJob && { job: exportedJob }),
+    results: status.results,
+    annotations,
+    summary: {
+      functions: status.results.function_count,
+      imports: status.results.import_count,
+      strings: status.results.string_count,
+      success: status.results.success,
+      duration: status.results.duration_seconds,
+      decompilation_id: status.results.decompilation_id,
+    },
+  };
+};
+
+const readResults = (value: unknown): AnalysisResults => {
+  if (!isRecord(value)) throw new Error('The file does not contain analysis results');
+
+  for (const field of ['function_count', 'import_count', 'string_count', 'duration_seconds']) {
+    if (typeof value[field] !== 'number') {
+      throw new Error(`The results are missing "${field}"`);
+    }
+  }
+  if (value.functions !== undefined && !Array.isArray(value.functions)) {
+    throw new Error('The results list of functions is malformed');
+  }
+  if (value.llm_translations !== undefined) {
+    if (!isRecord(value.llm_translations) || !Array.isArray(value.llm_translations.functions)) {
+      throw new Error('The results translations are malformed');
+    }
+  }
+
+  return {
+    ...value,
+    success: value.success !== false,
+    decompilation_id: typeof value.decompilation_id === 'string' ? value.decompilation_id : '',
+  } as AnalysisResults;
+};
+
+const readAnnotations = (value: unknown): Record<string, FunctionAnnotation> => {
+  if (!isRecord(value)) return {};
+  const annotations: Record<string, FunctionAnnotation> = {};
+  Object.entries(value).forEach(([name, annotation]) => {
+    if (isRecord(annotation) && Array.isArray(annotation.tags)) {
+      annotations[name] = { ...(annotation as unknown as FunctionAnnotation), originalName: name };
+    }
+  });
+  return annotations;
+};
+
+const DEFAULT_IMPORTED_CONFIG: JobConfig = {
+  analysisDepth: 'detailed',
+  includeComments: true,
+  decompilerOptions: {},
+};
+
+/**
+ * Read a results file back into a completed job. Files downloaded before the format was
+ * versioned (only `job_id` and `results`) are accepted too.
+ */
+export const parseResultsFile = (text: string, sourceName = 'results.json'): ImportedResults => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!isRecord(data)) throw new Error('The file is not a bin2nlp results export');
+  if (data.format !== undefined && data.format !== RESULTS_FILE_FORMAT) {
+    throw new Error('The file is not a bin2nlp results export');
+  }
+  if (typeof data.version === 'number' && data.version > RESULTS_FILE_VERSION) {
+    throw new Error('The file was exported by a newer version of bin2nlp');
+  }
+  if (typeof data.job_id !== 'string' || !data.job_id) {
+    throw new Error('The file does not say which job it belongs to');
+  }
+
+  const results = readResults(data.results);
+  const sourceJob = isRecord(data.job) ? (data.job as Partial<AnalysisJob>) : undefined;
+  const originalId = data.job_id;
+  const id = originalId.startsWith(IMPORTED_JOB_PREFIX)
+    ? originalId
+    : `${IMPORTED_JOB_PREFIX}${originalId}`;
+  const analysisDate =
+    typeof data.analysis_date === 'string' ? data.analysis_date : new Date().toISOString();
+  const importedAt = new Date().toISOString();
+
+  const status: JobStatusResponse = {
+    job_id: id,
+    status: 'completed',
+    progress_percentage: 100,
+    current_stage: 'completed',
+    worker_id: '',
+    updated_at: analysisDate,
+    results,
+    message: `Imported from ${sourceName}`,
+    isCompleted: true,
+    duration: results.duration_seconds * 1000,
+  };
+
+  // Only the descriptive fields of the original job are kept; its links to other jobs are not
+  const { fileName, fileSize, fileType, submittedAt, config, hashes, estimatedCost, actualCost } =
+    sourceJob ?? {};
+  const jobConfig: JobConfig = { ...DEFAULT_IMPORTED_CONFIG, ...(isRecord(config) && config) };
+  // A key typed into a file someone else made must never end up in storage
+  delete jobConfig.llmApiKey;
+
+  const job: AnalysisJob = {
+    fileName: typeof fileName === 'string' ? fileName : sourceName.replace(/\.json$/i, ''),
+    fileSize: typeof fileSize === 'number' ? fileSize : 0,
+    fileType: typeof fileType === 'string' ? fileType : 'application/octet-stream',
+    submittedAt: typeof submittedAt === 'string' ? submittedAt : analysisDate,
+    config: jobConfig,
+    ...(isRecord(hashes) && typeof hashes.sha256 === 'string' && { hashes }),
+    ...(typeof estimatedCost === 'number' && { estimatedCost }),
+    ...(typeof actualCost === 'number' && { actualCost }),
+    phase: 'completed',
+    ...toJobUpdate(status),
+    status: 'completed',
+    progress: 100,
+    completedAt: analysisDate,
+    imported: { importedAt, sourceName, originalJobId: originalId },
+  };
+
+  return { job, status, annotations: readAnnotations(data.annotations) };
+};
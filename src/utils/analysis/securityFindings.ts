@@ -0,0 +1,451 @@
+/**
+ * Security findings
+ * Derives suspicious-behaviour findings and a risk score from analysis results
+ */
+
+import type { JobStatusResponse } from '../../services/api/analysisApi';
+
+type AnalysisResults = NonNullable<JobStatusResponse['results']>;
+
+export type FindingSeverity = 'info' | 'low' | 'medium' | 'high' | 'critical';
+
+export type FindingCategory =
+  | 'process_injection'
+  | 'anti_debug'
+  | 'crypto'
+  | 'networking'
+  | 'persistence'
+  | 'execution'
+  | 'keylogging'
+  | 'dynamic_loading'
+  | 'risky_string'
+  | 'packer';
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export interface FindingEvidence {
+  kind: 'import' | 'string' | 'section' | 'metric';
+  value: string;
+  // Functions that reference the evidence, for linking back to them
+  functions: string[];
+}
+
+export interface SecurityFinding {
+  id: string;
+  category: FindingCategory;
+  title: string;
+  description: string;
+  severity: FindingSeverity;
+  evidence: FindingEvidence[];
+}
+
+export interface SecurityAssessment {
+  score: number;
+  level: RiskLevel;
+  findings: SecurityFinding[];
+  // Which parts of the results were available to inspect
+  sources: {
+    imports: boolean;
+    strings: boolean;
+    sections: boolean;
+    functions: boolean;
+  };
+}
+
+interface ApiRule {
+  category: FindingCategory;
+  title: string;
+  description: string;
+  severity: FindingSeverity;
+  // A single matching API is weaker evidence, so the finding is reported one level lower
+  corroborate: boolean;
+  apis: string[];
+}
+
+interface StringRule {
+  id: string;
+  title: string;
+  description: string;
+  severity: FindingSeverity;
+  pattern: RegExp;
+}
+
+const API_RULES: ApiRule[] = [
+  {
+    category: 'process_injection',
+    title: 'Process injection APIs',
+    description:
+      'Writes into or starts threads in other processes, a common code injection pattern.',
+    severity: 'critical',
+    corroborate: true,
+    apis: [
+      'VirtualAllocEx',
+      'WriteProcessMemory',
+      'CreateRemoteThread',
+      'CreateRemoteThreadEx',
+      'NtCreateThreadEx',
+      'RtlCreateUserThread',
+      'QueueUserAPC',
+      'NtQueueApcThread',
+      'SetThreadContext',
+      'NtUnmapViewOfSection',
+      'ZwUnmapViewOfSection',
+      'NtWriteVirtualMemory',
+      'process_vm_writev',
+    ],
+  },
+  {
+    category: 'anti_debug',
+    title: 'Anti-debugging checks',
+    description: 'Detects or hinders debuggers, which malware uses to resist analysis.',
+    severity: 'medium',
+    corroborate: false,
+    apis: [
+      'IsDebuggerPresent',
+      'CheckRemoteDebuggerPresent',
+      'NtQueryInformationProcess',
+      'ZwQueryInformationProcess',
+      'NtSetInformationThread',
+      'OutputDebugString',
+      'ptrace',
+    ],
+  },
+  {
+    category: 'crypto',
+    title: 'Cryptography APIs',
+    description:
+      'Encrypts or decrypts data. Legitimate in many programs, but also used by ransomware and to hide payloads.',
+    severity: 'low',
+    corroborate: false,
+    apis: [
+      'CryptAcquireContext',
+      'CryptEncrypt',
+      'CryptDecrypt',
+      'CryptGenKey',
+      'CryptImportKey',
+      'CryptDeriveKey',
+      'BCryptEncrypt',
+      'BCryptDecrypt',
+      'BCryptGenerateSymmetricKey',
+      'EVP_EncryptInit_ex',
+      'EVP_DecryptInit_ex',
+      'AES_encrypt',
+      'AES_set_encrypt_key',
+      'RC4',
+      'RC4_set_key',
+    ],
+  },
+  {
+    category: 'networking',
+    title: 'Network communication',
+    description: 'Opens network connections or downloads content.',
+    severity: 'medium',
+    corroborate: false,
+    apis: [
+      'WSAStartup',
+      'socket',
+      'connect',
+      'send',
+      'recv',
+      'gethostbyname',
+      'getaddrinfo',
+      'InternetOpen',
+      'InternetOpenUrl',
+      'InternetReadFile',
+      'HttpSendRequest',
+      'HttpOpenRequest',
+      'WinHttpOpen',
+      'WinHttpSendRequest',
+      'URLDownloadToFile',
+      'curl_easy_perform',
+    ],
+  },
+  {
+    category: 'persistence',
+    title: 'Persistence mechanisms',
+    description:
+      'Modifies the registry or installs services, which can keep code running across reboots.',
+    severity: 'high',
+    corroborate: true,
+    apis: ['RegSetValueEx', 'RegCreateKeyEx', 'CreateService', 'ChangeServiceConfig', 'SHSetValue'],
+  },
+  {
+    category: 'execution',
+    title: 'Launches other programs',
+    description: 'Starts processes or shell commands.',
+    severity: 'medium',
+    corroborate: false,
+    apis: [
+      'CreateProcess',
+      'CreateProcessAsUser',
+      'WinExec',
+      'ShellExecute',
+      'ShellExecuteEx',
+      'system',
+      'popen',
+      'execve',
+      'execvp',
+      'execl',
+    ],
+  },
+  {
+    category: 'keylogging',
+    title: 'Input capture',
+    description: 'Hooks or polls keyboard input, as keyloggers do.',
+    severity: 'high',
+    corroborate: true,
+    apis: ['SetWindowsHookEx', 'GetAsyncKeyState', 'GetKeyboardState', 'RegisterRawInputDevices'],
+  },
+  {
+    category: 'dynamic_loading',
+    title: 'Runtime API resolution',
+    description:
+      'Resolves functions at runtime, which can hide the real imports from static analysis.',
+    severity: 'low',
+    corroborate: false,
+    apis: ['LoadLibrary', 'LoadLibraryEx', 'GetProcAddress', 'LdrLoadDll', 'dlopen', 'dlsym'],
+  },
+];
+
+const STRING_RULES: StringRule[] = [
+  {
+    id: 'url',
+    title: 'Embedded URLs',
+    description: 'Hard-coded web addresses may point to download or command-and-control servers.',
+    severity: 'medium',
+    pattern: /\b(?:https?|ftp):\/\/[^\s"'<>]+/i,
+  },
+  {
+    id: 'ip_address',
+    title: 'Embedded IP addresses',
+    description: 'Hard-coded IP addresses often identify remote infrastructure.',
+    severity: 'medium',
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/,
+  },
+  {
+    id: 'shell_command',
+    title: 'Shell commands',
+    description: 'Strings that invoke command interpreters or system tools.',
+    severity: 'high',
+    pattern:
+      /\b(?:cmd(?:\.exe)?\s+\/c|powershell(?:\.exe)?|\/bin\/(?:ba)?sh\b|schtasks|vssadmin|wmic)\b/i,
+  },
+  {
+    id: 'autorun_key',
+    title: 'Autorun registry keys',
+    description: 'References to registry keys that start programs automatically.',
+    severity: 'high',
+    pattern: /\\CurrentVersion\\(?:Run|RunOnce|RunServices)\b/i,
+  },
+  {
+    id: 'encoded_blob',
+    title: 'Encoded data blobs',
+    description: 'Long Base64-looking strings can carry embedded payloads or configuration.',
+    severity: 'low',
+    pattern: /^[A-Za-z0-9+/]{60,}={0,2}$/,
+  },
+];
+
+const PACKER_SECTIONS = [
+  'upx0',
+  'upx1',
+  'upx2',
+  '.aspack',
+  '.adata',
+  '.mpress1',
+  '.mpress2',
+  '.petite',
+  '.nsp0',
+  '.nsp1',
+  '.themida',
+  '.vmp0',
+  '.vmp1',
+  '.enigma1',
+];
+
+const PACKER_STRINGS = /UPX!|\$Info: This file is packed with|MPRESS|PECompact|Themida/;
+
+const HIGH_ENTROPY = 7.2;
+
+const SEVERITY_WEIGHTS: Record<FindingSeverity, number> = {
+  info: 0,
+  low: 5,
+  medium: 12,
+  high: 22,
+  critical: 35,
+};
+
+const SEVERITY_ORDER: FindingSeverity[] = ['info', 'low', 'medium', 'high', 'critical'];
+
+const MAX_EVIDENCE_FUNCTIONS = 10;
+
+/**
+ * Reduce a symbol to its bare API name: drop import prefixes, decorations and A/W suffixes
+ */
+export const normalizeApiName = (symbol: string): string =>
+  symbol
+    .replace(/^.*[!:]/, '')
+    .replace(/^(?:__imp_|_imp_|imp\.|j_|__imp__)/i, '')
+    .replace(/^_+/, '')
+    .replace(/@\d+$/, '')
+    .replace(/(?<=[a-z0-9])[AW]$/, '')
+    .toLowerCase();
+
+const lowerSeverity = (severity: FindingSeverity): FindingSeverity =>
+  SEVERITY_ORDER[Math.max(0, SEVERITY_ORDER.indexOf(severity) - 1)] ?? severity;
+
+const getRiskLevel = (score: number): RiskLevel => {
+  if (score >= 70) return 'critical';
+  if (score >= 40) return 'high';
+  if (score >= 15) return 'medium';
+  return 'low';
+};
+
+const extractQuotedStrings = (code: string): string[] =>
+  Array.from(code.matchAll(/"((?:[^"\\\n]|\\.){4,})"/g), match => match[1] ?? '');
+
+/**
+ * Inspect analysis results for suspicious imports, strings and packing, and score the overall risk
+ */
+export const analyzeSecurity = (results: AnalysisResults): SecurityAssessment => {
+  const functions = results.functions ?? [];
+  const findings: SecurityFinding[] = [];
+
+  // Imported or called APIs, mapped to the functions that call them
+  const apiReferences = new Map<string, { symbol: string; functions: Set<string> }>();
+  const addApi = (symbol: string, functionName?: string) => {
+    const key = normalizeApiName(symbol);
+    if (!key) return;
+    const entry = apiReferences.get(key) ?? { symbol, functions: new Set<string>() };
+    if (functionName) entry.functions.add(functionName);
+    apiReferences.set(key, entry);
+  };
+  results.imports?.forEach(symbol => addApi(symbol));
+  functions.forEach(fn => {
+    if (fn.function_type && fn.function_type !== 'user') addApi(fn.name);
+    fn.calls_to?.forEach(callee => addApi(callee, fn.name));
+  });
+
+  API_RULES.forEach(rule => {
+    const evidence = rule.apis.flatMap(api => {
+      const reference = apiReferences.get(api.toLowerCase());
+      return reference
+        ? [
+            {
+              kind: 'import' as const,
+              value: reference.symbol,
+              functions: Array.from(reference.functions).slice(0, MAX_EVIDENCE_FUNCTIONS),
+            },
+          ]
+        : [];
+    });
+    if (evidence.length === 0) return;
+
+    findings.push({
+      id: rule.category,
+      category: rule.category,
+      title: rule.title,
+      description: rule.description,
+      severity:
+        rule.corroborate && evidence.length < 2 ? lowerSeverity(rule.severity) : rule.severity,
+      evidence,
+    });
+  });
+
+  // Strings from the extraction list plus literals quoted in the disassembly
+  const stringReferences = new Map<string, Set<string>>();
+  results.strings?.forEach(value => stringReferences.set(value, new Set()));
+  functions.forEach(fn => {
+    if (!fn.assembly_code) return;
+    extractQuotedStrings(fn.assembly_code).forEach(value => {
+      const referencedBy = stringReferences.get(value) ?? new Set<string>();
+      referencedBy.add(fn.name);
+      stringReferences.set(value, referencedBy);
+    });
+  });
+
+  STRING_RULES.forEach(rule => {
+    const evidence: FindingEvidence[] = [];
+    stringReferences.forEach((referencedBy, value) => {
+      if (!rule.pattern.test(value)) return;
+      // Strings from the extraction list are attributed to any function whose code quotes them
+      const users =
+        referencedBy.size > 0
+          ? Array.from(referencedBy)
+          : functions.filter(fn => fn.assembly_code?.includes(value)).map(fn => fn.name);
+      evidence.push({
+        kind: 'string',
+        value,
+        functions: users.slice(0, MAX_EVIDENCE_FUNCTIONS),
+      });
+    });
+    if (evidence.length === 0) return;
+
+    findings.push({
+      id: `string_${rule.id}`,
+      category: 'risky_string',
+      title: rule.title,
+      description: rule.description,
+      severity: rule.severity,
+      evidence,
+    });
+  });
+
+  // Packer indicators
+  const packerEvidence: FindingEvidence[] = [];
+  results.sections?.forEach(section => {
+    const name = section.name.toLowerCase();
+    if (PACKER_SECTIONS.includes(name)) {
+      packerEvidence.push({ kind: 'section', value: `Section ${section.name}`, functions: [] });
+    } else if (section.entropy !== undefined && section.entropy >= HIGH_ENTROPY) {
+      packerEvidence.push({
+        kind: 'section',
+        value: `Section ${section.name} has entropy ${section.entropy.toFixed(2)}`,
+        functions: [],
+      });
+    }
+  });
+  stringReferences.forEach((_referencedBy, value) => {
+    if (PACKER_STRINGS.test(value)) {
+      packerEvidence.push({ kind: 'string', value, functions: [] });
+    }
+  });
+  if (results.function_count > 0 && results.import_count <= 3) {
+    packerEvidence.push({
+      kind: 'metric',
+      value: `Only ${results.import_count} import(s) for ${results.function_count} function(s)`,
+      functions: [],
+    });
+  }
+  if (packerEvidence.length > 0) {
+    findings.push({
+      id: 'packer',
+      category: 'packer',
+      title: 'Packing or obfuscation indicators',
+      description:
+        'Packed binaries hide their real code until runtime, so static results may be incomplete.',
+      // A sparse import table alone is common in small or static binaries
+      severity:
+        packerEvidence.length === 1 && packerEvidence[0]?.kind === 'metric' ? 'low' : 'high',
+      evidence: packerEvidence,
+    });
+  }
+
+  findings.sort((a, b) => SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity));
+  const score = Math.min(
+    100,
+    findings.reduce((total, finding) => total + SEVERITY_WEIGHTS[finding.severity], 0)
+  );
+
+  return {
+    score,
+    level: getRiskLevel(score),
+    findings,
+    sources: {
+      imports: Boolean(results.imports) || functions.some(fn => fn.calls_to?.length),
+      strings: Boolean(results.strings) || functions.some(fn => fn.assembly_code),
+      sections: Boolean(results.sections),
+      functions: functions.length > 0,
+    },
+  };
+};
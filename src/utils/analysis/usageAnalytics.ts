@@ -0,0 +1,252 @@
+/**
+ * Usage analytics
+ * Aggregates job history into daily activity, outcomes, durations, token usage and spend
+ */
+
+import type { AnalysisDepthType, AnalysisJob } from '../../types/analysis.types';
+import { toCsv } from '../csv';
+import {
+  compareAnalysisDepths,
+  getDurationSeconds,
+  getJobCost,
+  getJobProvider,
+} from './jobHistory';
+
+export interface DailyUsage {
+  // Local calendar day, YYYY-MM-DD
+  date: string;
+  submitted: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  cost: number;
+  inputTokens: number;
+  outputTokens: number;
+  costByProvider: Record<string, number>;
+}
+
+export interface DepthDuration {
+  depth: AnalysisDepthType;
+  jobs: number;
+  averageSeconds: number;
+}
+
+export interface ProviderUsage {
+  provider: string;
+  model?: string;
+  jobs: number;
+  cost: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageAnalytics {
+  jobs: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  // Completed share of jobs that finished either way; undefined until one has
+  successRate?: number;
+  totalCost: number;
+  inputTokens: number;
+  outputTokens: number;
+  // Token totals only cover jobs whose translation reported usage
+  tokenReportingJobs: number;
+  daily: DailyUsage[];
+  durationByDepth: DepthDuration[];
+  providers: ProviderUsage[];
+}
+
+export interface UsageAnalyticsOptions {
+  // Only jobs submitted on or after this day count
+  since?: Date;
+  now?: Date;
+}
+
+const toDateKey = (date: Date): string =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+
+const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Start of the day a number of days before `now`, for "last N days" ranges that include today
+ */
+export const getRangeStart = (days: number, now = new Date()): Date =>
+  new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1));
+
+const emptyDay = (date: string): DailyUsage => ({
+  date,
+  submitted: 0,
+  completed: 0,
+  failed: 0,
+  cancelled: 0,
+  cost: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  costByProvider: {},
+});
+
+/**
+ * Aggregate finished jobs into the figures shown on the analytics page. Every day in the range
+ * gets an entry, so charts have no gaps on days without activity.
+ */
+export const buildUsageAnalytics = (
+  jobs: AnalysisJob[],
+  { since, now = new Date() }: UsageAnalyticsOptions = {}
+): UsageAnalytics => {
+  const inRange = jobs.filter(job => {
+    const submitted = new Date(job.submittedAt).getTime();
+    return Number.isFinite(submitted) && (!since || submitted >= startOfDay(since).getTime());
+  });
+
+  const earliest = inRange.reduce<number>(
+    (min, job) => Math.min(min, new Date(job.submittedAt).getTime()),
+    startOfDay(now).getTime()
+  );
+  const days = new Map<string, DailyUsage>();
+  for (
+    let day = startOfDay(since ?? new Date(earliest));
+    day.getTime() <= now.getTime();
+    // Stepping by calendar date rather than 24h keeps days aligned across DST changes
+    day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)
+  ) {
+    days.set(toDateKey(day), emptyDay(toDateKey(day)));
+  }
+
+  const durations = new Map<AnalysisDepthType, number[]>();
+  const providers = new Map<string, ProviderUsage>();
+  let tokenReportingJobs = 0;
+
+  inRange.forEach(job => {
+    const key = toDateKey(new Date(job.submittedAt));
+    const day = days.get(key) ?? emptyDay(key);
+    days.set(key, day);
+
+    const cost = getJobCost(job) ?? 0;
+    const provider = getJobProvider(job);
+    const tokens = job.results?.translation?.tokensUsed;
+
+    day.submitted++;
+    if (job.status === 'completed') day.completed++;
+    if (job.status === 'failed') day.failed++;
+    if (job.status === 'cancelled') day.cancelled++;
+    day.cost += cost;
+    if (tokens) {
+      tokenReportingJobs++;
+      day.inputTokens += tokens.input;
+      day.outputTokens += tokens.output;
+    }
+
+    if (job.status === 'completed') {
+      const seconds = getDurationSeconds(job);
+      if (seconds !== undefined) {
+        durations.set(job.config.analysisDepth, [
+          ...(durations.get(job.config.analysisDepth) ?? []),
+          seconds,
+        ]);
+      }
+    }
+
+    // Decompilation-only jobs have no provider and cost nothing
+    if (provider) {
+      day.costByProvider[provider] = (day.costByProvider[provider] ?? 0) + cost;
+      const model = job.results?.translation?.model ?? job.config.llmModel;
+      const usageKey = `${provider}\u0000${model ?? ''}`;
+      const usage = providers.get(usageKey) ?? {
+        provider,
+        ...(model && { model }),
+        jobs: 0,
+        cost: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+      };
+      usage.jobs++;
+      usage.cost += cost;
+      usage.inputTokens += tokens?.input ?? 0;
+      usage.outputTokens += tokens?.output ?? 0;
+      providers.set(usageKey, usage);
+    }
+  });
+
+  const daily = Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+  const sum = (
+    field: 'completed' | 'failed' | 'cancelled' | 'cost' | 'inputTokens' | 'outputTokens'
+  ) => daily.reduce((total, day) => total + day[field], 0);
+  const completed = sum('completed');
+  const failed = sum('failed');
+
+  return {
+    jobs: inRange.length,
+    completed,
+    failed,
+    cancelled: sum('cancelled'),
+    ...(completed + failed > 0 && { successRate: completed / (completed + failed) }),
+    totalCost: sum('cost'),
+    inputTokens: sum('inputTokens'),
+    outputTokens: sum('outputTokens'),
+    tokenReportingJobs,
+    daily,
+    // Only depths that completed jobs actually used, shallowest first
+    durationByDepth: Array.from(durations, ([depth, seconds]) => ({
+      depth,
+      jobs: seconds.length,
+      averageSeconds: seconds.reduce((total, value) => total + value, 0) / seconds.length,
+    })).sort((a, b) => compareAnalysisDepths(a.depth, b.depth)),
+    providers: Array.from(providers.values()).sort((a, b) => b.cost - a.cost || b.jobs - a.jobs),
+  };
+};
+
+/**
+ * Render the daily series as CSV, with one cost column per provider
+ */
+export const dailyUsageToCsv = (daily: DailyUsage[]): string => {
+  const providerNames = Array.from(
+    new Set(daily.flatMap(day => Object.keys(day.costByProvider)))
+  ).sort();
+
+  return toCsv([
+    [
+      'date',
+      'submitted',
+      'completed',
+      'failed',
+      'cancelled',
+      'cost_usd',
+      'input_tokens',
+      'output_tokens',
+      ...providerNames.map(provider => `cost_usd_${provider}`),
+    ],
+    ...daily.map(day => [
+      day.date,
+      day.submitted,
+      day.completed,
+      day.failed,
+      day.cancelled,
+      day.cost.toFixed(4),
+      day.inputTokens,
+      day.outputTokens,
+      ...providerNames.map(provider => (day.costByProvider[provider] ?? 0).toFixed(4)),
+    ]),
+  ]);
+};
+
+/**
+ * Render usage per provider and model as CSV
+ */
+export const providerUsageToCsv = (providers: ProviderUsage[]): string =>
+  toCsv([
+    ['provider', 'model', 'jobs', 'cost_usd', 'input_tokens', 'output_tokens'],
+    ...providers.map(usage => [
+      usage.provider,
+      usage.model,
+      usage.jobs,
+      usage.cost.toFixed(4),
+      usage.inputTokens,
+      usage.outputTokens,
+    ]),
+  ]);
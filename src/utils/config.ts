@@ -8,6 +8,8 @@ export interface AppConfig {
   appName: string;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
   pollingInterval: number;
+  // How job progress reaches the UI: a stream when available, otherwise polling
+  jobUpdatesTransport: 'auto' | 'sse' | 'websocket' | 'polling';
 }
 
 /**
@@ -26,6 +28,11 @@ export const config: AppConfig = {
   appName: getEnvVar('VITE_APP_NAME', 'bin2nlp UI'),
   logLevel: getEnvVar('VITE_LOG_LEVEL', 'info') as 'debug' | 'info' | 'warn' | 'error',
   pollingInterval: parseInt(getEnvVar('VITE_POLLING_INTERVAL', '1000'), 10),
+  jobUpdatesTransport: getEnvVar('VITE_JOB_UPDATES_TRANSPORT', 'auto') as
+    | 'auto'
+    | 'sse'
+    | 'websocket'
+    | 'polling',
 };
 
 /**
@@ -0,0 +1,12 @@
+/**
+ * CSV formatting
+ * Renders rows as RFC 4180 CSV so exports open cleanly in spreadsheets
+ */
+
+const csvField = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: Array<Array<string | number | undefined>>): string =>
+  rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,18 @@
+/**
+ * File downloads
+ * Saves generated content (exports, reports) through a temporary object URL
+ */
+
+export const downloadFile = (content: string, fileName: string, type: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadJson = (data: unknown, fileName: string): void =>
+  downloadFile(JSON.stringify(data, null, 2), fileName, 'application/json');
@@ -1,3 +1,5 @@
 // Utility functions
 export * from './analysis';
+export * from './reports';
 export { config, isDevelopment, isProduction } from './config';
+export { toCsv } from './csv';
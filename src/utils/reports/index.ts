@@ -0,0 +1,15 @@
+// Report generation from analysis results
+export { buildAnalysisReport } from './reportModel';
+export type { AnalysisReport, ReportFunction, ReportInput } from './reportModel';
+export { renderHtmlReport, renderMarkdownReport } from './reportRenderers';
+export { SARIF_SCHEMA_URI, buildSarifLog } from './sarifExport';
+export type { SarifLog, SarifResult, SarifRule } from './sarifExport';
+export { buildStixBundle } from './stixExport';
+export type { StixBundle, StixObject } from './stixExport';
+export {
+  DEFAULT_REPORT_TEMPLATE,
+  REPORT_SECTION_LABELS,
+  fillPlaceholders,
+  normalizeReportTemplate,
+} from './reportTemplate';
+export type { ReportSectionId, ReportTemplate } from './reportTemplate';
@@ -0,0 +1,160 @@
+/**
+ * Report model
+ * Collects everything a report can show into one format-independent structure
+ */
+
+import type { JobStatusResponse } from '../../services/api/analysisApi';
+import type { AnalysisJob, FunctionAnnotation } from '../../types/analysis.types';
+import { analyzeSecurity, buildFunctionDetails } from '../analysis';
+import type { SecurityAssessment } from '../analysis';
+import { fillPlaceholders } from './reportTemplate';
+import type { ReportTemplate } from './reportTemplate';
+
+export interface ReportInput {
+  jobId: string;
+  job?: AnalysisJob | undefined;
+  status: JobStatusResponse;
+  annotations?: Record<string, FunctionAnnotation> | undefined;
+  generatedAt?: Date;
+}
+
+export interface ReportFunction {
+  name: string;
+  displayName?: string;
+  address?: string;
+  size?: number;
+  complexity?: number;
+  description?: string;
+  confidence?: number;
+  parameters: string[];
+  tags: string[];
+  comment?: string;
+}
+
+export interface AnalysisReport {
+  title: string;
+  introduction?: string;
+  footer?: string;
+  generatedAt: string;
+  summary: Array<{ label: string; value: string }>;
+  metadata: Array<{ label: string; value: string }>;
+  security: SecurityAssessment;
+  functions: ReportFunction[];
+  totalFunctions: number;
+  cost: Array<{ label: string; value: string }>;
+  annotations: ReportFunction[];
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatCost = (cost: number): string => `$${cost.toFixed(4)}`;
+
+// Rows with an empty value are dropped so reports only show what is known
+const rows = (entries: Array<[string, string | number | undefined | null]>) =>
+  entries
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([label, value]) => ({ label, value: String(value) }));
+
+/**
+ * Build the report for a completed job. Annotated functions are listed first, then the
+ * functions the LLM was most confident about, up to the template's limit.
+ */
+export const buildAnalysisReport = (
+  { jobId, job, status, annotations = {}, generatedAt = new Date() }: ReportInput,
+  template: ReportTemplate
+): AnalysisReport => {
+  const results = status.results;
+  const security: SecurityAssessment = results
+    ? analyzeSecurity(results)
+    : {
+        score: 0,
+        level: 'low',
+        findings: [],
+        sources: { imports: false, strings: false, sections: false, functions: false },
+      };
+
+  const functions: ReportFunction[] = (results ? buildFunctionDetails(results) : []).map(detail => {
+    const annotation = annotations[detail.id];
+    return {
+      name: detail.id,
+      parameters: detail.parameters,
+      tags: annotation?.tags ?? [],
+      ...(annotation?.displayName && { displayName: annotation.displayName }),
+      ...(annotation?.comment && { comment: annotation.comment }),
+      ...(detail.address && { address: detail.address }),
+      ...(detail.size !== undefined && { size: detail.size }),
+      ...(detail.complexity !== undefined && { complexity: detail.complexity }),
+      ...(detail.description && { description: detail.description }),
+      ...(detail.confidence !== undefined && { confidence: detail.confidence }),
+    };
+  });
+  const isAnnotated = (fn: ReportFunction) => Boolean(annotations[fn.name]);
+  const ranked = [...functions].sort(
+    (a, b) =>
+      Number(isAnnotated(b)) - Number(isAnnotated(a)) ||
+      (b.confidence ?? -1) - (a.confidence ?? -1) ||
+      a.name.localeCompare(b.name)
+  );
+
+  const placeholders = {
+    fileName: job?.fileName ?? `Job ${jobId}`,
+    jobId,
+    sha256: job?.hashes?.sha256 ?? '',
+    date: generatedAt.toLocaleDateString(),
+  };
+  const fill = (text?: string) => (text ? fillPlaceholders(text, placeholders) : undefined);
+  const tokens = job?.results?.translation?.tokensUsed;
+  const introduction = fill(template.introduction);
+  const footer = fill(template.footer);
+
+  return {
+    title: fillPlaceholders(template.title, placeholders),
+    ...(introduction && { introduction }),
+    ...(footer && { footer }),
+    generatedAt: generatedAt.toISOString(),
+    summary: rows([
+      ['Status', results ? (results.success ? 'Completed successfully' : 'Failed') : status.status],
+      ['Risk score', results ? `${security.score}/100 (${security.level})` : undefined],
+      ['Security findings', results ? security.findings.length : undefined],
+      ['Functions', results?.function_count],
+      ['Imports', results?.import_count],
+      ['Strings', results?.string_count],
+      ['Analysis duration', results ? `${results.duration_seconds.toFixed(1)}s` : undefined],
+      ['Annotated functions', Object.keys(annotations).length || undefined],
+    ]),
+    metadata: rows([
+      ['File name', job?.fileName],
+      ['File size', job?.fileSize ? formatBytes(job.fileSize) : undefined],
+      ['File type', job?.fileType],
+      ['SHA-256', job?.hashes?.sha256],
+      ['SHA-1', job?.hashes?.sha1],
+      ['MD5', job?.hashes?.md5],
+      ['Job ID', jobId],
+      ['Decompilation ID', results?.decompilation_id],
+      ['Analysis depth', job?.config.analysisDepth],
+      ['LLM provider', results?.llm_translations?.provider ?? job?.config.llmProvider],
+      ['LLM model', job?.config.llmModel],
+      ['Submitted', job ? new Date(job.submittedAt).toLocaleString() : undefined],
+      ['Completed', new Date(status.updated_at).toLocaleString()],
+    ]),
+    security,
+    functions: ranked.slice(0, template.maxFunctions),
+    totalFunctions: functions.length,
+    cost: rows([
+      ['Estimated cost', job?.estimatedCost !== undefined ? formatCost(job.estimatedCost) : null],
+      [
+        'Actual cost',
+        (job?.actualCost ?? tokens?.cost) !== undefined
+          ? formatCost(job?.actualCost ?? tokens?.cost ?? 0)
+          : null,
+      ],
+      ['Input tokens', tokens?.input.toLocaleString()],
+      ['Output tokens', tokens?.output.toLocaleString()],
+    ]),
+    annotations: ranked.filter(isAnnotated),
+  };
+};
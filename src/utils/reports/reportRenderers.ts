@@ -0,0 +1,304 @@
+/**
+ * Report renderers
+ * Turn an analysis report into Markdown or a self-contained, print-ready HTML document
+ */
+
+import type { SecurityFinding } from '../analysis';
+import type { AnalysisReport, ReportFunction } from './reportModel';
+import { REPORT_SECTION_LABELS } from './reportTemplate';
+import type { ReportSectionId, ReportTemplate } from './reportTemplate';
+
+type SectionRenderer = (report: AnalysisReport) => string;
+
+const enabledSections = (template: ReportTemplate): ReportSectionId[] =>
+  template.sections.filter(section => section.enabled).map(section => section.id);
+
+const formatConfidence = (confidence?: number): string | undefined =>
+  confidence === undefined ? undefined : `${Math.round(confidence * 100)}% confidence`;
+
+const functionFacts = (fn: ReportFunction): string[] =>
+  [
+    fn.size !== undefined && `${fn.size} bytes`,
+    fn.complexity !== undefined && `complexity ${fn.complexity}`,
+    formatConfidence(fn.confidence),
+  ].filter((fact): fact is string => Boolean(fact));
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+const mdCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+const mdCode = (value: string): string => `\`${value.replace(/`/g, "'")}\``;
+
+const mdTable = (rows: Array<{ label: string; value: string }>): string =>
+  rows.length === 0
+    ? '_Nothing to report._\n'
+    : [
+        '| Item | Value |',
+        '| --- | --- |',
+        ...rows.map(row => `| ${mdCell(row.label)} | ${mdCell(row.value)} |`),
+      ].join('\n') + '\n';
+
+// Paragraphs separated by blank lines, skipping the ones that have nothing to say
+const mdBlocks = (blocks: Array<string | false | undefined>): string =>
+  blocks.filter(Boolean).join('\n\n') + '\n';
+
+const mdFunctionHeading = (fn: ReportFunction): string =>
+  [
+    `### ${mdCode(fn.displayName ?? fn.name)}`,
+    fn.displayName && `(originally ${mdCode(fn.name)})`,
+    fn.address && `@ ${mdCode(fn.address)}`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+const mdFinding = (finding: SecurityFinding): string =>
+  [
+    `### [${finding.severity.toUpperCase()}] ${finding.title}`,
+    '',
+    finding.description,
+    '',
+    ...finding.evidence.map(
+      evidence =>
+        `- ${evidence.kind} ${mdCode(evidence.value)}` +
+        (evidence.functions.length > 0
+          ? ` (referenced by ${evidence.functions.map(mdCode).join(', ')})`
+          : '')
+    ),
+    '',
+  ].join('\n');
+
+const MARKDOWN_SECTIONS: Record<ReportSectionId, SectionRenderer> = {
+  summary: report => mdTable(report.summary),
+  metadata: report => mdTable(report.metadata),
+  security: report =>
+    [
+      `**Risk score:** ${report.security.score}/100 (${report.security.level})`,
+      '',
+      report.security.findings.length === 0
+        ? '_No suspicious imports, strings or packing indicators were found._\n'
+        : report.security.findings.map(mdFinding).join('\n'),
+    ].join('\n'),
+  annotations: report =>
+    report.annotations.length === 0
+      ? '_No analyst notes._\n'
+      : report.annotations
+          .map(fn =>
+            mdBlocks([
+              mdFunctionHeading(fn),
+              fn.tags.length > 0 && `**Tags:** ${fn.tags.join(', ')}`,
+              fn.comment,
+            ])
+          )
+          .join('\n'),
+  functions: report =>
+    [
+      report.functions.length < report.totalFunctions
+        ? `_Showing ${report.functions.length} of ${report.totalFunctions} functions._\n`
+        : undefined,
+      ...report.functions.map(fn =>
+        mdBlocks([
+          mdFunctionHeading(fn),
+          [
+            functionFacts(fn).length > 0 && `- ${functionFacts(fn).join(' • ')}`,
+            fn.parameters.length > 0 && `- Parameters: ${fn.parameters.map(mdCode).join(', ')}`,
+            fn.tags.length > 0 && `- Tags: ${fn.tags.join(', ')}`,
+          ]
+            .filter(Boolean)
+            .join('\n'),
+          fn.description ?? '_No description._',
+        ])
+      ),
+    ]
+      .filter(Boolean)
+      .join('\n'),
+  cost: report => mdTable(report.cost),
+};
+
+export const renderMarkdownReport = (report: AnalysisReport, template: ReportTemplate): string => {
+  const banner = template.classification ? `> **${template.classification}**\n\n` : '';
+  const byline = [
+    template.organization,
+    `Generated ${new Date(report.generatedAt).toLocaleString()}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  return [
+    `${banner}# ${report.title}`,
+    '',
+    `_${byline}_`,
+    '',
+    ...(report.introduction ? [report.introduction, ''] : []),
+    ...enabledSections(template).flatMap(id => [
+      `## ${REPORT_SECTION_LABELS[id]}`,
+      '',
+      MARKDOWN_SECTIONS[id](report),
+    ]),
+    ...(report.footer ? ['---', '', report.footer, ''] : []),
+    ...(template.classification ? [`> **${template.classification}**`, ''] : []),
+  ].join('\n');
+};
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const paragraphs = (text: string): string =>
+  text
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+const htmlTable = (rows: Array<{ label: string; value: string }>): string =>
+  rows.length === 0
+    ? '<p class="muted">Nothing to report.</p>'
+    : `<table><tbody>${rows
+        .map(row => `<tr><th>${escapeHtml(row.label)}</th><td>${escapeHtml(row.value)}</td></tr>`)
+        .join('')}</tbody></table>`;
+
+const htmlFunction = (fn: ReportFunction, showDescription: boolean): string => {
+  const facts = [fn.address, ...functionFacts(fn)].filter(Boolean).join(' • ');
+  return `<div class="function">
+<h3><code>${escapeHtml(fn.displayName ?? fn.name)}</code>${
+    fn.displayName
+      ? ` <span class="muted">originally <code>${escapeHtml(fn.name)}</code></span>`
+      : ''
+  }</h3>
+${facts ? `<div class="muted">${escapeHtml(facts)}</div>` : ''}
+${fn.tags.length > 0 ? `<div>${fn.tags.map(tag => `<span class="tag">${escapeHtml(tag)}</span>`).join(' ')}</div>` : ''}
+${fn.parameters.length > 0 ? `<div>Parameters: ${fn.parameters.map(p => `<code>${escapeHtml(p)}</code>`).join(', ')}</div>` : ''}
+${fn.comment ? `<blockquote>${paragraphs(fn.comment)}</blockquote>` : ''}
+${showDescription ? (fn.description ? paragraphs(fn.description) : '<p class="muted">No description.</p>') : ''}
+</div>`;
+};
+
+const htmlFinding = (finding: SecurityFinding): string => `<div class="finding">
+<h3><span class="severity severity-${finding.severity}">${finding.severity.toUpperCase()}</span> ${escapeHtml(finding.title)}</h3>
+${paragraphs(finding.description)}
+<ul>${finding.evidence
+  .map(
+    evidence =>
+      `<li>${escapeHtml(evidence.kind)} <code>${escapeHtml(evidence.value)}</code>${
+        evidence.functions.length > 0
+          ? ` <span class="muted">referenced by ${evidence.functions.map(name => `<code>${escapeHtml(name)}</code>`).join(', ')}</span>`
+          : ''
+      }</li>`
+  )
+  .join('')}</ul>
+</div>`;
+
+const HTML_SECTIONS: Record<ReportSectionId, SectionRenderer> = {
+  summary: report => htmlTable(report.summary),
+  metadata: report => htmlTable(report.metadata),
+  security: report =>
+    `<p><strong>Risk score:</strong> ${report.security.score}/100 (${report.security.level})</p>` +
+    (report.security.findings.length === 0
+      ? '<p class="muted">No suspicious imports, strings or packing indicators were found.</p>'
+      : report.security.findings.map(htmlFinding).join('')),
+  annotations: report =>
+    report.annotations.length === 0
+      ? '<p class="muted">No analyst notes.</p>'
+      : report.annotations.map(fn => htmlFunction(fn, false)).join(''),
+  functions: report =>
+    (report.functions.length < report.totalFunctions
+      ? `<p class="muted">Showing ${report.functions.length} of ${report.totalFunctions} functions.</p>`
+      : '') + report.functions.map(fn => htmlFunction(fn, true)).join(''),
+  cost: report => htmlTable(report.cost),
+};
+
+const reportStyles = (template: ReportTemplate): string => `
+:root { --accent: ${template.accentColor}; }
+body { font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #222;
+  max-width: 960px; margin: 0 auto; padding: 32px; line-height: 1.5; }
+h1 { color: var(--accent); margin-bottom: 4px; }
+h2 { border-bottom: 2px solid var(--accent); padding-bottom: 4px; margin-top: 32px; }
+h3 { margin: 16px 0 4px; font-size: 1.05em; }
+code { font-family: Consolas, 'Courier New', monospace; background: #f3f3f3; padding: 0 3px;
+  border-radius: 3px; word-break: break-all; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #e0e0e0; vertical-align: top; }
+th { width: 30%; color: #555; font-weight: 600; }
+blockquote { margin: 8px 0; padding: 4px 12px; border-left: 3px solid var(--accent); background: #f8f8f8; }
+.muted { color: #666; }
+.byline { color: #666; margin-bottom: 24px; }
+.classification { text-align: center; font-weight: bold; letter-spacing: 0.1em; padding: 4px;
+  border: 1px solid currentColor; margin-bottom: 16px; }
+.tag { display: inline-block; border: 1px solid var(--accent); color: var(--accent);
+  border-radius: 10px; padding: 0 8px; font-size: 0.85em; }
+.severity { display: inline-block; color: #fff; border-radius: 3px; padding: 0 6px; font-size: 0.8em; }
+.severity-critical, .severity-high { background: #c62828; }
+.severity-medium { background: #ef6c00; }
+.severity-low { background: #0277bd; }
+.severity-info { background: #757575; }
+.function, .finding { padding: 4px 0 8px; border-bottom: 1px dashed #e0e0e0; }
+footer { margin-top: 32px; border-top: 1px solid #e0e0e0; padding-top: 8px; color: #666; }
+
+@page { margin: 18mm 15mm; }
+@media print {
+  body { max-width: none; padding: 0; font-size: 10.5pt; }
+  h2 { break-after: avoid; }
+  h3 { break-after: avoid; }
+  .function, .finding, tr { break-inside: avoid; }
+  code, blockquote { background: none; }
+  .severity { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  /* Fixed elements repeat on every printed page */
+  .classification-print { position: fixed; left: 0; right: 0; text-align: center;
+    font-weight: bold; font-size: 9pt; }
+  .classification-print.top { top: 0; }
+  .classification-print.bottom { bottom: 0; }
+}
+@media screen { .classification-print { display: none; } }
+${(template.customCss ?? '').replace(/</g, '\\3c ')}
+`;
+
+export const renderHtmlReport = (report: AnalysisReport, template: ReportTemplate): string => {
+  const classification = template.classification ? escapeHtml(template.classification) : '';
+  const byline = [
+    template.organization,
+    `Generated ${new Date(report.generatedAt).toLocaleString()}`,
+  ]
+    .filter((part): part is string => Boolean(part))
+    .map(escapeHtml)
+    .join(' · ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)}</title>
+<style>${reportStyles(template)}</style>
+</head>
+<body>
+${
+  classification
+    ? `<div class="classification">${classification}</div>
+<div class="classification-print top">${classification}</div>
+<div class="classification-print bottom">${classification}</div>`
+    : ''
+}
+<h1>${escapeHtml(report.title)}</h1>
+<div class="byline">${byline}</div>
+${report.introduction ? paragraphs(report.introduction) : ''}
+${enabledSections(template)
+  .map(
+    id => `<section id="${id}">
+<h2>${REPORT_SECTION_LABELS[id]}</h2>
+${HTML_SECTIONS[id](report)}
+</section>`
+  )
+  .join('\n')}
+${report.footer ? `<footer>${paragraphs(report.footer)}</footer>` : ''}
+</body>
+</html>
+`;
+};
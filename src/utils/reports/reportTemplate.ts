@@ -0,0 +1,97 @@
+/**
+ * Report templates
+ * Controls which sections a report contains, in what order, and how it is branded
+ */
+
+export type ReportSectionId =
+  | 'summary'
+  | 'metadata'
+  | 'security'
+  | 'functions'
+  | 'cost'
+  | 'annotations';
+
+export interface ReportTemplate {
+  // Title and free text accept {{fileName}}, {{jobId}}, {{sha256}} and {{date}} placeholders
+  title: string;
+  organization?: string;
+  // Handling banner shown at the top and bottom of every page, e.g. "TLP:AMBER"
+  classification?: string;
+  introduction?: string;
+  footer?: string;
+  sections: Array<{ id: ReportSectionId; enabled: boolean }>;
+  // Reports on large binaries list only the most relevant functions
+  maxFunctions: number;
+  accentColor: string;
+  // Appended to the HTML report's stylesheet
+  customCss?: string;
+}
+
+export const REPORT_SECTION_LABELS: Record<ReportSectionId, string> = {
+  summary: 'Summary',
+  metadata: 'Metadata',
+  security: 'Security Findings',
+  functions: 'Functions',
+  cost: 'Cost and Tokens',
+  annotations: 'Analyst Notes',
+};
+
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+  title: 'Binary Analysis Report: {{fileName}}',
+  sections: [
+    { id: 'summary', enabled: true },
+    { id: 'metadata', enabled: true },
+    { id: 'security', enabled: true },
+    { id: 'annotations', enabled: true },
+    { id: 'functions', enabled: true },
+    { id: 'cost', enabled: true },
+  ],
+  maxFunctions: 200,
+  accentColor: '#1976d2',
+};
+
+/**
+ * Fill {{placeholder}} values; unknown placeholders are left as written
+ */
+export const fillPlaceholders = (text: string, values: Record<string, string>): string =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+
+/**
+ * Merge a stored or imported template over the defaults, dropping anything malformed.
+ * Sections missing from an older template are appended disabled.
+ */
+export const normalizeReportTemplate = (value: unknown): ReportTemplate => {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<ReportTemplate>;
+  const knownIds = Object.keys(REPORT_SECTION_LABELS) as ReportSectionId[];
+
+  const sections = Array.isArray(input.sections)
+    ? input.sections.filter(
+        (section, index, all) =>
+          knownIds.includes(section?.id) && all.findIndex(s => s?.id === section.id) === index
+      )
+    : [...DEFAULT_REPORT_TEMPLATE.sections];
+  knownIds
+    .filter(id => !sections.some(section => section.id === id))
+    .forEach(id => sections.push({ id, enabled: false }));
+
+  const text = (key: keyof ReportTemplate) =>
+    typeof input[key] === 'string' && input[key] ? { [key]: input[key] as string } : {};
+
+  return {
+    ...DEFAULT_REPORT_TEMPLATE,
+    ...text('title'),
+    ...text('organization'),
+    ...text('classification'),
+    ...text('introduction'),
+    ...text('footer'),
+    // Only plain colours, since the value is written into the HTML stylesheet
+    ...(typeof input.accentColor === 'string' &&
+      /^(#[0-9a-f]{3,8}|[a-z]+)$/i.test(input.accentColor) && { accentColor: input.accentColor }),
+    ...text('customCss'),
+    sections: sections.map(section => ({ id: section.id, enabled: section.enabled !== false })),
+    maxFunctions:
+      typeof input.maxFunctions === 'number' && input.maxFunctions > 0
+        ? Math.floor(input.maxFunctions)
+        : DEFAULT_REPORT_TEMPLATE.maxFunctions,
+  };
+};
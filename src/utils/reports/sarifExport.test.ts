@@ -0,0 +1,50 @@
+import { readFileSync } from 'node:fs';
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+import { describe, expect, it } from 'vitest';
+import { buildSarifLog } from './sarifExport';
+import { buildReportInput } from './test/fixtures';
+
+// The OASIS SARIF 2.1.0 schema, as published at SARIF_SCHEMA_URI
+const schema = JSON.parse(
+  readFileSync(new URL('./test/sarif-schema-2.1.0.json', import.meta.url), 'utf8')
+) as object;
+
+// One of the schema's language-code patterns is not a valid unicode regular expression
+const ajv = new Ajv({ allErrors: true, unicodeRegExp: false });
+addFormats(ajv);
+const validate = ajv.compile(schema);
+
+describe('buildSarifLog', () => {
+  it('produces a log that is valid against the SARIF 2.1.0 schema', () => {
+    const log = buildSarifLog(buildReportInput());
+
+    expect(validate(log), ajv.errorsText(validate.errors)).toBe(true);
+    expect(log.runs[0]?.results.length).toBeGreaterThan(0);
+  });
+
+  it('stays valid for a job known only by its status', () => {
+    const input = buildReportInput();
+    const log = buildSarifLog({ jobId: input.jobId, status: input.status });
+
+    expect(validate(log), ajv.errorsText(validate.errors)).toBe(true);
+  });
+
+  it('gives every result a rule and a location in the analyzed file', () => {
+    const [run] = buildSarifLog(buildReportInput()).runs;
+
+    run?.results.forEach(result => {
+      expect(run.tool.driver.rules[result.ruleIndex]?.id).toBe(result.ruleId);
+      expect(result.locations[0]?.physicalLocation.artifactLocation.uri).toBe(
+        run.artifacts[0]?.location.uri
+      );
+    });
+  });
+
+  it('rejects logs that break the SARIF 2.1.0 rules', () => {
+    const log = buildSarifLog(buildReportInput());
+
+    expect(validate({ ...log, version: '2.0.0' })).toBe(false);
+    expect(validate({ ...log, runs: [{ ...log.runs[0], tool: {} }] })).toBe(false);
+  });
+});
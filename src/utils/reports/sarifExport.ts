@@ -0,0 +1,216 @@
+/**
+ * SARIF export
+ * Converts security findings into a SARIF 2.1.0 log for code-scanning tools
+ */
+
+import type { FindingSeverity, SecurityFinding } from '../analysis';
+import { analyzeSecurity } from '../analysis';
+import type { ReportInput } from './reportModel';
+
+export const SARIF_SCHEMA_URI = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+interface SarifMessage {
+  text: string;
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: SarifMessage;
+  fullDescription?: SarifMessage;
+  defaultConfiguration: { level: SarifLevel };
+  properties: { tags: string[]; 'security-severity'?: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: SarifMessage;
+  locations: Array<{
+    physicalLocation: { artifactLocation: { uri: string; index: number } };
+    logicalLocations?: Array<{ name?: string; fullyQualifiedName?: string; kind?: string }>;
+  }>;
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: {
+      driver: { name: string; informationUri: string; rules: SarifRule[] };
+    };
+    artifacts: Array<{
+      location: { uri: string };
+      length?: number;
+      hashes?: Record<string, string>;
+    }>;
+    results: SarifResult[];
+    properties: Record<string, unknown>;
+  }>;
+}
+
+const SEVERITY_LEVELS: Record<FindingSeverity, SarifLevel> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+  info: 'note',
+};
+
+// GitHub code scanning ranks security results by this 0-10 score
+const SECURITY_SEVERITY: Record<FindingSeverity, string> = {
+  critical: '9.5',
+  high: '8.0',
+  medium: '5.5',
+  low: '3.0',
+  info: '1.0',
+};
+
+const ISSUE_LEVELS: Record<'error' | 'warning' | 'info', SarifLevel> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+// Each finding lists at most this many functions as locations
+const MAX_LOGICAL_LOCATIONS = 20;
+
+const findingRule = (finding: SecurityFinding): SarifRule => ({
+  id: `bin2nlp/${finding.id}`,
+  name: finding.title.replace(/[^A-Za-z0-9]+/g, ''),
+  shortDescription: { text: finding.title },
+  fullDescription: { text: finding.description },
+  defaultConfiguration: { level: SEVERITY_LEVELS[finding.severity] },
+  properties: {
+    tags: ['security', finding.category],
+    'security-severity': SECURITY_SEVERITY[finding.severity],
+  },
+});
+
+const findingMessage = (finding: SecurityFinding): string =>
+  [
+    `${finding.title}: ${finding.description}`,
+    ...finding.evidence.map(evidence => `- ${evidence.kind}: ${evidence.value}`),
+  ].join('\n');
+
+/**
+ * Build a SARIF 2.1.0 log with one result per security finding, LLM security concern and
+ * code quality issue. Results are attached to the analyzed binary; referencing functions are
+ * given as logical locations.
+ */
+export const buildSarifLog = ({ jobId, job, status }: ReportInput): SarifLog => {
+  const fileName = job?.fileName ?? `job-${jobId}`;
+  const artifactUri = encodeURIComponent(fileName);
+  const translation = job?.results?.translation;
+  const rules: SarifRule[] = [];
+  const results: SarifResult[] = [];
+
+  const addRule = (rule: SarifRule): number => {
+    const existing = rules.findIndex(candidate => candidate.id === rule.id);
+    if (existing !== -1) return existing;
+    rules.push(rule);
+    return rules.length - 1;
+  };
+
+  const location = (logicalLocations?: SarifResult['locations'][number]['logicalLocations']) => ({
+    physicalLocation: { artifactLocation: { uri: artifactUri, index: 0 } },
+    ...(logicalLocations && logicalLocations.length > 0 && { logicalLocations }),
+  });
+
+  const security = status.results ? analyzeSecurity(status.results) : undefined;
+  security?.findings.forEach(finding => {
+    const rule = findingRule(finding);
+    const ruleIndex = addRule(rule);
+    const functions = Array.from(new Set(finding.evidence.flatMap(evidence => evidence.functions)));
+    results.push({
+      ruleId: rule.id,
+      ruleIndex,
+      level: SEVERITY_LEVELS[finding.severity],
+      message: { text: findingMessage(finding) },
+      locations: [
+        location(
+          functions.slice(0, MAX_LOGICAL_LOCATIONS).map(name => ({ name, kind: 'function' }))
+        ),
+      ],
+      properties: { category: finding.category, evidence: finding.evidence },
+    });
+  });
+
+  translation?.securityConcerns.forEach(concern => {
+    const ruleIndex = addRule({
+      id: 'bin2nlp/llm-security-concern',
+      name: 'LlmSecurityConcern',
+      shortDescription: { text: 'Security concern raised by the LLM translation' },
+      defaultConfiguration: { level: 'warning' },
+      properties: { tags: ['security', 'llm'], 'security-severity': SECURITY_SEVERITY.medium },
+    });
+    results.push({
+      ruleId: 'bin2nlp/llm-security-concern',
+      ruleIndex,
+      level: 'warning',
+      message: { text: concern },
+      locations: [location()],
+    });
+  });
+
+  translation?.codeQuality.issues.forEach(issue => {
+    const ruleId = `bin2nlp/code-quality-${issue.type}`;
+    const ruleIndex = addRule({
+      id: ruleId,
+      name: `CodeQuality${issue.type.charAt(0).toUpperCase()}${issue.type.slice(1)}`,
+      shortDescription: { text: `Code quality ${issue.type}` },
+      defaultConfiguration: { level: ISSUE_LEVELS[issue.type] },
+      properties: { tags: ['quality'] },
+    });
+    results.push({
+      ruleId,
+      ruleIndex,
+      level: ISSUE_LEVELS[issue.type],
+      message: { text: issue.message },
+      locations: [location(issue.location ? [{ fullyQualifiedName: issue.location }] : undefined)],
+    });
+  });
+
+  const hashes =
+    job?.hashes &&
+    Object.fromEntries(
+      Object.entries({
+        'sha-256': job.hashes.sha256,
+        'sha-1': job.hashes.sha1,
+        md5: job.hashes.md5,
+      }).filter(([, value]) => Boolean(value))
+    );
+
+  return {
+    $schema: SARIF_SCHEMA_URI,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'bin2nlp',
+            informationUri: 'https://github.com/Onegaishimas/bin2nlp-ui',
+            rules,
+          },
+        },
+        artifacts: [
+          {
+            location: { uri: artifactUri },
+            ...(job?.fileSize && { length: job.fileSize }),
+            ...(hashes && { hashes }),
+          },
+        ],
+        results,
+        properties: {
+          jobId,
+          ...(security && { riskScore: security.score, riskLevel: security.level }),
+          ...(translation?.codeQuality && { codeQualityScore: translation.codeQuality.score }),
+        },
+      },
+    ],
+  };
+};
@@ -0,0 +1,110 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+import { describe, expect, it } from 'vitest';
+import { buildStixBundle } from './stixExport';
+import { buildReportInput } from './test/fixtures';
+
+// The OASIS cti-stix2-json-schemas for STIX 2.1. Schemas refer to each other by relative paths
+// under this base, so every one of them is loaded.
+const SCHEMA_BASE =
+  'http://raw.githubusercontent.com/oasis-open/cti-stix2-json-schemas/stix2.1/schemas/';
+const schemaDir = new URL('./test/stix-2.1-schemas/', import.meta.url);
+
+// The schemas use keywords Ajv's strict mode does not know, and patterns that are not valid
+// unicode regular expressions
+const ajv = new Ajv({ allErrors: true, strict: false, unicodeRegExp: false });
+addFormats(ajv);
+readdirSync(schemaDir, { recursive: true, encoding: 'utf8' })
+  .filter(path => path.endsWith('.json'))
+  .forEach(path => ajv.addSchema(JSON.parse(readFileSync(new URL(path, schemaDir), 'utf8'))));
+
+const getValidator = (path: string) => {
+  const validator = ajv.getSchema(`${SCHEMA_BASE}${path}`);
+  if (!validator) throw new Error(`Missing STIX schema ${path}`);
+  return validator;
+};
+
+const validateBundle = getValidator('common/bundle.json');
+
+// The bundle schema does not list these types. Its fallback for unlisted types wants an object
+// to match exactly one of the SDO and SCO cores, which an SDO never does, so the bundle is
+// checked without them.
+const UNLISTED_IN_BUNDLE_SCHEMA = new Set(['malware-analysis', 'note']);
+
+const checkBundle = <T extends { objects: { type: string }[] }>(bundle: T) => ({
+  valid: validateBundle({
+    ...bundle,
+    objects: bundle.objects.filter(object => !UNLISTED_IN_BUNDLE_SCHEMA.has(object.type)),
+  }),
+  errors: ajv.errorsText(validateBundle.errors),
+});
+
+// Every object is also checked against the schema for its own type
+const OBJECT_SCHEMAS: Record<string, string> = {
+  file: 'observables/file.json',
+  'malware-analysis': 'sdos/malware-analysis.json',
+  indicator: 'sdos/indicator.json',
+  note: 'sdos/note.json',
+  relationship: 'sros/relationship.json',
+};
+
+const validateObject = <T extends { type: string }>(object: T) => {
+  const path = OBJECT_SCHEMAS[object.type];
+  if (!path) throw new Error(`No STIX schema for ${object.type} objects`);
+  const validate = getValidator(path);
+  return { valid: validate(object), errors: ajv.errorsText(validate.errors) };
+};
+
+describe('buildStixBundle', () => {
+  it('produces a bundle that is valid against the STIX 2.1 schemas', () => {
+    const bundle = buildStixBundle(buildReportInput());
+    const { valid, errors } = checkBundle(bundle);
+
+    expect(valid, errors).toBe(true);
+    bundle.objects.forEach(object => {
+      const { valid, errors } = validateObject(object);
+      expect(valid, `${object.id}: ${errors}`).toBe(true);
+    });
+    expect(new Set(bundle.objects.map(object => object.type))).toEqual(
+      new Set(Object.keys(OBJECT_SCHEMAS))
+    );
+  });
+
+  it('stays valid for a job known only by its status', () => {
+    const input = buildReportInput();
+    const bundle = buildStixBundle({ jobId: input.jobId, status: input.status });
+
+    expect(checkBundle(bundle).valid).toBe(true);
+    bundle.objects.forEach(object => expect(validateObject(object).valid).toBe(true));
+  });
+
+  it('only refers to objects inside the bundle', () => {
+    const bundle = buildStixBundle(buildReportInput());
+    const ids = new Set(bundle.objects.map(object => object.id));
+
+    bundle.objects.forEach(object => {
+      Object.entries(object)
+        .filter(([property]) => property.endsWith('_ref') || property.endsWith('_refs'))
+        .flatMap(([, value]) => (Array.isArray(value) ? value : [value]))
+        .forEach(ref => expect(ids).toContain(ref));
+    });
+  });
+
+  it('rejects bundles and objects that break the STIX 2.1 rules', () => {
+    const bundle = buildStixBundle(buildReportInput());
+    const analysis = bundle.objects.find(object => object.type === 'malware-analysis');
+    const indicator = bundle.objects.find(object => object.type === 'indicator');
+    if (!analysis || !indicator) throw new Error('Expected an analysis and an indicator');
+
+    expect(checkBundle({ ...bundle, type: 'collection' }).valid).toBe(false);
+    expect(checkBundle({ ...bundle, id: 'bundle--not-a-uuid' }).valid).toBe(false);
+    expect(checkBundle({ ...bundle, objects: [] }).valid).toBe(false);
+    expect(
+      checkBundle({ ...bundle, objects: [{ ...indicator, created: 'yesterday' }] }).valid
+    ).toBe(false);
+    expect(validateObject({ ...analysis, created: 'yesterday' }).valid).toBe(false);
+    expect(validateObject({ ...analysis, spec_version: '3.0' }).valid).toBe(false);
+    expect(validateObject({ ...indicator, pattern: undefined }).valid).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * STIX export
+ * Packages the analyzed file, its indicators and the analysis verdict as a STIX 2.1 bundle
+ */
+
+import type { RiskLevel, SecurityFinding } from '../analysis';
+import { analyzeSecurity } from '../analysis';
+import type { FileHashes } from '../../types/analysis.types';
+import type { ReportInput } from './reportModel';
+
+export interface StixObject {
+  type: string;
+  id: string;
+  spec_version: '2.1';
+  [property: string]: unknown;
+}
+
+export interface StixBundle {
+  type: 'bundle';
+  id: string;
+  objects: StixObject[];
+}
+
+// malware-analysis `result` values from the STIX malware-result-ov vocabulary
+const RISK_RESULTS: Record<RiskLevel, string> = {
+  low: 'unknown',
+  medium: 'suspicious',
+  high: 'suspicious',
+  critical: 'malicious',
+};
+
+// Network indicators are pulled out of the matched strings, which may hold surrounding text
+const URL_PATTERN = /\b(?:https?|ftp):\/\/[^\s"'<>]+/gi;
+const IPV4_PATTERN = /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g;
+
+const stixId = (type: string): string => `${type}--${crypto.randomUUID()}`;
+
+// Values inside STIX patterns are single-quoted, with backslashes and quotes escaped
+const quote = (value: string): string => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const fileHashes = (hashes: FileHashes): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries({ 'SHA-256': hashes.sha256, 'SHA-1': hashes.sha1, MD5: hashes.md5 }).filter(
+      ([, value]) => Boolean(value)
+    )
+  );
+
+const networkIndicators = (findings: SecurityFinding[]) => {
+  const values = new Map<string, { pattern: string; name: string; finding: SecurityFinding }>();
+  findings.forEach(finding => {
+    finding.evidence
+      .filter(evidence => evidence.kind === 'string')
+      .forEach(evidence => {
+        evidence.value.match(URL_PATTERN)?.forEach(url => {
+          values.set(`url:${url}`, {
+            pattern: `[url:value = ${quote(url)}]`,
+            name: `Embedded URL ${url}`,
+            finding,
+          });
+        });
+        evidence.value.match(IPV4_PATTERN)?.forEach(ip => {
+          values.set(`ip:${ip}`, {
+            pattern: `[ipv4-addr:value = ${quote(ip)}]`,
+            name: `Embedded IP address ${ip}`,
+            finding,
+          });
+        });
+      });
+  });
+  return Array.from(values.values());
+};
+
+/**
+ * Build a STIX 2.1 bundle for a completed job: the file (with hashes), a malware-analysis
+ * object carrying the verdict, an indicator for the file hash and each embedded URL or IP
+ * address, and a note for every finding and LLM security concern.
+ */
+export const buildStixBundle = ({
+  jobId,
+  job,
+  status,
+  generatedAt = new Date(),
+}: ReportInput): StixBundle => {
+  const timestamp = generatedAt.toISOString();
+  const common = { spec_version: '2.1' as const, created: timestamp, modified: timestamp };
+  const security = status.results ? analyzeSecurity(status.results) : undefined;
+  const fileName = job?.fileName ?? `job-${jobId}`;
+
+  const file: StixObject = {
+    type: 'file',
+    id: stixId('file'),
+    spec_version: '2.1',
+    name: fileName,
+    ...(job?.fileSize && { size: job.fileSize }),
+    ...(job?.hashes && { hashes: fileHashes(job.hashes) }),
+    ...(job?.fileType && { mime_type: job.fileType }),
+  };
+
+  const analysis: StixObject = {
+    type: 'malware-analysis',
+    id: stixId('malware-analysis'),
+    ...common,
+    product: 'bin2nlp',
+    ...(job?.config.analysisDepth && { configuration_version: job.config.analysisDepth }),
+    ...(status.results?.llm_translations?.provider && {
+      modules: [`llm:${status.results.llm_translations.provider}`],
+    }),
+    ...(job?.submittedAt && { submitted: job.submittedAt }),
+    analysis_ended: status.updated_at,
+    result: security ? RISK_RESULTS[security.level] : 'unknown',
+    // The score has no standard property, so it travels as a custom one
+    ...(security && { x_bin2nlp_risk_score: security.score }),
+    sample_ref: file.id,
+    analysis_sco_refs: [file.id],
+  };
+
+  const indicators: StixObject[] = [];
+  if (job?.hashes && security && security.level !== 'low') {
+    indicators.push({
+      type: 'indicator',
+      id: stixId('indicator'),
+      ...common,
+      name: `Suspicious file ${fileName}`,
+      indicator_types: [
+        security.level === 'critical' ? 'malicious-activity' : 'anomalous-activity',
+      ],
+      pattern: `[file:hashes.'SHA-256' = ${quote(job.hashes.sha256)}]`,
+      pattern_type: 'stix',
+      valid_from: timestamp,
+    });
+  }
+  networkIndicators(security?.findings ?? []).forEach(({ pattern, name, finding }) => {
+    indicators.push({
+      type: 'indicator',
+      id: stixId('indicator'),
+      ...common,
+      name,
+      description: finding.description,
+      indicator_types: ['anomalous-activity'],
+      pattern,
+      pattern_type: 'stix',
+      valid_from: timestamp,
+    });
+  });
+
+  const relationships: StixObject[] = indicators.map(indicator => ({
+    type: 'relationship',
+    id: stixId('relationship'),
+    ...common,
+    relationship_type: 'related-to',
+    source_ref: indicator.id,
+    target_ref: analysis.id,
+  }));
+
+  const notes: StixObject[] = [
+    ...(security?.findings ?? []).map(finding => ({
+      abstract: `[${finding.severity.toUpperCase()}] ${finding.title}`,
+      content: [
+        finding.description,
+        ...finding.evidence.map(evidence => `${evidence.kind}: ${evidence.value}`),
+      ].join('\n'),
+    })),
+    ...(job?.results?.translation?.securityConcerns ?? []).map(concern => ({
+      abstract: 'LLM security concern',
+      content: concern,
+    })),
+  ].map(({ abstract, content }) => ({
+    type: 'note',
+    id: stixId('note'),
+    ...common,
+    abstract,
+    content,
+    object_refs: [analysis.id, file.id],
+  }));
+
+  return {
+    type: 'bundle',
+    id: stixId('bundle'),
+    objects: [file, analysis, ...indicators, ...relationships, ...notes],
+  };
+};
@@ -0,0 +1,96 @@
+import type { JobStatusResponse } from '../../../services/api/analysisApi';
+import type { AnalysisJob } from '../../../types/analysis.types';
+import type { ReportInput } from '../reportModel';
+
+const JOB_ID = '3f6c2a1e-8d4b-4c1a-9e7f-2b5d8a9c0e11';
+
+/**
+ * A completed job whose results trip several security rules, embed a URL and an IP address,
+ * and carry LLM security concerns and code quality issues, so every kind of exported object
+ * is produced
+ */
+export const buildReportInput = (overrides: Partial<ReportInput> = {}): ReportInput => {
+  const status: JobStatusResponse = {
+    job_id: JOB_ID,
+    status: 'completed',
+    progress_percentage: 100,
+    current_stage: 'completed',
+    worker_id: 'worker-1',
+    updated_at: '2026-10-18T10:05:12.345Z',
+    message: 'Analysis completed',
+    results: {
+      success: true,
+      function_count: 3,
+      import_count: 4,
+      string_count: 2,
+      duration_seconds: 42.5,
+      decompilation_id: 'decomp-1',
+      imports: ['VirtualAllocEx', 'WriteProcessMemory', 'CreateRemoteThread', 'InternetOpenUrlA'],
+      strings: ['http://update.example.com/payload.bin?id=7', 'connect to 203.0.113.7:4444'],
+      functions: [
+        {
+          name: 'inject',
+          address: '0x401000',
+          size: 512,
+          calls_to: ['VirtualAllocEx', 'WriteProcessMemory', 'CreateRemoteThread'],
+        },
+        { name: 'beacon', address: '0x401200', size: 256, calls_to: ['InternetOpenUrlA'] },
+        { name: 'main', address: '0x401300', size: 64, calls_to: ['inject', 'beacon'] },
+      ],
+      llm_translations: {
+        provider: 'openai',
+        translation_time: '12.3',
+        functions: [
+          {
+            function_name: 'inject',
+            description: 'Writes code into another process',
+            confidence: 0.9,
+          },
+        ],
+      },
+    },
+  };
+
+  const job: AnalysisJob = {
+    id: JOB_ID,
+    fileName: 'sample loader.exe',
+    fileSize: 48128,
+    fileType: 'application/x-msdownload',
+    status: 'completed',
+    progress: 100,
+    phase: 'completed',
+    submittedAt: '2026-10-18T10:04:30.000Z',
+    completedAt: '2026-10-18T10:05:12.345Z',
+    config: { analysisDepth: 'standard', includeComments: true, decompilerOptions: {} },
+    hashes: {
+      sha256: 'a3f1c9e0b7d24e8f9a1b2c3d4e5f60718293a4b5c6d7e8f90123456789abcdef',
+      sha1: '0f1e2d3c4b5a69788796a5b4c3d2e1f00f1e2d3c',
+      md5: '9a8b7c6d5e4f30211203f4e5d6c7b8a9',
+    },
+    results: {
+      translation: {
+        summary: 'Loader that injects a downloaded payload into another process',
+        keyFindings: ['Downloads a second stage'],
+        securityConcerns: ["Injects code into a remote process's memory"],
+        codeQuality: {
+          score: 6,
+          issues: [
+            { type: 'warning', message: 'Unchecked return value', location: 'inject' },
+            { type: 'info', message: 'Hard-coded network address' },
+          ],
+        },
+        llmProvider: 'openai',
+        model: 'gpt-4o',
+        tokensUsed: { input: 1200, output: 800 },
+      },
+    },
+  };
+
+  return {
+    jobId: JOB_ID,
+    job,
+    status,
+    generatedAt: new Date('2026-10-18T11:00:00.000Z'),
+    ...overrides,
+  };
+};
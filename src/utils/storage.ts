@@ -5,9 +5,27 @@
  * and other user preferences that should persist between sessions.
  */
 
+import { normalizeReportTemplate } from './reports';
+import type { ReportTemplate } from './reports';
+import {
+  normalizeBudgetSettings,
+  normalizeHistoryRetention,
+  normalizeNotificationSettings,
+  normalizePresetCollection,
+  normalizeRetrySettings,
+} from './analysis';
+import type {
+  BudgetSettings,
+  HistoryRetentionSettings,
+  NotificationSettings,
+  PresetCollection,
+  RetrySettings,
+} from './analysis';
+
 export interface LLMProviderConfig {
   provider: string;
   model?: string;
+  // Never written to storage; keys belong in the credential vault
   apiKey?: string;
   endpointUrl?: string;
   temperature?: number;
@@ -27,6 +45,13 @@ const STORAGE_KEYS = {
   USER_PREFERENCES: 'bin2nlp:userPreferences',
   LLM_PROVIDERS: 'bin2nlp:llmProviders',
   LAST_SESSION: 'bin2nlp:lastSession',
+  REPORT_TEMPLATE: 'bin2nlp:reportTemplate',
+  BUDGET: 'bin2nlp:budget',
+  PRESETS: 'bin2nlp:presets',
+  VAULT: 'bin2nlp:vault',
+  RETRY_SETTINGS: 'bin2nlp:retrySettings',
+  HISTORY_RETENTION: 'bin2nlp:historyRetention',
+  NOTIFICATIONS: 'bin2nlp:notifications',
 } as const;
 
 // Default configurations
@@ -80,6 +105,10 @@ function removeStorageItem(key: string): void {
   }
 }
 
+// API keys are kept encrypted in the credential vault, never in plain storage
+const withoutApiKeys = (providers: LLMProviderConfig[]): LLMProviderConfig[] =>
+  providers.map(({ apiKey: _apiKey, ...config }) => config);
+
 /**
  * User Preferences Management
  */
@@ -91,7 +120,10 @@ export const userPreferencesStorage = {
   set(preferences: Partial<UserPreferences>): void {
     const current = this.get();
     const updated = { ...current, ...preferences };
-    setStorageItem(STORAGE_KEYS.USER_PREFERENCES, updated);
+    setStorageItem(STORAGE_KEYS.USER_PREFERENCES, {
+      ...updated,
+      llmProviders: withoutApiKeys(updated.llmProviders),
+    });
   },
 
   reset(): void {
@@ -112,7 +144,27 @@ export const llmProviderStorage = {
   },
 
   set(providers: LLMProviderConfig[]): void {
-    setStorageItem(STORAGE_KEYS.LLM_PROVIDERS, providers);
+    setStorageItem(STORAGE_KEYS.LLM_PROVIDERS, withoutApiKeys(providers));
+  },
+
+  /**
+   * API keys saved in plain text by earlier versions, by provider, waiting to be moved into
+   * the credential vault
+   */
+  getApiKeys(): Record<string, string> {
+    const keys: Record<string, string> = {};
+    [...userPreferencesStorage.get().llmProviders, ...this.getAll()].forEach(config => {
+      if (config.apiKey) keys[config.provider] = config.apiKey;
+    });
+    return keys;
+  },
+
+  /**
+   * Remove the plain-text API keys once the credential vault holds them
+   */
+  clearApiKeys(): void {
+    this.set(this.getAll());
+    userPreferencesStorage.set(userPreferencesStorage.get());
   },
 
   add(config: LLMProviderConfig): void {
@@ -157,6 +209,121 @@ export const llmProviderStorage = {
   },
 };
 
+/**
+ * Report Template Management
+ */
+export const reportTemplateStorage = {
+  get(): ReportTemplate {
+    // Stored templates may predate newer sections, so always normalize
+    return normalizeReportTemplate(getStorageItem<unknown>(STORAGE_KEYS.REPORT_TEMPLATE, null));
+  },
+
+  set(template: ReportTemplate): void {
+    setStorageItem(STORAGE_KEYS.REPORT_TEMPLATE, template);
+  },
+
+  clear(): void {
+    removeStorageItem(STORAGE_KEYS.REPORT_TEMPLATE);
+  },
+};
+
+/**
+ * Budget Management
+ */
+export const budgetStorage = {
+  get(): BudgetSettings {
+    return normalizeBudgetSettings(getStorageItem<unknown>(STORAGE_KEYS.BUDGET, null));
+  },
+
+  set(settings: BudgetSettings): void {
+    setStorageItem(STORAGE_KEYS.BUDGET, settings);
+  },
+
+  clear(): void {
+    removeStorageItem(STORAGE_KEYS.BUDGET);
+  },
+};
+
+/**
+ * Analysis Preset Management
+ */
+export const presetStorage = {
+  get(): PresetCollection {
+    return normalizePresetCollection(getStorageItem<unknown>(STORAGE_KEYS.PRESETS, null));
+  },
+
+  set(collection: PresetCollection): void {
+    setStorageItem(STORAGE_KEYS.PRESETS, collection);
+  },
+
+  clear(): void {
+    removeStorageItem(STORAGE_KEYS.PRESETS);
+  },
+};
+
+/**
+ * Job Retry Settings
+ */
+export const retrySettingsStorage = {
+  get(): RetrySettings {
+    return normalizeRetrySettings(getStorageItem<unknown>(STORAGE_KEYS.RETRY_SETTINGS, null));
+  },
+
+  set(settings: RetrySettings): void {
+    setStorageItem(STORAGE_KEYS.RETRY_SETTINGS, settings);
+  },
+};
+
+/**
+ * History Retention Storage
+ * Limits applied to the job history and results kept in IndexedDB
+ */
+export const historyRetentionStorage = {
+  get(): HistoryRetentionSettings {
+    return normalizeHistoryRetention(
+      getStorageItem<unknown>(STORAGE_KEYS.HISTORY_RETENTION, null)
+    );
+  },
+
+  set(settings: HistoryRetentionSettings): void {
+    setStorageItem(STORAGE_KEYS.HISTORY_RETENTION, settings);
+  },
+};
+
+/**
+ * Notification Settings Storage
+ * Desktop notification preferences and the background polling mode
+ */
+export const notificationSettingsStorage = {
+  get(): NotificationSettings {
+    return normalizeNotificationSettings(
+      getStorageItem<unknown>(STORAGE_KEYS.NOTIFICATIONS, null)
+    );
+  },
+
+  set(settings: NotificationSettings): void {
+    setStorageItem(STORAGE_KEYS.NOTIFICATIONS, settings);
+  },
+};
+
+/**
+ * Credential Vault Storage
+ * Holds only the encrypted vault; see services/vault for the format
+ */
+export const vaultStorage = {
+  get(): unknown {
+    return getStorageItem<unknown>(STORAGE_KEYS.VAULT, null);
+  },
+
+  set(vault: unknown): void {
+    setStorageItem(STORAGE_KEYS.VAULT, vault);
+  },
+
+  clear(): void {
+    removeStorageItem(STORAGE_KEYS.VAULT);
+  },
+};
+
 /**
  * Session Management
  */
@@ -9,6 +9,7 @@ interface ImportMetaEnv {
   readonly VITE_APP_NAME: string;
   readonly VITE_LOG_LEVEL: 'debug' | 'info' | 'warn' | 'error';
   readonly VITE_POLLING_INTERVAL: string;
+  readonly VITE_JOB_UPDATES_TRANSPORT?: 'auto' | 'sse' | 'websocket' | 'polling';
 }
 
 interface ImportMeta {